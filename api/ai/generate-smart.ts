@@ -15,6 +15,7 @@ interface GenerateSmartRequest {
   tone?: string;
   includeHashtags?: boolean;
   includeCTA?: boolean;
+  timezone?: string; // IANA zone the audience reads times in
 }
 
 interface MLProfile {
@@ -61,6 +62,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       tone,
       includeHashtags = true,
       includeCTA = true,
+      timezone = 'UTC',
     } = req.body as GenerateSmartRequest;
 
     if (!userId) {
@@ -119,7 +121,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const predictedEngagement = calculatePredictedEngagement(parsed, mlProfile, platform);
 
     // Get best posting time
-    const bestTime = getBestPostingTime(mlProfile, platform);
+    const bestTime = getBestPostingTime(mlProfile, platform, timezone);
 
     return res.status(200).json({
       content: parsed.content,
@@ -363,27 +365,98 @@ function calculatePredictedEngagement(
   return Math.min(100, Math.max(0, score));
 }
 
-function getBestPostingTime(mlProfile: MLProfile | null, platform: string): { day: string; time: string } | null {
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+interface BestPostingTime {
+  day: string;
+  time: string;
+  timezone: string;
+  nextAt: number | null; // Next matching instant, ms since epoch
+}
+
+// Weekday name and hour of an instant in a zone
+function getZonedDayHour(timestamp: number, timeZone: string): { day: string; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'long',
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(timestamp));
+
+  return {
+    day: parts.find((part) => part.type === 'weekday')?.value || 'Monday',
+    hour: Number(parts.find((part) => part.type === 'hour')?.value || 0),
+  };
+}
+
+// First upcoming top-of-the-hour instant that falls on day/hour in a zone
+function findNextSlot(day: string, hour: number, timeZone: string): number | null {
+  const hourMs = 60 * 60 * 1000;
+  const start = Math.ceil(Date.now() / hourMs) * hourMs;
+
+  // Walk a little over a week so offsets that aren't whole hours still match
+  for (let i = 0; i < 8 * 24; i++) {
+    const candidate = start + i * hourMs;
+    const zoned = getZonedDayHour(candidate, timeZone);
+    if (zoned.day === day && zoned.hour === hour) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function formatHour(hour: number): string {
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const hour12 = hour > 12 ? hour - 12 : hour === 0 ? 12 : hour;
+  return `${hour12}:00 ${ampm}`;
+}
+
+function getBestPostingTime(mlProfile: MLProfile | null, platform: string, timeZone: string): BestPostingTime | null {
+  // Fall back to UTC rather than failing on an unknown zone
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    timeZone = 'UTC';
+  }
+
   if (!mlProfile?.best_posting_times?.[platform]?.length) {
-    // Default recommendations by platform
-    const defaults: Record<string, { day: string; time: string }> = {
-      instagram: { day: 'Wednesday', time: '11:00 AM' },
-      facebook: { day: 'Thursday', time: '1:00 PM' },
-      twitter: { day: 'Tuesday', time: '9:00 AM' },
-      linkedin: { day: 'Tuesday', time: '10:00 AM' },
-      youtube: { day: 'Friday', time: '5:00 PM' },
-      tiktok: { day: 'Tuesday', time: '7:00 PM' },
+    // Default recommendations by platform, in the audience's local time
+    const defaults: Record<string, { day: string; hour: number }> = {
+      instagram: { day: 'Wednesday', hour: 11 },
+      facebook: { day: 'Thursday', hour: 13 },
+      twitter: { day: 'Tuesday', hour: 9 },
+      linkedin: { day: 'Tuesday', hour: 10 },
+      youtube: { day: 'Friday', hour: 17 },
+      tiktok: { day: 'Tuesday', hour: 19 },
+    };
+    const slot = defaults[platform];
+    if (!slot) return null;
+
+    return {
+      day: slot.day,
+      time: formatHour(slot.hour),
+      timezone: timeZone,
+      nextAt: findNextSlot(slot.day, slot.hour, timeZone),
     };
-    return defaults[platform] || null;
   }
 
+  // Learned slots are recorded in UTC, so move them into the audience's zone
   const bestSlot = mlProfile.best_posting_times[platform][0];
-  const hour = bestSlot.hour;
-  const ampm = hour >= 12 ? 'PM' : 'AM';
-  const hour12 = hour > 12 ? hour - 12 : hour === 0 ? 12 : hour;
+  const nextUtc = findNextSlot(bestSlot.day, bestSlot.hour, 'UTC');
+  if (nextUtc === null || !DAY_NAMES.includes(bestSlot.day)) {
+    return {
+      day: bestSlot.day,
+      time: formatHour(bestSlot.hour),
+      timezone: 'UTC',
+      nextAt: nextUtc,
+    };
+  }
 
+  const zoned = getZonedDayHour(nextUtc, timeZone);
   return {
-    day: bestSlot.day,
-    time: `${hour12}:00 ${ampm}`,
+    day: zoned.day,
+    time: formatHour(zoned.hour),
+    timezone: timeZone,
+    nextAt: nextUtc,
   };
 }
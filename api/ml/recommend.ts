@@ -7,6 +7,30 @@ const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
 interface RecommendRequest {
   userId: string;
   platform?: string;
+  pillars?: PillarMix[];
+}
+
+// A content pillar, its target share and how many posts it already has this week
+interface PillarMix {
+  name: string;
+  targetPercent: number;
+  count: number;
+}
+
+function isPillarMix(value: unknown): value is PillarMix {
+  if (!value || typeof value !== 'object') return false;
+  const { name, targetPercent, count } = value as Record<string, unknown>;
+  return (
+    typeof name === 'string' &&
+    name.trim() !== '' &&
+    typeof targetPercent === 'number' &&
+    Number.isFinite(targetPercent) &&
+    targetPercent >= 0 &&
+    targetPercent <= 100 &&
+    typeof count === 'number' &&
+    Number.isFinite(count) &&
+    count >= 0
+  );
 }
 
 interface Recommendation {
@@ -30,6 +54,7 @@ interface WeeklyPlan {
   contentType: string;
   suggestedTime: string;
   topic?: string;
+  pillar?: string;
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
@@ -46,12 +71,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const { userId, platform } = req.body as RecommendRequest;
+    const { userId, platform, pillars } = req.body as RecommendRequest;
 
     if (!userId) {
       return res.status(400).json({ error: 'User ID is required' });
     }
 
+    if (pillars !== undefined && !(Array.isArray(pillars) && pillars.every(isPillarMix))) {
+      return res.status(400).json({ error: 'Pillars need a name, a target percent from 0 to 100 and a post count' });
+    }
+
     // Get user data
     let mlProfile: Record<string, unknown> | null = null;
     let recentPosts: Record<string, unknown>[] = [];
@@ -107,7 +136,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const recommendations = generateRecommendations(mlProfile, recentPosts, analytics, platform);
 
     // Generate weekly content plan
-    const weeklyPlan = generateWeeklyPlan(mlProfile, platform);
+    const weeklyPlan = generateWeeklyPlan(mlProfile, platform, pillars ?? []);
 
     // Calculate health score
     const healthScore = calculateHealthScore(recentPosts, analytics);
@@ -324,11 +353,15 @@ function generateRecommendations(
 
 function generateWeeklyPlan(
   mlProfile: Record<string, unknown> | null,
-  platform?: string
+  platform?: string,
+  pillars: PillarMix[] = []
 ): WeeklyPlan[] {
   const days = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
   const plan: WeeklyPlan[] = [];
 
+  // Posts per pillar so far, including the slots planned below
+  const pillarCounts = new Map(pillars.map(p => [p.name, Math.max(0, Number(p.count) || 0)]));
+
   // Default platforms if not specified
   const platforms = platform
     ? [platform]
@@ -378,11 +411,14 @@ function generateWeeklyPlan(
         }
       }
 
+      const pillar = pickPillar(pillars, pillarCounts);
+
       plan.push({
         day,
         platform: plat,
         contentType,
         suggestedTime: time,
+        pillar,
       });
     });
   });
@@ -390,6 +426,27 @@ function generateWeeklyPlan(
   return plan;
 }
 
+// The pillar furthest below its target share of everything planned so far,
+// so under-represented pillars catch up first; counts the slot it's given
+function pickPillar(pillars: PillarMix[], counts: Map<string, number>): string | undefined {
+  const targeted = pillars.filter(p => p.targetPercent > 0);
+  if (targeted.length === 0) return undefined;
+
+  const total = [...counts.values()].reduce((sum, count) => sum + count, 0) + 1;
+  let best = targeted[0];
+  let bestGap = -Infinity;
+  for (const pillar of targeted) {
+    const gap = (pillar.targetPercent / 100) * total - (counts.get(pillar.name) ?? 0);
+    if (gap > bestGap) {
+      best = pillar;
+      bestGap = gap;
+    }
+  }
+
+  counts.set(best.name, (counts.get(best.name) ?? 0) + 1);
+  return best.name;
+}
+
 function getShouldPost(platform: string, day: string): boolean {
   // Platform-specific posting schedules
   const schedules: Record<string, string[]> = {
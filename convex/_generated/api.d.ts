@@ -9,8 +9,36 @@
  */
 
 import type * as analytics from "../analytics.js";
+import type * as approvals from "../approvals.js";
+import type * as calendarFeed from "../calendarFeed.js";
+import type * as campaigns from "../campaigns.js";
+import type * as crons from "../crons.js";
+import type * as density from "../density.js";
+import type * as env from "../env.js";
+import type * as events from "../events.js";
+import type * as evergreen from "../evergreen.js";
+import type * as http from "../http.js";
+import type * as media from "../media.js";
+import type * as pillars from "../pillars.js";
 import type * as posts from "../posts.js";
+import type * as publishers_facebook from "../publishers/facebook.js";
+import type * as publishers_index from "../publishers/index.js";
+import type * as publishers_instagram from "../publishers/instagram.js";
+import type * as publishers_linkedin from "../publishers/linkedin.js";
+import type * as publishers_sandbox from "../publishers/sandbox.js";
+import type * as publishers_shared from "../publishers/shared.js";
+import type * as publishers_tiktok from "../publishers/tiktok.js";
+import type * as publishers_twitter from "../publishers/twitter.js";
+import type * as publishers_types from "../publishers/types.js";
+import type * as publishers_youtube from "../publishers/youtube.js";
+import type * as publishing from "../publishing.js";
+import type * as queue from "../queue.js";
+import type * as revisions from "../revisions.js";
+import type * as search from "../search.js";
+import type * as scheduler from "../scheduler.js";
 import type * as seed from "../seed.js";
+import type * as tracking from "../tracking.js";
+import type * as users from "../users.js";
 
 import type {
   ApiFromModules,
@@ -20,8 +48,36 @@ import type {
 
 declare const fullApi: ApiFromModules<{
   analytics: typeof analytics;
+  approvals: typeof approvals;
+  calendarFeed: typeof calendarFeed;
+  campaigns: typeof campaigns;
+  crons: typeof crons;
+  density: typeof density;
+  env: typeof env;
+  events: typeof events;
+  evergreen: typeof evergreen;
+  http: typeof http;
+  media: typeof media;
+  pillars: typeof pillars;
   posts: typeof posts;
+  "publishers/facebook": typeof publishers_facebook;
+  "publishers/index": typeof publishers_index;
+  "publishers/instagram": typeof publishers_instagram;
+  "publishers/linkedin": typeof publishers_linkedin;
+  "publishers/sandbox": typeof publishers_sandbox;
+  "publishers/shared": typeof publishers_shared;
+  "publishers/tiktok": typeof publishers_tiktok;
+  "publishers/twitter": typeof publishers_twitter;
+  "publishers/types": typeof publishers_types;
+  "publishers/youtube": typeof publishers_youtube;
+  publishing: typeof publishing;
+  queue: typeof queue;
+  revisions: typeof revisions;
+  search: typeof search;
+  scheduler: typeof scheduler;
   seed: typeof seed;
+  tracking: typeof tracking;
+  users: typeof users;
 }>;
 
 /**
@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { query } from "./_generated/server";
+import { getNextOccurrence } from "../src/lib/recurrence";
 
 // Get dashboard stats
 export const getDashboardStats = query({
@@ -70,6 +71,7 @@ export const getDashboardStats = query({
     const posts = await ctx.db
       .query("posts")
       .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .collect();
 
     const totalPosts = posts.length;
@@ -398,10 +400,17 @@ export const getUpcomingPosts = query({
       .withIndex("by_user_status", (q) =>
         q.eq("userId", user._id).eq("status", "scheduled")
       )
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .collect();
 
-    // Filter for future posts and sort by scheduled time
+    // Filter for future posts and sort by scheduled time; recurring series
+    // show up at their next occurrence
     const upcomingPosts = scheduledPosts
+      .map((p) =>
+        p.recurrence && p.scheduledAt
+          ? { ...p, scheduledAt: getNextOccurrence(p.scheduledAt, p.recurrence, now) ?? undefined }
+          : p
+      )
       .filter((p) => p.scheduledAt && p.scheduledAt > now)
       .sort((a, b) => (a.scheduledAt || 0) - (b.scheduledAt || 0));
 
@@ -507,3 +516,99 @@ export const getRecommendations = query({
     return recommendations;
   },
 });
+
+// Per-campaign totals: post counts plus summed performance, measured against the campaign's goals
+export const getCampaignRollup = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    const campaigns = await ctx.db
+      .query("campaigns")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    // One read of the user's metrics, grouped by post, instead of a query per post
+    const performance = await ctx.db
+      .query("postPerformance")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    const performanceByPost = new Map<string, typeof performance>();
+    for (const row of performance) {
+      if (!row.postId) continue;
+      performanceByPost.set(row.postId, [...(performanceByPost.get(row.postId) ?? []), row]);
+    }
+
+    return await Promise.all(
+      campaigns.map(async (campaign) => {
+        const posts = await ctx.db
+          .query("posts")
+          .withIndex("by_campaign", (q) => q.eq("campaignId", campaign._id))
+          .filter((q) => q.eq(q.field("deletedAt"), undefined))
+          .collect();
+
+        const totals = { impressions: 0, reach: 0, likes: 0, comments: 0, shares: 0, saves: 0, clicks: 0 };
+        for (const post of posts) {
+          for (const p of performanceByPost.get(post._id) ?? []) {
+            totals.impressions += p.impressions;
+            totals.reach += p.reach;
+            totals.likes += p.likes;
+            totals.comments += p.comments;
+            totals.shares += p.shares;
+            totals.saves += p.saves;
+            totals.clicks += p.clicks;
+          }
+        }
+
+        const engagements = totals.likes + totals.comments + totals.shares + totals.saves;
+        const actuals = {
+          posts: posts.length,
+          impressions: totals.impressions,
+          engagements,
+          clicks: totals.clicks,
+        };
+
+        // Share of each goal reached so far, 0–100
+        const progress: Partial<Record<keyof typeof actuals, number>> = {};
+        for (const [key, target] of Object.entries(campaign.goals ?? {}) as [keyof typeof actuals, number | undefined][]) {
+          if (target) {
+            progress[key] = Math.min(100, Math.round((actuals[key] / target) * 100));
+          }
+        }
+
+        return {
+          campaignId: campaign._id,
+          postCount: posts.length,
+          scheduledCount: posts.filter((p) => p.status === "scheduled").length,
+          publishedCount: posts.filter((p) => p.status === "published").length,
+          ...totals,
+          engagements,
+          engagementRate: totals.impressions > 0 ? (engagements / totals.impressions) * 100 : 0,
+          goals: campaign.goals,
+          progress,
+        };
+      })
+    );
+  },
+});
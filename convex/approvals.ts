@@ -0,0 +1,542 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { syncScheduledPosts } from "./scheduler";
+
+const DEFAULT_APPROVER_ROLES = ["owner", "admin"];
+const MAX_REQUIRED_APPROVALS = 5;
+
+// Post fields whose edits need a fresh sign-off; moving the schedule doesn't
+const REVIEWED_FIELDS = [
+  "title",
+  "content",
+  "mediaUrls",
+  "mediaType",
+  "hashtags",
+  "mentions",
+  "postType",
+  "threadParts",
+  "hashtagPlacement",
+  "platforms",
+  "platformSpecificContent",
+] as const;
+
+// Empty lists, strings and objects read the same as a field that isn't set
+function reviewedValue(value: unknown): string {
+  const isEmpty =
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === "object" && !Array.isArray(value) && Object.keys(value).length === 0);
+  return isEmpty ? "" : JSON.stringify(value);
+}
+
+// Whether an edit actually changes what reviewers signed off on, not just resends it
+export function touchesReviewedFields(post: Doc<"posts">, changes: Record<string, unknown>): boolean {
+  return REVIEWED_FIELDS.some(
+    (field) => changes[field] !== undefined && reviewedValue(changes[field]) !== reviewedValue(post[field])
+  );
+}
+
+// Patch that puts a post in front of reviewers with a clean slate
+export const SUBMITTED_FOR_REVIEW = {
+  status: "pending_approval",
+  approvalState: "pending",
+  approvals: [] as Id<"users">[],
+  approvedAt: undefined,
+};
+
+function approverRoles(organization: Doc<"organizations">): string[] {
+  return organization.approverRoles ?? DEFAULT_APPROVER_ROLES;
+}
+
+function requiredApprovals(organization: Doc<"organizations">): number {
+  return organization.requiredApprovals ?? 1;
+}
+
+// Organizations a user owns or is an active member of
+async function getUserOrganizations(ctx: QueryCtx, userId: Id<"users">) {
+  const organizations = await ctx.db
+    .query("organizations")
+    .withIndex("by_owner", (q) => q.eq("ownerId", userId))
+    .collect();
+
+  const memberships = await ctx.db
+    .query("teamMembers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  for (const membership of memberships) {
+    if (membership.status !== "active" || organizations.some((o) => o._id === membership.organizationId)) {
+      continue;
+    }
+    const organization = await ctx.db.get(membership.organizationId);
+    if (organization) {
+      organizations.push(organization);
+    }
+  }
+
+  return organizations;
+}
+
+// Organization whose approval workflow covers a user's posts, if any
+async function getApprovalOrganization(ctx: QueryCtx, userId: Id<"users">) {
+  const organizations = await getUserOrganizations(ctx, userId);
+  return organizations.find((organization) => organization.approvalRequired) ?? null;
+}
+
+async function isApprover(ctx: QueryCtx, organization: Doc<"organizations">, userId: Id<"users">) {
+  if (organization.ownerId === userId) {
+    return true;
+  }
+  const membership = await ctx.db
+    .query("teamMembers")
+    .withIndex("by_org_user", (q) => q.eq("organizationId", organization._id).eq("userId", userId))
+    .first();
+  return membership?.status === "active" && approverRoles(organization).includes(membership.role);
+}
+
+/**
+ * Whether posts by this author have to be approved before they go out.
+ * Approvers' own posts skip review.
+ */
+export async function requiresApproval(ctx: QueryCtx, authorId: Id<"users">): Promise<boolean> {
+  const organization = await getApprovalOrganization(ctx, authorId);
+  return organization !== null && !(await isApprover(ctx, organization, authorId));
+}
+
+// The scheduler's check: an unapproved post under a workflow never publishes
+export async function isAwaitingApproval(ctx: QueryCtx, post: Doc<"posts">): Promise<boolean> {
+  return post.approvalState !== "approved" && (await requiresApproval(ctx, post.userId));
+}
+
+export async function recordReview(
+  ctx: MutationCtx,
+  postId: Id<"posts">,
+  userId: Id<"users">,
+  action: "submitted" | "approved" | "changes_requested" | "comment",
+  comment?: string
+) {
+  await ctx.db.insert("postReviews", {
+    postId,
+    userId,
+    action,
+    comment: comment?.trim() || undefined,
+    createdAt: Date.now(),
+  });
+}
+
+// Remove a post's review history; called when the post itself is deleted
+export async function deleteReviews(ctx: MutationCtx, postId: Id<"posts">) {
+  const reviews = await ctx.db
+    .query("postReviews")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .collect();
+
+  for (const review of reviews) {
+    await ctx.db.delete(review._id);
+  }
+}
+
+// How the user relates to a post's review: its author, one of its approvers, or neither
+async function getReviewRole(ctx: QueryCtx, post: Doc<"posts">, userId: Id<"users">) {
+  if (post.userId === userId) {
+    return "author" as const;
+  }
+  const organization = await getApprovalOrganization(ctx, post.userId);
+  if (organization && (await isApprover(ctx, organization, userId))) {
+    return { organization };
+  }
+  return null;
+}
+
+// Approval settings of the organization the user owns or administers
+export const getSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return null;
+    }
+
+    for (const organization of await getUserOrganizations(ctx, user._id)) {
+      const membership = await ctx.db
+        .query("teamMembers")
+        .withIndex("by_org_user", (q) => q.eq("organizationId", organization._id).eq("userId", user._id))
+        .first();
+      const canManage =
+        organization.ownerId === user._id ||
+        (membership?.status === "active" && (membership.role === "owner" || membership.role === "admin"));
+      if (canManage) {
+        return {
+          organizationId: organization._id,
+          organizationName: organization.name,
+          approvalRequired: organization.approvalRequired ?? false,
+          approverRoles: approverRoles(organization),
+          requiredApprovals: requiredApprovals(organization),
+        };
+      }
+    }
+
+    return null;
+  },
+});
+
+export const saveSettings = mutation({
+  args: {
+    organizationId: v.id("organizations"),
+    approvalRequired: v.boolean(),
+    approverRoles: v.array(v.string()),
+    requiredApprovals: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const organization = await ctx.db.get(args.organizationId);
+    if (!organization) {
+      throw new Error("Organization not found");
+    }
+
+    const membership = await ctx.db
+      .query("teamMembers")
+      .withIndex("by_org_user", (q) => q.eq("organizationId", organization._id).eq("userId", user._id))
+      .first();
+    const canManage =
+      organization.ownerId === user._id ||
+      (membership?.status === "active" && (membership.role === "owner" || membership.role === "admin"));
+    if (!canManage) {
+      throw new Error("Unauthorized");
+    }
+
+    if (args.approverRoles.length === 0) {
+      throw new Error("At least one role must be able to approve");
+    }
+    if (
+      !Number.isInteger(args.requiredApprovals) ||
+      args.requiredApprovals < 1 ||
+      args.requiredApprovals > MAX_REQUIRED_APPROVALS
+    ) {
+      throw new Error(`Required approvals must be between 1 and ${MAX_REQUIRED_APPROVALS}`);
+    }
+
+    await ctx.db.patch(organization._id, {
+      approvalRequired: args.approvalRequired,
+      approverRoles: args.approverRoles,
+      requiredApprovals: args.requiredApprovals,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+// Posts waiting on the user's sign-off, oldest submission first
+export const listPendingForMe = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    const pending = new Map<Id<"posts">, Doc<"posts"> & { authorName: string; requiredApprovals: number }>();
+
+    for (const organization of await getUserOrganizations(ctx, user._id)) {
+      if (!organization.approvalRequired || !(await isApprover(ctx, organization, user._id))) {
+        continue;
+      }
+
+      const members = await ctx.db
+        .query("teamMembers")
+        .withIndex("by_org", (q) => q.eq("organizationId", organization._id))
+        .collect();
+      const authorIds = new Set([organization.ownerId, ...members.filter((m) => m.status === "active").map((m) => m.userId)]);
+      authorIds.delete(user._id);
+
+      for (const authorId of authorIds) {
+        const posts = await ctx.db
+          .query("posts")
+          .withIndex("by_user_status", (q) => q.eq("userId", authorId).eq("status", "pending_approval"))
+          .filter((q) => q.eq(q.field("deletedAt"), undefined))
+          .collect();
+        const author = posts.length > 0 ? await ctx.db.get(authorId) : null;
+
+        for (const post of posts) {
+          if (!post.approvals?.includes(user._id)) {
+            pending.set(post._id, {
+              ...post,
+              authorName: author?.name ?? author?.email ?? "Unknown",
+              requiredApprovals: requiredApprovals(organization),
+            });
+          }
+        }
+      }
+    }
+
+    return [...pending.values()].sort((a, b) => a.updatedAt - b.updatedAt);
+  },
+});
+
+// Review trail of a post, oldest first, for its author and approvers
+export const getReviews = query({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+    const post = await ctx.db.get(args.postId);
+    if (!user || !post || !(await getReviewRole(ctx, post, user._id))) {
+      return [];
+    }
+
+    const reviews = await ctx.db
+      .query("postReviews")
+      .withIndex("by_post", (q) => q.eq("postId", args.postId))
+      .collect();
+
+    const names = new Map<Id<"users">, string>();
+    for (const review of reviews) {
+      if (!names.has(review.userId)) {
+        const reviewer = await ctx.db.get(review.userId);
+        names.set(review.userId, reviewer?.name ?? reviewer?.email ?? "Unknown");
+      }
+    }
+
+    return reviews.map((review) => ({ ...review, userName: names.get(review.userId)! }));
+  },
+});
+
+// Send a draft to the organization's approvers
+export const submitForReview = mutation({
+  args: {
+    postId: v.id("posts"),
+    comment: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+    if (post.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    if (!(await requiresApproval(ctx, user._id))) {
+      throw new Error("Your posts don't need approval");
+    }
+    if (post.status !== "draft" && post.status !== "failed") {
+      throw new Error("Only drafts can be submitted for review");
+    }
+
+    await ctx.db.patch(post._id, { ...SUBMITTED_FOR_REVIEW, queued: undefined, updatedAt: Date.now() });
+    await recordReview(ctx, post._id, user._id, "submitted", args.comment);
+    await syncScheduledPosts(ctx, post._id);
+  },
+});
+
+/**
+ * Sign off on a submitted post. Once enough distinct approvers have, it
+ * goes back on the schedule (or stays an approved draft if it has no
+ * upcoming time).
+ */
+export const approve = mutation({
+  args: {
+    postId: v.id("posts"),
+    comment: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    const role = await getReviewRole(ctx, post, user._id);
+    if (!role || role === "author") {
+      throw new Error("Unauthorized");
+    }
+    if (post.status !== "pending_approval") {
+      throw new Error("Post is not awaiting approval");
+    }
+
+    const approvals = [...new Set([...(post.approvals ?? []), user._id])];
+    const now = Date.now();
+    const isApproved = approvals.length >= requiredApprovals(role.organization);
+    const hasUpcomingTime = post.scheduledAt !== undefined && (post.recurrence !== undefined || post.scheduledAt > now);
+
+    await ctx.db.patch(post._id, {
+      approvals,
+      ...(isApproved
+        ? { approvalState: "approved", approvedAt: now, status: hasUpcomingTime ? "scheduled" : "draft" }
+        : {}),
+      updatedAt: now,
+    });
+    await recordReview(ctx, post._id, user._id, "approved", args.comment);
+
+    if (isApproved) {
+      await syncScheduledPosts(ctx, post._id);
+    }
+  },
+});
+
+// Send a post back to its author with what needs to change
+export const requestChanges = mutation({
+  args: {
+    postId: v.id("posts"),
+    comment: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    const role = await getReviewRole(ctx, post, user._id);
+    if (!role || role === "author") {
+      throw new Error("Unauthorized");
+    }
+    if (post.status !== "pending_approval") {
+      throw new Error("Post is not awaiting approval");
+    }
+    if (!args.comment.trim()) {
+      throw new Error("Say what needs to change");
+    }
+
+    await ctx.db.patch(post._id, {
+      status: "draft",
+      approvalState: "changes_requested",
+      approvals: [],
+      updatedAt: Date.now(),
+    });
+    await recordReview(ctx, post._id, user._id, "changes_requested", args.comment);
+  },
+});
+
+export const addComment = mutation({
+  args: {
+    postId: v.id("posts"),
+    comment: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+    if (!(await getReviewRole(ctx, post, user._id))) {
+      throw new Error("Unauthorized");
+    }
+    if (!args.comment.trim()) {
+      throw new Error("Comment is empty");
+    }
+
+    await recordReview(ctx, post._id, user._id, "comment", args.comment);
+  },
+});
@@ -0,0 +1,89 @@
+import { v } from "convex/values";
+import { internalQuery, mutation, query } from "./_generated/server";
+
+// 48 hex characters from the runtime's CSPRNG
+function generateFeedToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Secret token for the current user's calendar feed, if one was created
+export const getFeedToken = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    return user?.calendarFeedToken ?? null;
+  },
+});
+
+// Create the feed token, or replace it so old subscription URLs stop working
+export const regenerateFeedToken = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const calendarFeedToken = generateFeedToken();
+    await ctx.db.patch(user._id, { calendarFeedToken, updatedAt: Date.now() });
+    return calendarFeedToken;
+  },
+});
+
+// Scheduled posts behind a feed token, the same set posts.getScheduled returns
+export const getFeed = internalQuery({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    if (!args.token) {
+      return null;
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_calendar_feed_token", (q) => q.eq("calendarFeedToken", args.token))
+      .first();
+
+    if (!user) {
+      return null;
+    }
+
+    const posts = await ctx.db
+      .query("posts")
+      .withIndex("by_user_status", (q) => q.eq("userId", user._id).eq("status", "scheduled"))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+
+    return {
+      name: user.name ?? user.email,
+      posts: posts.sort((a, b) => (a.scheduledAt || 0) - (b.scheduledAt || 0)),
+    };
+  },
+});
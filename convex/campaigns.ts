@@ -0,0 +1,207 @@
+import { v } from "convex/values";
+import type { ObjectType } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { campaignGoalsValidator } from "./schema";
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const campaignFields = {
+  name: v.string(),
+  description: v.optional(v.string()),
+  color: v.string(),
+  startDate: v.optional(v.string()),
+  endDate: v.optional(v.string()),
+  goals: v.optional(campaignGoalsValidator),
+  tags: v.optional(v.array(v.string())),
+};
+
+type CampaignFields = ObjectType<typeof campaignFields>;
+
+// Check and tidy what the campaign form sends, before it's stored
+function readCampaignFields(fields: CampaignFields): CampaignFields {
+  const name = fields.name.trim();
+  if (!name) {
+    throw new Error("A campaign name is required");
+  }
+  if (!COLOR_PATTERN.test(fields.color)) {
+    throw new Error("Color must be a hex value like #6366f1");
+  }
+
+  const startDate = fields.startDate || undefined;
+  const endDate = fields.endDate || undefined;
+  if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+    throw new Error("Dates must be YYYY-MM-DD");
+  }
+  if (startDate && endDate && endDate < startDate) {
+    throw new Error("The campaign ends before it starts");
+  }
+
+  for (const target of Object.values(fields.goals ?? {})) {
+    if (target !== undefined && (!Number.isFinite(target) || target < 0)) {
+      throw new Error("Goals must be zero or more");
+    }
+  }
+
+  const tags = [
+    ...new Set((fields.tags ?? []).map((tag) => tag.trim().replace(/^#+/, "").toLowerCase()).filter(Boolean)),
+  ];
+
+  return {
+    name,
+    description: fields.description?.trim() || undefined,
+    color: fields.color.toLowerCase(),
+    startDate,
+    endDate,
+    goals: fields.goals,
+    tags: tags.length > 0 ? tags : undefined,
+  };
+}
+
+// Throws unless `campaignId` is one of the user's own campaigns
+export async function assertCampaignOwner(ctx: QueryCtx, userId: Id<"users">, campaignId: Id<"campaigns">) {
+  const campaign = await ctx.db.get(campaignId);
+  if (!campaign || campaign.userId !== userId) {
+    throw new Error("Campaign not found");
+  }
+}
+
+// The user's campaigns, latest first
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    const campaigns = await ctx.db
+      .query("campaigns")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    // Undated campaigns sort by when they were created
+    return campaigns.sort((a, b) =>
+      (b.startDate ?? new Date(b.createdAt).toISOString()).localeCompare(
+        a.startDate ?? new Date(a.createdAt).toISOString()
+      )
+    );
+  },
+});
+
+export const create = mutation({
+  args: campaignFields,
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("campaigns", {
+      userId: user._id,
+      ...readCampaignFields(args),
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const update = mutation({
+  args: {
+    campaignId: v.id("campaigns"),
+    ...campaignFields,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const campaign = await ctx.db.get(args.campaignId);
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user || campaign.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    const { campaignId, ...fields } = args;
+    await ctx.db.patch(campaignId, { ...readCampaignFields(fields), updatedAt: Date.now() });
+    return campaignId;
+  },
+});
+
+// Delete a campaign; its posts stay, just without a campaign
+export const remove = mutation({
+  args: { campaignId: v.id("campaigns") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const campaign = await ctx.db.get(args.campaignId);
+    if (!campaign) {
+      throw new Error("Campaign not found");
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user || campaign.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    const posts = await ctx.db
+      .query("posts")
+      .withIndex("by_campaign", (q) => q.eq("campaignId", args.campaignId))
+      .collect();
+
+    for (const post of posts) {
+      await ctx.db.patch(post._id, { campaignId: undefined });
+    }
+    await ctx.db.delete(args.campaignId);
+
+    return { unassigned: posts.length };
+  },
+});
@@ -0,0 +1,50 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Publish scheduled posts once their time comes due
+crons.interval(
+  "dispatch scheduled posts",
+  { minutes: 1 },
+  internal.scheduler.dispatchDuePosts,
+  {}
+);
+
+// Queue upcoming occurrences of recurring posts
+crons.interval(
+  "materialize recurring posts",
+  { hours: 1 },
+  internal.scheduler.materializeRecurringPosts
+);
+
+// Fill empty slots from the evergreen library
+crons.interval(
+  "recycle evergreen posts",
+  { hours: 6 },
+  internal.evergreen.recycleEvergreenPosts
+);
+
+// Keep postPerformance fresh for recently published posts
+crons.interval(
+  "refresh post metrics",
+  { hours: 1 },
+  internal.tracking.refreshPostMetrics
+);
+
+// Delete posts that have sat in the trash for 30 days
+crons.interval(
+  "purge trashed posts",
+  { hours: 24 },
+  internal.posts.purgeTrash
+);
+
+// Delete per-platform crops no post uses any more
+crons.interval(
+  "prune unused crops",
+  { hours: 24 },
+  internal.media.pruneCrops,
+  {}
+);
+
+export default crons;
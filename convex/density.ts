@@ -0,0 +1,316 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { syncScheduledPosts } from "./scheduler";
+import { reshuffleQueue } from "./queue";
+import { recordRevision } from "./revisions";
+import {
+  DEFAULT_DENSITY_RULES,
+  findDensityConflicts,
+  getDensityRule,
+  spreadOut,
+  type DensityEntry,
+  type DensityRule,
+} from "../src/lib/density";
+import { getOccurrences } from "../src/lib/recurrence";
+import { shiftDateKey, zonedTimeToUtc } from "../src/lib/timezone";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SPREAD_HORIZON_DAYS = 15; // Covers how far the auto-fix may push a post
+
+async function loadDensityRules(ctx: QueryCtx, userId: Id<"users">): Promise<DensityRule[]> {
+  const rows = await ctx.db
+    .query("densityRules")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+
+  return rows.map((row) => ({
+    platform: row.platform,
+    maxPerHour: row.maxPerHour,
+    maxPerDay: row.maxPerDay,
+    minGapMinutes: row.minGapMinutes,
+  }));
+}
+
+// Scheduled posts going out between `from` and `to`, recurring series expanded
+async function loadScheduledPosts(ctx: QueryCtx, userId: Id<"users">, from: number, to: number) {
+  const posts = await ctx.db
+    .query("posts")
+    .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "scheduled"))
+    .filter((q) => q.eq(q.field("deletedAt"), undefined))
+    .collect();
+
+  return posts.flatMap((post) => {
+    if (!post.scheduledAt) return [];
+    const times = post.recurrence
+      ? getOccurrences(post.scheduledAt, post.recurrence, from, to)
+      : post.scheduledAt >= from && post.scheduledAt <= to
+      ? [post.scheduledAt]
+      : [];
+    return times.map((at) => ({ post, at }));
+  });
+}
+
+function toEntries(scheduled: Array<{ post: Doc<"posts">; at: number }>): DensityEntry[] {
+  return scheduled.flatMap(({ post, at }) => post.platforms.map((platform) => ({ postId: post._id, platform, at })));
+}
+
+/**
+ * Density rules a post would break going out at `at`, against everything
+ * else the user has scheduled around then
+ */
+export async function checkPostDensity(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  post: { postId?: Id<"posts">; platforms: string[]; at: number }
+) {
+  const rules = await loadDensityRules(ctx, user._id);
+  const scheduled = await loadScheduledPosts(ctx, user._id, post.at - 2 * DAY_MS, post.at + 2 * DAY_MS);
+  const others = toEntries(scheduled.filter((s) => s.post._id !== post.postId));
+  return findDensityConflicts({ platforms: post.platforms, at: post.at }, others, rules, user.timezone ?? "UTC");
+}
+
+// Refuse a schedule change that breaks a density rule, unless the caller has accepted the warning
+export async function enforcePostDensity(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  post: { postId?: Id<"posts">; platforms: string[]; at: number }
+) {
+  const conflicts = await checkPostDensity(ctx, user, post);
+  if (conflicts.length > 0) {
+    throw new Error(`Posting density: ${conflicts[0].message}`);
+  }
+}
+
+// Density limits for every platform, the user's own or the defaults
+export const getRules = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    const saved = user ? await loadDensityRules(ctx, user._id) : [];
+    return DEFAULT_DENSITY_RULES.map((defaults) => ({
+      ...getDensityRule(saved, defaults.platform),
+      isDefault: !saved.some((rule) => rule.platform === defaults.platform),
+    }));
+  },
+});
+
+// Warnings for a post about to be scheduled, for the editor
+export const check = query({
+  args: {
+    postId: v.optional(v.id("posts")),
+    platforms: v.array(v.string()),
+    scheduledAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    return await checkPostDensity(ctx, user, {
+      postId: args.postId,
+      platforms: args.platforms,
+      at: args.scheduledAt,
+    });
+  },
+});
+
+/**
+ * Warnings for a batch of posts about to be imported, in order: each is
+ * checked against the existing schedule and the batch's earlier posts,
+ * as creating them one after another would
+ */
+export const checkMany = query({
+  args: {
+    posts: v.array(v.object({ platforms: v.array(v.string()), scheduledAt: v.number() })),
+  },
+  handler: async (ctx, args) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user || args.posts.length === 0) {
+      return args.posts.map(() => []);
+    }
+
+    const times = args.posts.map((post) => post.scheduledAt);
+    const rules = await loadDensityRules(ctx, user._id);
+    const others = toEntries(
+      await loadScheduledPosts(ctx, user._id, Math.min(...times) - 2 * DAY_MS, Math.max(...times) + 2 * DAY_MS)
+    );
+    const timeZone = user.timezone ?? "UTC";
+
+    return args.posts.map((post, index) => {
+      const conflicts = findDensityConflicts({ platforms: post.platforms, at: post.scheduledAt }, others, rules, timeZone);
+      others.push(...post.platforms.map((platform) => ({ postId: `import-${index}`, platform, at: post.scheduledAt })));
+      return conflicts;
+    });
+  },
+});
+
+// Replace a platform's limits; leaving every limit out turns its checks off
+export const saveRule = mutation({
+  args: {
+    platform: v.string(),
+    maxPerHour: v.optional(v.number()),
+    maxPerDay: v.optional(v.number()),
+    minGapMinutes: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    for (const limit of [args.maxPerHour, args.maxPerDay, args.minGapMinutes]) {
+      if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+        throw new Error("Limits must be whole numbers of zero or more");
+      }
+    }
+    if ((args.maxPerHour !== undefined && args.maxPerHour < 1) || (args.maxPerDay !== undefined && args.maxPerDay < 1)) {
+      throw new Error("Allow at least one post per hour and per day");
+    }
+
+    const rows = await ctx.db
+      .query("densityRules")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+    const existing = rows.find((row) => row.platform === args.platform);
+
+    const rule = {
+      maxPerHour: args.maxPerHour,
+      maxPerDay: args.maxPerDay,
+      minGapMinutes: args.minGapMinutes,
+      updatedAt: Date.now(),
+    };
+
+    if (existing) {
+      await ctx.db.patch(existing._id, rule);
+      return existing._id;
+    }
+    return await ctx.db.insert("densityRules", { userId: user._id, platform: args.platform, ...rule });
+  },
+});
+
+/**
+ * Move one-off posts on an overloaded day (YYYY-MM-DD in the user's
+ * timezone) later until no rule is broken. Recurring series and posts
+ * already due stay where they are.
+ */
+export const spreadDay = mutation({
+  args: {
+    date: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const timeZone = user.timezone ?? "UTC";
+    const now = Date.now();
+    const dayStart = zonedTimeToUtc(args.date, "00:00", timeZone);
+    const dayEnd = zonedTimeToUtc(shiftDateKey(args.date, 1), "00:00", timeZone);
+
+    const rules = await loadDensityRules(ctx, user._id);
+    const scheduled = await loadScheduledPosts(ctx, user._id, dayStart - DAY_MS, dayEnd + SPREAD_HORIZON_DAYS * DAY_MS);
+
+    const moves = spreadOut(
+      scheduled.map(({ post, at }) => ({
+        postId: post._id,
+        platforms: post.platforms,
+        at,
+        movable: !post.recurrence && at >= dayStart && at < dayEnd && at > now,
+      })),
+      rules,
+      timeZone
+    );
+
+    let requeue = false;
+    for (const [postId, scheduledAt] of moves) {
+      const post = scheduled.find((s) => s.post._id === postId)!.post;
+      await ctx.db.patch(post._id, { scheduledAt, queued: undefined, updatedAt: now });
+      await recordRevision(ctx, post, user._id);
+      await syncScheduledPosts(ctx, post._id);
+      requeue = requeue || !!post.queued;
+    }
+
+    // Moved queued posts are pinned now, so their slots open up
+    if (requeue) {
+      await reshuffleQueue(ctx, user._id);
+    }
+
+    return { moved: moves.size };
+  },
+});
@@ -0,0 +1,7 @@
+// Provided by the Convex runtime; the app tsconfig, which also checks these files, doesn't load Node types
+declare const process: { env: Record<string, string | undefined> };
+
+// A deployment environment variable, or undefined when it isn't set
+export function getEnv(name: string): string | undefined {
+  return process.env[name];
+}
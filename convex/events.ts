@@ -0,0 +1,280 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { getObservances, OBSERVANCES_SOURCE } from "../src/lib/observances";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_EVENT_DAYS = 31; // Longer events only show from the day they start in range
+const MAX_IMPORT_BATCH = 500;
+
+const importedEventValidator = v.object({
+  uid: v.string(),
+  title: v.string(),
+  description: v.optional(v.string()),
+  startAt: v.number(),
+  endAt: v.optional(v.number()),
+  allDay: v.boolean(),
+});
+
+type ImportedEvent = typeof importedEventValidator.type;
+
+// Insert events into a source, replacing any with the same uid
+async function upsertEvents(ctx: MutationCtx, userId: Id<"users">, source: string, events: ImportedEvent[]) {
+  const existing = await ctx.db
+    .query("calendarEvents")
+    .withIndex("by_user_source", (q) => q.eq("userId", userId).eq("source", source))
+    .collect();
+  const byUid = new Map(existing.map((event) => [event.uid, event]));
+
+  const now = Date.now();
+  let created = 0;
+  let updated = 0;
+
+  for (const event of events) {
+    const current = byUid.get(event.uid);
+    if (current) {
+      await ctx.db.patch(current._id, {
+        title: event.title,
+        description: event.description,
+        startAt: event.startAt,
+        endAt: event.endAt,
+        allDay: event.allDay,
+      });
+      updated++;
+    } else {
+      const eventId = await ctx.db.insert("calendarEvents", { userId, source, ...event, createdAt: now });
+      byUid.set(event.uid, { _id: eventId, _creationTime: now, userId, source, ...event, createdAt: now });
+      created++;
+    }
+  }
+
+  return { created, updated };
+}
+
+// Events overlapping a time range, for the calendar overlay
+export const list = query({
+  args: {
+    from: v.number(),
+    to: v.number(),
+  },
+  handler: async (ctx, args) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    const events = await ctx.db
+      .query("calendarEvents")
+      .withIndex("by_user_start", (q) =>
+        q.eq("userId", user._id).gte("startAt", args.from - MAX_EVENT_DAYS * DAY_MS).lt("startAt", args.to)
+      )
+      .collect();
+
+    return events.filter((event) => (event.endAt ?? event.startAt + 1) > args.from);
+  },
+});
+
+// Next few events, for picking a topic in the Copilot
+export const getUpcoming = query({
+  args: {
+    days: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    // Start of today in UTC so today's all-day events are still included
+    const now = Date.now();
+    const from = now - (now % DAY_MS);
+
+    return await ctx.db
+      .query("calendarEvents")
+      .withIndex("by_user_start", (q) =>
+        q.eq("userId", user._id).gte("startAt", from).lt("startAt", now + (args.days ?? 60) * DAY_MS)
+      )
+      .take(20);
+  },
+});
+
+// Imported calendars and how many events each holds
+export const getSources = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    const events = await ctx.db
+      .query("calendarEvents")
+      .withIndex("by_user_source", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const counts = new Map<string, number>();
+    for (const event of events) {
+      counts.set(event.source, (counts.get(event.source) ?? 0) + 1);
+    }
+
+    return [...counts].map(([source, count]) => ({ source, count }));
+  },
+});
+
+// Add events parsed from an .ics file; large files are sent in several batches
+export const importEvents = mutation({
+  args: {
+    source: v.string(),
+    events: v.array(importedEventValidator),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const source = args.source.trim();
+    if (!source) {
+      throw new Error("A calendar name is required");
+    }
+
+    if (args.events.length > MAX_IMPORT_BATCH) {
+      throw new Error(`Import at most ${MAX_IMPORT_BATCH} events at a time`);
+    }
+
+    return await upsertEvents(ctx, user._id, source, args.events);
+  },
+});
+
+// Add the bundled holidays and observances for this year and next
+export const addObservances = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const year = new Date().getUTCFullYear();
+    const events = [year, year + 1].flatMap((y) =>
+      getObservances(y).map((observance) => {
+        const startAt = Date.parse(`${observance.date}T00:00:00Z`);
+        return {
+          uid: `${observance.key}-${y}`,
+          title: observance.title,
+          startAt,
+          endAt: startAt + DAY_MS,
+          allDay: true,
+        };
+      })
+    );
+
+    return await upsertEvents(ctx, user._id, OBSERVANCES_SOURCE, events);
+  },
+});
+
+// Delete every event imported from a source
+export const removeSource = mutation({
+  args: {
+    source: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const events = await ctx.db
+      .query("calendarEvents")
+      .withIndex("by_user_source", (q) => q.eq("userId", user._id).eq("source", args.source))
+      .collect();
+
+    for (const event of events) {
+      await ctx.db.delete(event._id);
+    }
+
+    return { removed: events.length };
+  },
+});
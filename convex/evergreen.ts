@@ -0,0 +1,589 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { syncScheduledPosts } from "./scheduler";
+import { queuedFirstComment } from "./posts";
+import { postSearchText } from "./search";
+import { recordReview, requiresApproval } from "./approvals";
+import { getEnv } from "./env";
+import { getOccurrences } from "../src/lib/recurrence";
+import { getZonedParts, zonedDateTimeToUtc } from "../src/lib/timezone";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOOKAHEAD_DAYS = 7; // How far ahead empty slots get filled
+const SLOT_WINDOW_MS = 60 * 60 * 1000; // A post this close to a slot occupies it
+
+// Each repost asks /api/ab-test for a different kind of rewrite
+const VARIATION_TYPES = ["hook", "tone", "cta", "content"] as const;
+
+type Rotation = "round_robin" | "top_performing";
+
+// Stored as a plain string; anything unknown rotates round robin
+function toRotation(value: string): Rotation {
+  return value === "top_performing" ? value : "round_robin";
+}
+
+const DEFAULT_SETTINGS = {
+  enabled: false,
+  weekdays: [1, 3, 5],
+  times: ["10:00"],
+  rotation: "round_robin" as Rotation,
+  defaultMinGapDays: 30,
+};
+
+type RecyclePlan = {
+  sourcePostId: Id<"posts">;
+  scheduledAt: number;
+  content: string;
+  platforms: string[];
+  variationType: string;
+};
+
+// Average engagement across every platform the post went out on
+async function getPerformanceSummary(ctx: QueryCtx, postId: Id<"posts">) {
+  const rows = await ctx.db
+    .query("postPerformance")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .collect();
+
+  if (rows.length === 0) {
+    return { engagementRate: 0, impressions: 0, likes: 0 };
+  }
+
+  return {
+    engagementRate:
+      Math.round((rows.reduce((sum, r) => sum + r.engagementRate, 0) / rows.length) * 100) / 100,
+    impressions: rows.reduce((sum, r) => sum + r.impressions, 0),
+    likes: rows.reduce((sum, r) => sum + r.likes, 0),
+  };
+}
+
+// Last time the post went out, original publish included
+function lastUsedAt(post: Doc<"posts">): number {
+  return Math.max(post.lastRecycledAt ?? 0, post.publishedAt ?? post.createdAt);
+}
+
+function minGapMs(post: Doc<"posts">, settings: Pick<Doc<"evergreenSettings">, "defaultMinGapDays">): number {
+  return (post.evergreenMinGapDays ?? settings.defaultMinGapDays) * DAY_MS;
+}
+
+/**
+ * Policy slot times between `from` and `to`. Slot times are wall-clock
+ * "HH:mm" values on the selected weekdays, read in the user's timezone.
+ */
+function policySlots(settings: Doc<"evergreenSettings">, timeZone: string, from: number, to: number): number[] {
+  const slots: number[] = [];
+  const start = getZonedParts(from, timeZone);
+
+  for (let day = 0; day <= Math.ceil((to - from) / DAY_MS); day++) {
+    const date = new Date(Date.UTC(start.year, start.month, start.day + day));
+    if (!settings.weekdays.includes(date.getUTCDay())) {
+      continue;
+    }
+
+    for (const time of settings.times) {
+      const [hours, minutes] = time.split(":").map(Number);
+      const slot = zonedDateTimeToUtc(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate(),
+        hours,
+        minutes,
+        timeZone
+      );
+      if (slot > from && slot <= to) {
+        slots.push(slot);
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a - b);
+}
+
+// Get the current user's rotation policy
+export const getSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return { ...DEFAULT_SETTINGS, updatedAt: 0 };
+    }
+
+    const settings = await ctx.db
+      .query("evergreenSettings")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .first();
+
+    if (!settings) {
+      return { ...DEFAULT_SETTINGS, updatedAt: 0 };
+    }
+
+    return {
+      enabled: settings.enabled,
+      weekdays: settings.weekdays,
+      times: settings.times,
+      rotation: toRotation(settings.rotation),
+      defaultMinGapDays: settings.defaultMinGapDays,
+      updatedAt: settings.updatedAt,
+    };
+  },
+});
+
+// Save the rotation policy
+export const saveSettings = mutation({
+  args: {
+    enabled: v.boolean(),
+    weekdays: v.array(v.number()),
+    times: v.array(v.string()),
+    rotation: v.string(),
+    defaultMinGapDays: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (args.times.some((time) => !/^([01]\d|2[0-3]):[0-5]\d$/.test(time))) {
+      throw new Error("Slot times must be HH:mm");
+    }
+    if (args.defaultMinGapDays < 1) {
+      throw new Error("Minimum gap must be at least one day");
+    }
+
+    const existing = await ctx.db
+      .query("evergreenSettings")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .first();
+
+    const settings = { ...args, updatedAt: Date.now() };
+
+    if (existing) {
+      await ctx.db.patch(existing._id, settings);
+      return existing._id;
+    }
+
+    return await ctx.db.insert("evergreenSettings", { userId: user._id, ...settings });
+  },
+});
+
+// Evergreen library with performance and the next time each post may go out again
+export const getLibrary = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    const settings = await ctx.db
+      .query("evergreenSettings")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .first();
+
+    const posts = await ctx.db
+      .query("posts")
+      .withIndex("by_user_evergreen", (q) => q.eq("userId", user._id).eq("evergreen", true))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+
+    return await Promise.all(
+      posts.map(async (post) => ({
+        ...post,
+        performance: await getPerformanceSummary(ctx, post._id),
+        nextEligibleAt: lastUsedAt(post) + minGapMs(post, settings ?? DEFAULT_SETTINGS),
+      }))
+    );
+  },
+});
+
+// Best performing published posts that aren't in the library yet
+export const getSuggestions = query({
+  args: {
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    const performance = await ctx.db
+      .query("postPerformance")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const sorted = performance
+      .filter((p) => p.postId)
+      .sort((a, b) => b.engagementRate - a.engagementRate);
+
+    const seen = new Set<string>();
+    const suggestions = [];
+
+    for (const row of sorted) {
+      if (suggestions.length >= (args.limit ?? 5)) break;
+      if (!row.postId || seen.has(row.postId)) continue;
+      seen.add(row.postId);
+
+      const post = await ctx.db.get(row.postId);
+      // Reposts are already copies of something in the library
+      if (!post || post.evergreen || post.recycledFromId || post.status !== "published") {
+        continue;
+      }
+
+      suggestions.push({
+        ...post,
+        performance: await getPerformanceSummary(ctx, post._id),
+      });
+    }
+
+    return suggestions;
+  },
+});
+
+// Add a post to (or remove it from) the evergreen library
+export const setEvergreen = mutation({
+  args: {
+    postId: v.id("posts"),
+    evergreen: v.boolean(),
+    minGapDays: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user || post.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    if (args.evergreen && post.status !== "published") {
+      throw new Error("Only published posts can be recycled");
+    }
+    if (args.minGapDays !== undefined && args.minGapDays < 1) {
+      throw new Error("Minimum gap must be at least one day");
+    }
+
+    await ctx.db.patch(args.postId, {
+      evergreen: args.evergreen,
+      evergreenMinGapDays: args.minGapDays ?? post.evergreenMinGapDays,
+      updatedAt: Date.now(),
+    });
+
+    return args.postId;
+  },
+});
+
+/**
+ * Match empty policy slots with evergreen posts for every user that has
+ * rotation turned on. A slot is empty when nothing else is scheduled
+ * within an hour of it.
+ */
+export const planRecycling = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<RecyclePlan[]> => {
+    const now = Date.now();
+    const horizon = now + LOOKAHEAD_DAYS * DAY_MS;
+
+    const policies = await ctx.db
+      .query("evergreenSettings")
+      .withIndex("by_enabled", (q) => q.eq("enabled", true))
+      .collect();
+
+    const plans: RecyclePlan[] = [];
+
+    for (const settings of policies) {
+      const user = await ctx.db.get(settings.userId);
+      const slots = policySlots(settings, user?.timezone ?? "UTC", now, horizon);
+      if (slots.length === 0) {
+        continue;
+      }
+
+      // Everything already on the calendar, recurring series expanded
+      const scheduled = await ctx.db
+        .query("posts")
+        .withIndex("by_user_status", (q) => q.eq("userId", settings.userId).eq("status", "scheduled"))
+        .filter((q) => q.eq(q.field("deletedAt"), undefined))
+        .collect();
+
+      const busy: number[] = [];
+      for (const post of scheduled) {
+        if (!post.scheduledAt) continue;
+        if (post.recurrence) {
+          busy.push(...getOccurrences(post.scheduledAt, post.recurrence, now - SLOT_WINDOW_MS, horizon + SLOT_WINDOW_MS));
+        } else {
+          busy.push(post.scheduledAt);
+        }
+      }
+
+      const library = await ctx.db
+        .query("posts")
+        .withIndex("by_user_evergreen", (q) => q.eq("userId", settings.userId).eq("evergreen", true))
+        .filter((q) => q.eq(q.field("deletedAt"), undefined))
+        .collect();
+
+      const candidates = await Promise.all(
+        library
+          .filter((post) => post.status === "published")
+          .map(async (post) => ({
+            post,
+            lastUsed: lastUsedAt(post),
+            recycleCount: post.recycleCount ?? 0,
+            engagementRate: (await getPerformanceSummary(ctx, post._id)).engagementRate,
+          }))
+      );
+
+      for (const slot of slots) {
+        if (busy.some((at) => Math.abs(at - slot) < SLOT_WINDOW_MS)) {
+          continue;
+        }
+
+        const eligible = candidates
+          .filter((c) => slot - c.lastUsed >= minGapMs(c.post, settings))
+          .sort((a, b) =>
+            settings.rotation === "top_performing"
+              ? b.engagementRate - a.engagementRate || a.lastUsed - b.lastUsed
+              : a.lastUsed - b.lastUsed
+          );
+
+        const pick = eligible[0];
+        if (!pick) {
+          continue;
+        }
+
+        plans.push({
+          sourcePostId: pick.post._id,
+          scheduledAt: slot,
+          content: pick.post.content,
+          platforms: pick.post.platforms,
+          variationType: VARIATION_TYPES[pick.recycleCount % VARIATION_TYPES.length],
+        });
+
+        // Later slots in this run see the post as already used
+        pick.lastUsed = slot;
+        pick.recycleCount++;
+        busy.push(slot);
+      }
+    }
+
+    return plans;
+  },
+});
+
+// Ask the A/B test generator for a rewrite so reposts aren't verbatim duplicates
+async function generateVariation(content: string, platform: string, variationType: string): Promise<string> {
+  const appUrl = getEnv("APP_URL");
+  if (!appUrl) {
+    throw new Error("APP_URL is not configured");
+  }
+
+  const response = await fetch(`${appUrl.replace(/\/$/, "")}/api/ab-test`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action: "generate", content, platform, types: [variationType] }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Variation request failed (${response.status}): ${await response.text()}`);
+  }
+
+  const data = (await response.json()) as { variants?: Array<{ content?: string }> };
+  const variant = data.variants?.find(
+    (variant) => variant.content && variant.content.trim() !== content.trim()
+  );
+  if (!variant?.content) {
+    throw new Error("No distinct variation was generated");
+  }
+
+  return variant.content;
+}
+
+// Fill empty calendar slots from the evergreen library (run by cron)
+export const recycleEvergreenPosts = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ scheduled: number; skipped: number }> => {
+    const plans: RecyclePlan[] = await ctx.runQuery(internal.evergreen.planRecycling, {});
+
+    let scheduled = 0;
+    let skipped = 0;
+
+    for (const plan of plans) {
+      try {
+        // Each platform gets copy written for it, not the first platform's rewrite
+        const variations = [];
+        for (const platform of plan.platforms) {
+          variations.push({ platform, content: await generateVariation(plan.content, platform, plan.variationType) });
+        }
+        const postId = await ctx.runMutation(internal.evergreen.createRecycledPost, {
+          sourcePostId: plan.sourcePostId,
+          scheduledAt: plan.scheduledAt,
+          variations,
+          variationType: plan.variationType,
+        });
+        if (postId) {
+          scheduled++;
+        } else {
+          skipped++;
+        }
+      } catch (error) {
+        // Better to leave the slot empty than repost the same text
+        console.error(`Skipped recycling ${plan.sourcePostId}:`, error);
+        skipped++;
+      }
+    }
+
+    return { scheduled, skipped };
+  },
+});
+
+export const createRecycledPost = internalMutation({
+  args: {
+    sourcePostId: v.id("posts"),
+    scheduledAt: v.number(),
+    variations: v.array(v.object({ platform: v.string(), content: v.string() })), // One rewrite per platform
+    variationType: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const source = await ctx.db.get(args.sourcePostId);
+    if (!source || !source.evergreen || args.variations.length === 0) {
+      return null;
+    }
+
+    // The first platform's rewrite is the post's copy; the rest go out as per-platform overrides
+    const [main, ...others] = args.variations;
+    const platformSpecificContent: Record<string, unknown> = { ...source.platformSpecificContent };
+    for (const variation of others) {
+      platformSpecificContent[variation.platform] = {
+        ...(platformSpecificContent[variation.platform] as Record<string, unknown> | undefined),
+        content: variation.content,
+      };
+    }
+
+    // The library or policy may have changed while the variation was generated
+    const settings = await ctx.db
+      .query("evergreenSettings")
+      .withIndex("by_user", (q) => q.eq("userId", source.userId))
+      .first();
+
+    if (!settings?.enabled || args.scheduledAt - lastUsedAt(source) < minGapMs(source, settings)) {
+      return null;
+    }
+
+    const now = Date.now();
+    // A reworded repost is new copy, so it goes through review like any other
+    const needsReview = await requiresApproval(ctx, source.userId);
+
+    const postId = await ctx.db.insert("posts", {
+      userId: source.userId,
+      organizationId: source.organizationId,
+      title: source.title,
+      content: main.content,
+      mediaUrls: source.mediaUrls,
+      mediaType: source.mediaType,
+      hashtags: source.hashtags,
+      mentions: source.mentions,
+      hashtagPlacement: source.hashtagPlacement,
+      firstComment: queuedFirstComment({ ...source, content: main.content }),
+      searchText: postSearchText({ ...source, content: main.content }),
+      platforms: source.platforms,
+      platformSpecificContent: Object.keys(platformSpecificContent).length > 0 ? platformSpecificContent : undefined,
+      status: needsReview ? "pending_approval" : "scheduled",
+      approvalState: needsReview ? "pending" : undefined,
+      scheduledAt: args.scheduledAt,
+      recycledFromId: source._id,
+      wasAiGenerated: true,
+      aiPromptUsed: `Evergreen ${args.variationType} variation`,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await ctx.db.patch(source._id, {
+      lastRecycledAt: args.scheduledAt,
+      recycleCount: (source.recycleCount ?? 0) + 1,
+    });
+
+    if (needsReview) {
+      await recordReview(ctx, postId, source.userId, "submitted");
+    }
+    await syncScheduledPosts(ctx, postId);
+
+    return postId;
+  },
+});
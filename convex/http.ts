@@ -0,0 +1,37 @@
+import { httpRouter } from "convex/server";
+import { httpAction } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { buildPostsCalendar } from "../src/lib/ics";
+import { getEnv } from "./env";
+
+const http = httpRouter();
+
+// Subscribable iCalendar feed: /calendar.ics?token=<calendarFeedToken>
+http.route({
+  path: "/calendar.ics",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    const token = new URL(request.url).searchParams.get("token") ?? "";
+    const feed = await ctx.runQuery(internal.calendarFeed.getFeed, { token });
+
+    if (!feed) {
+      return new Response("Calendar feed not found", { status: 404 });
+    }
+
+    const body = buildPostsCalendar(feed.posts, {
+      appUrl: getEnv("APP_URL") ?? "",
+      calendarName: `SocialSync · ${feed.name}`,
+    });
+
+    return new Response(body, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="socialsync.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  }),
+});
+
+export default http;
@@ -0,0 +1,532 @@
+import { v } from "convex/values";
+import { action, internalMutation, mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { joinThreadParts, THREAD_PLATFORMS } from "../src/lib/thread";
+import { getMediaDerivatives, resolveMediaUrls } from "../src/lib/crop";
+import { assetMediaInfo, checkMediaForPlatform, mediaFailures } from "../src/lib/mediaValidation";
+import type { Platform } from "../src/lib/platformFormatter";
+
+const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
+const MAX_GENERATED_BYTES = 50 * 1024 * 1024; // Saving a generated file reads it all into the action's memory
+const GENERATOR_HOST = "replicate.delivery"; // Where the AI Studio image and video generators serve their outputs
+const ACCEPTED_TYPES = /^(image|video)\//;
+const CROP_GRACE_MS = 24 * 60 * 60 * 1000; // Leaves a crop alone while the editor that made it may still be open
+const CROP_PRUNE_BATCH = 100;
+
+function isGeneratorUrl(value: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(value);
+    return protocol === "https:" && (hostname === GENERATOR_HOST || hostname.endsWith(`.${GENERATOR_HOST}`));
+  } catch {
+    return false;
+  }
+}
+
+function cleanTags(tags: string[]): string[] | undefined {
+  const cleaned = [...new Set(tags.map((tag) => tag.trim().replace(/^#+/, "").toLowerCase()).filter(Boolean))];
+  return cleaned.length > 0 ? cleaned : undefined;
+}
+
+// The user's posts that use each media URL; trashed posts only count when `includeTrash` is set
+async function loadMediaUsage(ctx: QueryCtx, userId: Id<"users">, includeTrash = false) {
+  const posts = await ctx.db
+    .query("posts")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .filter((q) => (includeTrash ? true : q.eq(q.field("deletedAt"), undefined)))
+    .collect();
+
+  const usage = new Map<string, Doc<"posts">[]>();
+  for (const post of posts) {
+    for (const url of new Set(post.mediaUrls ?? [])) {
+      usage.set(url, [...(usage.get(url) ?? []), post]);
+    }
+  }
+  return usage;
+}
+
+type MediaPost = Pick<Doc<"posts">, "platforms" | "mediaUrls" | "postType" | "threadParts" | "platformSpecificContent">;
+
+// The media each item a post sends to a platform carries, with its crops swapped in; a chained thread sends one item per part
+function publishedMediaSets(post: MediaPost, platform: string): string[][] {
+  const parts = post.postType === "thread" ? post.threadParts ?? [] : [];
+  if (parts.length > 1) {
+    return THREAD_PLATFORMS.includes(platform)
+      ? parts.map((part) => part.mediaUrls ?? [])
+      : [joinThreadParts(parts).mediaUrls];
+  }
+  return [resolveMediaUrls(post.mediaUrls ?? [], getMediaDerivatives(post.platformSpecificContent, platform))];
+}
+
+/**
+ * Media problems that would get a post rejected on its platforms, judged by
+ * library metadata. URLs from outside the library can't be inspected here
+ * and are left to the publisher, as are posts missing media altogether.
+ */
+export async function findMediaFailures(
+  ctx: QueryCtx,
+  userId: Id<"users">,
+  post: MediaPost,
+  platforms: string[] = post.platforms
+): Promise<string[]> {
+  const sets = platforms.map((platform) => publishedMediaSets(post, platform));
+  if (!sets.flat(2).length) {
+    return [];
+  }
+
+  const assets = await ctx.db
+    .query("mediaAssets")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  const byUrl = new Map(assets.map((asset) => [asset.url, assetMediaInfo(asset)]));
+
+  return [
+    ...new Set(
+      platforms.flatMap((platform, index) =>
+        sets[index]
+          .filter((urls) => urls.length > 0)
+          .flatMap((urls) =>
+            mediaFailures([
+              checkMediaForPlatform(
+                platform as Platform,
+                urls.map((url) => byUrl.get(url) ?? { url })
+              ),
+            ])
+          )
+      )
+    ),
+  ];
+}
+
+export async function enforceMediaLimits(ctx: QueryCtx, userId: Id<"users">, post: MediaPost) {
+  const failures = await findMediaFailures(ctx, userId, post);
+  if (failures.length > 0) {
+    throw new Error(`Media: ${failures[0]}`);
+  }
+}
+
+// Upload URL for the browser to send a file to; it then calls `create` with the storage id
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+// Add an uploaded file (and the thumbnail the browser made for it) to the library; returns its id and serving URL
+export const create = mutation({
+  args: {
+    storageId: v.id("_storage"),
+    thumbnailStorageId: v.optional(v.id("_storage")),
+    name: v.string(),
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+    duration: v.optional(v.number()),
+    folder: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
+    derivedFrom: v.optional(v.id("mediaAssets")), // Set for a crop cut from another asset
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    // Type and size come from storage, not from what the browser claims
+    const file = await ctx.db.system.get(args.storageId);
+    const url = await ctx.storage.getUrl(args.storageId);
+    if (!file || !url) {
+      throw new Error("Upload not found");
+    }
+
+    // Files that aren't added to the library aren't kept either
+    const discardUpload = async () => {
+      await ctx.storage.delete(args.storageId);
+      if (args.thumbnailStorageId) {
+        await ctx.storage.delete(args.thumbnailStorageId);
+      }
+    };
+
+    const mimeType = file.contentType ?? "";
+    if (!ACCEPTED_TYPES.test(mimeType) || file.size > MAX_UPLOAD_BYTES) {
+      await discardUpload();
+      throw new Error(
+        ACCEPTED_TYPES.test(mimeType) ? "Files can be 500 MB at most" : "Only images and videos can be uploaded"
+      );
+    }
+
+    // Crops live alongside their source
+    const source = args.derivedFrom ? await ctx.db.get(args.derivedFrom) : null;
+    if (args.derivedFrom && (!source || source.userId !== user._id)) {
+      await discardUpload();
+      throw new Error("Source media not found");
+    }
+
+    const now = Date.now();
+    const assetId = await ctx.db.insert("mediaAssets", {
+      userId: user._id,
+      storageId: args.storageId,
+      url,
+      thumbnailStorageId: args.thumbnailStorageId,
+      thumbnailUrl: args.thumbnailStorageId ? (await ctx.storage.getUrl(args.thumbnailStorageId)) ?? undefined : undefined,
+      name: args.name.trim() || "Untitled",
+      mimeType,
+      size: file.size,
+      width: args.width,
+      height: args.height,
+      duration: args.duration,
+      folder: source?.folder ?? (args.folder?.trim() || undefined),
+      tags: cleanTags(args.tags ?? []),
+      source: "upload",
+      derivedFrom: args.derivedFrom,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return { assetId, url };
+  },
+});
+
+// Copy an AI Studio output into storage, since the generator's own URLs expire
+export const saveGenerated = action({
+  args: {
+    url: v.string(),
+    kind: v.union(v.literal("image"), v.literal("video")),
+    prompt: v.optional(v.string()),
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+    duration: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<Id<"mediaAssets">> => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    // Only outputs of our own generators, so this can't be pointed at arbitrary hosts
+    if (!isGeneratorUrl(args.url)) {
+      throw new Error("Only AI Studio outputs can be saved");
+    }
+
+    const response = await fetch(args.url, { redirect: "error" });
+    if (!response.ok) {
+      throw new Error(`Couldn't download the generated ${args.kind} (${response.status})`);
+    }
+    // Turn away oversized files before reading them into memory
+    if (Number(response.headers.get("content-length")) > MAX_GENERATED_BYTES) {
+      throw new Error("Generated files can be 50 MB at most");
+    }
+    const blob = await response.blob();
+    if (blob.size > MAX_GENERATED_BYTES) {
+      throw new Error("Generated files can be 50 MB at most");
+    }
+    const storageId = await ctx.storage.store(blob);
+
+    return await ctx.runMutation(internal.media.insertGenerated, {
+      tokenIdentifier: identity.tokenIdentifier,
+      storageId,
+      mimeType: blob.type || (args.kind === "video" ? "video/mp4" : "image/png"),
+      kind: args.kind,
+      prompt: args.prompt,
+      width: args.width,
+      height: args.height,
+      duration: args.duration,
+    });
+  },
+});
+
+export const insertGenerated = internalMutation({
+  args: {
+    tokenIdentifier: v.string(),
+    storageId: v.id("_storage"),
+    mimeType: v.string(),
+    kind: v.union(v.literal("image"), v.literal("video")),
+    prompt: v.optional(v.string()),
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+    duration: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", args.tokenIdentifier))
+      .first();
+
+    const file = await ctx.db.system.get(args.storageId);
+    const url = await ctx.storage.getUrl(args.storageId);
+    if (!file || !url) {
+      throw new Error("Generated file not found in storage");
+    }
+    if (!user) {
+      await ctx.storage.delete(args.storageId);
+      throw new Error("User not found");
+    }
+
+    // Same rules as uploads; whatever the URL served isn't kept if it breaks them
+    if (!ACCEPTED_TYPES.test(args.mimeType) || file.size > MAX_GENERATED_BYTES) {
+      await ctx.storage.delete(args.storageId);
+      throw new Error(
+        ACCEPTED_TYPES.test(args.mimeType) ? "Generated files can be 50 MB at most" : "Only images and videos can be saved"
+      );
+    }
+
+    const prompt = args.prompt?.trim();
+    const now = Date.now();
+    return await ctx.db.insert("mediaAssets", {
+      userId: user._id,
+      storageId: args.storageId,
+      url,
+      name: prompt ? prompt.slice(0, 60) : `Generated ${args.kind}`,
+      mimeType: args.mimeType,
+      size: file.size,
+      width: args.width,
+      height: args.height,
+      duration: args.duration,
+      source: args.kind === "video" ? "ai_video" : "ai_image",
+      prompt,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// The user's media, newest first, with how many posts use each
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    const assets = await ctx.db
+      .query("mediaAssets")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .order("desc")
+      .collect();
+    const usage = await loadMediaUsage(ctx, user._id);
+
+    return assets.map((asset) => ({ ...asset, usageCount: usage.get(asset.url)?.length ?? 0 }));
+  },
+});
+
+// Posts that use an asset
+export const getUsage = query({
+  args: { assetId: v.id("mediaAssets") },
+  handler: async (ctx, args) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    const asset = await ctx.db.get(args.assetId);
+    if (!user || !asset || asset.userId !== user._id) {
+      return [];
+    }
+
+    const usage = await loadMediaUsage(ctx, user._id);
+    return (usage.get(asset.url) ?? []).map((post) => ({
+      _id: post._id,
+      title: post.title,
+      content: post.content,
+      status: post.status,
+      scheduledAt: post.scheduledAt,
+      publishedAt: post.publishedAt,
+    }));
+  },
+});
+
+// Rename an asset or move it between folders and tags; a null folder takes it out of its folder
+export const update = mutation({
+  args: {
+    assetId: v.id("mediaAssets"),
+    name: v.optional(v.string()),
+    folder: v.optional(v.union(v.string(), v.null())),
+    tags: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const asset = await ctx.db.get(args.assetId);
+    if (!asset) {
+      throw new Error("Media not found");
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user || asset.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    const updates: Partial<Doc<"mediaAssets">> = { updatedAt: Date.now() };
+    if (args.name !== undefined) {
+      updates.name = args.name.trim() || asset.name;
+    }
+    if (args.folder !== undefined) {
+      updates.folder = args.folder?.trim() || undefined;
+    }
+    if (args.tags !== undefined) {
+      updates.tags = cleanTags(args.tags);
+    }
+
+    await ctx.db.patch(args.assetId, updates);
+    return args.assetId;
+  },
+});
+
+// Delete an asset, its crops and their files; refused while a post that hasn't gone out yet uses it
+export const remove = mutation({
+  args: { assetId: v.id("mediaAssets") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const asset = await ctx.db.get(args.assetId);
+    if (!asset) {
+      throw new Error("Media not found");
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user || asset.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    // A trashed post can still be restored, so its media has to stay
+    const usage = await loadMediaUsage(ctx, user._id, true);
+    const pending = (usage.get(asset.url) ?? []).filter((post) => post.status !== "published");
+    if (pending.length > 0) {
+      throw new Error(
+        `${pending.length === 1 ? "A post that hasn't" : `${pending.length} posts that haven't`} gone out yet ${
+          pending.length === 1 ? "uses" : "use"
+        } this`
+      );
+    }
+
+    const derivatives = await ctx.db
+      .query("mediaAssets")
+      .withIndex("by_derived_from", (q) => q.eq("derivedFrom", asset._id))
+      .collect();
+
+    for (const doc of [asset, ...derivatives]) {
+      await ctx.storage.delete(doc.storageId);
+      if (doc.thumbnailStorageId) {
+        await ctx.storage.delete(doc.thumbnailStorageId);
+      }
+      await ctx.db.delete(doc._id);
+    }
+  },
+});
+
+/**
+ * Delete crops no post points at any more: replaced by a re-crop, dropped
+ * with their source image, or made in an editor that was never saved.
+ * Trashed posts keep theirs until they're purged.
+ */
+export const pruneCrops = internalMutation({
+  args: { cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const cutoff = Date.now() - CROP_GRACE_MS;
+    const page = await ctx.db
+      .query("mediaAssets")
+      .withIndex("by_derived_from", (q) => q.gt("derivedFrom", undefined))
+      .paginate({ numItems: CROP_PRUNE_BATCH, cursor: args.cursor ?? null });
+
+    const inUse = new Map<Id<"users">, Set<string>>();
+    let pruned = 0;
+    for (const crop of page.page) {
+      if (crop.createdAt > cutoff) {
+        continue;
+      }
+
+      let urls = inUse.get(crop.userId);
+      if (!urls) {
+        const posts = await ctx.db
+          .query("posts")
+          .withIndex("by_user", (q) => q.eq("userId", crop.userId))
+          .collect();
+        urls = new Set(
+          posts.flatMap((post) =>
+            Object.keys(post.platformSpecificContent ?? {}).flatMap((platform) =>
+              getMediaDerivatives(post.platformSpecificContent, platform).map((derivative) => derivative.url)
+            )
+          )
+        );
+        inUse.set(crop.userId, urls);
+      }
+      if (urls.has(crop.url)) {
+        continue;
+      }
+
+      await ctx.storage.delete(crop.storageId);
+      if (crop.thumbnailStorageId) {
+        await ctx.storage.delete(crop.thumbnailStorageId);
+      }
+      await ctx.db.delete(crop._id);
+      pruned++;
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.media.pruneCrops, { cursor: page.continueCursor });
+    }
+    return { pruned };
+  },
+});
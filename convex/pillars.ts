@@ -0,0 +1,295 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { getOccurrences } from "../src/lib/recurrence";
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+// What "Add the starter pillars" creates
+const STARTER_PILLARS = [
+  { name: "Education", color: "#0ea5e9", targetPercent: 40 },
+  { name: "Product", color: "#6366f1", targetPercent: 25 },
+  { name: "Culture", color: "#10b981", targetPercent: 20 },
+  { name: "Promo", color: "#f59e0b", targetPercent: 15 },
+];
+
+// Throws unless `pillarId` is one of the user's own pillars
+export async function assertPillarOwner(ctx: QueryCtx, userId: Id<"users">, pillarId: Id<"contentPillars">) {
+  const pillar = await ctx.db.get(pillarId);
+  if (!pillar || pillar.userId !== userId) {
+    throw new Error("Pillar not found");
+  }
+}
+
+// The user's pillars, oldest first
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    const pillars = await ctx.db
+      .query("contentPillars")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return pillars.sort((a, b) => a.createdAt - b.createdAt);
+  },
+});
+
+/**
+ * Actual vs target mix for posts going out between `from` and `to`:
+ * published posts by when they went out, scheduled ones (every occurrence
+ * of a series) and those waiting on review by when they're due
+ */
+export const getMix = query({
+  args: {
+    from: v.number(),
+    to: v.number(), // Exclusive
+  },
+  handler: async (ctx, args) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return { pillars: [], untagged: 0, total: 0 };
+    }
+
+    const pillars = await ctx.db
+      .query("contentPillars")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const posts = await ctx.db
+      .query("posts")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+
+    const counts = new Map<string, number>();
+    let untagged = 0;
+    let total = 0;
+
+    for (const post of posts) {
+      let sends = 0;
+      if (post.status === "published") {
+        const at = post.publishedAt ?? post.scheduledAt;
+        sends = at !== undefined && at >= args.from && at < args.to ? 1 : 0;
+      } else if (
+        post.scheduledAt !== undefined &&
+        (post.status === "scheduled" || post.status === "publishing" || post.status === "pending_approval")
+      ) {
+        sends = post.recurrence
+          ? getOccurrences(post.scheduledAt, post.recurrence, args.from, args.to - 1).length
+          : post.scheduledAt >= args.from && post.scheduledAt < args.to
+          ? 1
+          : 0;
+      }
+      if (sends === 0) continue;
+
+      total += sends;
+      if (post.pillarId) {
+        counts.set(post.pillarId, (counts.get(post.pillarId) ?? 0) + sends);
+      } else {
+        untagged += sends;
+      }
+    }
+
+    return {
+      pillars: pillars
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .map((pillar) => {
+          const count = counts.get(pillar._id) ?? 0;
+          return {
+            _id: pillar._id,
+            name: pillar.name,
+            color: pillar.color,
+            targetPercent: pillar.targetPercent,
+            count,
+            actualPercent: total > 0 ? Math.round((count / total) * 100) : 0,
+          };
+        }),
+      untagged,
+      total,
+    };
+  },
+});
+
+// Create a pillar, or change one when `pillarId` is given
+export const save = mutation({
+  args: {
+    pillarId: v.optional(v.id("contentPillars")),
+    name: v.string(),
+    color: v.string(),
+    targetPercent: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const name = args.name.trim();
+    if (!name) {
+      throw new Error("A pillar name is required");
+    }
+    if (!COLOR_PATTERN.test(args.color)) {
+      throw new Error("Color must be a hex value like #6366f1");
+    }
+    if (!Number.isInteger(args.targetPercent) || args.targetPercent < 0 || args.targetPercent > 100) {
+      throw new Error("The target must be a whole percentage from 0 to 100");
+    }
+
+    const pillars = await ctx.db
+      .query("contentPillars")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    if (args.pillarId && !pillars.some((pillar) => pillar._id === args.pillarId)) {
+      throw new Error("Pillar not found");
+    }
+    if (pillars.some((pillar) => pillar._id !== args.pillarId && pillar.name.toLowerCase() === name.toLowerCase())) {
+      throw new Error(`There's already a pillar called ${name}`);
+    }
+
+    const otherTargets = pillars
+      .filter((pillar) => pillar._id !== args.pillarId)
+      .reduce((sum, pillar) => sum + pillar.targetPercent, 0);
+    if (otherTargets + args.targetPercent > 100) {
+      throw new Error(`Targets can't add up to more than 100% (${100 - otherTargets}% is left)`);
+    }
+
+    const fields = {
+      name,
+      color: args.color.toLowerCase(),
+      targetPercent: args.targetPercent,
+      updatedAt: Date.now(),
+    };
+
+    if (args.pillarId) {
+      await ctx.db.patch(args.pillarId, fields);
+      return args.pillarId;
+    }
+    return await ctx.db.insert("contentPillars", { userId: user._id, ...fields, createdAt: fields.updatedAt });
+  },
+});
+
+// Start a user with no pillars off with the usual four
+export const addStarterPillars = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const existing = await ctx.db
+      .query("contentPillars")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .first();
+
+    if (existing) {
+      throw new Error("You already have pillars");
+    }
+
+    const now = Date.now();
+    for (const [index, pillar] of STARTER_PILLARS.entries()) {
+      // Keep them in this order when listed by createdAt
+      await ctx.db.insert("contentPillars", { userId: user._id, ...pillar, createdAt: now + index, updatedAt: now });
+    }
+    return STARTER_PILLARS.length;
+  },
+});
+
+// Delete a pillar; its posts stay, just untagged
+export const remove = mutation({
+  args: { pillarId: v.id("contentPillars") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const pillar = await ctx.db.get(args.pillarId);
+    if (!pillar) {
+      throw new Error("Pillar not found");
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user || pillar.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    const posts = await ctx.db
+      .query("posts")
+      .withIndex("by_pillar", (q) => q.eq("pillarId", args.pillarId))
+      .collect();
+
+    for (const post of posts) {
+      await ctx.db.patch(post._id, { pillarId: undefined });
+    }
+    await ctx.db.delete(args.pillarId);
+
+    return { untagged: posts.length };
+  },
+});
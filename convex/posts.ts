@@ -1,12 +1,50 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
-
-// List posts with optional filters
+import { paginationOptsValidator } from "convex/server";
+import type { ObjectType } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { recurrenceValidator, threadPartValidator } from "./schema";
+import { clearScheduledPosts, syncScheduledPosts } from "./scheduler";
+import { nextQueueSlot, reshuffleQueue } from "./queue";
+import { enforcePostDensity } from "./density";
+import { enforceMediaLimits } from "./media";
+import { deleteRevisions, recordRevision } from "./revisions";
+import { postSearchText } from "./search";
+import { assertCampaignOwner } from "./campaigns";
+import { assertPillarOwner } from "./pillars";
+import { deleteReviews, recordReview, requiresApproval, SUBMITTED_FOR_REVIEW, touchesReviewedFields } from "./approvals";
+import { splitRecurrence } from "../src/lib/recurrence";
+import { splitFirstCommentHashtags } from "../src/lib/platformFormatter";
+import { shiftDateKey, toZonedDateKey, toZonedTimeValue, zonedTimeToUtc } from "../src/lib/timezone";
+
+// Hashtags a first-comment post will comment under itself once published
+export function queuedFirstComment(post: { hashtagPlacement?: string; content: string; hashtags?: string[] }) {
+  if (post.hashtagPlacement !== "first-comment") {
+    return undefined;
+  }
+  return splitFirstCommentHashtags(post.content, post.hashtags).comment || undefined;
+}
+
+/**
+ * A page of the user's posts for the content library. Status and the
+ * scheduled-time range come from indexes; a search returns matches by
+ * relevance instead of `sortBy`. Platforms can't be indexed, so that filter
+ * runs per page and pages may come back shorter than asked for. Posts in the
+ * trash are left out; `listTrash` pages through those.
+ */
 export const list = query({
   args: {
+    paginationOpts: paginationOptsValidator,
     status: v.optional(v.string()),
-    platform: v.optional(v.string()),
-    limit: v.optional(v.number()),
+    platforms: v.optional(v.array(v.string())), // Posts on any of these
+    from: v.optional(v.number()), // Scheduled at or after
+    to: v.optional(v.number()), // Scheduled before
+    search: v.optional(v.string()),
+    campaignId: v.optional(v.id("campaigns")),
+    sortBy: v.optional(v.union(v.literal("created"), v.literal("scheduled"))), // Default "created"
+    order: v.optional(v.union(v.literal("asc"), v.literal("desc"))), // Default "desc"
   },
   handler: async (ctx, args) => {
     // Try to get authenticated user, fallback to demo user
@@ -29,33 +67,89 @@ export const list = query({
     }
 
     if (!user) {
-      return [];
-    }
-
-    let postsQuery = ctx.db
-      .query("posts")
-      .withIndex("by_user", (q) => q.eq("userId", user._id))
-      .order("desc");
-
-    const posts = await postsQuery.collect();
-
-    // Apply filters in memory (Convex doesn't support multiple index filters)
-    let filtered = posts;
-
-    if (args.status) {
-      filtered = filtered.filter((p) => p.status === args.status);
+      return { page: [], isDone: true, continueCursor: "" };
     }
 
-    if (args.platform) {
-      const platform = args.platform;
-      filtered = filtered.filter((p) => p.platforms.includes(platform));
+    const userId = user._id;
+    const { status, from, to, campaignId } = args;
+    const search = args.search?.trim();
+    const order = args.order ?? "desc";
+    const hasRange = from !== undefined || to !== undefined;
+
+    let result;
+    if (search) {
+      result = await ctx.db
+        .query("posts")
+        .withSearchIndex("search_text", (q) => {
+          const matches = q.search("searchText", search).eq("userId", userId);
+          return status ? matches.eq("status", status) : matches;
+        })
+        .filter((q) =>
+          q.and(
+            q.eq(q.field("deletedAt"), undefined),
+            campaignId ? q.eq(q.field("campaignId"), campaignId) : true,
+            hasRange ? q.neq(q.field("scheduledAt"), undefined) : true,
+            from !== undefined ? q.gte(q.field("scheduledAt"), from) : true,
+            to !== undefined ? q.lt(q.field("scheduledAt"), to) : true
+          )
+        )
+        .paginate(args.paginationOpts);
+    } else if (campaignId) {
+      // Read a campaign's posts off its own index rather than scanning all of the user's
+      const query =
+        args.sortBy === "scheduled" || hasRange
+          ? ctx.db.query("posts").withIndex("by_campaign_scheduled", (q) => {
+              const base = q.eq("campaignId", campaignId);
+              const lower =
+                from !== undefined ? base.gte("scheduledAt", from) : hasRange ? base.gt("scheduledAt", undefined) : base;
+              return to !== undefined ? lower.lt("scheduledAt", to) : lower;
+            })
+          : ctx.db.query("posts").withIndex("by_campaign", (q) => q.eq("campaignId", campaignId));
+      result = await query
+        .order(order)
+        .filter((q) =>
+          q.and(
+            q.eq(q.field("userId"), userId),
+            q.eq(q.field("deletedAt"), undefined),
+            status ? q.eq(q.field("status"), status) : true
+          )
+        )
+        .paginate(args.paginationOpts);
+    } else if (args.sortBy === "scheduled" || hasRange) {
+      // A time range orders by scheduled time, since that's the index it reads.
+      // Without one, posts with no time come first in ascending order.
+      const query = status
+        ? ctx.db.query("posts").withIndex("by_user_status_scheduled", (q) => {
+            const base = q.eq("userId", userId).eq("status", status);
+            const lower =
+              from !== undefined ? base.gte("scheduledAt", from) : hasRange ? base.gt("scheduledAt", undefined) : base;
+            return to !== undefined ? lower.lt("scheduledAt", to) : lower;
+          })
+        : ctx.db.query("posts").withIndex("by_user_scheduled", (q) => {
+            const base = q.eq("userId", userId);
+            const lower =
+              from !== undefined ? base.gte("scheduledAt", from) : hasRange ? base.gt("scheduledAt", undefined) : base;
+            return to !== undefined ? lower.lt("scheduledAt", to) : lower;
+          });
+      result = await query
+        .order(order)
+        .filter((q) => q.eq(q.field("deletedAt"), undefined))
+        .paginate(args.paginationOpts);
+    } else {
+      const query = status
+        ? ctx.db.query("posts").withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", status))
+        : ctx.db.query("posts").withIndex("by_user", (q) => q.eq("userId", userId));
+      result = await query
+        .order(order)
+        .filter((q) => q.eq(q.field("deletedAt"), undefined))
+        .paginate(args.paginationOpts);
     }
 
-    if (args.limit) {
-      filtered = filtered.slice(0, args.limit);
+    const platforms = args.platforms;
+    if (platforms && platforms.length > 0) {
+      return { ...result, page: result.page.filter((p) => p.platforms.some((platform) => platforms.includes(platform))) };
     }
-
-    return filtered;
+    return result;
   },
 });
 
@@ -86,6 +180,34 @@ export const get = query({
   },
 });
 
+// Like get, for an id read from a URL: anything that isn't a post id finds nothing
+export const getLinked = query({
+  args: { postId: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    const postId = ctx.db.normalizeId("posts", args.postId);
+    if (!identity || !postId) {
+      return null;
+    }
+
+    const post = await ctx.db.get(postId);
+
+    // Verify ownership
+    if (post) {
+      const user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+
+      if (!user || post.userId !== user._id) {
+        return null;
+      }
+    }
+
+    return post;
+  },
+});
+
 // Get scheduled posts
 export const getScheduled = query({
   args: {
@@ -120,6 +242,7 @@ export const getScheduled = query({
       .withIndex("by_user_status", (q) =>
         q.eq("userId", user._id).eq("status", "scheduled")
       )
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .order("asc")
       .collect();
 
@@ -168,6 +291,7 @@ export const getDrafts = query({
       .withIndex("by_user_status", (q) =>
         q.eq("userId", user._id).eq("status", "draft")
       )
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .order("desc")
       .collect();
 
@@ -179,23 +303,124 @@ export const getDrafts = query({
   },
 });
 
+const createPostArgs = {
+  title: v.optional(v.string()),
+  content: v.string(),
+  mediaUrls: v.optional(v.array(v.string())),
+  mediaType: v.optional(v.string()),
+  hashtags: v.optional(v.array(v.string())),
+  mentions: v.optional(v.array(v.string())),
+  postType: v.optional(v.string()), // 'single' (default), 'thread'
+  threadParts: v.optional(v.array(threadPartValidator)),
+  hashtagPlacement: v.optional(v.string()), // 'caption' (default), 'first-comment'
+  platforms: v.array(v.string()),
+  platformSpecificContent: v.optional(v.any()),
+  status: v.string(),
+  scheduledAt: v.optional(v.number()),
+  timezone: v.optional(v.string()),
+  recurrence: v.optional(recurrenceValidator),
+  campaignId: v.optional(v.id("campaigns")),
+  pillarId: v.optional(v.id("contentPillars")),
+  queued: v.optional(v.boolean()), // Take the next free posting slot instead of scheduledAt
+  ignoreDensity: v.optional(v.boolean()), // Schedule even if it breaks a posting-density rule
+  wasAiGenerated: v.optional(v.boolean()),
+  aiPromptUsed: v.optional(v.string()),
+  viralScore: v.optional(v.number()),
+  viralScoreBreakdown: v.optional(v.any()),
+};
+
+const MAX_IMPORT_BATCH = 100;
+
+// Insert a post for `user` the way create does, scheduling or submitting it for review
+async function insertPost(ctx: MutationCtx, user: Doc<"users">, args: ObjectType<typeof createPostArgs>) {
+  const now = Date.now();
+  if (args.campaignId) {
+    await assertCampaignOwner(ctx, user._id, args.campaignId);
+  }
+  if (args.pillarId) {
+    await assertPillarOwner(ctx, user._id, args.pillarId);
+  }
+  const queuedAt = args.queued ? await nextQueueSlot(ctx, user, args.platforms) : undefined;
+
+  // Authors under an approval workflow submit the post instead of scheduling it
+  const wantsSchedule = args.status === "scheduled" || queuedAt !== undefined;
+  const needsReview = wantsSchedule && (await requiresApproval(ctx, user._id));
+
+  if (wantsSchedule || args.status === "pending_approval") {
+    await enforceMediaLimits(ctx, user._id, args);
+  }
+
+  // Queue slots are the user's own cadence, so only explicit times are checked
+  if (args.status === "scheduled" && queuedAt === undefined && args.scheduledAt && !args.ignoreDensity) {
+    await enforcePostDensity(ctx, user, { platforms: args.platforms, at: args.scheduledAt });
+  }
+
+  const postId = await ctx.db.insert("posts", {
+    userId: user._id,
+    title: args.title,
+    content: args.content,
+    mediaUrls: args.mediaUrls,
+    mediaType: args.mediaType,
+    hashtags: args.hashtags,
+    mentions: args.mentions,
+    postType: args.postType,
+    threadParts: args.postType === "thread" ? args.threadParts : undefined,
+    hashtagPlacement: args.hashtagPlacement,
+    firstComment: queuedFirstComment(args),
+    searchText: postSearchText(args),
+    platforms: args.platforms,
+    platformSpecificContent: args.platformSpecificContent,
+    status: needsReview ? "pending_approval" : queuedAt !== undefined ? "scheduled" : args.status,
+    scheduledAt: queuedAt ?? args.scheduledAt,
+    timezone: args.timezone,
+    recurrence: queuedAt !== undefined ? undefined : args.recurrence,
+    campaignId: args.campaignId,
+    pillarId: args.pillarId,
+    queued: queuedAt !== undefined && !needsReview ? true : undefined,
+    approvalState: needsReview ? "pending" : undefined,
+    wasAiGenerated: args.wasAiGenerated ?? false,
+    aiPromptUsed: args.aiPromptUsed,
+    viralScore: args.viralScore,
+    viralScoreBreakdown: args.viralScoreBreakdown,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  if (needsReview) {
+    await recordReview(ctx, postId, user._id, "submitted");
+  } else if (wantsSchedule) {
+    await syncScheduledPosts(ctx, postId);
+  }
+
+  return postId;
+}
+
 // Create a new post
 export const create = mutation({
+  args: createPostArgs,
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    return await insertPost(ctx, user, args);
+  },
+});
+
+// Create several posts at once, e.g. from a bulk import; all are created or none are
+export const createMany = mutation({
   args: {
-    title: v.optional(v.string()),
-    content: v.string(),
-    mediaUrls: v.optional(v.array(v.string())),
-    mediaType: v.optional(v.string()),
-    hashtags: v.optional(v.array(v.string())),
-    mentions: v.optional(v.array(v.string())),
-    platforms: v.array(v.string()),
-    platformSpecificContent: v.optional(v.any()),
-    status: v.string(),
-    scheduledAt: v.optional(v.number()),
-    wasAiGenerated: v.optional(v.boolean()),
-    aiPromptUsed: v.optional(v.string()),
-    viralScore: v.optional(v.number()),
-    viralScoreBreakdown: v.optional(v.any()),
+    posts: v.array(v.object(createPostArgs)),
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -212,48 +437,274 @@ export const create = mutation({
       throw new Error("User not found");
     }
 
-    const now = Date.now();
+    if (args.posts.length > MAX_IMPORT_BATCH) {
+      throw new Error(`Create at most ${MAX_IMPORT_BATCH} posts at a time`);
+    }
 
-    const postId = await ctx.db.insert("posts", {
-      userId: user._id,
-      title: args.title,
-      content: args.content,
-      mediaUrls: args.mediaUrls,
-      mediaType: args.mediaType,
-      hashtags: args.hashtags,
-      mentions: args.mentions,
-      platforms: args.platforms,
-      platformSpecificContent: args.platformSpecificContent,
-      status: args.status,
-      scheduledAt: args.scheduledAt,
-      wasAiGenerated: args.wasAiGenerated ?? false,
-      aiPromptUsed: args.aiPromptUsed,
-      viralScore: args.viralScore,
-      viralScoreBreakdown: args.viralScoreBreakdown,
-      createdAt: now,
-      updatedAt: now,
+    const postIds = [];
+    for (const [index, post] of args.posts.entries()) {
+      try {
+        postIds.push(await insertPost(ctx, user, post));
+      } catch (error) {
+        // Say which post failed; nothing from the batch is kept
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Post ${index + 1} of ${args.posts.length}: ${message}`);
+      }
+    }
+    return postIds;
+  },
+});
+
+const postUpdateArgs = {
+  title: v.optional(v.string()),
+  content: v.optional(v.string()),
+  mediaUrls: v.optional(v.array(v.string())),
+  mediaType: v.optional(v.string()),
+  hashtags: v.optional(v.array(v.string())),
+  mentions: v.optional(v.array(v.string())),
+  postType: v.optional(v.string()), // 'single' turns a thread back into one post
+  threadParts: v.optional(v.array(threadPartValidator)),
+  hashtagPlacement: v.optional(v.string()),
+  platforms: v.optional(v.array(v.string())),
+  platformSpecificContent: v.optional(v.any()),
+  status: v.optional(v.string()),
+  scheduledAt: v.optional(v.number()),
+  timezone: v.optional(v.string()),
+  recurrence: v.optional(v.union(recurrenceValidator, v.null())), // null stops repeating
+  campaignId: v.optional(v.union(v.id("campaigns"), v.null())), // null takes it out of its campaign
+  pillarId: v.optional(v.union(v.id("contentPillars"), v.null())), // null untags it
+  queued: v.optional(v.boolean()), // true moves the post into the next free posting slot
+  viralScore: v.optional(v.number()),
+  viralScoreBreakdown: v.optional(v.any()),
+};
+
+type PostUpdates = ObjectType<typeof postUpdateArgs>;
+
+/**
+ * Apply an edit to a post `user` owns, keeping everything tied to the post
+ * in step: approval state, density rules, revisions and the publishing queue
+ */
+async function applyPostUpdate(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  post: Doc<"posts">,
+  updates: PostUpdates,
+  ignoreDensity?: boolean
+) {
+  if (post.deletedAt) {
+    throw new Error("Restore the post from the trash first");
+  }
+
+  // Filter out undefined values
+  const filteredUpdates: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (value !== undefined) {
+      filteredUpdates[key] = value;
+    }
+  }
+  if (updates.recurrence === null) {
+    filteredUpdates.recurrence = undefined;
+  }
+  if (updates.campaignId) {
+    await assertCampaignOwner(ctx, user._id, updates.campaignId);
+  } else if (updates.campaignId === null) {
+    filteredUpdates.campaignId = undefined;
+  }
+  if (updates.pillarId) {
+    await assertPillarOwner(ctx, user._id, updates.pillarId);
+  } else if (updates.pillarId === null) {
+    filteredUpdates.pillarId = undefined;
+  }
+  if (updates.postType === "single") {
+    filteredUpdates.threadParts = undefined;
+  }
+  filteredUpdates.firstComment = queuedFirstComment({
+    hashtagPlacement: updates.hashtagPlacement ?? post.hashtagPlacement,
+    content: updates.content ?? post.content,
+    hashtags: updates.hashtags ?? post.hashtags,
+  });
+  filteredUpdates.searchText = postSearchText({
+    title: updates.title ?? post.title,
+    content: updates.content ?? post.content,
+    hashtags: updates.hashtags ?? post.hashtags,
+  });
+
+  if (updates.queued) {
+    filteredUpdates.status = "scheduled";
+    filteredUpdates.scheduledAt = await nextQueueSlot(
+      ctx,
+      user,
+      updates.platforms ?? post.platforms,
+      post._id
+    );
+    filteredUpdates.recurrence = undefined;
+  } else if ((updates.scheduledAt !== undefined && updates.scheduledAt !== post.scheduledAt) || updates.recurrence) {
+    // Picking a different time pins the post in place
+    filteredUpdates.queued = undefined;
+  }
+
+  // Under an approval workflow, content edits need a fresh sign-off and
+  // unapproved posts go to review instead of onto the schedule
+  let submitted = false;
+  if (await requiresApproval(ctx, user._id)) {
+    const editsContent = touchesReviewedFields(post, updates);
+    const isApproved = post.approvalState === "approved" && !editsContent;
+    const nextStatus = (filteredUpdates.status as string | undefined) ?? post.status;
+    if (
+      !isApproved &&
+      (nextStatus === "scheduled" ||
+        (nextStatus === "pending_approval" && (editsContent || post.status !== "pending_approval")))
+    ) {
+      Object.assign(filteredUpdates, SUBMITTED_FOR_REVIEW, { queued: undefined });
+      submitted = true;
+    } else if (post.approvalState === "approved" && editsContent) {
+      filteredUpdates.approvalState = undefined;
+      filteredUpdates.approvals = undefined;
+      filteredUpdates.approvedAt = undefined;
+    }
+  }
+
+  // Media a platform would reject can't go onto the schedule or up for review
+  const next = { ...post, ...filteredUpdates } as Doc<"posts">;
+  if (
+    (next.status === "scheduled" || next.status === "pending_approval") &&
+    (next.status !== post.status ||
+      updates.mediaUrls !== undefined ||
+      updates.platforms !== undefined ||
+      updates.postType !== undefined ||
+      updates.threadParts !== undefined)
+  ) {
+    await enforceMediaLimits(ctx, user._id, next);
+  }
+
+  const movesTo = updates.scheduledAt ?? post.scheduledAt;
+  const isScheduled = (updates.status ?? post.status) === "scheduled";
+  if (
+    isScheduled &&
+    !updates.queued &&
+    movesTo &&
+    !ignoreDensity &&
+    (movesTo !== post.scheduledAt || updates.platforms !== undefined || post.status !== "scheduled")
+  ) {
+    await enforcePostDensity(ctx, user, {
+      postId: post._id,
+      platforms: updates.platforms ?? post.platforms,
+      at: movesTo,
     });
+  }
+
+  await ctx.db.patch(post._id, {
+    ...filteredUpdates,
+    updatedAt: Date.now(),
+  });
+  await recordRevision(ctx, post, user._id);
+  if (submitted) {
+    await recordReview(ctx, post._id, user._id, "submitted");
+  }
+
+  // Keep the publishing queue in step with schedule changes
+  if (
+    submitted ||
+    updates.status !== undefined ||
+    updates.scheduledAt !== undefined ||
+    updates.platforms !== undefined ||
+    updates.recurrence !== undefined ||
+    updates.queued
+  ) {
+    await syncScheduledPosts(ctx, post._id);
+  }
+
+  // A post leaving the queue frees its slot for the ones behind it
+  const updated = await ctx.db.get(post._id);
+  if (post.queued && post.status === "scheduled" && (!updated?.queued || updated.status !== "scheduled")) {
+    await reshuffleQueue(ctx, user._id);
+  }
+}
+
+// Move a post to the trash, taking it off the publishing queue until it's restored
+async function trashPost(ctx: MutationCtx, post: Doc<"posts">) {
+  if (post.status === "publishing") {
+    throw new Error("Post is being published right now");
+  }
+
+  const now = Date.now();
+  await ctx.db.patch(post._id, { deletedAt: now, queued: undefined, updatedAt: now });
+  await clearScheduledPosts(ctx, post._id);
+
+  // Let queued posts behind this one move up into its slot
+  if (post.queued && post.status === "scheduled") {
+    await reshuffleQueue(ctx, post.userId);
+  }
+}
+
+// Delete a post for good, with everything kept alongside it
+async function removePost(ctx: MutationCtx, post: Doc<"posts">) {
+  await clearScheduledPosts(ctx, post._id);
+  await deleteRevisions(ctx, post._id);
+  await deleteReviews(ctx, post._id);
+  await ctx.db.delete(post._id);
+
+  // Let queued posts behind this one move up into its slot
+  if (post.queued) {
+    await reshuffleQueue(ctx, post.userId);
+  }
+}
+
+// Update an existing post
+export const update = mutation({
+  args: {
+    postId: v.id("posts"),
+    ...postUpdateArgs,
+    ignoreDensity: v.optional(v.boolean()), // Schedule even if it breaks a posting-density rule
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
 
+    if (!user || post.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    const { postId, ignoreDensity, ...updates } = args;
+    await applyPostUpdate(ctx, user, post, updates, ignoreDensity);
     return postId;
   },
 });
 
-// Update an existing post
-export const update = mutation({
+// Edit one occurrence of a recurring post, or that occurrence and every one after it
+export const editOccurrence = mutation({
   args: {
     postId: v.id("posts"),
+    occurrenceAt: v.number(),
+    scope: v.union(v.literal("this"), v.literal("future")),
     title: v.optional(v.string()),
     content: v.optional(v.string()),
     mediaUrls: v.optional(v.array(v.string())),
     mediaType: v.optional(v.string()),
     hashtags: v.optional(v.array(v.string())),
-    mentions: v.optional(v.array(v.string())),
+    postType: v.optional(v.string()),
+    threadParts: v.optional(v.array(threadPartValidator)),
+    hashtagPlacement: v.optional(v.string()),
     platforms: v.optional(v.array(v.string())),
     platformSpecificContent: v.optional(v.any()),
-    status: v.optional(v.string()),
-    scheduledAt: v.optional(v.number()),
-    viralScore: v.optional(v.number()),
-    viralScoreBreakdown: v.optional(v.any()),
+    scheduledAt: v.optional(v.number()), // New time for the edited occurrence
+    timezone: v.optional(v.string()),
+    recurrence: v.optional(recurrenceValidator), // New rule from this occurrence on ("future" only)
+    campaignId: v.optional(v.union(v.id("campaigns"), v.null())), // null takes it out of its campaign
+    pillarId: v.optional(v.union(v.id("contentPillars"), v.null())), // null untags it
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -261,8 +712,8 @@ export const update = mutation({
       throw new Error("Not authenticated");
     }
 
-    const post = await ctx.db.get(args.postId);
-    if (!post) {
+    const series = await ctx.db.get(args.postId);
+    if (!series) {
       throw new Error("Post not found");
     }
 
@@ -272,30 +723,180 @@ export const update = mutation({
       .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
       .first();
 
-    if (!user || post.userId !== user._id) {
+    if (!user || series.userId !== user._id) {
       throw new Error("Unauthorized");
     }
 
-    const { postId, ...updates } = args;
+    if (!series.recurrence || !series.scheduledAt) {
+      throw new Error("Post is not recurring");
+    }
+
+    const { postId, occurrenceAt, scope, recurrence, scheduledAt, campaignId, pillarId, ...changes } = args;
+    const now = Date.now();
+    if (campaignId) {
+      await assertCampaignOwner(ctx, user._id, campaignId);
+    }
+    if (pillarId) {
+      await assertPillarOwner(ctx, user._id, pillarId);
+    }
 
-    // Filter out undefined values
-    const filteredUpdates: Record<string, unknown> = {};
-    for (const [key, value] of Object.entries(updates)) {
+    const contentUpdates: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(changes)) {
       if (value !== undefined) {
-        filteredUpdates[key] = value;
+        contentUpdates[key] = value;
+      }
+    }
+    if (changes.postType === "single") {
+      contentUpdates.threadParts = undefined;
+    }
+    contentUpdates.firstComment = queuedFirstComment({
+      hashtagPlacement: changes.hashtagPlacement ?? series.hashtagPlacement,
+      content: changes.content ?? series.content,
+      hashtags: changes.hashtags ?? series.hashtags,
+    });
+    if (campaignId !== undefined) {
+      contentUpdates.campaignId = campaignId ?? undefined;
+    }
+    if (pillarId !== undefined) {
+      contentUpdates.pillarId = pillarId ?? undefined;
+    }
+    contentUpdates.searchText = postSearchText({
+      title: changes.title ?? series.title,
+      content: changes.content ?? series.content,
+      hashtags: changes.hashtags ?? series.hashtags,
+    });
+
+    // Changed content goes back through review before it can publish
+    const needsReview =
+      (await requiresApproval(ctx, user._id)) &&
+      (touchesReviewedFields(series, changes) || series.approvalState !== "approved");
+
+    // The edited series or occurrence stays on the schedule, so its media has to pass
+    await enforceMediaLimits(ctx, user._id, {
+      platforms: changes.platforms ?? series.platforms,
+      mediaUrls: changes.mediaUrls ?? series.mediaUrls,
+      postType: changes.postType ?? series.postType,
+      threadParts: changes.postType === "single" ? undefined : changes.threadParts ?? series.threadParts,
+      platformSpecificContent: changes.platformSpecificContent ?? series.platformSpecificContent,
+    });
+
+    // Editing from the first occurrence on is just an edit of the whole series
+    if (scope === "future" && occurrenceAt <= series.scheduledAt) {
+      await ctx.db.patch(postId, {
+        ...contentUpdates,
+        ...(needsReview ? SUBMITTED_FOR_REVIEW : {}),
+        scheduledAt: scheduledAt ?? series.scheduledAt,
+        recurrence: recurrence ?? series.recurrence,
+        updatedAt: now,
+      });
+      await recordRevision(ctx, series, user._id);
+      if (needsReview) {
+        await recordReview(ctx, postId, user._id, "submitted");
       }
+      await syncScheduledPosts(ctx, postId);
+      return postId;
+    }
+
+    let seriesRecurrence = series.recurrence;
+    let newRecurrence: typeof series.recurrence | undefined;
+
+    if (scope === "this") {
+      seriesRecurrence = {
+        ...series.recurrence,
+        exceptions: [...(series.recurrence.exceptions ?? []), occurrenceAt],
+      };
+    } else {
+      const { head, tail } = splitRecurrence(series.scheduledAt, series.recurrence, occurrenceAt);
+      seriesRecurrence = head;
+      newRecurrence = recurrence ?? tail;
+    }
+
+    await ctx.db.patch(postId, { recurrence: seriesRecurrence, updatedAt: now });
+    await syncScheduledPosts(ctx, postId);
+
+    // The edited occurrence(s) become a post of their own, linked back to the series
+    const newPostId = await ctx.db.insert("posts", {
+      userId: user._id,
+      title: series.title,
+      content: series.content,
+      mediaUrls: series.mediaUrls,
+      mediaType: series.mediaType,
+      hashtags: series.hashtags,
+      mentions: series.mentions,
+      postType: series.postType,
+      threadParts: series.threadParts,
+      hashtagPlacement: series.hashtagPlacement,
+      platforms: series.platforms,
+      platformSpecificContent: series.platformSpecificContent,
+      wasAiGenerated: series.wasAiGenerated,
+      aiPromptUsed: series.aiPromptUsed,
+      timezone: series.timezone,
+      campaignId: series.campaignId,
+      pillarId: series.pillarId,
+      ...contentUpdates,
+      ...(needsReview
+        ? SUBMITTED_FOR_REVIEW
+        : { status: "scheduled", approvalState: series.approvalState, approvals: series.approvals, approvedAt: series.approvedAt }),
+      scheduledAt: scheduledAt ?? occurrenceAt,
+      recurrence: newRecurrence,
+      seriesParentId: postId,
+      createdAt: now,
+      updatedAt: now,
+    });
+    if (needsReview) {
+      await recordReview(ctx, newPostId, user._id, "submitted");
+    }
+    await syncScheduledPosts(ctx, newPostId);
+
+    return newPostId;
+  },
+});
+
+// Skip a single occurrence of a recurring post
+export const skipOccurrence = mutation({
+  args: {
+    postId: v.id("posts"),
+    occurrenceAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user || post.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    if (!post.recurrence) {
+      throw new Error("Post is not recurring");
     }
 
     await ctx.db.patch(args.postId, {
-      ...filteredUpdates,
+      recurrence: {
+        ...post.recurrence,
+        exceptions: [...(post.recurrence.exceptions ?? []), args.occurrenceAt],
+      },
       updatedAt: Date.now(),
     });
+    await syncScheduledPosts(ctx, args.postId);
 
     return args.postId;
   },
 });
 
-// Delete a post
+// Move a post to the trash
 export const remove = mutation({
   args: { postId: v.id("posts") },
   handler: async (ctx, args) => {
@@ -319,11 +920,384 @@ export const remove = mutation({
       throw new Error("Unauthorized");
     }
 
-    await ctx.db.delete(args.postId);
+    if (!post.deletedAt) {
+      await trashPost(ctx, post);
+    }
     return true;
   },
 });
 
+// Bulk actions on posts picked in the content library. Every post is
+// checked up front, and one failure rolls back the whole batch.
+
+const MAX_BULK_BATCH = 200;
+
+// The posts in `postIds`, once each, or an error if any isn't the caller's
+async function getOwnedPosts(ctx: MutationCtx, tokenIdentifier: string, postIds: Id<"posts">[]) {
+  const user = await ctx.db
+    .query("users")
+    .withIndex("by_token", (q) => q.eq("tokenIdentifier", tokenIdentifier))
+    .first();
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  if (postIds.length > MAX_BULK_BATCH) {
+    throw new Error(`Select at most ${MAX_BULK_BATCH} posts at a time`);
+  }
+
+  const posts = [];
+  for (const postId of new Set(postIds)) {
+    const post = await ctx.db.get(postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+    if (post.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+    posts.push(post);
+  }
+
+  return { user, posts };
+}
+
+// Run `change` on each post, naming the post that fails. Posts are re-read
+// first, since changing one can reshuffle queued posts later in the batch.
+async function forEachPost(
+  ctx: MutationCtx,
+  posts: Doc<"posts">[],
+  change: (post: Doc<"posts">) => Promise<boolean>
+) {
+  let updated = 0;
+  for (const post of posts) {
+    try {
+      const current = await ctx.db.get(post._id);
+      if (current && (await change(current))) updated++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const label = post.title || post.content.slice(0, 40) || "Untitled post";
+      throw new Error(`"${label}": ${message}`);
+    }
+  }
+  return { updated, skipped: posts.length - updated };
+}
+
+// Move posts by whole days, keeping each one's local time of day
+export const bulkReschedule = mutation({
+  args: {
+    postIds: v.array(v.id("posts")),
+    days: v.number(),
+    ignoreDensity: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    if (!Number.isInteger(args.days) || args.days === 0) {
+      throw new Error("Shift by a whole number of days");
+    }
+
+    const { user, posts } = await getOwnedPosts(ctx, identity.tokenIdentifier, args.postIds);
+    const now = Date.now();
+
+    return await forEachPost(ctx, posts, async (post) => {
+      if (!post.scheduledAt || post.status === "published") {
+        return false;
+      }
+
+      const timeZone = post.timezone ?? user.timezone ?? "UTC";
+      const scheduledAt = zonedTimeToUtc(
+        shiftDateKey(toZonedDateKey(post.scheduledAt, timeZone), args.days),
+        toZonedTimeValue(post.scheduledAt, timeZone),
+        timeZone
+      );
+      if (post.status === "scheduled" && scheduledAt <= now) {
+        throw new Error("This would move it into the past");
+      }
+
+      await applyPostUpdate(ctx, user, post, { scheduledAt }, args.ignoreDensity);
+      return true;
+    });
+  },
+});
+
+// Move posts between draft and scheduled
+export const bulkSetStatus = mutation({
+  args: {
+    postIds: v.array(v.id("posts")),
+    status: v.union(v.literal("draft"), v.literal("scheduled")),
+    ignoreDensity: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const { user, posts } = await getOwnedPosts(ctx, identity.tokenIdentifier, args.postIds);
+    const now = Date.now();
+
+    return await forEachPost(ctx, posts, async (post) => {
+      if (post.status === args.status || post.status === "published") {
+        return false;
+      }
+      if (args.status === "scheduled" && (!post.scheduledAt || post.scheduledAt <= now)) {
+        throw new Error("Needs a future time before it can be scheduled");
+      }
+
+      await applyPostUpdate(ctx, user, post, { status: args.status }, args.ignoreDensity);
+      return true;
+    });
+  },
+});
+
+// Add and remove platforms on posts that haven't been published
+export const bulkSetPlatforms = mutation({
+  args: {
+    postIds: v.array(v.id("posts")),
+    add: v.array(v.string()),
+    remove: v.array(v.string()),
+    ignoreDensity: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const { user, posts } = await getOwnedPosts(ctx, identity.tokenIdentifier, args.postIds);
+
+    return await forEachPost(ctx, posts, async (post) => {
+      if (post.status === "published") {
+        return false;
+      }
+
+      const platforms = [
+        ...post.platforms.filter((platform) => !args.remove.includes(platform)),
+        ...args.add.filter((platform) => !post.platforms.includes(platform)),
+      ];
+      if (platforms.length === 0) {
+        throw new Error("A post needs at least one platform");
+      }
+      if (platforms.length === post.platforms.length && platforms.every((p) => post.platforms.includes(p))) {
+        return false;
+      }
+
+      await applyPostUpdate(ctx, user, post, { platforms }, args.ignoreDensity);
+      return true;
+    });
+  },
+});
+
+export const bulkRemove = mutation({
+  args: { postIds: v.array(v.id("posts")) },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const { posts } = await getOwnedPosts(ctx, identity.tokenIdentifier, args.postIds);
+
+    return await forEachPost(ctx, posts, async (post) => {
+      if (post.deletedAt) {
+        return false;
+      }
+      await trashPost(ctx, post);
+      return true;
+    });
+  },
+});
+
+// Trash. Deleted posts wait here for 30 days, so they can be restored,
+// before purgeTrash deletes them for good.
+
+const TRASH_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PURGE_BATCH = 100;
+
+// A page of the user's trashed posts, most recently deleted first
+export const listTrash = query({
+  args: { paginationOpts: paginationOptsValidator },
+  handler: async (ctx, args) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return { page: [], isDone: true, continueCursor: "" };
+    }
+
+    const userId = user._id;
+    const result = await ctx.db
+      .query("posts")
+      .withIndex("by_user_deleted", (q) => q.eq("userId", userId).gt("deletedAt", undefined))
+      .order("desc")
+      .paginate(args.paginationOpts);
+
+    return {
+      ...result,
+      page: result.page.map((post) => ({ ...post, purgeAt: post.deletedAt! + TRASH_RETENTION_MS })),
+    };
+  },
+});
+
+/**
+ * Take a post back out of the trash. A one-off post whose time went by
+ * while it was there comes back as a draft instead of publishing late.
+ */
+export const restore = mutation({
+  args: {
+    postId: v.id("posts"),
+    ignoreDensity: v.optional(v.boolean()), // Schedule even if it breaks a posting-density rule
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user || post.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    if (!post.deletedAt) {
+      throw new Error("Post is not in the trash");
+    }
+
+    const now = Date.now();
+    const missedTime = post.status === "scheduled" && !post.recurrence && (post.scheduledAt ?? 0) <= now;
+    const status = missedTime ? "draft" : post.status;
+
+    if (status === "scheduled" && !post.recurrence && post.scheduledAt && !args.ignoreDensity) {
+      await enforcePostDensity(ctx, user, { postId: post._id, platforms: post.platforms, at: post.scheduledAt });
+    }
+
+    await ctx.db.patch(post._id, { deletedAt: undefined, status, updatedAt: now });
+    if (status === "scheduled") {
+      await syncScheduledPosts(ctx, post._id);
+    }
+
+    return post._id;
+  },
+});
+
+// Delete a trashed post for good
+export const deleteForever = mutation({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user || post.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    if (!post.deletedAt) {
+      throw new Error("Move the post to the trash first");
+    }
+
+    await removePost(ctx, post);
+    return true;
+  },
+});
+
+// Delete everything in the user's trash for good. Works through a batch at
+// a time; `hasMore` says whether to call again.
+export const emptyTrash = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const posts = await ctx.db
+      .query("posts")
+      .withIndex("by_user_deleted", (q) => q.eq("userId", user._id).gt("deletedAt", undefined))
+      .take(MAX_BULK_BATCH);
+
+    for (const post of posts) {
+      await removePost(ctx, post);
+    }
+
+    return { deleted: posts.length, hasMore: posts.length === MAX_BULK_BATCH };
+  },
+});
+
+// Delete posts that have been in the trash past the retention window (run by cron)
+export const purgeTrash = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - TRASH_RETENTION_MS;
+    const expired = await ctx.db
+      .query("posts")
+      .withIndex("by_deleted", (q) => q.gt("deletedAt", undefined).lt("deletedAt", cutoff))
+      .take(PURGE_BATCH);
+
+    for (const post of expired) {
+      await removePost(ctx, post);
+    }
+
+    // More left over than one run should take on; carry on right away
+    if (expired.length === PURGE_BATCH) {
+      await ctx.scheduler.runAfter(0, internal.posts.purgeTrash, {});
+    }
+
+    return { purged: expired.length };
+  },
+});
+
 // Duplicate a post
 export const duplicate = mutation({
   args: { postId: v.id("posts") },
@@ -349,17 +1323,26 @@ export const duplicate = mutation({
     }
 
     const now = Date.now();
+    const title = original.title ? `${original.title} (copy)` : undefined;
 
     const newPostId = await ctx.db.insert("posts", {
       userId: user._id,
-      title: original.title ? `${original.title} (copy)` : undefined,
+      title,
       content: original.content,
       mediaUrls: original.mediaUrls,
       mediaType: original.mediaType,
       hashtags: original.hashtags,
       mentions: original.mentions,
+      postType: original.postType,
+      threadParts: original.threadParts,
+      hashtagPlacement: original.hashtagPlacement,
+      firstComment: original.firstComment,
+      searchText: postSearchText({ ...original, title }),
       platforms: original.platforms,
       platformSpecificContent: original.platformSpecificContent,
+      timezone: original.timezone,
+      campaignId: original.campaignId,
+      pillarId: original.pillarId,
       status: "draft",
       wasAiGenerated: original.wasAiGenerated,
       aiPromptUsed: original.aiPromptUsed,
@@ -378,6 +1361,7 @@ export const schedule = mutation({
   args: {
     postId: v.id("posts"),
     scheduledAt: v.number(),
+    ignoreDensity: v.optional(v.boolean()), // Schedule even if it breaks a posting-density rule
   },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
@@ -400,16 +1384,133 @@ export const schedule = mutation({
       throw new Error("Unauthorized");
     }
 
+    if (post.deletedAt) {
+      throw new Error("Restore the post from the trash first");
+    }
+
+    if (!args.ignoreDensity) {
+      await enforcePostDensity(ctx, user, { postId: args.postId, platforms: post.platforms, at: args.scheduledAt });
+    }
+    await enforceMediaLimits(ctx, user._id, post);
+
+    // Unapproved posts under an approval workflow get the time but wait for review
+    const needsReview = post.approvalState !== "approved" && (await requiresApproval(ctx, user._id));
+    const alreadyInReview = post.status === "pending_approval";
+
     await ctx.db.patch(args.postId, {
-      status: "scheduled",
+      ...(needsReview && !alreadyInReview ? SUBMITTED_FOR_REVIEW : {}),
+      ...(needsReview ? {} : { status: "scheduled" }),
       scheduledAt: args.scheduledAt,
+      queued: undefined, // An explicit time pins it outside the queue
       updatedAt: Date.now(),
     });
+    await recordRevision(ctx, post, user._id);
+    if (needsReview && !alreadyInReview) {
+      await recordReview(ctx, args.postId, user._id, "submitted");
+    }
+
+    await syncScheduledPosts(ctx, args.postId);
+
+    // Its old slot is free for the queued posts behind it
+    if (post.queued && post.status === "scheduled") {
+      await reshuffleQueue(ctx, user._id);
+    }
 
     return args.postId;
   },
 });
 
+/**
+ * Bring a post back to an earlier revision. The time only comes back while
+ * it's still ahead and the post hasn't gone out; the restore itself is
+ * recorded as a new revision.
+ */
+export const restoreRevision = mutation({
+  args: { revisionId: v.id("postRevisions") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const revision = await ctx.db.get(args.revisionId);
+    if (!revision) {
+      throw new Error("Revision not found");
+    }
+
+    const post = await ctx.db.get(revision.postId);
+    if (!post) {
+      throw new Error("Post not found");
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user || post.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    const now = Date.now();
+    const restoresTime =
+      (post.status === "draft" || post.status === "scheduled") &&
+      revision.scheduledAt !== undefined &&
+      revision.scheduledAt > now &&
+      revision.scheduledAt !== post.scheduledAt;
+
+    if (restoresTime && post.status === "scheduled") {
+      await enforcePostDensity(ctx, user, { postId: post._id, platforms: revision.platforms, at: revision.scheduledAt! });
+    }
+    await enforceMediaLimits(ctx, user._id, {
+      ...post,
+      platforms: revision.platforms,
+      postType: revision.postType,
+      threadParts: revision.threadParts,
+    });
+
+    // Restored content needs the same sign-off as any other edit
+    const underReview = await requiresApproval(ctx, user._id);
+    const resubmits = underReview && (post.status === "scheduled" || post.status === "pending_approval");
+
+    await ctx.db.patch(post._id, {
+      title: revision.title,
+      content: revision.content,
+      hashtags: revision.hashtags,
+      platforms: revision.platforms,
+      postType: revision.postType,
+      threadParts: revision.threadParts,
+      firstComment: queuedFirstComment({
+        hashtagPlacement: post.hashtagPlacement,
+        content: revision.content,
+        hashtags: revision.hashtags,
+      }),
+      searchText: postSearchText(revision),
+      ...(restoresTime ? { scheduledAt: revision.scheduledAt, timezone: revision.timezone, queued: undefined } : {}),
+      ...(resubmits
+        ? { ...SUBMITTED_FOR_REVIEW, queued: undefined }
+        : underReview && post.approvalState === "approved"
+        ? { approvalState: undefined, approvals: undefined, approvedAt: undefined }
+        : {}),
+      updatedAt: now,
+    });
+    await recordRevision(ctx, post, user._id, revision._id);
+    if (resubmits) {
+      await recordReview(ctx, post._id, user._id, "submitted", "Restored an earlier revision");
+    }
+
+    if (post.status === "scheduled") {
+      await syncScheduledPosts(ctx, post._id);
+      if ((restoresTime || resubmits) && post.queued) {
+        await reshuffleQueue(ctx, user._id);
+      }
+    }
+
+    return post._id;
+  },
+});
+
 // Publish a post immediately (mark as published)
 export const publish = mutation({
   args: { postId: v.id("posts") },
@@ -434,8 +1535,19 @@ export const publish = mutation({
       throw new Error("Unauthorized");
     }
 
+    if (post.deletedAt) {
+      throw new Error("Restore the post from the trash first");
+    }
+
+    if (post.approvalState !== "approved" && (await requiresApproval(ctx, user._id))) {
+      throw new Error("Post needs approval before it can be published");
+    }
+
     const now = Date.now();
 
+    // Published by hand, so nothing is left for the dispatcher to send
+    await clearScheduledPosts(ctx, args.postId);
+
     await ctx.db.patch(args.postId, {
       status: "published",
       publishedAt: now,
@@ -476,6 +1588,7 @@ export const getStats = query({
     const posts = await ctx.db
       .query("posts")
       .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
       .collect();
 
     return {
@@ -0,0 +1,81 @@
+import type { PlatformPublisher } from "./types";
+import { composeText, emptyMetrics, isVideoPayload, requestJson, validatePayload } from "./shared";
+
+const GRAPH_URL = "https://graph.facebook.com/v19.0";
+
+// Facebook Pages API: photo, video or plain feed post on the connected page
+export const facebookPublisher: PlatformPublisher = {
+  platform: "facebook",
+
+  validate(payload) {
+    const warnings: string[] = [];
+    if (payload.mediaUrls.length > 1) {
+      warnings.push("Facebook posts only the first attached media item");
+    }
+    return validatePayload("facebook", payload, { warnings });
+  },
+
+  async publish(account, payload) {
+    const message = composeText("facebook", payload);
+    const mediaUrl = payload.mediaUrls[0];
+
+    let endpoint = "feed";
+    const params: Record<string, string> = { access_token: account.accessToken };
+
+    if (mediaUrl && isVideoPayload(payload)) {
+      endpoint = "videos";
+      params.file_url = mediaUrl;
+      params.description = message;
+    } else if (mediaUrl) {
+      endpoint = "photos";
+      params.url = mediaUrl;
+      params.caption = message;
+    } else {
+      params.message = message;
+    }
+
+    const result = await requestJson<{ id: string; post_id?: string }>(
+      "facebook",
+      `${GRAPH_URL}/${account.platformAccountId}/${endpoint}`,
+      { method: "POST", body: new URLSearchParams(params) }
+    );
+
+    const postId = result.post_id ?? result.id;
+    return { postId, url: `https://www.facebook.com/${postId}` };
+  },
+
+  async delete(account, platformPostId) {
+    await requestJson("facebook", `${GRAPH_URL}/${platformPostId}?access_token=${encodeURIComponent(account.accessToken)}`, {
+      method: "DELETE",
+    });
+  },
+
+  async fetchMetrics(account, platformPostId) {
+    const token = encodeURIComponent(account.accessToken);
+
+    const insights = await requestJson<{ data: Array<{ name: string; values: Array<{ value: number }> }> }>(
+      "facebook",
+      `${GRAPH_URL}/${platformPostId}/insights?metric=post_impressions,post_impressions_unique,post_clicks&access_token=${token}`
+    );
+    const counts = await requestJson<{
+      shares?: { count: number };
+      reactions?: { summary: { total_count: number } };
+      comments?: { summary: { total_count: number } };
+    }>(
+      "facebook",
+      `${GRAPH_URL}/${platformPostId}?fields=shares,reactions.summary(true),comments.summary(true)&access_token=${token}`
+    );
+
+    const value = (name: string) => insights.data.find((m) => m.name === name)?.values[0]?.value ?? 0;
+
+    return {
+      ...emptyMetrics(),
+      impressions: value("post_impressions"),
+      reach: value("post_impressions_unique"),
+      clicks: value("post_clicks"),
+      likes: counts.reactions?.summary.total_count ?? 0,
+      comments: counts.comments?.summary.total_count ?? 0,
+      shares: counts.shares?.count ?? 0,
+    };
+  },
+};
@@ -0,0 +1,37 @@
+import type { Platform } from "../../src/lib/platformFormatter";
+import type { PlatformPublisher } from "./types";
+import { instagramPublisher } from "./instagram";
+import { facebookPublisher } from "./facebook";
+import { twitterPublisher } from "./twitter";
+import { linkedinPublisher } from "./linkedin";
+import { youtubePublisher } from "./youtube";
+import { tiktokPublisher } from "./tiktok";
+import { createSandboxPublisher } from "./sandbox";
+import { getEnv } from "../env";
+
+export type * from "./types";
+
+const publishers: Record<Platform, PlatformPublisher> = {
+  instagram: instagramPublisher,
+  facebook: facebookPublisher,
+  twitter: twitterPublisher,
+  linkedin: linkedinPublisher,
+  youtube: youtubePublisher,
+  tiktok: tiktokPublisher,
+};
+
+export function isSupportedPlatform(platform: string): platform is Platform {
+  return platform in publishers;
+}
+
+/**
+ * Look up the publisher for a platform. When SANDBOX_PLATFORM_URL is set
+ * every platform is routed to the local sandbox instead of the real API.
+ */
+export function getPublisher(platform: Platform): PlatformPublisher {
+  const sandboxUrl = getEnv("SANDBOX_PLATFORM_URL");
+  if (sandboxUrl) {
+    return createSandboxPublisher(publishers[platform], sandboxUrl);
+  }
+  return publishers[platform];
+}
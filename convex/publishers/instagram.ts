@@ -0,0 +1,117 @@
+import type { FirstCommentOutcome, PlatformPublisher, PublisherAccount } from "./types";
+import { composeText, emptyMetrics, isVideoUrl, requestJson, validatePayload } from "./shared";
+
+const GRAPH_URL = "https://graph.facebook.com/v19.0";
+
+async function createContainer(account: PublisherAccount, params: Record<string, string>) {
+  return requestJson<{ id: string }>("instagram", `${GRAPH_URL}/${account.platformAccountId}/media`, {
+    method: "POST",
+    body: new URLSearchParams({ ...params, access_token: account.accessToken }),
+  });
+}
+
+function mediaParams(url: string): Record<string, string> {
+  return isVideoUrl(url)
+    ? { media_type: "REELS", video_url: url }
+    : { image_url: url };
+}
+
+// Comment on a just-published post; failures are reported, not thrown
+async function postComment(account: PublisherAccount, mediaId: string, message: string): Promise<FirstCommentOutcome> {
+  try {
+    const comment = await requestJson<{ id: string }>("instagram", `${GRAPH_URL}/${mediaId}/comments`, {
+      method: "POST",
+      body: new URLSearchParams({ message, access_token: account.accessToken }),
+    });
+    return { commentId: comment.id };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : "Unknown comment error" };
+  }
+}
+
+// Instagram Graph API: create a media container, then publish it
+export const instagramPublisher: PlatformPublisher = {
+  platform: "instagram",
+
+  validate(payload) {
+    const errors: string[] = [];
+    if (payload.mediaUrls.length === 0) {
+      errors.push("Instagram posts need at least one image or video");
+    }
+    if (payload.mediaUrls.length > 10) {
+      errors.push("Instagram carousels allow at most 10 items");
+    }
+    if ((payload.firstComment?.match(/#/g) ?? []).length > 30) {
+      errors.push("Instagram comments allow at most 30 hashtags");
+    }
+    return validatePayload("instagram", payload, { errors });
+  },
+
+  async publish(account, payload) {
+    const caption = composeText("instagram", payload);
+
+    let creationId: string;
+    if (payload.mediaUrls.length > 1) {
+      const children: string[] = [];
+      for (const url of payload.mediaUrls) {
+        const params: Record<string, string> = isVideoUrl(url)
+          ? { media_type: "VIDEO", video_url: url }
+          : { image_url: url };
+        const child = await createContainer(account, { ...params, is_carousel_item: "true" });
+        children.push(child.id);
+      }
+      const carousel = await createContainer(account, {
+        media_type: "CAROUSEL",
+        children: children.join(","),
+        caption,
+      });
+      creationId = carousel.id;
+    } else {
+      const container = await createContainer(account, { ...mediaParams(payload.mediaUrls[0]), caption });
+      creationId = container.id;
+    }
+
+    const published = await requestJson<{ id: string }>(
+      "instagram",
+      `${GRAPH_URL}/${account.platformAccountId}/media_publish`,
+      {
+        method: "POST",
+        body: new URLSearchParams({ creation_id: creationId, access_token: account.accessToken }),
+      }
+    );
+
+    const firstComment = payload.firstComment
+      ? await postComment(account, published.id, payload.firstComment)
+      : undefined;
+
+    const details = await requestJson<{ permalink?: string }>(
+      "instagram",
+      `${GRAPH_URL}/${published.id}?fields=permalink&access_token=${encodeURIComponent(account.accessToken)}`
+    );
+
+    return { postId: published.id, url: details.permalink, firstComment };
+  },
+
+  async delete() {
+    throw new Error("Instagram does not allow deleting posts through the API");
+  },
+
+  async fetchMetrics(account, platformPostId) {
+    const insights = await requestJson<{ data: Array<{ name: string; values: Array<{ value: number }> }> }>(
+      "instagram",
+      `${GRAPH_URL}/${platformPostId}/insights?metric=impressions,reach,likes,comments,shares,saved&access_token=${encodeURIComponent(account.accessToken)}`
+    );
+
+    const value = (name: string) => insights.data.find((m) => m.name === name)?.values[0]?.value ?? 0;
+
+    return {
+      ...emptyMetrics(),
+      impressions: value("impressions"),
+      reach: value("reach"),
+      likes: value("likes"),
+      comments: value("comments"),
+      shares: value("shares"),
+      saves: value("saved"),
+    };
+  },
+};
@@ -0,0 +1,84 @@
+import type { PlatformPublisher, PublisherAccount } from "./types";
+import { composeText, emptyMetrics, ensureOk, requestJson, validatePayload } from "./shared";
+
+const API_URL = "https://api.linkedin.com/rest";
+const LINKEDIN_VERSION = "202401";
+
+function headers(account: PublisherAccount): Record<string, string> {
+  return {
+    Authorization: `Bearer ${account.accessToken}`,
+    "LinkedIn-Version": LINKEDIN_VERSION,
+    "X-Restli-Protocol-Version": "2.0.0",
+    "Content-Type": "application/json",
+  };
+}
+
+// Connections store either a bare member id or a full person/organization URN
+function authorUrn(account: PublisherAccount): string {
+  return account.platformAccountId.startsWith("urn:")
+    ? account.platformAccountId
+    : `urn:li:person:${account.platformAccountId}`;
+}
+
+// LinkedIn Posts API (text posts)
+export const linkedinPublisher: PlatformPublisher = {
+  platform: "linkedin",
+
+  validate(payload) {
+    const warnings: string[] = [];
+    if (payload.mediaUrls.length > 0) {
+      warnings.push("LinkedIn media uploads are not supported yet; the post will be text only");
+    }
+    return validatePayload("linkedin", payload, { warnings });
+  },
+
+  async publish(account, payload) {
+    const response = await fetch(`${API_URL}/posts`, {
+      method: "POST",
+      headers: headers(account),
+      body: JSON.stringify({
+        author: authorUrn(account),
+        commentary: composeText("linkedin", payload),
+        visibility: "PUBLIC",
+        distribution: {
+          feedDistribution: "MAIN_FEED",
+          targetEntities: [],
+          thirdPartyDistributionChannels: [],
+        },
+        lifecycleState: "PUBLISHED",
+        isReshareDisabledByAuthor: false,
+      }),
+    });
+    await ensureOk("linkedin", response);
+
+    // The new post URN comes back in a header, not the body
+    const postUrn = response.headers.get("x-restli-id");
+    if (!postUrn) {
+      throw new Error("linkedin API error: response did not include a post id");
+    }
+
+    return { postId: postUrn, url: `https://www.linkedin.com/feed/update/${postUrn}` };
+  },
+
+  async delete(account, platformPostId) {
+    await requestJson("linkedin", `${API_URL}/posts/${encodeURIComponent(platformPostId)}`, {
+      method: "DELETE",
+      headers: headers(account),
+    });
+  },
+
+  async fetchMetrics(account, platformPostId) {
+    const actions = await requestJson<{
+      likesSummary?: { totalLikes: number };
+      commentsSummary?: { aggregatedTotalComments: number };
+    }>("linkedin", `${API_URL}/socialActions/${encodeURIComponent(platformPostId)}`, {
+      headers: headers(account),
+    });
+
+    return {
+      ...emptyMetrics(),
+      likes: actions.likesSummary?.totalLikes ?? 0,
+      comments: actions.commentsSummary?.aggregatedTotalComments ?? 0,
+    };
+  },
+};
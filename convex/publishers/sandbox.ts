@@ -0,0 +1,61 @@
+import type { PlatformPublisher, PostMetrics, PublishOutcome } from "./types";
+import { composeText, requestJson } from "./shared";
+
+/**
+ * Wrap a real publisher so validation stays platform-accurate but every
+ * network call goes to the local sandbox stand-in
+ * (`npm run sandbox:platform`), which records the payloads it receives.
+ */
+export function createSandboxPublisher(publisher: PlatformPublisher, baseUrl: string): PlatformPublisher {
+  const root = baseUrl.replace(/\/$/, "");
+
+  return {
+    platform: publisher.platform,
+
+    validate: (payload) => publisher.validate(payload),
+
+    async publish(account, payload) {
+      const outcome = await requestJson<PublishOutcome>("sandbox", `${root}/posts`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          platform: publisher.platform,
+          account: {
+            platformAccountId: account.platformAccountId,
+            platformUsername: account.platformUsername,
+          },
+          text: composeText(publisher.platform, payload),
+          payload,
+        }),
+      });
+      if (!payload.firstComment) {
+        return outcome;
+      }
+
+      try {
+        const comment = await requestJson<{ id: string }>(
+          "sandbox",
+          `${root}/posts/${encodeURIComponent(outcome.postId)}/comments`,
+          {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ message: payload.firstComment }),
+          }
+        );
+        return { ...outcome, firstComment: { commentId: comment.id } };
+      } catch (error) {
+        return { ...outcome, firstComment: { error: error instanceof Error ? error.message : "Unknown comment error" } };
+      }
+    },
+
+    async delete(_account, platformPostId) {
+      await requestJson("sandbox", `${root}/posts/${encodeURIComponent(platformPostId)}`, {
+        method: "DELETE",
+      });
+    },
+
+    async fetchMetrics(_account, platformPostId) {
+      return requestJson<PostMetrics>("sandbox", `${root}/posts/${encodeURIComponent(platformPostId)}/metrics`);
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { formatForPlatform, type Platform } from "../../src/lib/platformFormatter";
+import type { PostMetrics, PublishPayload, ValidationResult } from "./types";
+
+/**
+ * Build the final caption/body text for a platform using the same
+ * formatter the editor previews with.
+ */
+export function composeText(platform: Platform, payload: PublishPayload): string {
+  return formatForPlatform(payload.content, platform, payload.hashtags, payload.mentions).content;
+}
+
+/**
+ * Run the shared formatter checks and merge in platform-specific findings.
+ */
+export function validatePayload(
+  platform: Platform,
+  payload: PublishPayload,
+  extra: { errors?: string[]; warnings?: string[] } = {}
+): ValidationResult {
+  const formatted = formatForPlatform(payload.content, platform, payload.hashtags, payload.mentions);
+  const errors = [...(extra.errors ?? [])];
+
+  if (!payload.content.trim()) {
+    errors.push("Post content is empty");
+  }
+  if (!formatted.isWithinLimit) {
+    errors.push(`Content exceeds ${platform} limit (${formatted.characterCount}/${formatted.maxCharacters})`);
+  }
+
+  payload.replies?.forEach((reply, index) => {
+    const part = formatForPlatform(reply.content, platform);
+    if (!reply.content.trim()) {
+      errors.push(`Thread part ${index + 2} is empty`);
+    } else if (!part.isWithinLimit) {
+      errors.push(`Thread part ${index + 2} exceeds ${platform} limit (${part.characterCount}/${part.maxCharacters})`);
+    }
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: [...formatted.warnings, ...(extra.warnings ?? [])],
+  };
+}
+
+/**
+ * fetch() wrapper that turns non-2xx responses into errors carrying the
+ * platform's own message, so they end up in `scheduledPosts.error`.
+ */
+export async function requestJson<T>(platform: Platform | "sandbox", url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, init);
+  await ensureOk(platform, response);
+
+  const body = await response.text();
+  return (body ? JSON.parse(body) : undefined) as T;
+}
+
+export async function ensureOk(platform: Platform | "sandbox", response: Response): Promise<void> {
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`${platform} API error (${response.status}): ${body.slice(0, 300)}`);
+  }
+}
+
+export function isVideoPayload(payload: PublishPayload): boolean {
+  return payload.mediaType === "video" || payload.mediaUrls.some(isVideoUrl);
+}
+
+export function isVideoUrl(url: string): boolean {
+  return /\.(mp4|mov|m4v|webm)(\?|$)/i.test(url);
+}
+
+export function emptyMetrics(): PostMetrics {
+  return {
+    impressions: 0,
+    reach: 0,
+    likes: 0,
+    comments: 0,
+    shares: 0,
+    saves: 0,
+    clicks: 0,
+  };
+}
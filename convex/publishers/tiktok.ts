@@ -0,0 +1,75 @@
+import type { PlatformPublisher, PublisherAccount } from "./types";
+import { composeText, emptyMetrics, isVideoPayload, requestJson, validatePayload } from "./shared";
+
+const API_URL = "https://open.tiktokapis.com/v2";
+
+function headers(account: PublisherAccount): Record<string, string> {
+  return {
+    Authorization: `Bearer ${account.accessToken}`,
+    "Content-Type": "application/json; charset=UTF-8",
+  };
+}
+
+// TikTok Content Posting API, pulling the video from its public URL
+export const tiktokPublisher: PlatformPublisher = {
+  platform: "tiktok",
+
+  validate(payload) {
+    const errors: string[] = [];
+    if (payload.mediaUrls.length !== 1 || !isVideoPayload(payload)) {
+      errors.push("TikTok posts need exactly one video");
+    }
+    return validatePayload("tiktok", payload, { errors });
+  },
+
+  async publish(account, payload) {
+    const result = await requestJson<{ data: { publish_id: string } }>(
+      "tiktok",
+      `${API_URL}/post/publish/video/init/`,
+      {
+        method: "POST",
+        headers: headers(account),
+        body: JSON.stringify({
+          post_info: {
+            title: composeText("tiktok", payload),
+            privacy_level: "PUBLIC_TO_EVERYONE",
+          },
+          source_info: {
+            source: "PULL_FROM_URL",
+            video_url: payload.mediaUrls[0],
+          },
+        }),
+      }
+    );
+
+    // TikTok processes the upload asynchronously; the publish id is all we get back
+    return { postId: result.data.publish_id };
+  },
+
+  async delete() {
+    throw new Error("TikTok does not allow deleting posts through the API");
+  },
+
+  async fetchMetrics(account, platformPostId) {
+    const result = await requestJson<{
+      data: {
+        videos: Array<{ view_count?: number; like_count?: number; comment_count?: number; share_count?: number }>;
+      };
+    }>("tiktok", `${API_URL}/video/query/?fields=id,view_count,like_count,comment_count,share_count`, {
+      method: "POST",
+      headers: headers(account),
+      body: JSON.stringify({ filters: { video_ids: [platformPostId] } }),
+    });
+
+    const video = result.data.videos[0] ?? {};
+    return {
+      ...emptyMetrics(),
+      impressions: video.view_count ?? 0,
+      reach: video.view_count ?? 0,
+      likes: video.like_count ?? 0,
+      comments: video.comment_count ?? 0,
+      shares: video.share_count ?? 0,
+      videoViews: video.view_count ?? 0,
+    };
+  },
+};
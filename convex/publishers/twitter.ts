@@ -0,0 +1,128 @@
+import type { PlatformPublisher, PublisherAccount } from "./types";
+import { composeText, emptyMetrics, ensureOk, isVideoUrl, requestJson, validatePayload } from "./shared";
+
+const API_URL = "https://api.x.com/2";
+
+async function uploadMedia(account: PublisherAccount, url: string): Promise<string> {
+  const source = await fetch(url);
+  await ensureOk("twitter", source);
+
+  const form = new FormData();
+  form.append("media", await source.blob());
+  form.append("media_category", isVideoUrl(url) ? "tweet_video" : "tweet_image");
+
+  const uploaded = await requestJson<{ data: { id: string } }>("twitter", `${API_URL}/media/upload`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${account.accessToken}` },
+    body: form,
+  });
+  return uploaded.data.id;
+}
+
+async function postTweet(
+  account: PublisherAccount,
+  text: string,
+  mediaUrls: string[],
+  inReplyToId?: string
+): Promise<string> {
+  const mediaIds: string[] = [];
+  for (const url of mediaUrls) {
+    mediaIds.push(await uploadMedia(account, url));
+  }
+
+  const result = await requestJson<{ data: { id: string } }>("twitter", `${API_URL}/tweets`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${account.accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      text,
+      ...(mediaIds.length > 0 ? { media: { media_ids: mediaIds } } : {}),
+      ...(inReplyToId ? { reply: { in_reply_to_tweet_id: inReplyToId } } : {}),
+    }),
+  });
+  return result.data.id;
+}
+
+async function deleteTweet(account: PublisherAccount, tweetId: string): Promise<void> {
+  await requestJson("twitter", `${API_URL}/tweets/${tweetId}`, {
+    method: "DELETE",
+    headers: { Authorization: `Bearer ${account.accessToken}` },
+  });
+}
+
+// X API v2 with an OAuth 2.0 user access token
+export const twitterPublisher: PlatformPublisher = {
+  platform: "twitter",
+
+  validate(payload) {
+    const errors: string[] = [];
+    if (payload.mediaUrls.length > 4) {
+      errors.push("X allows at most 4 media items per post");
+    }
+    payload.replies?.forEach((reply, index) => {
+      if (reply.mediaUrls.length > 4) {
+        errors.push(`Thread part ${index + 2} has more than 4 media items`);
+      }
+    });
+    return validatePayload("twitter", payload, { errors });
+  },
+
+  async publish(account, payload) {
+    const firstId = await postTweet(account, composeText("twitter", payload), payload.mediaUrls);
+
+    // Chain the rest of a thread as replies; if one fails, take the
+    // partial thread down so the retry starts from a clean slate
+    const posted = [firstId];
+    for (const [index, reply] of (payload.replies ?? []).entries()) {
+      try {
+        posted.push(await postTweet(account, reply.content, reply.mediaUrls, posted[posted.length - 1]));
+      } catch (error) {
+        for (const id of posted.reverse()) {
+          await deleteTweet(account, id).catch(() => undefined);
+        }
+        throw new Error(
+          `Thread part ${index + 2} failed: ${error instanceof Error ? error.message : "Unknown publish error"}`
+        );
+      }
+    }
+
+    return {
+      postId: firstId,
+      url: `https://x.com/${account.platformUsername}/status/${firstId}`,
+    };
+  },
+
+  async delete(account, platformPostId) {
+    await deleteTweet(account, platformPostId);
+  },
+
+  async fetchMetrics(account, platformPostId) {
+    const result = await requestJson<{
+      data: {
+        public_metrics: {
+          retweet_count: number;
+          reply_count: number;
+          like_count: number;
+          quote_count: number;
+          bookmark_count?: number;
+          impression_count?: number;
+        };
+      };
+    }>("twitter", `${API_URL}/tweets/${platformPostId}?tweet.fields=public_metrics`, {
+      headers: { Authorization: `Bearer ${account.accessToken}` },
+    });
+
+    const metrics = result.data.public_metrics;
+    return {
+      ...emptyMetrics(),
+      impressions: metrics.impression_count ?? 0,
+      reach: metrics.impression_count ?? 0,
+      likes: metrics.like_count,
+      comments: metrics.reply_count,
+      shares: metrics.retweet_count + metrics.quote_count,
+      saves: metrics.bookmark_count ?? 0,
+    };
+  },
+};
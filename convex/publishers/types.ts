@@ -0,0 +1,63 @@
+import type { Platform } from "../../src/lib/platformFormatter";
+
+// Content handed to a publisher, already resolved for one platform
+export interface PublishPayload {
+  title?: string;
+  content: string;
+  hashtags: string[];
+  mentions: string[];
+  mediaUrls: string[];
+  mediaType?: string; // 'image', 'video', 'carousel'
+  replies?: ThreadReply[]; // Rest of a thread, posted as a reply chain under this post
+  firstComment?: string; // Commented on the post right after it goes out
+}
+
+// A later part of a thread post
+export interface ThreadReply {
+  content: string;
+  mediaUrls: string[];
+}
+
+// The connected account a publisher acts on behalf of
+export interface PublisherAccount {
+  platformAccountId: string;
+  platformUsername: string;
+  accessToken: string;
+}
+
+export interface PublishOutcome {
+  postId: string;
+  url?: string;
+  firstComment?: FirstCommentOutcome;
+}
+
+// A failed first comment doesn't fail the publish, since the post is already live
+export interface FirstCommentOutcome {
+  commentId?: string;
+  error?: string;
+}
+
+export interface PostMetrics {
+  impressions: number;
+  reach: number;
+  likes: number;
+  comments: number;
+  shares: number;
+  saves: number;
+  clicks: number;
+  videoViews?: number;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface PlatformPublisher {
+  platform: Platform;
+  validate(payload: PublishPayload): ValidationResult;
+  publish(account: PublisherAccount, payload: PublishPayload): Promise<PublishOutcome>;
+  delete(account: PublisherAccount, platformPostId: string): Promise<void>;
+  fetchMetrics(account: PublisherAccount, platformPostId: string): Promise<PostMetrics>;
+}
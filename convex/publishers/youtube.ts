@@ -0,0 +1,82 @@
+import type { PlatformPublisher } from "./types";
+import { composeText, emptyMetrics, ensureOk, isVideoPayload, requestJson, validatePayload } from "./shared";
+
+const API_URL = "https://www.googleapis.com/youtube/v3";
+const UPLOAD_URL = "https://www.googleapis.com/upload/youtube/v3";
+
+// YouTube Data API v3 resumable video upload
+export const youtubePublisher: PlatformPublisher = {
+  platform: "youtube",
+
+  validate(payload) {
+    const errors: string[] = [];
+    if (payload.mediaUrls.length !== 1 || !isVideoPayload(payload)) {
+      errors.push("YouTube posts need exactly one video");
+    }
+    return validatePayload("youtube", payload, { errors });
+  },
+
+  async publish(account, payload) {
+    const title = (payload.title || payload.content.split("\n")[0]).slice(0, 100);
+
+    const session = await fetch(`${UPLOAD_URL}/videos?uploadType=resumable&part=snippet,status`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${account.accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        snippet: {
+          title,
+          description: composeText("youtube", payload),
+          tags: payload.hashtags.map((h) => h.replace(/^#/, "")),
+        },
+        status: { privacyStatus: "public" },
+      }),
+    });
+    await ensureOk("youtube", session);
+
+    const uploadUrl = session.headers.get("location");
+    if (!uploadUrl) {
+      throw new Error("youtube API error: upload session did not return a location");
+    }
+
+    const source = await fetch(payload.mediaUrls[0]);
+    await ensureOk("youtube", source);
+
+    const video = await requestJson<{ id: string }>("youtube", uploadUrl, {
+      method: "PUT",
+      headers: { Authorization: `Bearer ${account.accessToken}` },
+      body: await source.blob(),
+    });
+
+    return { postId: video.id, url: `https://www.youtube.com/watch?v=${video.id}` };
+  },
+
+  async delete(account, platformPostId) {
+    await requestJson("youtube", `${API_URL}/videos?id=${encodeURIComponent(platformPostId)}`, {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${account.accessToken}` },
+    });
+  },
+
+  async fetchMetrics(account, platformPostId) {
+    const result = await requestJson<{
+      items: Array<{ statistics: { viewCount?: string; likeCount?: string; commentCount?: string } }>;
+    }>("youtube", `${API_URL}/videos?part=statistics&id=${encodeURIComponent(platformPostId)}`, {
+      headers: { Authorization: `Bearer ${account.accessToken}` },
+    });
+
+    const stats = result.items[0]?.statistics ?? {};
+    const views = Number(stats.viewCount ?? 0);
+
+    return {
+      ...emptyMetrics(),
+      impressions: views,
+      reach: views,
+      likes: Number(stats.likeCount ?? 0),
+      comments: Number(stats.commentCount ?? 0),
+      videoViews: views,
+    };
+  },
+};
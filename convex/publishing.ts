@@ -0,0 +1,275 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { addPauseToScope, isPostPaused, syncScheduledPosts, type PausedScope } from "./scheduler";
+
+// Organization the user may pause for: one they own or administer
+async function getManagedOrganization(ctx: QueryCtx, userId: Id<"users">) {
+  const owned = await ctx.db
+    .query("organizations")
+    .withIndex("by_owner", (q) => q.eq("ownerId", userId))
+    .first();
+  if (owned) {
+    return owned;
+  }
+
+  const memberships = await ctx.db
+    .query("teamMembers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  const admin = memberships.find((m) => m.status === "active" && (m.role === "owner" || m.role === "admin"));
+  return admin ? await ctx.db.get(admin.organizationId) : null;
+}
+
+// The pause currently holding back this user's posts, their own or their organization's
+async function getActivePause(ctx: QueryCtx, userId: Id<"users">, now: number) {
+  const isActive = (pause: Doc<"publishingPauses">) =>
+    pause.resumedAt === undefined && (pause.resumeAt === undefined || pause.resumeAt > now);
+
+  const own = await ctx.db
+    .query("publishingPauses")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  const personal = own.find((pause) => !pause.organizationId && isActive(pause));
+  if (personal) {
+    return personal;
+  }
+
+  const organizationIds = new Set<Id<"organizations">>();
+  const owned = await ctx.db
+    .query("organizations")
+    .withIndex("by_owner", (q) => q.eq("ownerId", userId))
+    .collect();
+  owned.forEach((org) => organizationIds.add(org._id));
+  const memberships = await ctx.db
+    .query("teamMembers")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .collect();
+  memberships.filter((m) => m.status === "active").forEach((m) => organizationIds.add(m.organizationId));
+
+  for (const organizationId of organizationIds) {
+    const pauses = await ctx.db
+      .query("publishingPauses")
+      .withIndex("by_org", (q) => q.eq("organizationId", organizationId))
+      .collect();
+    const active = pauses.find(isActive);
+    if (active) {
+      return active;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Scheduled posts a pause holds or will hold: everything it covers that
+ * was due at or after the moment publishing stopped. Series that started
+ * before the pause aren't included; their held occurrences go out on resume.
+ */
+async function getPausedPosts(ctx: QueryCtx, pause: Doc<"publishingPauses">) {
+  const scope: PausedScope = { userIds: new Set(), organizationIds: new Set() };
+  await addPauseToScope(ctx, scope, pause);
+
+  const posts = new Map<Id<"posts">, Doc<"posts">>();
+  for (const userId of scope.userIds) {
+    const scheduled = await ctx.db
+      .query("posts")
+      .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "scheduled"))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+    scheduled.forEach((post) => posts.set(post._id, post));
+  }
+  for (const organizationId of scope.organizationIds) {
+    const orgPosts = await ctx.db
+      .query("posts")
+      .withIndex("by_org", (q) => q.eq("organizationId", organizationId))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+    orgPosts.filter((post) => post.status === "scheduled").forEach((post) => posts.set(post._id, post));
+  }
+
+  return [...posts.values()].filter(
+    (post) => isPostPaused(scope, post) && post.scheduledAt !== undefined && post.scheduledAt >= pause.pausedAt
+  );
+}
+
+// Whether publishing is paused for the current user, and what it's holding
+export const getStatus = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return null;
+    }
+
+    const now = Date.now();
+    const organization = await getManagedOrganization(ctx, user._id);
+    const pause = await getActivePause(ctx, user._id, now);
+
+    if (!pause) {
+      return {
+        pause: null,
+        organization: organization ? { _id: organization._id, name: organization.name } : null,
+      };
+    }
+
+    const pausedOrganization = pause.organizationId ? await ctx.db.get(pause.organizationId) : null;
+    const posts = await getPausedPosts(ctx, pause);
+
+    return {
+      pause: {
+        _id: pause._id,
+        reason: pause.reason,
+        pausedAt: pause.pausedAt,
+        resumeAt: pause.resumeAt,
+        organizationName: pausedOrganization?.name,
+        // Only whoever can lift the pause gets the resume controls
+        canResume: pause.organizationId
+          ? organization?._id === pause.organizationId
+          : pause.userId === user._id,
+        heldCount: posts.filter((post) => post.scheduledAt! <= now).length,
+        upcomingCount: posts.filter((post) => post.scheduledAt! > now).length,
+      },
+      organization: organization ? { _id: organization._id, name: organization.name } : null,
+    };
+  },
+});
+
+// Stop all publishing for the user, or for their whole organization
+export const pause = mutation({
+  args: {
+    reason: v.string(),
+    resumeAt: v.optional(v.number()),
+    scope: v.union(v.literal("user"), v.literal("organization")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const reason = args.reason.trim();
+    if (!reason) {
+      throw new Error("A reason is required to pause publishing");
+    }
+
+    const now = Date.now();
+    if (args.resumeAt !== undefined && args.resumeAt <= now) {
+      throw new Error("Auto-resume time must be in the future");
+    }
+
+    let organizationId: Id<"organizations"> | undefined;
+    if (args.scope === "organization") {
+      const organization = await getManagedOrganization(ctx, user._id);
+      if (!organization) {
+        throw new Error("Unauthorized");
+      }
+      organizationId = organization._id;
+    }
+
+    const existing = await getActivePause(ctx, user._id, now);
+    if (existing && existing.organizationId === organizationId) {
+      throw new Error("Publishing is already paused");
+    }
+
+    return await ctx.db.insert("publishingPauses", {
+      userId: user._id,
+      organizationId,
+      reason,
+      pausedAt: now,
+      resumeAt: args.resumeAt,
+    });
+  },
+});
+
+// Lift a pause, optionally pushing every post it held back by `shiftMs`
+export const resume = mutation({
+  args: {
+    pauseId: v.id("publishingPauses"),
+    shiftMs: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const pause = await ctx.db.get(args.pauseId);
+    if (!pause) {
+      throw new Error("Pause not found");
+    }
+
+    if (pause.organizationId) {
+      const organization = await getManagedOrganization(ctx, user._id);
+      if (organization?._id !== pause.organizationId) {
+        throw new Error("Unauthorized");
+      }
+    } else if (pause.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    if (pause.resumedAt !== undefined) {
+      throw new Error("Publishing has already resumed");
+    }
+
+    const now = Date.now();
+    let shifted = 0;
+
+    // Move posts before lifting the pause so nothing slips out at its old time
+    if (args.shiftMs) {
+      if (args.shiftMs < 0) {
+        throw new Error("Posts can only be shifted later");
+      }
+
+      for (const post of await getPausedPosts(ctx, pause)) {
+        await ctx.db.patch(post._id, {
+          scheduledAt: post.scheduledAt! + args.shiftMs,
+          updatedAt: now,
+        });
+        await syncScheduledPosts(ctx, post._id);
+        shifted++;
+      }
+    }
+
+    await ctx.db.patch(pause._id, { resumedAt: now, resumedBy: user._id });
+
+    return { shifted };
+  },
+});
@@ -0,0 +1,398 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { postingSlotValidator } from "./schema";
+import { syncScheduledPosts } from "./scheduler";
+import { recordRevision } from "./revisions";
+import { isSupportedPlatform } from "./publishers";
+import { getDefaultBestTime } from "../src/lib/platformFormatter";
+import { getZonedParts, zonedDateTimeToUtc } from "../src/lib/timezone";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HORIZON_DAYS = 56; // How far ahead the queue looks for a free slot
+const SLOT_MATCH_MS = 60 * 1000; // A post in the same minute occupies the slot
+const SEEDED_SLOTS_PER_PLATFORM = 3;
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+type PostingSlot = { weekday: number; time: string };
+
+type QueueState = {
+  timeZone: string;
+  slots: Map<string, PostingSlot[]>; // By platform
+  taken: Map<string, number[]>; // Occupied times by platform
+};
+
+function formatTime(hours: number, minutes: number): string {
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+// "11:00 AM" -> "11:00"
+function parseTwelveHourTime(time: string): string | null {
+  const match = /^(\d{1,2}):(\d{2})\s*(AM|PM)$/i.exec(time.trim());
+  if (!match) return null;
+  const hours = (Number(match[1]) % 12) + (match[3].toUpperCase() === "PM" ? 12 : 0);
+  return formatTime(hours, Number(match[2]));
+}
+
+/**
+ * Starting slots for an account that has none saved: the learned best
+ * posting times when the ML profile has them, else the platform default.
+ * Learned times are recorded in UTC and come back in the user's timezone.
+ */
+function seedSlots(mlProfile: Doc<"userMlProfiles"> | null, platform: string, timeZone: string): PostingSlot[] {
+  const learned: Array<{ day: string; hour: number }> = mlProfile?.bestPostingTimes?.[platform] ?? [];
+  const slots: PostingSlot[] = [];
+
+  for (const entry of learned.slice(0, SEEDED_SLOTS_PER_PLATFORM)) {
+    const weekday = DAY_NAMES.indexOf(entry.day);
+    if (weekday === -1 || typeof entry.hour !== "number") continue;
+
+    // 1970-01-04 was a Sunday, so this lands on the right UTC weekday
+    const zoned = getZonedParts(Date.UTC(1970, 0, 4 + weekday, entry.hour), timeZone);
+    slots.push({ weekday: zoned.weekday, time: formatTime(zoned.hour, zoned.minute) });
+  }
+
+  if (slots.length === 0 && isSupportedPlatform(platform)) {
+    const fallback = getDefaultBestTime(platform);
+    const time = parseTwelveHourTime(fallback.time);
+    const weekday = DAY_NAMES.indexOf(fallback.day);
+    if (time && weekday !== -1) {
+      slots.push({ weekday, time });
+    }
+  }
+
+  return slots;
+}
+
+function sortSlots(slots: PostingSlot[]): PostingSlot[] {
+  return [...slots].sort((a, b) => a.weekday - b.weekday || a.time.localeCompare(b.time));
+}
+
+// Saved or seeded slots for each active connection, one entry per platform
+async function loadAccountSlots(ctx: QueryCtx, user: Doc<"users">) {
+  const timeZone = user.timezone ?? "UTC";
+
+  const connections = await ctx.db
+    .query("platformConnections")
+    .withIndex("by_user", (q) => q.eq("userId", user._id))
+    .collect();
+
+  const saved = await ctx.db
+    .query("postingSlots")
+    .withIndex("by_user", (q) => q.eq("userId", user._id))
+    .collect();
+
+  const mlProfile = await ctx.db
+    .query("userMlProfiles")
+    .withIndex("by_user", (q) => q.eq("userId", user._id))
+    .first();
+
+  const accounts: Array<{
+    connectionId: Id<"platformConnections">;
+    platform: string;
+    platformUsername: string;
+    slots: PostingSlot[];
+    seeded: boolean;
+  }> = [];
+
+  for (const connection of connections) {
+    // The scheduler publishes through the first active connection per platform
+    if (!connection.isActive || accounts.some((a) => a.platform === connection.platform)) {
+      continue;
+    }
+
+    const row = saved.find((s) => s.connectionId === connection._id);
+    accounts.push({
+      connectionId: connection._id,
+      platform: connection.platform,
+      platformUsername: connection.platformUsername,
+      slots: sortSlots(row ? row.slots : seedSlots(mlProfile, connection.platform, timeZone)),
+      seeded: !row,
+    });
+  }
+
+  return { timeZone, accounts };
+}
+
+/**
+ * Occupied slot times per platform, from the pending publishing queue.
+ * Rows belonging to `ignore` are left out so those posts can be moved.
+ */
+async function loadQueueState(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  ignore: Set<Id<"posts">> = new Set()
+): Promise<QueueState> {
+  const { timeZone, accounts } = await loadAccountSlots(ctx, user);
+
+  const rows = await ctx.db
+    .query("scheduledPosts")
+    .withIndex("by_user", (q) => q.eq("userId", user._id))
+    .collect();
+
+  const taken = new Map<string, number[]>();
+  for (const row of rows) {
+    if ((row.status !== "pending" && row.status !== "processing") || ignore.has(row.postId)) {
+      continue;
+    }
+    taken.set(row.platform, [...(taken.get(row.platform) ?? []), row.scheduledAt]);
+  }
+
+  return {
+    timeZone,
+    slots: new Map(accounts.map((a) => [a.platform, a.slots])),
+    taken,
+  };
+}
+
+// Instants of a platform's weekly slots between `from` and `to`
+function slotTimes(slots: PostingSlot[], timeZone: string, from: number, to: number): number[] {
+  const times: number[] = [];
+  const start = getZonedParts(from, timeZone);
+
+  for (let day = 0; day <= Math.ceil((to - from) / DAY_MS); day++) {
+    const date = new Date(Date.UTC(start.year, start.month, start.day + day));
+
+    for (const slot of slots) {
+      if (slot.weekday !== date.getUTCDay()) continue;
+
+      const [hours, minutes] = slot.time.split(":").map(Number);
+      const time = zonedDateTimeToUtc(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate(),
+        hours,
+        minutes,
+        timeZone
+      );
+      if (time > from && time <= to) {
+        times.push(time);
+      }
+    }
+  }
+
+  return times;
+}
+
+function isTaken(state: QueueState, platform: string, time: number): boolean {
+  return (state.taken.get(platform) ?? []).some((t) => Math.abs(t - time) < SLOT_MATCH_MS);
+}
+
+function reserve(state: QueueState, platforms: string[], time: number) {
+  for (const platform of platforms) {
+    state.taken.set(platform, [...(state.taken.get(platform) ?? []), time]);
+  }
+}
+
+/**
+ * Earliest slot after `from` on any of the post's platforms that is free
+ * on every one of its platforms that shares the slot. Platforms without
+ * slots don't constrain the choice; they publish at the same time.
+ */
+function findFreeSlot(state: QueueState, platforms: string[], from: number): number | null {
+  const to = from + HORIZON_DAYS * DAY_MS;
+  const byPlatform = platforms
+    .filter((platform) => state.slots.get(platform)?.length)
+    .map((platform) => ({
+      platform,
+      times: new Set(slotTimes(state.slots.get(platform)!, state.timeZone, from, to)),
+    }));
+
+  const candidates = [...new Set(byPlatform.flatMap((p) => [...p.times]))].sort((a, b) => a - b);
+
+  for (const time of candidates) {
+    const owners = byPlatform.filter((p) => p.times.has(time));
+    if (owners.every((p) => !isTaken(state, p.platform, time))) {
+      return time;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Next free slot for a post with these platforms. Throws when none of them
+ * has slots or the queue is full for the whole horizon.
+ */
+export async function nextQueueSlot(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  platforms: string[],
+  ignorePostId?: Id<"posts">
+): Promise<number> {
+  const state = await loadQueueState(ctx, user, new Set(ignorePostId ? [ignorePostId] : []));
+
+  if (!platforms.some((platform) => state.slots.get(platform)?.length)) {
+    throw new Error("None of these platforms has posting slots");
+  }
+
+  const slot = findFreeSlot(state, platforms, Date.now());
+  if (slot === null) {
+    throw new Error(`No free posting slot in the next ${HORIZON_DAYS / 7} weeks`);
+  }
+  return slot;
+}
+
+/**
+ * Move queued posts up into slots freed since they were queued, keeping
+ * their order. Posts only ever move earlier, and ones already due are left
+ * to the dispatcher.
+ */
+export async function reshuffleQueue(ctx: MutationCtx, userId: Id<"users">) {
+  const user = await ctx.db.get(userId);
+  if (!user) return;
+
+  const now = Date.now();
+  const queued = (
+    await ctx.db
+      .query("posts")
+      .withIndex("by_user_status", (q) => q.eq("userId", userId).eq("status", "scheduled"))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect()
+  )
+    .filter((post) => post.queued && !post.recurrence && (post.scheduledAt ?? 0) > now)
+    .sort((a, b) => a.scheduledAt! - b.scheduledAt!);
+
+  if (queued.length === 0) return;
+
+  const state = await loadQueueState(ctx, user, new Set(queued.map((post) => post._id)));
+
+  for (const post of queued) {
+    const slot = findFreeSlot(state, post.platforms, now);
+    if (slot === null || slot >= post.scheduledAt!) {
+      reserve(state, post.platforms, post.scheduledAt!);
+      continue;
+    }
+
+    reserve(state, post.platforms, slot);
+    await ctx.db.patch(post._id, { scheduledAt: slot, updatedAt: now });
+    await recordRevision(ctx, post, userId);
+    await syncScheduledPosts(ctx, post._id);
+  }
+}
+
+// Posting slots for each connected account
+export const getSlots = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return [];
+    }
+
+    const { accounts } = await loadAccountSlots(ctx, user);
+    return accounts;
+  },
+});
+
+// Time "Add to queue" would pick right now, or null when there is none
+export const getNextSlot = query({
+  args: { platforms: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user || args.platforms.length === 0) {
+      return null;
+    }
+
+    const state = await loadQueueState(ctx, user);
+    return findFreeSlot(state, args.platforms, Date.now());
+  },
+});
+
+// Replace the weekly slots of a connected account
+export const saveSlots = mutation({
+  args: {
+    connectionId: v.id("platformConnections"),
+    slots: v.array(postingSlotValidator),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const connection = await ctx.db.get(args.connectionId);
+    if (!connection || connection.userId !== user._id) {
+      throw new Error("Unauthorized");
+    }
+
+    if (args.slots.some((slot) => !/^([01]\d|2[0-3]):[0-5]\d$/.test(slot.time))) {
+      throw new Error("Slot times must be HH:mm");
+    }
+    if (args.slots.some((slot) => !Number.isInteger(slot.weekday) || slot.weekday < 0 || slot.weekday > 6)) {
+      throw new Error("Slot weekdays must be 0-6");
+    }
+
+    // Drop duplicates so one time can't be offered twice
+    const slots = sortSlots(
+      args.slots.filter(
+        (slot, i) => args.slots.findIndex((s) => s.weekday === slot.weekday && s.time === slot.time) === i
+      )
+    );
+
+    const existing = await ctx.db
+      .query("postingSlots")
+      .withIndex("by_connection", (q) => q.eq("connectionId", args.connectionId))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { slots, updatedAt: Date.now() });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("postingSlots", {
+      userId: user._id,
+      connectionId: args.connectionId,
+      platform: connection.platform,
+      slots,
+      updatedAt: Date.now(),
+    });
+  },
+});
@@ -0,0 +1,118 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import type { MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+
+// The fields of a post that revisions keep
+function snapshot(doc: Doc<"posts"> | Doc<"postRevisions">) {
+  return {
+    title: doc.title,
+    content: doc.content,
+    hashtags: doc.hashtags,
+    platforms: doc.platforms,
+    scheduledAt: doc.scheduledAt,
+    timezone: doc.timezone,
+    postType: doc.postType,
+    threadParts: doc.threadParts,
+  };
+}
+
+/**
+ * Record a post's state after an edit by `authorId`. The first recorded
+ * edit also keeps what the post looked like before it, so the original
+ * version survives. Edits that leave every tracked field alone add nothing.
+ */
+export async function recordRevision(
+  ctx: MutationCtx,
+  before: Doc<"posts">,
+  authorId: Id<"users">,
+  restoredFromId?: Id<"postRevisions">
+) {
+  const after = await ctx.db.get(before._id);
+  if (!after) {
+    return;
+  }
+
+  const next = snapshot(after);
+  if (JSON.stringify(next) === JSON.stringify(snapshot(before))) {
+    return;
+  }
+
+  const hasHistory = await ctx.db
+    .query("postRevisions")
+    .withIndex("by_post", (q) => q.eq("postId", before._id))
+    .first();
+
+  if (!hasHistory) {
+    await ctx.db.insert("postRevisions", {
+      postId: before._id,
+      authorId: before.userId,
+      ...snapshot(before),
+      createdAt: before.updatedAt,
+    });
+  }
+
+  await ctx.db.insert("postRevisions", {
+    postId: before._id,
+    authorId,
+    ...next,
+    restoredFromId,
+    createdAt: Date.now(),
+  });
+}
+
+export async function deleteRevisions(ctx: MutationCtx, postId: Id<"posts">) {
+  const revisions = await ctx.db
+    .query("postRevisions")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .collect();
+
+  for (const revision of revisions) {
+    await ctx.db.delete(revision._id);
+  }
+}
+
+// A post's revisions, newest first, with who made each one
+export const list = query({
+  args: { postId: v.id("posts") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      return [];
+    }
+
+    const post = await ctx.db.get(args.postId);
+    if (!post) {
+      return [];
+    }
+
+    // Verify ownership
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user || post.userId !== user._id) {
+      return [];
+    }
+
+    const revisions = await ctx.db
+      .query("postRevisions")
+      .withIndex("by_post", (q) => q.eq("postId", args.postId))
+      .order("desc")
+      .collect();
+
+    const authors = new Map<Id<"users">, string>();
+    for (const revision of revisions) {
+      if (!authors.has(revision.authorId)) {
+        const author = await ctx.db.get(revision.authorId);
+        authors.set(revision.authorId, author?.name ?? author?.email ?? "Unknown");
+      }
+    }
+
+    return revisions.map((revision) => ({
+      ...revision,
+      authorName: authors.get(revision.authorId)!,
+    }));
+  },
+});
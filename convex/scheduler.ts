@@ -0,0 +1,738 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import type { MutationCtx, QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { internal } from "./_generated/api";
+import { getPublisher, isSupportedPlatform, type PublishPayload } from "./publishers";
+import { isAwaitingApproval, recordReview, SUBMITTED_FOR_REVIEW } from "./approvals";
+import { findMediaFailures } from "./media";
+import { getNextOccurrence, getOccurrences } from "../src/lib/recurrence";
+import { joinThreadParts, THREAD_PLATFORMS } from "../src/lib/thread";
+import { FIRST_COMMENT_PLATFORMS, splitFirstCommentHashtags, type Platform } from "../src/lib/platformFormatter";
+import { getMediaDerivatives, resolveMediaUrls } from "../src/lib/crop";
+
+// Dispatcher tuning
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60 * 1000; // 1 minute, doubled on every retry
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000; // Reclaim jobs stuck in processing
+const DISPATCH_BATCH_SIZE = 25;
+const DISPATCH_SCAN_SIZE = 200; // Due rows looked at per page; held rows are paged past until the batch fills
+const MATERIALIZE_HORIZON_MS = 14 * 24 * 60 * 60 * 1000; // Queue recurring occurrences two weeks out
+
+export type PublishResult = {
+  status: "completed" | "failed";
+  postId?: string;
+  url?: string;
+  error?: string;
+  attempts: number;
+  at: number;
+  firstComment?: { status: "completed" | "failed"; commentId?: string; error?: string };
+};
+
+/**
+ * Occurrence timestamps a post should have queue rows for right now: the
+ * single scheduled time, or the upcoming slice of a recurring series.
+ */
+function upcomingOccurrences(post: Doc<"posts">, now: number): number[] {
+  if (!post.scheduledAt) {
+    return [];
+  }
+  if (!post.recurrence) {
+    return [post.scheduledAt];
+  }
+  return getOccurrences(post.scheduledAt, post.recurrence, now, now + MATERIALIZE_HORIZON_MS);
+}
+
+/**
+ * Insert queue rows for every (platform, occurrence) pair of a scheduled
+ * post that doesn't have one yet. Returns how many platforms have an active
+ * connection to publish through.
+ */
+async function queueOccurrences(
+  ctx: MutationCtx,
+  post: Doc<"posts">,
+  existing: Doc<"scheduledPosts">[]
+): Promise<number> {
+  const now = Date.now();
+  const occurrences = upcomingOccurrences(post, now);
+
+  const alreadyQueued = new Set(
+    existing.map((row) => `${row.platform}:${row.occurrenceAt ?? row.scheduledAt}`)
+  );
+
+  const connections = await ctx.db
+    .query("platformConnections")
+    .withIndex("by_user", (q) => q.eq("userId", post.userId))
+    .collect();
+
+  const publishResults: Record<string, PublishResult> = { ...(post.publishResults ?? {}) };
+  let connected = 0;
+
+  for (const platform of post.platforms) {
+    const connection = connections.find((c) => c.platform === platform && c.isActive);
+    if (!connection) {
+      publishResults[platform] = {
+        status: "failed",
+        error: `No active ${platform} connection`,
+        attempts: 0,
+        at: now,
+      };
+      continue;
+    }
+
+    connected++;
+    if (publishResults[platform]?.attempts === 0) {
+      delete publishResults[platform];
+    }
+
+    for (const occurrenceAt of occurrences) {
+      if (alreadyQueued.has(`${platform}:${occurrenceAt}`)) {
+        continue;
+      }
+      await ctx.db.insert("scheduledPosts", {
+        postId: post._id,
+        userId: post.userId,
+        platform,
+        connectionId: connection._id,
+        scheduledAt: occurrenceAt,
+        occurrenceAt,
+        status: "pending",
+        attempts: 0,
+      });
+    }
+  }
+
+  await ctx.db.patch(post._id, { publishResults });
+  return connected;
+}
+
+/**
+ * Rebuild the queue rows for a post from its current status, schedule,
+ * recurrence and platforms. Rows that are already processing are left
+ * alone so an in-flight publish is never duplicated; finished rows are
+ * dropped since their outcome already lives in `posts.publishResults`.
+ */
+export async function syncScheduledPosts(ctx: MutationCtx, postId: Id<"posts">) {
+  const post = await ctx.db.get(postId);
+  if (!post) {
+    return;
+  }
+
+  const existing = await ctx.db
+    .query("scheduledPosts")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .collect();
+
+  for (const row of existing) {
+    if (row.status !== "processing") {
+      await ctx.db.delete(row._id);
+    }
+  }
+
+  // Nothing publishes from the trash
+  if (post.status !== "scheduled" || !post.scheduledAt || post.deletedAt) {
+    return;
+  }
+
+  const inFlight = existing.filter((row) => row.status === "processing");
+  const connected = await queueOccurrences(ctx, post, inFlight);
+
+  // Nothing can ever be published for this post, so fail it up front
+  // instead of leaving it scheduled forever
+  if (connected === 0) {
+    await ctx.db.patch(postId, { status: "failed" });
+  }
+}
+
+// Top up queue rows for recurring series as occurrences enter the horizon (run by cron)
+export const materializeRecurringPosts = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const scheduled = await ctx.db
+      .query("posts")
+      .withIndex("by_status", (q) => q.eq("status", "scheduled"))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .collect();
+
+    let series = 0;
+    for (const post of scheduled) {
+      if (!post.recurrence) {
+        continue;
+      }
+
+      const existing = await ctx.db
+        .query("scheduledPosts")
+        .withIndex("by_post", (q) => q.eq("postId", post._id))
+        .collect();
+      await queueOccurrences(ctx, post, existing);
+      series++;
+    }
+
+    return { series };
+  },
+});
+
+/**
+ * Remove every queue row for a post that has not finished yet.
+ */
+export async function clearScheduledPosts(ctx: MutationCtx, postId: Id<"posts">) {
+  const rows = await ctx.db
+    .query("scheduledPosts")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .collect();
+
+  for (const row of rows) {
+    if (row.status === "pending" || row.status === "processing") {
+      await ctx.db.delete(row._id);
+    }
+  }
+}
+
+/**
+ * Roll the per-platform queue outcomes up into the parent post's status
+ * and publishResults.
+ */
+async function rollUpPostStatus(ctx: MutationCtx, postId: Id<"posts">) {
+  const post = await ctx.db.get(postId);
+  if (!post) {
+    return;
+  }
+
+  const rows = await ctx.db
+    .query("scheduledPosts")
+    .withIndex("by_post", (q) => q.eq("postId", postId))
+    .collect();
+
+  const publishResults: Record<string, PublishResult> = { ...(post.publishResults ?? {}) };
+
+  // Latest occurrence wins so a series shows its most recent outcome
+  const ordered = [...rows].sort(
+    (a, b) => (a.occurrenceAt ?? a.scheduledAt) - (b.occurrenceAt ?? b.scheduledAt)
+  );
+  for (const row of ordered) {
+    if (row.status === "completed" || row.status === "failed") {
+      publishResults[row.platform] = {
+        status: row.status,
+        postId: row.platformPostId,
+        url: row.platformPostUrl,
+        error: row.error,
+        attempts: row.attempts,
+        at: row.lastAttemptAt ?? Date.now(),
+        firstComment: row.firstCommentId
+          ? { status: "completed", commentId: row.firstCommentId }
+          : row.firstCommentError
+            ? { status: "failed", error: row.firstCommentError }
+            : undefined,
+      };
+    }
+  }
+
+  const now = Date.now();
+  const hasOpenRows = rows.some((row) => row.status === "pending" || row.status === "processing");
+
+  // A series stays scheduled for as long as it has occurrences left
+  if (post.recurrence && post.scheduledAt) {
+    const hasMore = hasOpenRows || getNextOccurrence(post.scheduledAt, post.recurrence, now) !== null;
+    const anyCompleted = Object.values(publishResults).some((r) => r.status === "completed");
+    await ctx.db.patch(postId, {
+      status: hasMore ? "scheduled" : anyCompleted ? "published" : "failed",
+      publishedAt: ordered.some((row) => row.status === "completed") ? now : post.publishedAt,
+      publishResults,
+      updatedAt: now,
+    });
+    return;
+  }
+
+  if (hasOpenRows) {
+    // Rows handed back by a pause haven't been tried yet, so the post is still just scheduled
+    const started = rows.some(
+      (row) => row.status === "processing" || (row.status === "pending" && row.attempts > 0)
+    );
+    await ctx.db.patch(postId, { status: started ? "publishing" : "scheduled", publishResults, updatedAt: now });
+    return;
+  }
+
+  const anyCompleted = Object.values(publishResults).some((r) => r.status === "completed");
+  await ctx.db.patch(postId, {
+    status: anyCompleted ? "published" : "failed",
+    publishedAt: anyCompleted ? post.publishedAt ?? now : post.publishedAt,
+    publishResults,
+    updatedAt: now,
+  });
+}
+
+export type PausedScope = {
+  userIds: Set<Id<"users">>;
+  organizationIds: Set<Id<"organizations">>;
+};
+
+/**
+ * Who publishing is paused for right now. An organization pause holds the
+ * organization's posts and every post by its active members. Pauses past
+ * their auto-resume time no longer count.
+ */
+export async function loadPausedScope(ctx: QueryCtx, now: number): Promise<PausedScope> {
+  const pauses = await ctx.db
+    .query("publishingPauses")
+    .withIndex("by_resumed", (q) => q.eq("resumedAt", undefined))
+    .collect();
+
+  const scope: PausedScope = { userIds: new Set(), organizationIds: new Set() };
+
+  for (const pause of pauses) {
+    if (pause.resumeAt !== undefined && pause.resumeAt <= now) {
+      continue;
+    }
+    await addPauseToScope(ctx, scope, pause);
+  }
+
+  return scope;
+}
+
+// Widen `scope` by the users and organization one pause covers
+export async function addPauseToScope(ctx: QueryCtx, scope: PausedScope, pause: Doc<"publishingPauses">) {
+  if (!pause.organizationId) {
+    scope.userIds.add(pause.userId);
+    return;
+  }
+
+  const organizationId = pause.organizationId;
+  scope.organizationIds.add(organizationId);
+
+  const organization = await ctx.db.get(organizationId);
+  if (organization) {
+    scope.userIds.add(organization.ownerId);
+  }
+
+  const members = await ctx.db
+    .query("teamMembers")
+    .withIndex("by_org", (q) => q.eq("organizationId", organizationId))
+    .collect();
+  for (const member of members) {
+    if (member.status === "active") {
+      scope.userIds.add(member.userId);
+    }
+  }
+}
+
+export function isPostPaused(scope: PausedScope, post: Pick<Doc<"posts">, "userId" | "organizationId">): boolean {
+  return (
+    scope.userIds.has(post.userId) ||
+    (post.organizationId !== undefined && scope.organizationIds.has(post.organizationId))
+  );
+}
+
+async function isRowPaused(ctx: QueryCtx, scope: PausedScope, row: Doc<"scheduledPosts">): Promise<boolean> {
+  if (scope.userIds.has(row.userId)) {
+    return true;
+  }
+  if (scope.organizationIds.size === 0) {
+    return false;
+  }
+  const post = await ctx.db.get(row.postId);
+  return post !== null && isPostPaused(scope, post);
+}
+
+/**
+ * Claim due queue rows and hand each one to the publish action (run by
+ * cron). Rows go out in batches; a page full of held rows (paused accounts)
+ * hands its cursor to a follow-up run, so they can't starve everyone else.
+ */
+export const dispatchDuePosts = internalMutation({
+  args: {
+    cursor: v.optional(v.string()), // Set on follow-up runs, which page on from here
+    now: v.optional(v.number()), // Follow-ups keep the first run's cut-off so the cursor stays valid
+  },
+  handler: async (ctx, args) => {
+    const now = args.now ?? Date.now();
+
+    // Jobs whose action died mid-flight count as a failed attempt
+    const stuck = args.cursor
+      ? []
+      : await ctx.db
+          .query("scheduledPosts")
+          .withIndex("by_status_scheduled", (q) => q.eq("status", "processing"))
+          .filter((q) => q.lt(q.field("lastAttemptAt"), now - PROCESSING_TIMEOUT_MS))
+          .take(DISPATCH_BATCH_SIZE);
+
+    for (const row of stuck) {
+      await recordFailure(ctx, row, "Publish timed out");
+    }
+
+    const page = await ctx.db
+      .query("scheduledPosts")
+      .withIndex("by_status_scheduled", (q) =>
+        q.eq("status", "pending").lte("scheduledAt", now)
+      )
+      .paginate({ numItems: DISPATCH_SCAN_SIZE, cursor: args.cursor ?? null });
+    const due = page.page;
+
+    // Rows of paused users and organizations stay pending until resumed
+    const paused = await loadPausedScope(ctx, now);
+    const touchedPosts = new Set<Id<"posts">>();
+    let dispatched = 0;
+    let held = 0;
+
+    for (const row of due) {
+      if (dispatched >= DISPATCH_BATCH_SIZE) {
+        break;
+      }
+      if (await isRowPaused(ctx, paused, row)) {
+        held++;
+        continue;
+      }
+
+      dispatched++;
+      await ctx.db.patch(row._id, {
+        status: "processing",
+        attempts: row.attempts + 1,
+        lastAttemptAt: now,
+      });
+      touchedPosts.add(row.postId);
+      await ctx.scheduler.runAfter(0, internal.scheduler.publishScheduledPost, {
+        scheduledPostId: row._id,
+      });
+    }
+
+    for (const postId of touchedPosts) {
+      await rollUpPostStatus(ctx, postId);
+    }
+
+    // Room left in the batch and more due rows past this page
+    if (dispatched < DISPATCH_BATCH_SIZE && !page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.scheduler.dispatchDuePosts, {
+        cursor: page.continueCursor,
+        now,
+      });
+    }
+
+    return { dispatched, held, reclaimed: stuck.length };
+  },
+});
+
+// Load everything the publish action needs for one queue row
+export const getPublishJob = internalQuery({
+  args: { scheduledPostId: v.id("scheduledPosts") },
+  handler: async (ctx, args) => {
+    const queueItem = await ctx.db.get(args.scheduledPostId);
+    if (!queueItem || queueItem.status !== "processing") {
+      return null;
+    }
+
+    const post = await ctx.db.get(queueItem.postId);
+    const connection = await ctx.db.get(queueItem.connectionId);
+    if (!post || post.deletedAt || !connection) {
+      return null;
+    }
+
+    // A pause that started after dispatch still stops the publish
+    const paused = isPostPaused(await loadPausedScope(ctx, Date.now()), post);
+    const awaitingApproval = await isAwaitingApproval(ctx, post);
+    const mediaFailures = await findMediaFailures(ctx, post.userId, post, [queueItem.platform]);
+
+    return { queueItem, post, connection, paused, awaitingApproval, mediaFailures };
+  },
+});
+
+// Publish a single queue row to its platform
+export const publishScheduledPost = internalAction({
+  args: { scheduledPostId: v.id("scheduledPosts") },
+  handler: async (ctx, args): Promise<null> => {
+    const job: {
+      queueItem: Doc<"scheduledPosts">;
+      post: Doc<"posts">;
+      connection: Doc<"platformConnections">;
+      paused: boolean;
+      awaitingApproval: boolean;
+      mediaFailures: string[];
+    } | null = await ctx.runQuery(internal.scheduler.getPublishJob, args);
+
+    if (!job) {
+      await ctx.runMutation(internal.scheduler.markFailed, {
+        scheduledPostId: args.scheduledPostId,
+        error: "Post or platform connection no longer exists",
+        retry: false,
+      });
+      return null;
+    }
+
+    const { queueItem, post, connection } = job;
+
+    if (job.paused) {
+      await ctx.runMutation(internal.scheduler.releasePausedJob, {
+        scheduledPostId: args.scheduledPostId,
+      });
+      return null;
+    }
+
+    // Configuration and validation problems won't fix themselves on retry
+    const failWithoutRetry = (error: string) =>
+      ctx.runMutation(internal.scheduler.markFailed, {
+        scheduledPostId: args.scheduledPostId,
+        error,
+        retry: false,
+      });
+
+    if (job.awaitingApproval) {
+      await ctx.runMutation(internal.scheduler.releaseForApproval, {
+        scheduledPostId: args.scheduledPostId,
+      });
+      return null;
+    }
+    if (job.mediaFailures.length > 0) {
+      await failWithoutRetry(job.mediaFailures.join("; "));
+      return null;
+    }
+    if (!isSupportedPlatform(queueItem.platform)) {
+      await failWithoutRetry(`Unsupported platform: ${queueItem.platform}`);
+      return null;
+    }
+    if (!connection.isActive) {
+      await failWithoutRetry(`${connection.platform} connection is inactive`);
+      return null;
+    }
+
+    const publisher = getPublisher(queueItem.platform);
+    const payload = buildPublishPayload(post, queueItem.platform);
+    const validation = publisher.validate(payload);
+    if (!validation.valid) {
+      await failWithoutRetry(validation.errors.join("; "));
+      return null;
+    }
+
+    try {
+      const result = await publisher.publish(
+        {
+          platformAccountId: connection.platformAccountId,
+          platformUsername: connection.platformUsername,
+          accessToken: connection.accessToken,
+        },
+        payload
+      );
+      await ctx.runMutation(internal.scheduler.markCompleted, {
+        scheduledPostId: args.scheduledPostId,
+        platformPostId: result.postId,
+        platformPostUrl: result.url,
+        firstCommentId: result.firstComment?.commentId,
+        firstCommentError: result.firstComment?.error,
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.scheduler.markFailed, {
+        scheduledPostId: args.scheduledPostId,
+        error: error instanceof Error ? error.message : "Unknown publish error",
+        retry: true,
+      });
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Resolve what gets sent to one platform, applying any per-platform
+ * content override and image crops from `platformSpecificContent`.
+ * Threads become a reply chain where the platform has one, and a single
+ * joined post elsewhere.
+ * Posts with first-comment hashtags publish a bare caption and hand the
+ * queued comment to publishers that can post it.
+ */
+function buildPublishPayload(post: Doc<"posts">, platform: string): PublishPayload {
+  const override = post.platformSpecificContent?.[platform];
+  const parts = post.postType === "thread" ? post.threadParts ?? [] : [];
+
+  if (parts.length > 1) {
+    const [first, ...rest] = parts;
+    const chained = THREAD_PLATFORMS.includes(platform);
+    const joined = joinThreadParts(parts);
+
+    return {
+      title: post.title,
+      content: typeof override?.content === "string" ? override.content : chained ? first.content : joined.content,
+      hashtags: post.hashtags ?? [],
+      mentions: post.mentions ?? [],
+      mediaUrls: chained ? first.mediaUrls ?? [] : joined.mediaUrls,
+      mediaType: post.mediaType,
+      replies: chained ? rest.map((part) => ({ content: part.content, mediaUrls: part.mediaUrls ?? [] })) : undefined,
+    };
+  }
+
+  const content = typeof override?.content === "string" ? override.content : post.content;
+  const mediaUrls = resolveMediaUrls(post.mediaUrls ?? [], getMediaDerivatives(post.platformSpecificContent, platform));
+
+  if (post.hashtagPlacement === "first-comment" && FIRST_COMMENT_PLATFORMS.includes(platform as Platform)) {
+    return {
+      title: post.title,
+      content: splitFirstCommentHashtags(content).caption,
+      hashtags: [],
+      mentions: post.mentions ?? [],
+      mediaUrls,
+      mediaType: post.mediaType,
+      firstComment: post.firstComment,
+    };
+  }
+
+  return {
+    title: post.title,
+    content,
+    hashtags: post.hashtags ?? [],
+    mentions: post.mentions ?? [],
+    mediaUrls,
+    mediaType: post.mediaType,
+  };
+}
+
+export const markCompleted = internalMutation({
+  args: {
+    scheduledPostId: v.id("scheduledPosts"),
+    platformPostId: v.optional(v.string()),
+    platformPostUrl: v.optional(v.string()),
+    firstCommentId: v.optional(v.string()),
+    firstCommentError: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const row = await ctx.db.get(args.scheduledPostId);
+    if (!row || row.status !== "processing") {
+      return;
+    }
+
+    await ctx.db.patch(row._id, {
+      status: "completed",
+      error: undefined,
+      platformPostId: args.platformPostId,
+      platformPostUrl: args.platformPostUrl,
+      firstCommentId: args.firstCommentId,
+      firstCommentError: args.firstCommentError,
+    });
+
+    await trackPublishedPost(ctx, row, args.platformPostId, args.platformPostUrl);
+    await rollUpPostStatus(ctx, row.postId);
+  },
+});
+
+// Put a claimed row back in the queue untouched because publishing got paused
+export const releasePausedJob = internalMutation({
+  args: { scheduledPostId: v.id("scheduledPosts") },
+  handler: async (ctx, args) => {
+    const row = await ctx.db.get(args.scheduledPostId);
+    if (!row || row.status !== "processing") {
+      return;
+    }
+
+    await ctx.db.patch(row._id, {
+      status: "pending",
+      attempts: Math.max(0, row.attempts - 1),
+    });
+    await rollUpPostStatus(ctx, row.postId);
+  },
+});
+
+/**
+ * Send an unapproved post to review instead of publishing it, e.g. one
+ * scheduled before its organization turned approvals on.
+ */
+export const releaseForApproval = internalMutation({
+  args: { scheduledPostId: v.id("scheduledPosts") },
+  handler: async (ctx, args) => {
+    const row = await ctx.db.get(args.scheduledPostId);
+    if (!row || row.status !== "processing") {
+      return;
+    }
+
+    const post = await ctx.db.get(row.postId);
+    if (!post) {
+      return;
+    }
+
+    await clearScheduledPosts(ctx, post._id);
+    if (post.status !== "pending_approval") {
+      await ctx.db.patch(post._id, { ...SUBMITTED_FOR_REVIEW, queued: undefined, updatedAt: Date.now() });
+      await recordReview(ctx, post._id, post.userId, "submitted");
+    }
+  },
+});
+
+export const markFailed = internalMutation({
+  args: {
+    scheduledPostId: v.id("scheduledPosts"),
+    error: v.string(),
+    retry: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const row = await ctx.db.get(args.scheduledPostId);
+    if (!row || row.status !== "processing") {
+      return;
+    }
+
+    await recordFailure(ctx, row, args.error, args.retry);
+  },
+});
+
+/**
+ * Start a postPerformance record for a freshly published platform post so
+ * the metrics refresh job can pick it up.
+ */
+async function trackPublishedPost(
+  ctx: MutationCtx,
+  row: Doc<"scheduledPosts">,
+  platformPostId?: string,
+  postUrl?: string
+) {
+  const post = await ctx.db.get(row.postId);
+  if (!post || !platformPostId) {
+    return;
+  }
+
+  const now = Date.now();
+  await ctx.db.insert("postPerformance", {
+    userId: row.userId,
+    postId: row.postId,
+    connectionId: row.connectionId,
+    platform: row.platform,
+    platformPostId,
+    postUrl,
+    contentType: post.mediaType || "text",
+    contentText: post.content,
+    hashtags: post.hashtags,
+    mentions: post.mentions,
+    postedAt: now,
+    impressions: 0,
+    reach: 0,
+    likes: 0,
+    comments: 0,
+    shares: 0,
+    saves: 0,
+    clicks: 0,
+    engagementRate: 0,
+    viralityScore: 0,
+    wasAiGenerated: post.wasAiGenerated,
+    aiPromptUsed: post.aiPromptUsed,
+    userApproved: true,
+    userEdited: false,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Put a failed attempt back in the queue with exponential backoff, or mark
+ * it failed for good once the attempt cap is reached.
+ */
+async function recordFailure(
+  ctx: MutationCtx,
+  row: Doc<"scheduledPosts">,
+  error: string,
+  retry = true
+) {
+  if (retry && row.attempts < MAX_ATTEMPTS) {
+    const delay = BASE_RETRY_DELAY_MS * 2 ** (row.attempts - 1);
+    await ctx.db.patch(row._id, {
+      status: "pending",
+      scheduledAt: Date.now() + delay,
+      error,
+    });
+  } else {
+    await ctx.db.patch(row._id, { status: "failed", error });
+  }
+
+  await rollUpPostStatus(ctx, row.postId);
+}
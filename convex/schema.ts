@@ -1,6 +1,37 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Recurrence rule for repeating posts (see src/lib/recurrence.ts)
+export const recurrenceValidator = v.object({
+  frequency: v.union(v.literal("daily"), v.literal("weekly"), v.literal("monthly")),
+  interval: v.number(),
+  byWeekday: v.optional(v.array(v.number())), // 0 = Sunday ... 6 = Saturday
+  until: v.optional(v.number()),
+  count: v.optional(v.number()),
+  exceptions: v.optional(v.array(v.number())), // Skipped occurrence timestamps
+  timezone: v.optional(v.string()), // IANA zone the series keeps its wall-clock time in
+});
+
+// Weekly posting slot for a connected account
+export const postingSlotValidator = v.object({
+  weekday: v.number(), // 0 = Sunday ... 6 = Saturday
+  time: v.string(), // "HH:mm" in the user's timezone
+});
+
+// One part of a thread post, published as a reply to the part before it
+export const threadPartValidator = v.object({
+  content: v.string(),
+  mediaUrls: v.optional(v.array(v.string())),
+});
+
+// Targets a campaign is measured against; each one is optional
+export const campaignGoalsValidator = v.object({
+  posts: v.optional(v.number()),
+  impressions: v.optional(v.number()),
+  engagements: v.optional(v.number()), // Likes, comments, shares and saves
+  clicks: v.optional(v.number()),
+});
+
 export default defineSchema({
   // Users table
   users: defineTable({
@@ -18,6 +49,7 @@ export default defineSchema({
     timezone: v.optional(v.string()),
     language: v.optional(v.string()),
     onboardingCompleted: v.boolean(),
+    calendarFeedToken: v.optional(v.string()), // Secret for the .ics feed URL
 
     // Subscription/billing
     subscriptionTier: v.string(), // 'free', 'pro', 'enterprise'
@@ -31,7 +63,8 @@ export default defineSchema({
   })
     .index("by_email", ["email"])
     .index("by_token", ["tokenIdentifier"])
-    .index("by_external_id", ["authProvider", "externalId"]),
+    .index("by_external_id", ["authProvider", "externalId"])
+    .index("by_calendar_feed_token", ["calendarFeedToken"]),
 
   // Organizations/Teams
   organizations: defineTable({
@@ -40,6 +73,12 @@ export default defineSchema({
     ownerId: v.id("users"),
     logoUrl: v.optional(v.string()),
     plan: v.string(), // 'free', 'pro', 'enterprise'
+
+    // Approval workflow for members' posts
+    approvalRequired: v.optional(v.boolean()),
+    approverRoles: v.optional(v.array(v.string())), // teamMembers roles that may approve; owner and admin by default
+    requiredApprovals: v.optional(v.number()), // Distinct approvers needed before a post can go out
+
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -102,6 +141,11 @@ export default defineSchema({
     mediaType: v.optional(v.string()), // 'image', 'video', 'carousel'
     hashtags: v.optional(v.array(v.string())),
     mentions: v.optional(v.array(v.string())),
+    postType: v.optional(v.string()), // 'single' (default), 'thread'
+    threadParts: v.optional(v.array(threadPartValidator)), // Thread posts; content mirrors the first part
+    hashtagPlacement: v.optional(v.string()), // 'caption' (default), 'first-comment' (Instagram)
+    firstComment: v.optional(v.string()), // Hashtags queued for the first comment, derived on save
+    searchText: v.optional(v.string()), // Title, content and hashtags for the search index, derived on save
 
     // Targeting
     platforms: v.array(v.string()),
@@ -111,6 +155,32 @@ export default defineSchema({
     status: v.string(), // 'draft', 'scheduled', 'pending_approval', 'publishing', 'published', 'failed'
     scheduledAt: v.optional(v.number()),
     publishedAt: v.optional(v.number()),
+    timezone: v.optional(v.string()), // Audience timezone the post was scheduled in
+
+    // Recurrence (scheduledAt is the first occurrence of the series)
+    recurrence: v.optional(recurrenceValidator),
+    seriesParentId: v.optional(v.id("posts")), // Series this post was split or detached from
+
+    // Evergreen recycling
+    evergreen: v.optional(v.boolean()), // In the evergreen library
+    evergreenMinGapDays: v.optional(v.number()), // Overrides the policy's default gap
+    lastRecycledAt: v.optional(v.number()), // When the latest repost is (or was) scheduled
+    recycleCount: v.optional(v.number()),
+    recycledFromId: v.optional(v.id("posts")), // Evergreen post this repost was made from
+
+    // Queue (scheduledAt was taken from the posting slots and may move up)
+    queued: v.optional(v.boolean()),
+
+    // Campaign the post belongs to
+    campaignId: v.optional(v.id("campaigns")),
+
+    // Content pillar the post belongs to
+    pillarId: v.optional(v.id("contentPillars")),
+
+    // Approval (only for authors whose organization requires it)
+    approvalState: v.optional(v.string()), // 'pending', 'approved', 'changes_requested'
+    approvals: v.optional(v.array(v.id("users"))), // Approvers who signed off on the current submission
+    approvedAt: v.optional(v.number()),
 
     // AI metadata
     wasAiGenerated: v.boolean(),
@@ -121,13 +191,60 @@ export default defineSchema({
     // Publishing results (per platform)
     publishResults: v.optional(v.any()), // { instagram: { postId, url }, ... }
 
+    // Trash (purged for good 30 days after deletedAt)
+    deletedAt: v.optional(v.number()),
+
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_user", ["userId"])
     .index("by_user_status", ["userId", "status"])
+    .index("by_user_scheduled", ["userId", "scheduledAt"])
+    .index("by_user_status_scheduled", ["userId", "status", "scheduledAt"])
+    .index("by_user_evergreen", ["userId", "evergreen"])
+    .index("by_status", ["status"])
     .index("by_scheduled", ["scheduledAt"])
-    .index("by_org", ["organizationId"]),
+    .index("by_org", ["organizationId"])
+    .index("by_user_deleted", ["userId", "deletedAt"])
+    .index("by_deleted", ["deletedAt"])
+    .index("by_campaign", ["campaignId"])
+    .index("by_campaign_scheduled", ["campaignId", "scheduledAt"])
+    .index("by_pillar", ["pillarId"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["userId", "status"],
+    }),
+
+  // Campaigns group posts so their results can be read together
+  campaigns: defineTable({
+    userId: v.id("users"),
+    organizationId: v.optional(v.id("organizations")),
+
+    name: v.string(),
+    description: v.optional(v.string()),
+    color: v.string(), // "#rrggbb", marks the campaign's posts on the calendar
+    startDate: v.optional(v.string()), // "YYYY-MM-DD"
+    endDate: v.optional(v.string()), // "YYYY-MM-DD", inclusive
+    goals: v.optional(campaignGoalsValidator),
+    tags: v.optional(v.array(v.string())),
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  // Content pillars and the share of posts each should get
+  contentPillars: defineTable({
+    userId: v.id("users"),
+
+    name: v.string(),
+    color: v.string(), // "#rrggbb"
+    targetPercent: v.number(), // 0–100; the user's pillars add up to 100 at most
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
 
   // Scheduled posts queue
   scheduledPosts: defineTable({
@@ -138,6 +255,7 @@ export default defineSchema({
     connectionId: v.id("platformConnections"),
 
     scheduledAt: v.number(),
+    occurrenceAt: v.optional(v.number()), // Series occurrence this row publishes (scheduledAt moves on retry)
     status: v.string(), // 'pending', 'processing', 'completed', 'failed'
 
     attempts: v.number(),
@@ -146,11 +264,41 @@ export default defineSchema({
 
     platformPostId: v.optional(v.string()),
     platformPostUrl: v.optional(v.string()),
+    firstCommentId: v.optional(v.string()),
+    firstCommentError: v.optional(v.string()), // The post went out but its first comment didn't
   })
     .index("by_scheduled", ["scheduledAt", "status"])
+    .index("by_status_scheduled", ["status", "scheduledAt"])
     .index("by_post", ["postId"])
     .index("by_user", ["userId"]),
 
+  // Review activity on posts going through approval
+  postReviews: defineTable({
+    postId: v.id("posts"),
+    userId: v.id("users"),
+    action: v.string(), // 'submitted', 'approved', 'changes_requested', 'comment'
+    comment: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_post", ["postId", "createdAt"]),
+
+  // Post revision history (never edited; restoring adds a new revision)
+  postRevisions: defineTable({
+    postId: v.id("posts"),
+    authorId: v.id("users"), // Who made the edit that produced this version
+
+    title: v.optional(v.string()),
+    content: v.string(),
+    hashtags: v.optional(v.array(v.string())),
+    platforms: v.array(v.string()),
+    scheduledAt: v.optional(v.number()),
+    timezone: v.optional(v.string()),
+    postType: v.optional(v.string()),
+    threadParts: v.optional(v.array(threadPartValidator)),
+
+    restoredFromId: v.optional(v.id("postRevisions")),
+    createdAt: v.number(),
+  }).index("by_post", ["postId", "createdAt"]),
+
   // Analytics snapshots (daily metrics per platform)
   analyticsSnapshots: defineTable({
     userId: v.id("users"),
@@ -328,6 +476,110 @@ export default defineSchema({
   })
     .index("by_user", ["userId"]),
 
+  // Evergreen rotation policy (one per user)
+  evergreenSettings: defineTable({
+    userId: v.id("users"),
+
+    enabled: v.boolean(),
+    weekdays: v.array(v.number()), // 0 = Sunday ... 6 = Saturday
+    times: v.array(v.string()), // "HH:mm" slot times on each of those days
+    rotation: v.string(), // 'round_robin', 'top_performing'
+    defaultMinGapDays: v.number(),
+
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_enabled", ["enabled"]),
+
+  // Publishing pauses ("crisis mode"); a pause with organizationId holds the whole org
+  publishingPauses: defineTable({
+    userId: v.id("users"), // Who paused
+    organizationId: v.optional(v.id("organizations")),
+
+    reason: v.string(),
+    pausedAt: v.number(),
+    resumeAt: v.optional(v.number()), // Auto-resume time
+    resumedAt: v.optional(v.number()),
+    resumedBy: v.optional(v.id("users")),
+  })
+    .index("by_user", ["userId"])
+    .index("by_org", ["organizationId"])
+    .index("by_resumed", ["resumedAt"]),
+
+  // Weekly posting slots per connected account ("add to queue" fills these)
+  postingSlots: defineTable({
+    userId: v.id("users"),
+    connectionId: v.id("platformConnections"),
+    platform: v.string(),
+
+    slots: v.array(postingSlotValidator),
+
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_connection", ["connectionId"]),
+
+  // Per-platform posting-density limits; platforms without a row use the defaults in src/lib/density
+  densityRules: defineTable({
+    userId: v.id("users"),
+    platform: v.string(),
+
+    maxPerHour: v.optional(v.number()),
+    maxPerDay: v.optional(v.number()),
+    minGapMinutes: v.optional(v.number()),
+
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  // Holidays and events shown on the calendar, from imported .ics files or the bundled observances
+  calendarEvents: defineTable({
+    userId: v.id("users"),
+    source: v.string(), // File name or calendar name it was imported from
+    uid: v.string(), // Unique within a source; re-importing replaces instead of duplicating
+
+    title: v.string(),
+    description: v.optional(v.string()),
+    startAt: v.number(),
+    endAt: v.optional(v.number()), // Exclusive
+    allDay: v.boolean(), // All-day dates are stored at midnight UTC
+
+    createdAt: v.number(),
+  })
+    .index("by_user_start", ["userId", "startAt"])
+    .index("by_user_source", ["userId", "source"]),
+
+  // Uploaded and AI-generated images and videos, kept in Convex file storage
+  mediaAssets: defineTable({
+    userId: v.id("users"),
+
+    storageId: v.id("_storage"),
+    url: v.string(), // Serving URL; what posts keep in mediaUrls
+    thumbnailStorageId: v.optional(v.id("_storage")),
+    thumbnailUrl: v.optional(v.string()),
+
+    // File metadata
+    name: v.string(),
+    mimeType: v.string(),
+    size: v.number(), // Bytes
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+    duration: v.optional(v.number()), // Seconds, for video
+
+    // Organization
+    folder: v.optional(v.string()),
+    tags: v.optional(v.array(v.string())),
+
+    source: v.string(), // 'upload', 'ai_image', 'ai_video'
+    prompt: v.optional(v.string()), // What an AI asset was generated from
+    derivedFrom: v.optional(v.id("mediaAssets")), // Source of a per-platform crop
+
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_derived_from", ["derivedFrom"]),
+
   // AI content queue (generated content awaiting approval)
   aiContentQueue: defineTable({
     userId: v.id("users"),
@@ -356,5 +608,9 @@ export default defineSchema({
     updatedAt: v.number(),
   })
     .index("by_user_status", ["userId", "status"])
-    .index("by_scheduled", ["scheduledFor"]),
+    .index("by_scheduled", ["scheduledFor"])
+    .searchIndex("search_content", {
+      searchField: "contentText",
+      filterFields: ["userId"],
+    }),
 });
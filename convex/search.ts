@@ -0,0 +1,110 @@
+import { v } from "convex/values";
+import { internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+
+const POST_RESULTS = 20;
+const QUEUE_RESULTS = 5;
+const BACKFILL_BATCH = 200;
+
+/**
+ * What the posts search index reads: title, body and hashtags in one field,
+ * since a Convex search index covers a single field. Every write that
+ * changes one of them stores this alongside.
+ */
+export function postSearchText(post: { title?: string; content: string; hashtags?: string[] }): string {
+  return [post.title ?? "", post.content, (post.hashtags ?? []).map((tag) => `#${tag}`).join(" ")]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Posts and AI queue items matching a search, best matches first
+export const search = query({
+  args: { query: v.string() },
+  handler: async (ctx, args) => {
+    const text = args.query.trim();
+    if (!text) {
+      return { posts: [], queue: [] };
+    }
+
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return { posts: [], queue: [] };
+    }
+
+    const userId = user._id;
+    const posts = await ctx.db
+      .query("posts")
+      .withSearchIndex("search_text", (q) => q.search("searchText", text).eq("userId", userId))
+      .filter((q) => q.eq(q.field("deletedAt"), undefined))
+      .take(POST_RESULTS);
+
+    const queue = await ctx.db
+      .query("aiContentQueue")
+      .withSearchIndex("search_content", (q) => q.search("contentText", text).eq("userId", userId))
+      .take(QUEUE_RESULTS);
+
+    return {
+      posts: posts.map((post) => ({
+        _id: post._id,
+        title: post.title,
+        content: post.content,
+        platforms: post.platforms,
+        status: post.status,
+        scheduledAt: post.scheduledAt,
+        publishedAt: post.publishedAt,
+      })),
+      queue: queue.map((item) => ({
+        _id: item._id,
+        platform: item.platform,
+        contentText: item.contentText,
+        suggestedHashtags: item.suggestedHashtags,
+        status: item.status,
+        suggestedPostTime: item.suggestedPostTime,
+      })),
+    };
+  },
+});
+
+// One-off migration filling in searchText on posts written before search existed.
+// Run once after deploying with `npx convex run search:backfillSearchText`; it pages
+// through every post and schedules itself for the next page until done.
+export const backfillSearchText = internalMutation({
+  args: { cursor: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const page = await ctx.db
+      .query("posts")
+      .paginate({ numItems: BACKFILL_BATCH, cursor: args.cursor ?? null });
+
+    let filled = 0;
+    for (const post of page.page) {
+      if (post.searchText === undefined) {
+        await ctx.db.patch(post._id, { searchText: postSearchText(post) });
+        filled++;
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.search.backfillSearchText, {
+        cursor: page.continueCursor,
+      });
+    }
+    return { filled };
+  },
+});
@@ -1,4 +1,5 @@
 import { mutation } from "./_generated/server";
+import { postSearchText } from "./search";
 
 // Seed the database with test data
 export const seedTestData = mutation({
@@ -151,6 +152,7 @@ export const seedTestData = mutation({
         scheduledAt: post.scheduledAt,
         publishedAt: post.publishedAt,
         hashtags: post.hashtags,
+        searchText: postSearchText(post),
         mediaType: post.mediaType,
         mediaUrls: post.mediaUrls,
         wasAiGenerated: post.wasAiGenerated,
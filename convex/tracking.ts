@@ -0,0 +1,120 @@
+import { v } from "convex/values";
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+import { getPublisher, isSupportedPlatform } from "./publishers";
+
+// Only keep polling metrics while a post is still collecting engagement
+const METRICS_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+type MetricsJob = {
+  performanceId: Id<"postPerformance">;
+  platform: string;
+  platformPostId: string;
+  account: {
+    platformAccountId: string;
+    platformUsername: string;
+    accessToken: string;
+  };
+};
+
+// Recently published posts we can still pull metrics for
+export const getMetricsJobs = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<MetricsJob[]> => {
+    const since = Date.now() - METRICS_WINDOW_MS;
+
+    const recent = await ctx.db
+      .query("postPerformance")
+      .withIndex("by_posted_at", (q) => q.gte("postedAt", since))
+      .collect();
+
+    const jobs: MetricsJob[] = [];
+    for (const performance of recent) {
+      if (!performance.platformPostId || !performance.connectionId) {
+        continue;
+      }
+
+      const connection = await ctx.db.get(performance.connectionId);
+      if (!connection || !connection.isActive) {
+        continue;
+      }
+
+      jobs.push({
+        performanceId: performance._id,
+        platform: performance.platform,
+        platformPostId: performance.platformPostId,
+        account: {
+          platformAccountId: connection.platformAccountId,
+          platformUsername: connection.platformUsername,
+          accessToken: connection.accessToken,
+        },
+      });
+    }
+
+    return jobs;
+  },
+});
+
+// Pull fresh metrics from each platform (run by cron)
+export const refreshPostMetrics = internalAction({
+  args: {},
+  handler: async (ctx): Promise<{ updated: number; failed: number }> => {
+    const jobs: MetricsJob[] = await ctx.runQuery(internal.tracking.getMetricsJobs, {});
+
+    let updated = 0;
+    let failed = 0;
+
+    for (const job of jobs) {
+      if (!isSupportedPlatform(job.platform)) {
+        continue;
+      }
+
+      try {
+        const metrics = await getPublisher(job.platform).fetchMetrics(job.account, job.platformPostId);
+        await ctx.runMutation(internal.tracking.recordPostMetrics, {
+          performanceId: job.performanceId,
+          ...metrics,
+        });
+        updated++;
+      } catch (error) {
+        console.error(`Failed to refresh ${job.platform} metrics for ${job.platformPostId}:`, error);
+        failed++;
+      }
+    }
+
+    return { updated, failed };
+  },
+});
+
+export const recordPostMetrics = internalMutation({
+  args: {
+    performanceId: v.id("postPerformance"),
+    impressions: v.number(),
+    reach: v.number(),
+    likes: v.number(),
+    comments: v.number(),
+    shares: v.number(),
+    saves: v.number(),
+    clicks: v.number(),
+    videoViews: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const { performanceId, ...metrics } = args;
+
+    // Same formulas as api/posts/track.ts
+    const totalEngagement = metrics.likes + metrics.comments + metrics.shares + metrics.saves;
+    const reachValue = metrics.reach || metrics.impressions || 1;
+    const engagementRate = Math.round((totalEngagement / reachValue) * 100 * 100) / 100;
+    const viralityScore = metrics.reach
+      ? Math.round((metrics.shares / metrics.reach) * 100 * 100) / 100
+      : 0;
+
+    await ctx.db.patch(performanceId, {
+      ...metrics,
+      engagementRate,
+      viralityScore,
+      updatedAt: Date.now(),
+    });
+  },
+});
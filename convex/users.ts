@@ -0,0 +1,72 @@
+import { v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { isValidTimeZone } from "../src/lib/timezone";
+
+// Get the current user's profile
+export const getCurrent = query({
+  args: {},
+  handler: async (ctx) => {
+    // Try to get authenticated user, fallback to demo user
+    let user = null;
+    const identity = await ctx.auth.getUserIdentity();
+
+    if (identity) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+        .first();
+    }
+
+    // Fallback to demo user if no auth
+    if (!user) {
+      user = await ctx.db
+        .query("users")
+        .withIndex("by_email", (q) => q.eq("email", "demo@socialsync.pro"))
+        .first();
+    }
+
+    if (!user) {
+      return null;
+    }
+
+    return {
+      _id: user._id,
+      email: user.email,
+      name: user.name,
+      avatarUrl: user.avatarUrl,
+      timezone: user.timezone,
+      language: user.language,
+    };
+  },
+});
+
+// Set the zone every scheduling surface works in
+export const updateTimezone = mutation({
+  args: { timezone: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_token", (q) => q.eq("tokenIdentifier", identity.tokenIdentifier))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    if (!isValidTimeZone(args.timezone)) {
+      throw new Error(`Unknown timezone: ${args.timezone}`);
+    }
+
+    await ctx.db.patch(user._id, {
+      timezone: args.timezone,
+      updatedAt: Date.now(),
+    });
+
+    return user._id;
+  },
+});
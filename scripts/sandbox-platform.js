@@ -0,0 +1,129 @@
+/**
+ * Local stand-in for the social platform APIs.
+ *
+ * Point the Convex deployment at it with SANDBOX_PLATFORM_URL and every
+ * publisher routes here instead of the real platform. Published payloads
+ * are kept in memory so the schedule -> publish -> track pipeline can be
+ * checked without real tokens.
+ *
+ *   POST   /posts              record a publish, returns { postId, url }
+ *   GET    /posts              list everything recorded so far
+ *   GET    /posts/:id          a single recorded payload
+ *   GET    /posts/:id/metrics  synthetic metrics that grow over time
+ *   POST   /posts/:id/comments record a comment on a post, returns { id }
+ *   DELETE /posts/:id          remove a recorded post
+ *   DELETE /posts              reset the sandbox
+ */
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.SANDBOX_PORT || 4010);
+
+const posts = new Map();
+let nextId = 1;
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// Deterministic numbers that climb with the post's age
+function metricsFor(post) {
+  const hours = Math.max(1, (Date.now() - post.publishedAt) / (60 * 60 * 1000));
+  const base = Math.round(50 * Math.log2(hours + 1));
+  return {
+    impressions: base * 20,
+    reach: base * 14,
+    likes: base,
+    comments: Math.floor(base * 0.1),
+    shares: Math.floor(base * 0.05),
+    saves: Math.floor(base * 0.03),
+    clicks: Math.floor(base * 0.15),
+  };
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const [, resource, id, sub] = url.pathname.split('/');
+
+  if (resource !== 'posts') {
+    return send(res, 404, { error: 'Not found' });
+  }
+
+  try {
+    if (req.method === 'POST' && !id) {
+      const body = await readBody(req);
+      if (!body.platform || typeof body.text !== 'string') {
+        return send(res, 400, { error: 'platform and text are required' });
+      }
+
+      const postId = `sandbox_${body.platform}_${nextId++}`;
+      const post = { postId, ...body, publishedAt: Date.now() };
+      posts.set(postId, post);
+      console.log(`[sandbox] ${body.platform} <- ${JSON.stringify(body.text.slice(0, 80))}`);
+
+      return send(res, 201, { postId, url: `http://localhost:${PORT}/posts/${postId}` });
+    }
+
+    if (req.method === 'GET' && !id) {
+      return send(res, 200, Array.from(posts.values()));
+    }
+
+    if (req.method === 'DELETE' && !id) {
+      posts.clear();
+      return send(res, 204);
+    }
+
+    const post = posts.get(id);
+    if (!post) {
+      return send(res, 404, { error: `Unknown post ${id}` });
+    }
+
+    if (req.method === 'POST' && sub === 'comments') {
+      const body = await readBody(req);
+      if (typeof body.message !== 'string') {
+        return send(res, 400, { error: 'message is required' });
+      }
+
+      const comment = { id: `${id}_comment_${(post.comments ?? []).length + 1}`, message: body.message };
+      post.comments = [...(post.comments ?? []), comment];
+      console.log(`[sandbox] ${post.platform} ${id} comment <- ${JSON.stringify(body.message.slice(0, 80))}`);
+
+      return send(res, 201, { id: comment.id });
+    }
+
+    if (req.method === 'GET' && sub === 'metrics') {
+      return send(res, 200, metricsFor(post));
+    }
+    if (req.method === 'GET' && !sub) {
+      return send(res, 200, post);
+    }
+    if (req.method === 'DELETE' && !sub) {
+      posts.delete(id);
+      return send(res, 204);
+    }
+
+    return send(res, 405, { error: 'Method not allowed' });
+  } catch (error) {
+    console.error('[sandbox] request failed:', error);
+    return send(res, 500, { error: 'Internal server error' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Sandbox platform listening on http://localhost:${PORT}`);
+});
@@ -2,7 +2,15 @@ import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { DashboardLayout } from './components/layout';
-import { Dashboard, Login, Register, Content, Calendar, Analytics, AIStudio } from './pages';
+import {
+  TimezoneSettings,
+  PostingSlotsSettings,
+  DensitySettings,
+  ApprovalSettings,
+  PillarSettings,
+  PublishingPauseSettings,
+} from './components/settings';
+import { Dashboard, Login, Register, Content, Calendar, Analytics, AIStudio, Evergreen, Campaigns, Media } from './pages';
 import { Copilot } from './pages/Copilot';
 
 const queryClient = new QueryClient({
@@ -95,9 +103,17 @@ function TeamPage() {
 function SettingsPage() {
   return (
     <DashboardLayout>
-      <div className="text-center py-20">
-        <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
-        <p className="text-gray-500 mt-2">Configure your account settings coming soon...</p>
+      <div className="max-w-2xl space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+          <p className="text-gray-500 mt-1">Configure your account settings</p>
+        </div>
+        <TimezoneSettings />
+        <PostingSlotsSettings />
+        <DensitySettings />
+        <PillarSettings />
+        <ApprovalSettings />
+        <PublishingPauseSettings />
       </div>
     </DashboardLayout>
   );
@@ -151,6 +167,30 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/evergreen"
+        element={
+          <ProtectedRoute>
+            <Evergreen />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/campaigns"
+        element={
+          <ProtectedRoute>
+            <Campaigns />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/media"
+        element={
+          <ProtectedRoute>
+            <Media />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/analytics"
         element={
@@ -0,0 +1,76 @@
+import { Repeat } from 'lucide-react';
+import { Badge } from '../ui/Badge';
+import { EventChip } from './EventChip';
+import { platformColors, platformIcons, type ScheduledPost } from './calendarPost';
+import type { CalendarEvent } from '../../hooks/convex/useEvents';
+
+interface AgendaViewProps {
+  posts: ScheduledPost[]; // Sorted by time
+  eventsByDate: Map<string, CalendarEvent[]>; // Only days in the period
+  todayKey: string;
+  onOpenPost: (post: ScheduledPost) => void;
+}
+
+// Chronological list of upcoming posts and events, grouped by day
+export function AgendaView({ posts, eventsByDate, todayKey, onOpenPost }: AgendaViewProps) {
+  const days = [...new Set([...posts.map((post) => post.date), ...eventsByDate.keys()])].sort();
+
+  if (days.length === 0) {
+    return <p className="py-16 text-center text-sm text-gray-500">Nothing scheduled in this period</p>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-100">
+      {days.map((dateKey) => (
+        <div key={dateKey} className="flex gap-6 p-4">
+          <div className="w-28 flex-shrink-0">
+            <p className={`text-sm font-semibold ${dateKey === todayKey ? 'text-primary-600' : 'text-gray-900'}`}>
+              {new Date(`${dateKey}T00:00:00`).toLocaleDateString('en-US', { weekday: 'long' })}
+            </p>
+            <p className="text-xs text-gray-500">
+              {new Date(`${dateKey}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+            </p>
+          </div>
+          <div className="flex-1 space-y-2">
+            {(eventsByDate.get(dateKey) ?? []).map((event) => (
+              <EventChip key={event._id} event={event} />
+            ))}
+            {posts
+              .filter((post) => post.date === dateKey)
+              .map((post) => (
+                <div
+                  key={post.key}
+                  onClick={() => onOpenPost(post)}
+                  className={`flex items-center gap-3 p-3 bg-gray-50 rounded-lg hover:bg-gray-100 cursor-pointer transition-colors ${
+                    post.campaignColor ? 'border-l-4' : ''
+                  }`}
+                  style={post.campaignColor ? { borderLeftColor: post.campaignColor } : undefined}
+                >
+                  <Badge variant="secondary" size="sm">
+                    {post.time}
+                  </Badge>
+                  <span className="flex flex-1 items-center gap-1.5 truncate text-sm font-medium text-gray-900">
+                    {post.post.recurrence && <Repeat className="h-3.5 w-3.5 flex-shrink-0 text-gray-400" />}
+                    {post.title}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    {post.platforms.map((platform) => {
+                      const Icon = platformIcons[platform];
+                      return Icon ? (
+                        <div
+                          key={platform}
+                          className={`w-6 h-6 rounded-full flex items-center justify-center ${platformColors[platform]}`}
+                        >
+                          <Icon className="h-3 w-3 text-white" />
+                        </div>
+                      ) : null;
+                    })}
+                  </div>
+                </div>
+              ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { CalendarPlus, Copy, Check, Download, RefreshCw, Loader2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import {
+  getCalendarFeedUrl,
+  useCalendarFeedToken,
+  useRegenerateCalendarFeedToken,
+} from '../../hooks/convex/useCalendarFeed';
+import { buildPostsCalendar, type IcsPost } from '../../lib/ics';
+
+interface CalendarFeedMenuProps {
+  posts: IcsPost[]; // Everything scheduled, for the one-off download
+}
+
+// Subscribe-by-URL and download controls for Google Calendar, Outlook and friends
+export function CalendarFeedMenu({ posts }: CalendarFeedMenuProps) {
+  const token = useCalendarFeedToken();
+  const regenerateToken = useRegenerateCalendarFeedToken();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const feedUrl = token ? getCalendarFeedUrl(token) : null;
+
+  const handleRegenerate = async () => {
+    if (token && !confirm('The current feed URL will stop working. Create a new one?')) {
+      return;
+    }
+    setIsRegenerating(true);
+    try {
+      await regenerateToken({});
+    } catch (error) {
+      console.error('Failed to create calendar feed:', error);
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    await navigator.clipboard.writeText(feedUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    const ics = buildPostsCalendar(posts, {
+      appUrl: window.location.origin,
+      calendarName: 'SocialSync',
+    });
+    const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'socialsync-calendar.ics';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="secondary" onClick={() => setIsOpen(!isOpen)}>
+        <CalendarPlus className="h-4 w-4 mr-1" />
+        Export
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-30 mt-2 w-96 rounded-xl border border-gray-200 bg-white p-4 shadow-lg space-y-4">
+          <div>
+            <p className="text-sm font-medium text-gray-900">Subscribe in your calendar app</p>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Anyone with this URL can see your scheduled posts. Keep it private.
+            </p>
+            {feedUrl ? (
+              <div className="mt-2 flex gap-2">
+                <input
+                  readOnly
+                  value={feedUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 min-w-0 px-3 py-2 rounded-lg border border-gray-300 bg-gray-50 text-xs text-gray-700"
+                />
+                <Button variant="secondary" size="sm" onClick={handleCopy} title="Copy URL">
+                  {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                </Button>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleRegenerate}
+                  disabled={isRegenerating}
+                  title="Replace the URL"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button size="sm" className="mt-2" onClick={handleRegenerate} disabled={isRegenerating}>
+                {isRegenerating && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                Create feed URL
+              </Button>
+            )}
+          </div>
+
+          <div className="border-t border-gray-100 pt-4">
+            <Button variant="secondary" size="sm" onClick={handleDownload} disabled={posts.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              Download .ics
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
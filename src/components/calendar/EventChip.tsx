@@ -0,0 +1,19 @@
+import { Flag } from 'lucide-react';
+import type { CalendarEvent } from '../../hooks/convex/useEvents';
+
+interface EventChipProps {
+  event: CalendarEvent;
+}
+
+// Holiday or imported event label; not a drop target or a post
+export function EventChip({ event }: EventChipProps) {
+  return (
+    <div
+      title={event.description ? `${event.title}\n${event.description}` : `${event.title} (${event.source})`}
+      className="flex items-center gap-1 rounded bg-amber-50 px-1 py-0.5 text-xs text-amber-800"
+    >
+      <Flag className="h-3 w-3 flex-shrink-0" />
+      <span className="truncate">{event.title}</span>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useRef, useState } from 'react';
+import { Flag, Loader2, Trash2, Upload } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Modal } from '../ui/Modal';
+import {
+  useAddObservances,
+  useEventSources,
+  useImportEvents,
+  useRemoveEventSource,
+} from '../../hooks/convex/useEvents';
+import { parseIcsEvents } from '../../lib/ics';
+import { OBSERVANCES_SOURCE } from '../../lib/observances';
+
+const IMPORT_BATCH_SIZE = 500; // events.importEvents limit per call
+
+interface EventsManagerProps {
+  timezone: string; // Floating times in imported files are read in this zone
+}
+
+// Import holiday and event calendars to show alongside scheduled posts
+export function EventsManager({ timezone }: EventsManagerProps) {
+  const sources = useEventSources();
+  const importEvents = useImportEvents();
+  const addObservances = useAddObservances();
+  const removeSource = useRemoveEventSource();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const hasObservances = sources?.some((s) => s.source === OBSERVANCES_SOURCE) ?? false;
+
+  const handleFile = async (file: File) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const events = parseIcsEvents(await file.text(), { defaultTimeZone: timezone });
+      if (events.length === 0) {
+        setMessage(`No upcoming events found in ${file.name}`);
+        return;
+      }
+
+      let created = 0;
+      for (let i = 0; i < events.length; i += IMPORT_BATCH_SIZE) {
+        const result = await importEvents({ source: file.name, events: events.slice(i, i + IMPORT_BATCH_SIZE) });
+        created += result.created;
+      }
+      setMessage(`Imported ${events.length} events from ${file.name} (${created} new)`);
+    } catch (error) {
+      console.error('Failed to import calendar:', error);
+      setMessage(`Couldn't import ${file.name}`);
+    } finally {
+      setIsWorking(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleAddObservances = async () => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const result = await addObservances({});
+      setMessage(`Added ${result.created} holidays and observances`);
+    } catch (error) {
+      console.error('Failed to add observances:', error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRemove = async (source: string) => {
+    if (!confirm(`Remove all events from ${source}?`)) return;
+    try {
+      await removeSource({ source });
+    } catch (error) {
+      console.error('Failed to remove events:', error);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="secondary" onClick={() => setIsOpen(true)}>
+        <Flag className="h-4 w-4 mr-1" />
+        Events
+      </Button>
+
+      <Modal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        title="Holidays & events"
+        description="Show holidays, launches and other dates on your calendar to plan posts around them"
+      >
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+            />
+            <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={isWorking}>
+              {isWorking ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+              Import .ics file
+            </Button>
+            {!hasObservances && (
+              <Button variant="secondary" size="sm" onClick={handleAddObservances} disabled={isWorking}>
+                Add holidays & observances
+              </Button>
+            )}
+          </div>
+
+          {message && <p className="text-sm text-gray-600">{message}</p>}
+
+          <div>
+            <p className="text-sm font-medium text-gray-900 mb-2">On your calendar</p>
+            {sources && sources.length > 0 ? (
+              <ul className="divide-y divide-gray-100 rounded-lg border border-gray-200">
+                {sources.map(({ source, count }) => (
+                  <li key={source} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <span className="truncate text-gray-900">{source}</span>
+                    <span className="flex items-center gap-3">
+                      <span className="text-xs text-gray-500">{count} events</span>
+                      <button
+                        onClick={() => handleRemove(source)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No events imported yet</p>
+            )}
+          </div>
+        </div>
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,117 @@
+import { cn } from '../../lib/utils';
+import { getDateKeyWeekday, shiftDateKey } from '../../lib/timezone';
+import { PostChip } from './PostChip';
+import { EventChip } from './EventChip';
+import { useDropTarget } from './useDropTarget';
+import type { ScheduledPost } from './calendarPost';
+import type { CalendarEvent } from '../../hooks/convex/useEvents';
+import type { DensityConflict } from '../../lib/density';
+
+const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface MonthViewProps {
+  monthStart: string; // YYYY-MM-01
+  posts: ScheduledPost[];
+  eventsByDate: Map<string, CalendarEvent[]>;
+  overloadedDays: Map<string, DensityConflict[]>;
+  todayKey: string;
+  selectedDate: string | null;
+  onSelectDate: (dateKey: string) => void;
+  onOpenPost: (post: ScheduledPost) => void;
+  onMovePost: (postKey: string, dateKey: string) => void;
+}
+
+export function MonthView({
+  monthStart,
+  posts,
+  eventsByDate,
+  overloadedDays,
+  todayKey,
+  selectedDate,
+  onSelectDate,
+  onOpenPost,
+  onMovePost,
+}: MonthViewProps) {
+  const { dragOverTarget, dropProps } = useDropTarget();
+
+  // Leading blanks, then every day of the month
+  const calendarDays: (string | null)[] = Array(getDateKeyWeekday(monthStart)).fill(null);
+  for (let day = monthStart; day.slice(0, 7) === monthStart.slice(0, 7); day = shiftDateKey(day, 1)) {
+    calendarDays.push(day);
+  }
+
+  return (
+    <div className="p-4">
+      {/* Day Headers */}
+      <div className="grid grid-cols-7 gap-1 mb-2">
+        {dayNames.map((day) => (
+          <div key={day} className="text-center text-xs font-medium text-gray-500 py-2">
+            {day}
+          </div>
+        ))}
+      </div>
+
+      {/* Calendar Days */}
+      <div className="grid grid-cols-7 gap-1">
+        {calendarDays.map((dateKey, index) => {
+          if (dateKey === null) {
+            return <div key={index} className="min-h-[100px]" />;
+          }
+
+          const dayPosts = posts.filter((post) => post.date === dateKey);
+          const dayEvents = eventsByDate.get(dateKey) ?? [];
+          const conflicts = overloadedDays.get(dateKey);
+          const isToday = dateKey === todayKey;
+
+          return (
+            <div
+              key={dateKey}
+              onClick={() => onSelectDate(dateKey)}
+              {...dropProps(dateKey, (postKey) => onMovePost(postKey, dateKey))}
+              className={cn(
+                'min-h-[100px] p-2 rounded-lg border cursor-pointer transition-colors',
+                dragOverTarget === dateKey
+                  ? 'bg-primary-100 border-primary-400'
+                  : conflicts
+                  ? 'border-red-300 hover:bg-red-50'
+                  : isToday
+                  ? 'bg-primary-50 border-primary-200'
+                  : selectedDate === dateKey
+                  ? 'bg-gray-100 border-gray-300'
+                  : 'border-gray-100 hover:bg-gray-50'
+              )}
+            >
+              <div className="flex items-center justify-between">
+                <span className={cn('text-sm font-medium', isToday ? 'text-primary-600' : 'text-gray-900')}>
+                  {Number(dateKey.slice(8))}
+                </span>
+                {conflicts && (
+                  <span
+                    title={conflicts.map((c) => c.message).join('\n')}
+                    className="h-2 w-2 rounded-full bg-red-500"
+                  />
+                )}
+              </div>
+
+              {/* Events and Posts Preview */}
+              <div className="mt-1 space-y-1">
+                {dayEvents.slice(0, 1).map((event) => (
+                  <EventChip key={event._id} event={event} />
+                ))}
+                {dayEvents.length > 1 && (
+                  <span className="block text-xs text-amber-700">+{dayEvents.length - 1} more events</span>
+                )}
+                {dayPosts.slice(0, 2).map((post) => (
+                  <PostChip key={post.key} post={post} onClick={() => onOpenPost(post)} />
+                ))}
+                {dayPosts.length > 2 && (
+                  <span className="text-xs text-gray-400">+{dayPosts.length - 2} more</span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
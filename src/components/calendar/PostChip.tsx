@@ -0,0 +1,52 @@
+import { Repeat } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { CALENDAR_POST_MIME, platformColors, platformIcons, type ScheduledPost } from './calendarPost';
+
+interface PostChipProps {
+  post: ScheduledPost;
+  showTitle?: boolean;
+  onClick?: () => void;
+}
+
+// Draggable post preview; occurrences of a series are moved from the editor instead
+export function PostChip({ post, showTitle, onClick }: PostChipProps) {
+  const canDrag = !post.post.recurrence;
+
+  return (
+    <div
+      draggable={canDrag}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(CALENDAR_POST_MIME, post.key);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick?.();
+      }}
+      title={canDrag ? 'Drag to reschedule' : 'Open to move an occurrence of a repeating post'}
+      className={cn(
+        'flex items-center gap-1 p-1 bg-white rounded text-xs shadow-sm',
+        canDrag ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer',
+        post.campaignColor && 'border-l-2'
+      )}
+      style={post.campaignColor ? { borderLeftColor: post.campaignColor } : undefined}
+    >
+      <div className="flex -space-x-1">
+        {post.platforms.slice(0, 2).map((platform) => {
+          const Icon = platformIcons[platform];
+          return Icon ? (
+            <div
+              key={platform}
+              className={`w-4 h-4 rounded-full flex items-center justify-center ${platformColors[platform]}`}
+            >
+              <Icon className="h-2.5 w-2.5 text-white" />
+            </div>
+          ) : null;
+        })}
+      </div>
+      <span className="flex-shrink-0 text-gray-600">{post.time}</span>
+      {showTitle && <span className="truncate text-gray-900">{post.title}</span>}
+      {post.post.recurrence && <Repeat className="h-3 w-3 flex-shrink-0 text-gray-400" />}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import { useEffect, useRef } from 'react';
+import { cn } from '../../lib/utils';
+import { PostChip } from './PostChip';
+import { EventChip } from './EventChip';
+import { useDropTarget } from './useDropTarget';
+import type { ScheduledPost } from './calendarPost';
+import type { CalendarEvent } from '../../hooks/convex/useEvents';
+import type { DensityConflict } from '../../lib/density';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const HOUR_HEIGHT = 56; // px per hourly lane
+const FIRST_VISIBLE_HOUR = 7; // Initial scroll position
+
+const formatHour = (hour: number) =>
+  hour === 0 ? '12 AM' : hour < 12 ? `${hour} AM` : hour === 12 ? '12 PM' : `${hour - 12} PM`;
+
+interface TimeGridViewProps {
+  days: string[]; // Date keys, one column each
+  posts: ScheduledPost[];
+  eventsByDate: Map<string, CalendarEvent[]>;
+  overloadedDays: Map<string, DensityConflict[]>;
+  todayKey: string;
+  onSelectDate: (dateKey: string) => void;
+  onOpenPost: (post: ScheduledPost) => void;
+  onMovePost: (postKey: string, dateKey: string, hour: number) => void;
+}
+
+// Week and day views: one column per day with an hourly lane per row
+export function TimeGridView({
+  days,
+  posts,
+  eventsByDate,
+  overloadedDays,
+  todayKey,
+  onSelectDate,
+  onOpenPost,
+  onMovePost,
+}: TimeGridViewProps) {
+  const { dragOverTarget, dropProps } = useDropTarget();
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = FIRST_VISIBLE_HOUR * HOUR_HEIGHT;
+    }
+  }, []);
+
+  const columns = { gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` };
+  const hasEvents = days.some((dateKey) => eventsByDate.has(dateKey));
+
+  return (
+    <div>
+      {/* Day Headers */}
+      <div className="grid border-b border-gray-200" style={columns}>
+        <div />
+        {days.map((dateKey) => (
+          <button
+            key={dateKey}
+            onClick={() => onSelectDate(dateKey)}
+            className={cn(
+              'py-2 text-center text-xs font-medium hover:bg-gray-50',
+              dateKey === todayKey ? 'text-primary-600' : 'text-gray-500'
+            )}
+          >
+            {new Date(`${dateKey}T00:00:00`).toLocaleDateString('en-US', {
+              weekday: 'short',
+              month: 'short',
+              day: 'numeric',
+            })}
+            {overloadedDays.has(dateKey) && (
+              <span
+                title={overloadedDays.get(dateKey)!.map((c) => c.message).join('\n')}
+                className="ml-1.5 inline-block h-2 w-2 rounded-full bg-red-500"
+              />
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Events */}
+      {hasEvents && (
+        <div className="grid border-b border-gray-200" style={columns}>
+          <div className="pr-2 pt-1 text-right text-xs text-gray-400">Events</div>
+          {days.map((dateKey) => (
+            <div key={dateKey} className="space-y-1 border-l border-gray-100 p-1">
+              {(eventsByDate.get(dateKey) ?? []).map((event) => (
+                <EventChip key={event._id} event={event} />
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Hourly Lanes */}
+      <div ref={scrollRef} className="max-h-[640px] overflow-y-auto">
+        {HOURS.map((hour) => (
+          <div key={hour} className="grid border-b border-gray-100" style={{ ...columns, minHeight: HOUR_HEIGHT }}>
+            <div className="pr-2 pt-1 text-right text-xs text-gray-400">{formatHour(hour)}</div>
+            {days.map((dateKey) => {
+              const target = `${dateKey}-${hour}`;
+              const lanePosts = posts.filter((post) => post.date === dateKey && post.hour === hour);
+
+              return (
+                <div
+                  key={target}
+                  {...dropProps(target, (postKey) => onMovePost(postKey, dateKey, hour))}
+                  className={cn(
+                    'space-y-1 border-l border-gray-100 p-1 transition-colors',
+                    dragOverTarget === target
+                      ? 'bg-primary-100'
+                      : dateKey === todayKey
+                      ? 'bg-primary-50/40'
+                      : ''
+                  )}
+                >
+                  {lanePosts.map((post) => (
+                    <PostChip
+                      key={post.key}
+                      post={post}
+                      showTitle={days.length === 1}
+                      onClick={() => onOpenPost(post)}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
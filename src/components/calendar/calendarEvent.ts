@@ -0,0 +1,31 @@
+import type { CalendarEvent } from '../../hooks/convex/useEvents';
+import { shiftDateKey, toZonedDateKey } from '../../lib/timezone';
+
+const MAX_EVENT_DAYS = 31;
+
+// Days an event covers. All-day dates are the same everywhere, timed events
+// fall on the user's local days.
+function getEventDateKeys(event: CalendarEvent, timeZone: string): string[] {
+  const toDateKey = (timestamp: number) =>
+    event.allDay ? new Date(timestamp).toISOString().slice(0, 10) : toZonedDateKey(timestamp, timeZone);
+
+  const first = toDateKey(event.startAt);
+  const last = event.endAt && event.endAt > event.startAt ? toDateKey(event.endAt - 1) : first;
+  const keys = [first];
+  for (let key = first; key < last && keys.length < MAX_EVENT_DAYS; ) {
+    key = shiftDateKey(key, 1);
+    keys.push(key);
+  }
+  return keys;
+}
+
+// Events keyed by the YYYY-MM-DD days they appear on
+export function groupEventsByDate(events: CalendarEvent[], timeZone: string): Map<string, CalendarEvent[]> {
+  const byDate = new Map<string, CalendarEvent[]>();
+  for (const event of events) {
+    for (const dateKey of getEventDateKeys(event, timeZone)) {
+      byDate.set(dateKey, [...(byDate.get(dateKey) ?? []), event]);
+    }
+  }
+  return byDate;
+}
@@ -0,0 +1,57 @@
+import { Instagram, Facebook, Twitter, Linkedin, Youtube } from 'lucide-react';
+import type { Post } from '../../hooks/convex/usePosts';
+import { formatInTimeZone, getZonedParts, toZonedDateKey } from '../../lib/timezone';
+
+// Drag data type carrying a ScheduledPost key between calendar cells
+export const CALENDAR_POST_MIME = 'application/x-calendar-post';
+
+export const platformIcons: Record<string, React.ComponentType<{ className?: string }>> = {
+  instagram: Instagram,
+  facebook: Facebook,
+  twitter: Twitter,
+  linkedin: Linkedin,
+  youtube: Youtube,
+};
+
+export const platformColors: Record<string, string> = {
+  instagram: 'bg-gradient-to-r from-purple-500 to-pink-500',
+  facebook: 'bg-blue-600',
+  twitter: 'bg-black',
+  linkedin: 'bg-blue-700',
+  youtube: 'bg-red-600',
+};
+
+// A post (or one occurrence of a recurring post) placed on the calendar
+export type ScheduledPost = {
+  id: Post['_id'];
+  key: string;
+  title: string;
+  time: string;
+  platforms: string[];
+  date: string;
+  hour: number;
+  scheduledAt: number;
+  campaignColor?: string; // Color of the campaign the post belongs to
+  post: Post;
+};
+
+// Days and times are bucketed in the user's timezone, not the browser's
+export const toCalendarPost = (
+  post: Post,
+  occurrenceAt: number,
+  timeZone: string,
+  campaignColor?: string
+): ScheduledPost => {
+  return {
+    id: post._id,
+    key: `${post._id}-${occurrenceAt}`,
+    title: post.title || post.content.slice(0, 30) + '...',
+    time: formatInTimeZone(occurrenceAt, timeZone, { hour: 'numeric', minute: '2-digit', hour12: true }),
+    platforms: post.platforms,
+    date: toZonedDateKey(occurrenceAt, timeZone),
+    hour: getZonedParts(occurrenceAt, timeZone).hour,
+    scheduledAt: occurrenceAt,
+    campaignColor,
+    post,
+  };
+};
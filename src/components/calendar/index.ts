@@ -0,0 +1,9 @@
+export { MonthView } from './MonthView';
+export { TimeGridView } from './TimeGridView';
+export { AgendaView } from './AgendaView';
+export { PostChip } from './PostChip';
+export { platformColors, platformIcons, toCalendarPost, type ScheduledPost } from './calendarPost';
+export { CalendarFeedMenu } from './CalendarFeedMenu';
+export { EventChip } from './EventChip';
+export { EventsManager } from './EventsManager';
+export { groupEventsByDate } from './calendarEvent';
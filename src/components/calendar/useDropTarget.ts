@@ -0,0 +1,28 @@
+import { useState, type DragEvent } from 'react';
+import { CALENDAR_POST_MIME } from './calendarPost';
+
+/**
+ * Drop handling for calendar cells. `dropProps(target, onDrop)` goes on a
+ * cell; `dragOverTarget` is the cell a post is currently hovering over.
+ */
+export function useDropTarget() {
+  const [dragOverTarget, setDragOverTarget] = useState<string | null>(null);
+
+  const dropProps = (target: string, onDrop: (postKey: string) => void) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!e.dataTransfer.types.includes(CALENDAR_POST_MIME)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDragOverTarget(target);
+    },
+    onDragLeave: () => setDragOverTarget((current) => (current === target ? null : current)),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      setDragOverTarget(null);
+      const postKey = e.dataTransfer.getData(CALENDAR_POST_MIME);
+      if (postKey) onDrop(postKey);
+    },
+  });
+
+  return { dragOverTarget, dropProps };
+}
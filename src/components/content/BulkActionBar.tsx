@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { AlertCircle, CalendarClock, Download, FileEdit, Loader2, Minus, Plus, Send, Trash2, X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { useBulkPostActions } from '../../hooks/convex/usePosts';
+import { useUserTimezone } from '../../hooks/convex/useUser';
+import { buildPostExport, type ExportablePost } from '../../lib/postImport';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+const platformOptions = [
+  { id: 'instagram', name: 'Instagram' },
+  { id: 'facebook', name: 'Facebook' },
+  { id: 'twitter', name: 'X (Twitter)' },
+  { id: 'linkedin', name: 'LinkedIn' },
+  { id: 'youtube', name: 'YouTube' },
+  { id: 'tiktok', name: 'TikTok' },
+];
+
+interface BulkActionBarProps {
+  selected: (ExportablePost & { _id: Id<'posts'> })[];
+  totalCount: number; // Posts in the current view, for "select all"
+  onSelectAll: () => void;
+  onClear: () => void;
+}
+
+// Actions on every post picked in the content library
+export function BulkActionBar({ selected, totalCount, onSelectAll, onClear }: BulkActionBarProps) {
+  const { bulkReschedule, bulkSetStatus, bulkSetPlatforms, bulkRemove } = useBulkPostActions();
+  const timezone = useUserTimezone();
+  const [days, setDays] = useState('1');
+  const [platform, setPlatform] = useState(platformOptions[0].id);
+  const [pending, setPending] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // A posting-density rule stopped the last action; `retry` runs it again past the rules
+  const [densityConflict, setDensityConflict] = useState<{ message: string; retry: () => void } | null>(null);
+
+  const postIds = selected.map((post) => post._id);
+  const shiftDays = Number(days);
+
+  // Resolves to whether the action went through
+  const run = async (
+    action: string,
+    call: (ignoreDensity: boolean) => Promise<{ updated: number; skipped: number }>,
+    describe: (updated: number) => string,
+    ignoreDensity = false
+  ): Promise<boolean> => {
+    setPending(action);
+    setMessage(null);
+    setError(null);
+    setDensityConflict(null);
+    try {
+      const { updated, skipped } = await call(ignoreDensity);
+      setMessage(`${describe(updated)}${skipped > 0 ? ` (${skipped} skipped)` : ''}`);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Something went wrong';
+      if (!ignoreDensity && errorMessage.includes('Posting density:')) {
+        setDensityConflict({ message: errorMessage, retry: () => run(action, call, describe, true) });
+      } else {
+        setError(errorMessage);
+      }
+      return false;
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Move ${selected.length} posts to the trash? You can restore them for 30 days.`)) return;
+    if (await run('delete', () => bulkRemove({ postIds }), (n) => `Moved ${n} posts to the trash`)) {
+      onClear();
+    }
+  };
+
+  const handleExport = () => {
+    const csv = buildPostExport(selected, timezone);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `socialsync-posts-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const platformName = platformOptions.find((p) => p.id === platform)?.name ?? platform;
+  const isBusy = pending !== null;
+
+  return (
+    <div className="sticky top-0 z-10 bg-white rounded-lg border border-primary-200 shadow-sm p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-900">{selected.length} selected</span>
+        {selected.length < totalCount && (
+          <button onClick={onSelectAll} className="text-sm text-primary-600 hover:text-primary-700">
+            Select all {totalCount}
+          </button>
+        )}
+        <button onClick={onClear} className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1">
+          <X className="h-3.5 w-3.5" />
+          Clear
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {/* Reschedule */}
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            className="w-16 px-2 py-1.5 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+            aria-label="Days to shift by"
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={isBusy || !Number.isInteger(shiftDays) || shiftDays === 0}
+            onClick={() =>
+              run('shift', (ignoreDensity) => bulkReschedule({ postIds, days: shiftDays, ignoreDensity }), (n) => `Moved ${n} posts by ${shiftDays} days`)
+            }
+          >
+            {pending === 'shift' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <CalendarClock className="h-4 w-4 mr-1" />}
+            Shift days
+          </Button>
+        </div>
+
+        <span className="h-6 w-px bg-gray-200" />
+
+        {/* Status */}
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={isBusy}
+          onClick={() =>
+            run(
+              'schedule',
+              (ignoreDensity) => bulkSetStatus({ postIds, status: 'scheduled', ignoreDensity }),
+              (n) => `Scheduled ${n} posts`
+            )
+          }
+        >
+          {pending === 'schedule' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+          Schedule
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={isBusy}
+          onClick={() =>
+            run(
+              'draft',
+              (ignoreDensity) => bulkSetStatus({ postIds, status: 'draft', ignoreDensity }),
+              (n) => `Moved ${n} posts to drafts`
+            )
+          }
+        >
+          {pending === 'draft' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <FileEdit className="h-4 w-4 mr-1" />}
+          Make draft
+        </Button>
+
+        <span className="h-6 w-px bg-gray-200" />
+
+        {/* Platforms */}
+        <select
+          value={platform}
+          onChange={(e) => setPlatform(e.target.value)}
+          className="px-2 py-1.5 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          aria-label="Platform"
+        >
+          {platformOptions.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={isBusy}
+          title={`Add ${platformName}`}
+          onClick={() =>
+            run(
+              'add',
+              (ignoreDensity) => bulkSetPlatforms({ postIds, add: [platform], remove: [], ignoreDensity }),
+              (n) => `Added ${platformName} to ${n} posts`
+            )
+          }
+        >
+          {pending === 'add' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+        </Button>
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={isBusy}
+          title={`Remove ${platformName}`}
+          onClick={() =>
+            run(
+              'remove',
+              (ignoreDensity) => bulkSetPlatforms({ postIds, add: [], remove: [platform], ignoreDensity }),
+              (n) => `Removed ${platformName} from ${n} posts`
+            )
+          }
+        >
+          {pending === 'remove' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Minus className="h-4 w-4" />}
+        </Button>
+
+        <span className="h-6 w-px bg-gray-200" />
+
+        <Button variant="secondary" size="sm" onClick={handleExport} disabled={isBusy}>
+          <Download className="h-4 w-4 mr-1" />
+          Export CSV
+        </Button>
+        <Button variant="danger" size="sm" onClick={handleDelete} disabled={isBusy}>
+          {pending === 'delete' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Trash2 className="h-4 w-4 mr-1" />}
+          Delete
+        </Button>
+      </div>
+
+      {message && <p className="text-xs text-gray-600">{message}</p>}
+      {densityConflict && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-amber-50 p-2 text-xs text-amber-800">
+          <p className="flex items-start gap-1.5">
+            <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 mt-px" />
+            {densityConflict.message}
+          </p>
+          <Button variant="secondary" size="sm" disabled={isBusy} onClick={densityConflict.retry}>
+            Schedule anyway
+          </Button>
+        </div>
+      )}
+      {error && (
+        <p className="text-xs text-red-600 flex items-center gap-1">
+          <AlertCircle className="h-3 w-3 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -14,9 +14,12 @@ import {
   Twitter,
   Linkedin,
   Youtube,
+  MessageSquare,
+  AlertCircle,
 } from 'lucide-react';
 import { Card } from '../ui/Card';
 import { Badge } from '../ui/Badge';
+import { cn } from '../../lib/utils';
 
 const platformIcons: Record<string, React.ComponentType<{ className?: string }>> = {
   instagram: Instagram,
@@ -33,9 +36,11 @@ interface ContentCardProps {
   mediaUrl?: string;
   mediaType?: 'image' | 'video';
   platforms: string[];
-  status: 'draft' | 'scheduled' | 'published' | 'failed';
+  status: 'draft' | 'scheduled' | 'pending_approval' | 'published' | 'failed';
   scheduledAt?: string;
   publishedAt?: string;
+  approvalState?: string;
+  authorName?: string; // Shown when reviewing someone else's post
   metrics?: {
     views?: number;
     likes?: number;
@@ -45,6 +50,9 @@ interface ContentCardProps {
   onEdit?: (id: string) => void;
   onDuplicate?: (id: string) => void;
   onDelete?: (id: string) => void;
+  onReview?: (id: string) => void;
+  isSelected?: boolean;
+  onSelectChange?: (id: string, selected: boolean) => void; // Shows a checkbox for bulk actions
 }
 
 export function ContentCard({
@@ -57,16 +65,22 @@ export function ContentCard({
   status,
   scheduledAt,
   publishedAt,
+  approvalState,
+  authorName,
   metrics,
   onEdit,
   onDuplicate,
   onDelete,
+  onReview,
+  isSelected = false,
+  onSelectChange,
 }: ContentCardProps) {
   const [showMenu, setShowMenu] = useState(false);
 
   const statusConfig = {
     draft: { label: 'Draft', variant: 'default' as const },
     scheduled: { label: 'Scheduled', variant: 'warning' as const },
+    pending_approval: { label: 'In review', variant: 'info' as const },
     published: { label: 'Published', variant: 'success' as const },
     failed: { label: 'Failed', variant: 'danger' as const },
   };
@@ -81,7 +95,7 @@ export function ContentCard({
   };
 
   return (
-    <Card className="overflow-hidden hover:shadow-md transition-shadow">
+    <Card className={cn('overflow-hidden hover:shadow-md transition-shadow', isSelected && 'ring-2 ring-primary-500')}>
       {/* Media Preview */}
       {mediaUrl && (
         <div className="relative aspect-video bg-gray-100">
@@ -110,7 +124,18 @@ export function ContentCard({
       <div className="p-4">
         {/* Header */}
         <div className="flex items-start justify-between gap-2 mb-2">
-          <h3 className="font-medium text-gray-900 line-clamp-1">{title}</h3>
+          <div className="flex items-center gap-2 min-w-0">
+            {onSelectChange && (
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={(e) => onSelectChange(id, e.target.checked)}
+                aria-label={`Select ${title || 'post'}`}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+            )}
+            <h3 className="font-medium text-gray-900 line-clamp-1">{title}</h3>
+          </div>
           <div className="relative">
             <button
               onClick={() => setShowMenu(!showMenu)}
@@ -125,45 +150,72 @@ export function ContentCard({
                   onClick={() => setShowMenu(false)}
                 />
                 <div className="absolute right-0 top-full mt-1 w-36 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-20">
-                  <button
-                    onClick={() => {
-                      onEdit?.(id);
-                      setShowMenu(false);
-                    }}
-                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
-                  >
-                    <Edit2 className="h-4 w-4" />
-                    Edit
-                  </button>
-                  <button
-                    onClick={() => {
-                      onDuplicate?.(id);
-                      setShowMenu(false);
-                    }}
-                    className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
-                  >
-                    <Copy className="h-4 w-4" />
-                    Duplicate
-                  </button>
-                  <button
-                    onClick={() => {
-                      onDelete?.(id);
-                      setShowMenu(false);
-                    }}
-                    className="w-full px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                    Delete
-                  </button>
+                  {onEdit && (
+                    <button
+                      onClick={() => {
+                        onEdit(id);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                    >
+                      <Edit2 className="h-4 w-4" />
+                      Edit
+                    </button>
+                  )}
+                  {onReview && (
+                    <button
+                      onClick={() => {
+                        onReview(id);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                    >
+                      <MessageSquare className="h-4 w-4" />
+                      Review
+                    </button>
+                  )}
+                  {onDuplicate && (
+                    <button
+                      onClick={() => {
+                        onDuplicate(id);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                    >
+                      <Copy className="h-4 w-4" />
+                      Duplicate
+                    </button>
+                  )}
+                  {onDelete && (
+                    <button
+                      onClick={() => {
+                        onDelete(id);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-3 py-2 text-left text-sm text-red-600 hover:bg-red-50 flex items-center gap-2"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      Delete
+                    </button>
+                  )}
                 </div>
               </>
             )}
           </div>
         </div>
 
+        {authorName && <p className="text-xs text-gray-500 -mt-1 mb-2">By {authorName}</p>}
+
         {/* Content Preview */}
         <p className="text-sm text-gray-600 line-clamp-2 mb-3">{content}</p>
 
+        {status === 'draft' && approvalState === 'changes_requested' && (
+          <p className="flex items-center gap-1 text-xs text-amber-600 mb-3">
+            <AlertCircle className="h-3.5 w-3.5" />
+            Changes requested
+          </p>
+        )}
+
         {/* Platforms */}
         <div className="flex items-center gap-1 mb-3">
           {platforms.map((platform) => {
@@ -187,6 +239,8 @@ export function ContentCard({
             <span>
               {status === 'scheduled' && scheduledAt
                 ? `Scheduled for ${formatDate(scheduledAt)}`
+                : status === 'pending_approval' && scheduledAt
+                ? `Proposed for ${formatDate(scheduledAt)}`
                 : publishedAt
                 ? `Published ${formatDate(publishedAt)}`
                 : ''}
@@ -21,6 +21,13 @@ import {
   FlaskConical,
   ChevronRight,
   Play,
+  Globe,
+  ListPlus,
+  MessageCircle,
+  History,
+  Flag,
+  X,
+  Crop,
 } from 'lucide-react';
 import { Modal } from '../ui/Modal';
 import { Button } from '../ui/Button';
@@ -29,9 +36,39 @@ import { Badge } from '../ui/Badge';
 import { ViralScoreDisplay, ViralScoreBadge } from './ViralScoreDisplay';
 import { VariantEditor } from './VariantEditor';
 import { ABTestResults } from './ABTestResults';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { ThreadEditor } from './ThreadEditor';
+import { RevisionHistory } from './RevisionHistory';
+import { MediaChecklist } from './MediaChecklist';
+import { MediaPickerModal } from '../media/MediaPickerModal';
+import { MediaCropEditor } from '../media/MediaCropEditor';
 import { useViralScore } from '../../hooks/useViralScore';
 import { useABTest } from '../../hooks/useABTest';
+import { useMediaValidation } from '../../hooks/useMediaValidation';
 import type { PostVariant } from '../../types/abtest';
+import { useUserTimezone } from '../../hooks/convex/useUser';
+import { useNextQueueSlot } from '../../hooks/convex/useQueue';
+import { useDensityCheck } from '../../hooks/convex/useDensity';
+import { useCampaigns } from '../../hooks/convex/useCampaigns';
+import { usePillars } from '../../hooks/convex/usePillars';
+import { useMediaLibrary, type MediaAsset } from '../../hooks/convex/useMedia';
+import type { PostRevision } from '../../hooks/convex/useRevisions';
+import type { Id } from '../../../convex/_generated/dataModel';
+import type { RecurrenceRule } from '../../lib/recurrence';
+import { isVideoMime } from '../../lib/media';
+import { getMediaDerivatives, withMediaDerivatives, type MediaDerivative } from '../../lib/crop';
+import { joinThreadParts, splitThreadText, validateThreadParts, type ThreadPart } from '../../lib/thread';
+import { formatForPlatform } from '../../lib/platformFormatter';
+import {
+  COMMON_TIMEZONES,
+  formatInTimeZone,
+  getTimeZoneAbbreviation,
+  toZonedDateKey,
+  toZonedTimeValue,
+  zonedTimeToUtc,
+} from '../../lib/timezone';
+
+export type OccurrenceEditScope = 'this' | 'future';
 
 interface ContentEditorProps {
   isOpen: boolean;
@@ -41,15 +78,38 @@ interface ContentEditorProps {
     title: string;
     content: string;
     platforms: string[];
-    scheduledAt?: string;
-    mediaUrl?: string;
+    scheduledAt?: string; // ISO timestamp
+    timezone?: string; // Audience timezone the post was scheduled in
+    mediaUrls?: string[];
+    mediaType?: string;
+    platformSpecificContent?: Record<string, unknown>;
+    recurrence?: RecurrenceRule;
+    isSeriesOccurrence?: boolean; // Editing one occurrence of a recurring post
+    postType?: string;
+    threadParts?: ThreadPart[];
+    hashtagPlacement?: string;
+    campaignId?: string;
+    pillarId?: string;
   };
   onSave: (data: {
     title: string;
     content: string;
     platforms: string[];
-    scheduledAt?: string;
+    scheduledAt?: string; // ISO timestamp
+    timezone: string;
     status: 'draft' | 'scheduled';
+    recurrence: RecurrenceRule | null;
+    postType: 'single' | 'thread';
+    threadParts?: ThreadPart[];
+    hashtagPlacement: 'caption' | 'first-comment';
+    mediaUrls?: string[]; // Left out for threads, whose parts carry their own media
+    mediaType?: string;
+    platformSpecificContent?: Record<string, unknown>; // Carries each platform's image crops
+    campaignId: string | null; // null when the post isn't part of a campaign
+    pillarId: string | null; // null when the post has no content pillar
+    editScope?: OccurrenceEditScope;
+    addToQueue?: boolean; // Server picks the next free posting slot
+    ignoreDensity?: boolean; // The density warnings were shown and the user saved anyway
   }) => void;
 }
 
@@ -69,15 +129,59 @@ export function ContentEditor({
 }: ContentEditorProps) {
   const [title, setTitle] = useState(initialData?.title || '');
   const [content, setContent] = useState(initialData?.content || '');
+  // Parts while editing a thread; null for a single post
+  const [threadParts, setThreadParts] = useState<ThreadPart[] | null>(
+    initialData?.postType === 'thread' && initialData.threadParts?.length ? initialData.threadParts : null
+  );
   const [selectedPlatforms, setSelectedPlatforms] = useState<string[]>(
     initialData?.platforms || ['instagram']
   );
+  const [hashtagsInFirstComment, setHashtagsInFirstComment] = useState(
+    initialData?.hashtagPlacement === 'first-comment'
+  );
+  // Date and time inputs hold wall-clock values in the audience timezone
+  const userTimezone = useUserTimezone();
+  const [timezone, setTimezone] = useState(initialData?.timezone ?? userTimezone);
+  const initialScheduledAt = initialData?.scheduledAt ? new Date(initialData.scheduledAt).getTime() : null;
   const [scheduleDate, setScheduleDate] = useState(
-    initialData?.scheduledAt?.split('T')[0] || ''
+    initialScheduledAt !== null ? toZonedDateKey(initialScheduledAt, timezone) : ''
   );
   const [scheduleTime, setScheduleTime] = useState(
-    initialData?.scheduledAt?.split('T')[1]?.slice(0, 5) || ''
+    initialScheduledAt !== null ? toZonedTimeValue(initialScheduledAt, timezone) : ''
   );
+  // The user's own zone can load after the editor opens; until a zone is picked
+  // here, follow it and keep the entered time pointing at the same moment
+  const [followedTimezone, setFollowedTimezone] = useState(initialData?.timezone ? null : userTimezone);
+  if (followedTimezone !== null && followedTimezone !== userTimezone) {
+    setFollowedTimezone(userTimezone);
+    setTimezone(userTimezone);
+    if (scheduleDate && scheduleTime) {
+      const at = zonedTimeToUtc(scheduleDate, scheduleTime, timezone);
+      setScheduleDate(toZonedDateKey(at, userTimezone));
+      setScheduleTime(toZonedTimeValue(at, userTimezone));
+    }
+  }
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(
+    initialData?.recurrence ?? null
+  );
+  const [editScope, setEditScope] = useState<OccurrenceEditScope>('this');
+  const [campaignId, setCampaignId] = useState(initialData?.campaignId ?? '');
+  const campaigns = useCampaigns();
+  const [pillarId, setPillarId] = useState(initialData?.pillarId ?? '');
+  const pillars = usePillars();
+  const [mediaUrls, setMediaUrls] = useState<string[]>(initialData?.mediaUrls ?? []);
+  const [mediaPicker, setMediaPicker] = useState<'image' | 'video' | null>(null);
+  const mediaLibrary = useMediaLibrary();
+  // Per-platform crops of the attached images
+  const [derivatives, setDerivatives] = useState<Record<string, MediaDerivative[]>>(() =>
+    Object.fromEntries(
+      platformOptions.map((platform) => [
+        platform.id,
+        getMediaDerivatives(initialData?.platformSpecificContent, platform.id),
+      ])
+    )
+  );
+  const [cropAsset, setCropAsset] = useState<MediaAsset | null>(null);
   const [isGeneratingAI, setIsGeneratingAI] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
   const [aiPrompt, setAiPrompt] = useState('');
@@ -86,6 +190,8 @@ export function ContentEditor({
   // A/B Testing state
   const [showABTest, setShowABTest] = useState(false);
   const [showResults, setShowResults] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const isWide = showABTest || showHistory;
 
   // Viral score hook - automatically analyzes content as user types
   const primaryPlatform = selectedPlatforms[0] || 'instagram';
@@ -132,7 +238,59 @@ export function ContentEditor({
   };
 
   const characterLimit = getCharacterLimit();
-  const isOverLimit = content.length > characterLimit;
+  const isOverLimit = threadParts
+    ? validateThreadParts(threadParts, selectedPlatforms).length > 0
+    : content.length > characterLimit;
+
+  // Content mirrors the first part so previews and scoring still work
+  const handleThreadChange = (parts: ThreadPart[]) => {
+    setThreadParts(parts);
+    setContent(parts[0]?.content ?? '');
+  };
+
+  // Instagram single posts can move their hashtags into a first comment
+  const canUseFirstComment = selectedPlatforms.includes('instagram') && !threadParts;
+  const hashtagPlacement = canUseFirstComment && hashtagsInFirstComment ? 'first-comment' : 'caption';
+  const instagramSplit =
+    hashtagPlacement === 'first-comment' ? formatForPlatform(content, 'instagram', [], [], 'first-comment') : null;
+
+  // The server has already saved the restore; bring the editor in line so a later save doesn't undo it
+  const handleRevisionRestored = (revision: PostRevision) => {
+    setTitle(revision.title ?? '');
+    setSelectedPlatforms(revision.platforms);
+    if (revision.postType === 'thread' && revision.threadParts?.length) {
+      handleThreadChange(revision.threadParts);
+    } else {
+      setThreadParts(null);
+      setContent(revision.content);
+    }
+    if (revision.scheduledAt && revision.scheduledAt > Date.now()) {
+      const zone = revision.timezone ?? timezone;
+      setTimezone(zone);
+      setFollowedTimezone(null);
+      setScheduleDate(toZonedDateKey(revision.scheduledAt, zone));
+      setScheduleTime(toZonedTimeValue(revision.scheduledAt, zone));
+    }
+    setShowHistory(false);
+  };
+
+  const togglePostType = (type: 'single' | 'thread') => {
+    if (type === 'thread' && !threadParts) {
+      const parts = splitThreadText(content);
+      const threaded: ThreadPart[] = parts.length >= 2 ? parts : [{ content }, { content: '' }];
+      // Attached media moves onto the opening part
+      if (mediaUrls.length > 0) {
+        threaded[0] = { ...threaded[0], mediaUrls };
+        setMediaUrls([]);
+      }
+      handleThreadChange(threaded);
+    } else if (type === 'single' && threadParts) {
+      const joined = joinThreadParts(threadParts);
+      setContent(joined.content);
+      setMediaUrls(joined.mediaUrls);
+      setThreadParts(null);
+    }
+  };
 
   const handleGenerateAI = async () => {
     if (!showAiPromptInput) {
@@ -158,7 +316,7 @@ export function ContentEditor({
         body: JSON.stringify({
           prompt: aiPrompt,
           platform: primaryPlatform,
-          contentType: 'post',
+          contentType: threadParts ? 'thread' : 'post',
           tone: 'professional',
         }),
       });
@@ -169,7 +327,12 @@ export function ContentEditor({
       }
 
       const data = await response.json();
-      setContent(data.content);
+      if (threadParts) {
+        const parts = splitThreadText(data.content);
+        handleThreadChange(parts.length > 0 ? parts : [{ content: data.content }]);
+      } else {
+        setContent(data.content);
+      }
       setShowAiPromptInput(false);
       setAiPrompt('');
       // Reset viral score to trigger new analysis
@@ -248,27 +411,119 @@ export function ContentEditor({
     }
   }, [variants, content, addVariant, simulateResults]);
 
-  const handleSave = (asDraft: boolean) => {
-    const scheduledAt =
-      scheduleDate && scheduleTime
-        ? `${scheduleDate}T${scheduleTime}:00`
-        : undefined;
+  const scheduledTimestamp =
+    scheduleDate && scheduleTime ? zonedTimeToUtc(scheduleDate, scheduleTime, timezone) : null;
+
+  const densityConflicts = useDensityCheck(
+    scheduledTimestamp !== null && selectedPlatforms.length > 0
+      ? {
+          postId: initialData?.id as Id<'posts'> | undefined,
+          platforms: selectedPlatforms,
+          scheduledAt: scheduledTimestamp,
+        }
+      : null
+  );
+  // Scheduling waits for the check, so a save never skips warnings that haven't loaded yet
+  const isCheckingDensity = scheduledTimestamp !== null && selectedPlatforms.length > 0 && densityConflicts === undefined;
+
+  // Library assets by URL, for thumbnails and to tell images from videos
+  const assetsByUrl = new Map((mediaLibrary ?? []).map((asset) => [asset.url, asset]));
+
+  // Storage URLs carry no file extension, so publishers rely on mediaType to spot videos
+  const mediaType = (() => {
+    if (mediaUrls.length === 0) return undefined;
+    if (mediaUrls.length > 1) return 'carousel';
+    const asset = assetsByUrl.get(mediaUrls[0]);
+    return asset ? (isVideoMime(asset.mimeType) ? 'video' : 'image') : initialData?.mediaType;
+  })();
+
+  // Threads carry media per part, which the server checks when scheduling
+  const showMediaChecks = !threadParts && mediaUrls.length > 0;
+  const mediaChecks = useMediaValidation(mediaUrls, selectedPlatforms, mediaType, derivatives);
+  const hasMediaFailures = showMediaChecks && !!mediaChecks?.some((check) => check.status === 'fail');
+
+  const handleMediaSelected = (assets: MediaAsset[]) => {
+    setMediaUrls([...mediaUrls, ...assets.map((asset) => asset.url).filter((url) => !mediaUrls.includes(url))]);
+  };
 
+  const handleRemoveMedia = (url: string) => {
+    setMediaUrls(mediaUrls.filter((u) => u !== url));
+    setDerivatives(
+      Object.fromEntries(
+        Object.entries(derivatives).map(([platform, list]) => [platform, list.filter((d) => d.sourceUrl !== url)])
+      )
+    );
+  };
+
+  const handleCropsSaved = (sourceUrl: string, crops: Record<string, MediaDerivative | null>) => {
+    const next = { ...derivatives };
+    for (const [platform, crop] of Object.entries(crops)) {
+      next[platform] = [...(next[platform] ?? []).filter((d) => d.sourceUrl !== sourceUrl), ...(crop ? [crop] : [])];
+    }
+    setDerivatives(next);
+  };
+
+  // Only written when there are crops to store or overrides to carry over
+  const platformSpecificContent =
+    !threadParts && (initialData?.platformSpecificContent || Object.values(derivatives).some((list) => list.length))
+      ? withMediaDerivatives(initialData?.platformSpecificContent, derivatives)
+      : undefined;
+
+  const handleSave = (asDraft: boolean) => {
     onSave({
       title,
       content,
       platforms: selectedPlatforms,
-      scheduledAt,
+      scheduledAt: scheduledTimestamp !== null ? new Date(scheduledTimestamp).toISOString() : undefined,
+      timezone,
       status: asDraft ? 'draft' : 'scheduled',
+      // A series needs a start time to repeat from, and repeats in the audience's zone
+      recurrence: scheduledTimestamp !== null && recurrence ? { ...recurrence, timezone } : null,
+      postType: threadParts ? 'thread' : 'single',
+      threadParts: threadParts ?? undefined,
+      hashtagPlacement,
+      mediaUrls: threadParts ? undefined : mediaUrls,
+      mediaType: threadParts ? undefined : mediaType,
+      platformSpecificContent,
+      campaignId: campaignId || null,
+      pillarId: pillarId || null,
+      editScope: initialData?.isSeriesOccurrence ? editScope : undefined,
+      ignoreDensity: !!densityConflicts?.length,
+    });
+    onClose();
+  };
+
+  // Slot "Add to queue" would take; the server re-checks it on save
+  const nextQueueSlot = useNextQueueSlot(selectedPlatforms);
+
+  const handleAddToQueue = () => {
+    if (!nextQueueSlot) return;
+    onSave({
+      title,
+      content,
+      platforms: selectedPlatforms,
+      scheduledAt: new Date(nextQueueSlot).toISOString(),
+      timezone,
+      status: 'scheduled',
+      recurrence: null,
+      postType: threadParts ? 'thread' : 'single',
+      threadParts: threadParts ?? undefined,
+      hashtagPlacement,
+      mediaUrls: threadParts ? undefined : mediaUrls,
+      mediaType: threadParts ? undefined : mediaType,
+      platformSpecificContent,
+      campaignId: campaignId || null,
+      pillarId: pillarId || null,
+      addToQueue: true,
     });
     onClose();
   };
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Create Post" size={showABTest ? '2xl' : 'xl'}>
+    <Modal isOpen={isOpen} onClose={onClose} title={initialData?.id ? 'Edit Post' : 'Create Post'} size={isWide ? '2xl' : 'xl'}>
       <div className="flex gap-6">
         {/* Left Column - Editor */}
-        <div className={showABTest ? 'w-[400px] space-y-6' : 'flex-1 space-y-6'}>
+        <div className={isWide ? 'w-[400px] space-y-6' : 'flex-1 space-y-6'}>
           {/* Title */}
           <Input
             label="Title (internal reference)"
@@ -277,6 +532,62 @@ export function ContentEditor({
             onChange={(e) => setTitle(e.target.value)}
           />
 
+          {/* Campaign */}
+          {campaigns && campaigns.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Campaign
+              </label>
+              <div className="relative">
+                <Flag
+                  className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400"
+                  style={{ color: campaigns.find((c) => c._id === campaignId)?.color }}
+                />
+                <select
+                  value={campaignId}
+                  onChange={(e) => setCampaignId(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2.5 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                >
+                  <option value="">No campaign</option>
+                  {campaigns.map((campaign) => (
+                    <option key={campaign._id} value={campaign._id}>
+                      {campaign.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {/* Content Pillar */}
+          {pillars && pillars.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Content pillar
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {pillars.map((pillar) => {
+                  const isSelected = pillarId === pillar._id;
+                  return (
+                    <button
+                      key={pillar._id}
+                      type="button"
+                      onClick={() => setPillarId(isSelected ? '' : pillar._id)}
+                      className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm font-medium transition-colors ${
+                        isSelected
+                          ? 'border-primary-500 bg-primary-50 text-primary-700'
+                          : 'border-gray-300 text-gray-600 hover:border-gray-400'
+                      }`}
+                    >
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: pillar.color }} />
+                      {pillar.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* Platform Selection */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -314,6 +625,22 @@ export function ContentEditor({
                 <label className="block text-sm font-medium text-gray-700">
                   Content
                 </label>
+                <div className="flex rounded-lg border border-gray-200 p-0.5">
+                  {(['single', 'thread'] as const).map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => togglePostType(type)}
+                      className={`px-2 py-0.5 rounded-md text-xs font-medium transition-colors ${
+                        (type === 'thread') === !!threadParts
+                          ? 'bg-primary-50 text-primary-700'
+                          : 'text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      {type === 'single' ? 'Post' : 'Thread'}
+                    </button>
+                  ))}
+                </div>
                 {/* Inline Viral Score Badge */}
                 {content.length >= 20 && (
                   <ViralScoreBadge
@@ -388,55 +715,126 @@ export function ContentEditor({
                 </p>
               </div>
             )}
-            <div className="relative">
-              <textarea
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                placeholder="What would you like to share?"
-                rows={8}
-                className={`w-full px-4 py-3 rounded-lg border text-sm focus:outline-none focus:ring-1 resize-none ${
-                  isOverLimit
-                    ? 'border-red-300 focus:border-red-500 focus:ring-red-500'
-                    : 'border-gray-300 focus:border-primary-500 focus:ring-primary-500'
-                }`}
-              />
-              {/* Toolbar */}
-              <div className="absolute bottom-3 left-3 flex items-center gap-1">
-                <button className="p-1.5 rounded hover:bg-gray-100" title="Add image">
-                  <Image className="h-4 w-4 text-gray-500" />
-                </button>
-                <button className="p-1.5 rounded hover:bg-gray-100" title="Add video">
-                  <Video className="h-4 w-4 text-gray-500" />
-                </button>
-                <button className="p-1.5 rounded hover:bg-gray-100" title="Add link">
-                  <Link2 className="h-4 w-4 text-gray-500" />
-                </button>
-                <button className="p-1.5 rounded hover:bg-gray-100" title="Add hashtag">
-                  <Hash className="h-4 w-4 text-gray-500" />
-                </button>
-                <button className="p-1.5 rounded hover:bg-gray-100" title="Mention">
-                  <AtSign className="h-4 w-4 text-gray-500" />
-                </button>
-                <button className="p-1.5 rounded hover:bg-gray-100" title="Add emoji">
-                  <Smile className="h-4 w-4 text-gray-500" />
-                </button>
-              </div>
-              {/* Character Count */}
-              <div className="absolute bottom-3 right-3">
-                <span
-                  className={`text-xs ${
-                    isOverLimit ? 'text-red-600 font-medium' : 'text-gray-400'
-                  }`}
-                >
-                  {content.length}/{characterLimit}
-                </span>
-              </div>
-            </div>
-            {isOverLimit && (
-              <p className="mt-1 text-xs text-red-600 flex items-center gap-1">
-                <AlertCircle className="h-3 w-3" />
-                Content exceeds the character limit for selected platform(s)
-              </p>
+            {threadParts ? (
+              <ThreadEditor parts={threadParts} onChange={handleThreadChange} platforms={selectedPlatforms} />
+            ) : (
+              <>
+                <div className="relative">
+                  <textarea
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    placeholder="What would you like to share?"
+                    rows={8}
+                    className={`w-full px-4 py-3 rounded-lg border text-sm focus:outline-none focus:ring-1 resize-none ${
+                      isOverLimit
+                        ? 'border-red-300 focus:border-red-500 focus:ring-red-500'
+                        : 'border-gray-300 focus:border-primary-500 focus:ring-primary-500'
+                    }`}
+                  />
+                  {/* Toolbar */}
+                  <div className="absolute bottom-3 left-3 flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => setMediaPicker('image')}
+                      className="p-1.5 rounded hover:bg-gray-100"
+                      title="Add image"
+                    >
+                      <Image className="h-4 w-4 text-gray-500" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setMediaPicker('video')}
+                      className="p-1.5 rounded hover:bg-gray-100"
+                      title="Add video"
+                    >
+                      <Video className="h-4 w-4 text-gray-500" />
+                    </button>
+                    <button className="p-1.5 rounded hover:bg-gray-100" title="Add link">
+                      <Link2 className="h-4 w-4 text-gray-500" />
+                    </button>
+                    <button className="p-1.5 rounded hover:bg-gray-100" title="Add hashtag">
+                      <Hash className="h-4 w-4 text-gray-500" />
+                    </button>
+                    <button className="p-1.5 rounded hover:bg-gray-100" title="Mention">
+                      <AtSign className="h-4 w-4 text-gray-500" />
+                    </button>
+                    <button className="p-1.5 rounded hover:bg-gray-100" title="Add emoji">
+                      <Smile className="h-4 w-4 text-gray-500" />
+                    </button>
+                  </div>
+                  {/* Character Count */}
+                  <div className="absolute bottom-3 right-3">
+                    <span
+                      className={`text-xs ${
+                        isOverLimit ? 'text-red-600 font-medium' : 'text-gray-400'
+                      }`}
+                    >
+                      {content.length}/{characterLimit}
+                    </span>
+                  </div>
+                </div>
+                {isOverLimit && (
+                  <p className="mt-1 text-xs text-red-600 flex items-center gap-1">
+                    <AlertCircle className="h-3 w-3" />
+                    Content exceeds the character limit for selected platform(s)
+                  </p>
+                )}
+                {mediaUrls.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {mediaUrls.map((url) => {
+                      const asset = assetsByUrl.get(url);
+                      const isVideo = asset ? isVideoMime(asset.mimeType) : mediaType === 'video';
+                      const cropCount = Object.values(derivatives).filter((list) =>
+                        list.some((d) => d.sourceUrl === url)
+                      ).length;
+                      return (
+                        <div key={url} className="group relative h-16 w-16 overflow-hidden rounded-lg border border-gray-200 bg-gray-100">
+                          {isVideo && !asset?.thumbnailUrl ? (
+                            <video src={url} muted preload="metadata" className="h-full w-full object-cover" />
+                          ) : (
+                            <img src={asset?.thumbnailUrl ?? url} alt={asset?.name ?? ''} className="h-full w-full object-cover" />
+                          )}
+                          {isVideo && <Play className="absolute bottom-1 left-1 h-3 w-3 text-white drop-shadow" />}
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveMedia(url)}
+                            className="absolute right-0.5 top-0.5 rounded-full bg-black/60 p-0.5 text-white opacity-0 group-hover:opacity-100"
+                            title="Remove"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                          {asset && !isVideo && (
+                            <button
+                              type="button"
+                              onClick={() => setCropAsset(asset)}
+                              className={`absolute bottom-0.5 right-0.5 flex items-center gap-0.5 rounded bg-black/60 px-1 py-0.5 text-[10px] text-white ${
+                                cropCount > 0 ? '' : 'opacity-0 group-hover:opacity-100'
+                              }`}
+                              title="Crop for each platform"
+                            >
+                              <Crop className="h-3 w-3" />
+                              {cropCount > 0 && cropCount}
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                {showMediaChecks && <MediaChecklist checks={mediaChecks} />}
+                {canUseFirstComment && (
+                  <label className="mt-2 flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={hashtagsInFirstComment}
+                      onChange={(e) => setHashtagsInFirstComment(e.target.checked)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <MessageCircle className="h-4 w-4 text-gray-400" />
+                    Post Instagram hashtags as the first comment
+                  </label>
+                )}
+              </>
             )}
           </div>
 
@@ -465,19 +863,95 @@ export function ContentEditor({
                 />
               </div>
             </div>
-            {scheduleDate && scheduleTime && (
+            <div className="relative mt-3">
+              <Globe className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <select
+                value={timezone}
+                onChange={(e) => {
+                  setTimezone(e.target.value);
+                  setFollowedTimezone(null);
+                }}
+                title="Audience timezone"
+                className="w-full pl-10 pr-4 py-2.5 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+              >
+                {[...new Set([userTimezone, timezone, ...COMMON_TIMEZONES])].map((zone) => (
+                  <option key={zone} value={zone}>
+                    {zone === userTimezone ? `${zone} (your timezone)` : zone}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {scheduledTimestamp !== null && (
               <p className="mt-2 text-xs text-gray-500">
                 Scheduled for{' '}
-                {new Date(`${scheduleDate}T${scheduleTime}`).toLocaleString('en-US', {
+                {formatInTimeZone(scheduledTimestamp, timezone, {
                   weekday: 'long',
                   month: 'long',
                   day: 'numeric',
                   hour: 'numeric',
                   minute: '2-digit',
-                })}
+                })}{' '}
+                {getTimeZoneAbbreviation(scheduledTimestamp, timezone)}
+                {timezone !== userTimezone && (
+                  <>
+                    {' '}({formatInTimeZone(scheduledTimestamp, userTimezone, {
+                      weekday: 'short',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}{' '}
+                    {getTimeZoneAbbreviation(scheduledTimestamp, userTimezone)} your time)
+                  </>
+                )}
               </p>
             )}
+            {densityConflicts && densityConflicts.length > 0 && (
+              <div className="mt-2 space-y-1 rounded-lg bg-amber-50 p-3 text-xs text-amber-800">
+                {densityConflicts.map((conflict) => (
+                  <p key={`${conflict.platform}-${conflict.rule}`} className="flex items-start gap-1.5">
+                    <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 mt-px" />
+                    {conflict.message}
+                  </p>
+                ))}
+              </div>
+            )}
           </div>
+
+          {/* Repeat */}
+          {scheduleDate && scheduleTime && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Repeat
+              </label>
+              {initialData?.isSeriesOccurrence && (
+                <div className="flex gap-2 mb-3">
+                  {([
+                    ['this', 'This occurrence'],
+                    ['future', 'This and future occurrences'],
+                  ] as const).map(([scope, label]) => (
+                    <button
+                      key={scope}
+                      type="button"
+                      onClick={() => setEditScope(scope)}
+                      className={`px-3 py-1.5 rounded-lg border text-sm font-medium transition-colors ${
+                        editScope === scope
+                          ? 'border-primary-500 bg-primary-50 text-primary-700'
+                          : 'border-gray-300 text-gray-600 hover:border-gray-400'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <RecurrenceEditor
+                value={recurrence}
+                onChange={setRecurrence}
+                startDate={scheduleDate}
+                timeZone={timezone}
+                disabled={initialData?.isSeriesOccurrence && editScope === 'this'}
+              />
+            </div>
+          )}
         </div>
 
         {/* Middle Column - A/B Testing (conditionally shown) */}
@@ -518,12 +992,29 @@ export function ContentEditor({
           </div>
         )}
 
+        {/* Middle Column - Revision History (conditionally shown) */}
+        {showHistory && initialData?.id && (
+          <div className="flex-1 min-w-0 border-l border-r border-gray-200 px-6">
+            <RevisionHistory
+              postId={initialData.id as Id<'posts'>}
+              current={{
+                title,
+                content: threadParts ? joinThreadParts(threadParts).content : content,
+                platforms: selectedPlatforms,
+                scheduledAt: scheduledTimestamp,
+              }}
+              onRestored={handleRevisionRestored}
+            />
+          </div>
+        )}
+
         {/* Right Column - Viral Score & Preview */}
-        <div className={showABTest ? 'w-72 space-y-4' : 'w-80 space-y-4'}>
+        <div className={isWide ? 'w-72 space-y-4' : 'w-80 space-y-4'}>
           {/* A/B Test Toggle */}
           <button
             onClick={() => {
               setShowABTest(!showABTest);
+              setShowHistory(false);
               if (showABTest) {
                 setShowResults(false);
               }
@@ -551,6 +1042,30 @@ export function ContentEditor({
             <ChevronRight className={`h-4 w-4 transition-transform ${showABTest ? 'rotate-180' : ''}`} />
           </button>
 
+          {/* Revision History Toggle */}
+          {initialData?.id && (
+            <button
+              onClick={() => {
+                setShowHistory(!showHistory);
+                setShowABTest(false);
+                setShowResults(false);
+              }}
+              className={`w-full py-2.5 px-4 rounded-lg border flex items-center justify-between transition-all ${
+                showHistory
+                  ? 'border-primary-300 bg-primary-50 text-primary-700'
+                  : 'border-gray-300 bg-white text-gray-600 hover:border-primary-300 hover:bg-primary-50 hover:text-primary-700'
+              }`}
+            >
+              <span className="flex items-center gap-2">
+                <History className="h-4 w-4" />
+                <span className="text-sm font-medium">
+                  {showHistory ? 'Hide History' : 'Revision History'}
+                </span>
+              </span>
+              <ChevronRight className={`h-4 w-4 transition-transform ${showHistory ? 'rotate-180' : ''}`} />
+            </button>
+          )}
+
           {/* Viral Score Panel */}
           <div>
             <div className="flex items-center justify-between mb-2">
@@ -590,6 +1105,25 @@ export function ContentEditor({
                   {content || 'Your content preview will appear here...'}
                 </p>
               </div>
+              {instagramSplit && (
+                <div className="mt-2 p-4 bg-gray-50 rounded-lg border border-gray-200 max-h-48 overflow-y-auto space-y-3">
+                  <div>
+                    <p className="text-xs font-medium text-gray-500 mb-1">Instagram caption</p>
+                    <p className="text-sm text-gray-600 whitespace-pre-wrap">
+                      {instagramSplit.content || 'Your caption will appear here...'}
+                    </p>
+                  </div>
+                  <div className="pt-3 border-t border-gray-200">
+                    <p className="text-xs font-medium text-gray-500 mb-1 flex items-center gap-1">
+                      <MessageCircle className="h-3 w-3" />
+                      First comment
+                    </p>
+                    <p className="text-sm text-primary-600 whitespace-pre-wrap">
+                      {instagramSplit.firstComment || 'No hashtags to move yet'}
+                    </p>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -611,14 +1145,59 @@ export function ContentEditor({
           <Button variant="secondary" onClick={() => handleSave(true)}>
             Save as Draft
           </Button>
+          {!initialData?.isSeriesOccurrence && (
+            <Button
+              variant="secondary"
+              onClick={handleAddToQueue}
+              disabled={!title || !content || isOverLimit || hasMediaFailures || !nextQueueSlot}
+              title={
+                nextQueueSlot
+                  ? `Next slot: ${formatInTimeZone(nextQueueSlot, userTimezone, {
+                      weekday: 'short',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}`
+                  : 'No free posting slot for these platforms'
+              }
+            >
+              <ListPlus className="h-4 w-4 mr-1" />
+              Add to Queue
+            </Button>
+          )}
           <Button
             onClick={() => handleSave(false)}
-            disabled={!title || !content || isOverLimit}
+            disabled={!title || !content || isOverLimit || hasMediaFailures || isCheckingDensity}
           >
             {scheduleDate && scheduleTime ? 'Schedule Post' : 'Publish Now'}
           </Button>
         </div>
       </div>
+
+      <MediaPickerModal
+        isOpen={mediaPicker !== null}
+        onClose={() => setMediaPicker(null)}
+        accept={mediaPicker ?? undefined}
+        initialUrls={mediaUrls}
+        onSelect={handleMediaSelected}
+      />
+      {cropAsset && (
+        <MediaCropEditor
+          key={cropAsset._id}
+          isOpen
+          onClose={() => setCropAsset(null)}
+          asset={cropAsset}
+          platforms={selectedPlatforms}
+          derivatives={Object.fromEntries(
+            Object.entries(derivatives).map(([platform, list]) => [
+              platform,
+              list.find((d) => d.sourceUrl === cropAsset.url),
+            ])
+          )}
+          onSave={(crops) => handleCropsSaved(cropAsset.url, crops)}
+        />
+      )}
     </Modal>
   );
 }
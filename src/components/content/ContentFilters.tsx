@@ -1,4 +1,4 @@
-import { Search, Filter, Calendar, X } from 'lucide-react';
+import { Search, Filter, Calendar, Flag, X } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Badge } from '../ui/Badge';
 
@@ -9,6 +9,9 @@ interface ContentFiltersProps {
   onStatusChange: (status: string | null) => void;
   selectedPlatforms: string[];
   onPlatformsChange: (platforms: string[]) => void;
+  campaigns: { _id: string; name: string; color: string }[];
+  selectedCampaign: string | null;
+  onCampaignChange: (campaignId: string | null) => void;
   dateRange: { start: string | null; end: string | null };
   onDateRangeChange: (range: { start: string | null; end: string | null }) => void;
 }
@@ -16,6 +19,7 @@ interface ContentFiltersProps {
 const statuses = [
   { value: 'draft', label: 'Draft' },
   { value: 'scheduled', label: 'Scheduled' },
+  { value: 'pending_approval', label: 'In review' },
   { value: 'published', label: 'Published' },
   { value: 'failed', label: 'Failed' },
 ];
@@ -38,18 +42,23 @@ export function ContentFilters({
   onStatusChange,
   selectedPlatforms,
   onPlatformsChange,
+  campaigns,
+  selectedCampaign,
+  onCampaignChange,
   dateRange,
   onDateRangeChange,
 }: ContentFiltersProps) {
   const hasActiveFilters =
     selectedStatus ||
     selectedPlatforms.length > 0 ||
+    selectedCampaign ||
     dateRange.start ||
     dateRange.end;
 
   const clearFilters = () => {
     onStatusChange(null);
     onPlatformsChange([]);
+    onCampaignChange(null);
     onDateRangeChange({ start: null, end: null });
   };
 
@@ -138,6 +147,30 @@ export function ContentFilters({
 
         <div className="h-4 w-px bg-gray-300 mx-2" />
 
+        {/* Campaign Filter */}
+        {campaigns.length > 0 && (
+          <>
+            <div className="flex items-center gap-2">
+              <Flag className="h-4 w-4 text-gray-400" />
+              <select
+                value={selectedCampaign ?? ''}
+                onChange={(e) => onCampaignChange(e.target.value || null)}
+                className="px-2 py-1 rounded border border-gray-300 text-xs focus:border-primary-500 focus:outline-none"
+                aria-label="Campaign"
+              >
+                <option value="">All campaigns</option>
+                {campaigns.map((campaign) => (
+                  <option key={campaign._id} value={campaign._id}>
+                    {campaign.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="h-4 w-px bg-gray-300 mx-2" />
+          </>
+        )}
+
         {/* Date Range */}
         <div className="flex items-center gap-2">
           <Calendar className="h-4 w-4 text-gray-400" />
@@ -188,6 +221,21 @@ export function ContentFilters({
               </button>
             </Badge>
           ))}
+          {selectedCampaign && (
+            <Badge variant="secondary" className="gap-1">
+              <span
+                className="h-2 w-2 rounded-full"
+                style={{ backgroundColor: campaigns.find((c) => c._id === selectedCampaign)?.color }}
+              />
+              {campaigns.find((c) => c._id === selectedCampaign)?.name ?? 'Campaign'}
+              <button
+                onClick={() => onCampaignChange(null)}
+                className="hover:text-gray-900"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
         </div>
       )}
     </div>
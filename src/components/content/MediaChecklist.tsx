@@ -0,0 +1,58 @@
+import { AlertTriangle, CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import type { PlatformMediaCheck } from '../../lib/mediaValidation';
+
+const platformNames: Record<string, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  twitter: 'X',
+  linkedin: 'LinkedIn',
+  youtube: 'YouTube',
+  tiktok: 'TikTok',
+};
+
+const statusStyles = {
+  pass: { icon: CheckCircle2, className: 'text-green-600' },
+  warn: { icon: AlertTriangle, className: 'text-amber-500' },
+  fail: { icon: XCircle, className: 'text-red-600' },
+};
+
+interface MediaChecklistProps {
+  checks: PlatformMediaCheck[] | null; // null while media is still being inspected
+}
+
+// Pass/warn/fail for the attached media on each selected platform
+export function MediaChecklist({ checks }: MediaChecklistProps) {
+  if (!checks) {
+    return (
+      <p className="mt-2 flex items-center gap-1.5 text-xs text-gray-500">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Checking media...
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-1.5 rounded-lg border border-gray-200 p-3 text-xs">
+      {checks.map((check) => {
+        const { icon: Icon, className } = statusStyles[check.status];
+        return (
+          <div key={check.platform}>
+            <p className="flex items-center gap-1.5 font-medium text-gray-700">
+              <Icon className={`h-3.5 w-3.5 flex-shrink-0 ${className}`} />
+              {platformNames[check.platform] ?? check.platform}
+              {check.status === 'pass' && <span className="font-normal text-gray-500">Media looks good</span>}
+            </p>
+            {check.issues.map((issue) => (
+              <p
+                key={issue.message}
+                className={`ml-5 ${issue.severity === 'fail' ? 'text-red-600' : 'text-amber-700'}`}
+              >
+                {issue.message}
+              </p>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Loader2, Upload } from 'lucide-react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { useCreatePosts } from '../../hooks/convex/usePosts';
+import { useUserTimezone } from '../../hooks/convex/useUser';
+import { useDensityCheckMany } from '../../hooks/convex/useDensity';
+import { formatInTimeZone } from '../../lib/timezone';
+import { parsePostImport, type ImportedPost } from '../../lib/postImport';
+
+const IMPORT_BATCH_SIZE = 100; // posts.createMany limit per call
+
+interface PostImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Bulk-create posts from a CSV or JSON file, after a row-by-row check
+export function PostImportDialog({ isOpen, onClose }: PostImportDialogProps) {
+  const createPosts = useCreatePosts();
+  const timezone = useUserTimezone();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<ImportedPost[]>([]);
+  const [asDrafts, setAsDrafts] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const scheduledRows = asDrafts ? [] : validRows.filter((row) => row.scheduledAt !== undefined);
+  const scheduledCount = scheduledRows.length;
+
+  // Posting-density warnings for the rows being scheduled, in file order;
+  // importing with them showing schedules those rows anyway
+  const densityResults = useDensityCheckMany(
+    scheduledRows.length > 0
+      ? { posts: scheduledRows.map((row) => ({ platforms: row.platforms, scheduledAt: row.scheduledAt as number })) }
+      : null
+  );
+  const densityWarnings = new Map(
+    scheduledRows.map((row, index) => [row.row, (densityResults?.[index] ?? []).map((conflict) => conflict.message)])
+  );
+  const isCheckingDensity = scheduledRows.length > 0 && densityResults === undefined;
+
+  const reset = () => {
+    setFileName(null);
+    setRows([]);
+    setError(null);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const handleClose = () => {
+    reset();
+    setMessage(null);
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    setMessage(null);
+    setFileName(file.name);
+    try {
+      const parsed = parsePostImport(await file.text(), { timeZone: timezone });
+      if (parsed.length === 0) {
+        setError(`No posts found in ${file.name}`);
+      }
+      setRows(parsed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Couldn't read ${file.name}`);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    let created = 0;
+    let batch: ImportedPost[] = [];
+    try {
+      for (let i = 0; i < validRows.length; i += IMPORT_BATCH_SIZE) {
+        batch = validRows.slice(i, i + IMPORT_BATCH_SIZE);
+        const postIds = await createPosts({
+          posts: batch.map((row) => ({
+            title: row.title,
+            content: row.content,
+            mediaUrls: row.mediaUrls.length > 0 ? row.mediaUrls : undefined,
+            mediaType: row.mediaType,
+            hashtags: row.hashtags.length > 0 ? row.hashtags : undefined,
+            platforms: row.platforms,
+            status: !asDrafts && row.scheduledAt !== undefined ? 'scheduled' : 'draft',
+            scheduledAt: row.scheduledAt,
+            timezone,
+            ignoreDensity: densityWarnings.get(row.row)?.length ? true : undefined,
+          })),
+        });
+        created += postIds.length;
+      }
+      setMessage(`Imported ${created} posts from ${fileName}`);
+      reset();
+    } catch (err) {
+      let reason = err instanceof Error ? err.message : 'Import failed';
+      // The server counts from the start of the batch; name the row in the file instead
+      const failed = /Post (\d+) of \d+: (.*)/.exec(reason);
+      const failedRow = failed ? batch[Number(failed[1]) - 1] : undefined;
+      if (failed && failedRow) {
+        reason = `Row ${failedRow.row}: ${failed[2]}`;
+      }
+      setError(created > 0 ? `Imported ${created} posts, then stopped. ${reason}` : reason);
+      // Drop what made it in so a retry doesn't create them twice
+      setRows(rows.filter((row) => !validRows.slice(0, created).includes(row)));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Import posts"
+      description="CSV with a header row, or a JSON list. Columns: content, platforms, title, hashtags, media URLs, and a scheduled time (YYYY-MM-DD HH:mm, your timezone)."
+      size="xl"
+    >
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+          />
+          <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+            <Upload className="h-4 w-4 mr-1" />
+            {fileName ? 'Choose another file' : 'Choose file'}
+          </Button>
+          {fileName && <span className="text-sm text-gray-600 truncate">{fileName}</span>}
+        </div>
+
+        {message && (
+          <p className="text-sm text-green-700 flex items-center gap-1">
+            <CheckCircle2 className="h-4 w-4" />
+            {message}
+          </p>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <p className="text-sm text-gray-600">
+              {validRows.length} of {rows.length} rows ready
+              {validRows.length < rows.length && '; rows with errors are skipped'}
+              {[...densityWarnings.values()].some((warnings) => warnings.length > 0) &&
+                '. Rows over your posting-density limits are scheduled anyway'}
+            </p>
+
+            <div className="max-h-96 overflow-y-auto rounded-lg border border-gray-200">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs text-gray-500 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 font-medium w-12">Row</th>
+                    <th className="px-3 py-2 font-medium">Post</th>
+                    <th className="px-3 py-2 font-medium w-32">Platforms</th>
+                    <th className="px-3 py-2 font-medium w-40">When</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.map((row) => (
+                    <tr key={row.row} className={row.errors.length > 0 ? 'bg-red-50/50' : undefined}>
+                      <td className="px-3 py-2 align-top text-gray-500">{row.row}</td>
+                      <td className="px-3 py-2 align-top">
+                        {row.title && <p className="font-medium text-gray-900 truncate">{row.title}</p>}
+                        <p className="text-gray-600 line-clamp-2">{row.content || '—'}</p>
+                        {row.errors.map((issue) => (
+                          <p key={issue} className="mt-1 text-xs text-red-600 flex items-center gap-1">
+                            <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                            {issue}
+                          </p>
+                        ))}
+                        {[...row.warnings, ...(densityWarnings.get(row.row) ?? [])].map((issue) => (
+                          <p key={issue} className="mt-1 text-xs text-amber-600 flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                            {issue}
+                          </p>
+                        ))}
+                      </td>
+                      <td className="px-3 py-2 align-top text-gray-600">{row.platforms.join(', ')}</td>
+                      <td className="px-3 py-2 align-top text-gray-600">
+                        {row.scheduledAt
+                          ? formatInTimeZone(row.scheduledAt, timezone, {
+                              month: 'short',
+                              day: 'numeric',
+                              hour: 'numeric',
+                              minute: '2-digit',
+                            })
+                          : 'Draft'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={asDrafts}
+                onChange={(e) => setAsDrafts(e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Import everything as drafts, keeping the planned times
+            </label>
+          </>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={handleClose}>
+            {message ? 'Done' : 'Cancel'}
+          </Button>
+          <Button onClick={handleImport} disabled={validRows.length === 0 || isImporting || isCheckingDensity}>
+            {(isImporting || isCheckingDensity) && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Import {validRows.length} posts
+            {scheduledCount > 0 && ` (${scheduledCount} scheduled)`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,172 @@
+import { Repeat } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import {
+  WEEKDAY_LABELS,
+  describeRecurrence,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from '../../lib/recurrence';
+import { toZonedDateKey, zonedTimeToUtc } from '../../lib/timezone';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  onChange: (value: RecurrenceRule | null) => void;
+  startDate: string; // YYYY-MM-DD of the first occurrence
+  timeZone: string; // Zone the dates are read in
+  disabled?: boolean;
+}
+
+type EndMode = 'never' | 'until' | 'count';
+
+const frequencyOptions: { value: RecurrenceFrequency | 'none'; label: string }[] = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const unitLabels: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+};
+
+export function RecurrenceEditor({ value, onChange, startDate, timeZone, disabled }: RecurrenceEditorProps) {
+  // Weekday of the start date itself, whatever zone it's in
+  const startWeekday = new Date(`${startDate}T00:00Z`).getUTCDay();
+  // Last moment of a day in the series' zone
+  const endOfDay = (date: string) => zonedTimeToUtc(date, '23:59', timeZone) + 59 * 1000;
+  const endMode: EndMode = value?.count !== undefined ? 'count' : value?.until !== undefined ? 'until' : 'never';
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | 'none') => {
+    if (frequency === 'none') {
+      onChange(null);
+      return;
+    }
+    onChange({
+      ...value,
+      frequency,
+      interval: value?.interval ?? 1,
+      byWeekday: frequency === 'weekly' ? value?.byWeekday ?? [startWeekday] : undefined,
+    });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (!value) return;
+    const current = value.byWeekday ?? [startWeekday];
+    const next = current.includes(weekday)
+      ? current.filter((d) => d !== weekday)
+      : [...current, weekday];
+    // Keep at least one day selected
+    if (next.length > 0) {
+      onChange({ ...value, byWeekday: next });
+    }
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (!value) return;
+    onChange({
+      ...value,
+      until: mode === 'until' ? endOfDay(startDate) + 30 * 24 * 60 * 60 * 1000 : undefined,
+      count: mode === 'count' ? 10 : undefined,
+    });
+  };
+
+  return (
+    <div className={cn('space-y-3', disabled && 'opacity-50 pointer-events-none')}>
+      <div className="flex items-center gap-3">
+        <Repeat className="h-4 w-4 text-gray-400" />
+        <select
+          value={value?.frequency ?? 'none'}
+          onChange={(e) => handleFrequencyChange(e.target.value as RecurrenceFrequency | 'none')}
+          disabled={disabled}
+          className="flex-1 px-3 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        >
+          {frequencyOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {value && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>every</span>
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-16 px-2 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+            />
+            <span>{unitLabels[value.frequency]}</span>
+          </div>
+        )}
+      </div>
+
+      {value?.frequency === 'weekly' && (
+        <div className="flex gap-1 pl-7">
+          {WEEKDAY_LABELS.map((label, weekday) => {
+            const isSelected = (value.byWeekday ?? [startWeekday]).includes(weekday);
+            return (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(weekday)}
+                className={cn(
+                  'w-10 py-1.5 rounded-lg border text-xs font-medium transition-colors',
+                  isSelected
+                    ? 'border-primary-500 bg-primary-50 text-primary-700'
+                    : 'border-gray-300 text-gray-600 hover:border-gray-400'
+                )}
+              >
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {value && (
+        <div className="flex items-center gap-3 pl-7 text-sm text-gray-600">
+          <span>Ends</span>
+          <select
+            value={endMode}
+            onChange={(e) => handleEndModeChange(e.target.value as EndMode)}
+            className="px-3 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          >
+            <option value="never">Never</option>
+            <option value="until">On date</option>
+            <option value="count">After</option>
+          </select>
+          {endMode === 'until' && value.until !== undefined && (
+            <input
+              type="date"
+              value={toZonedDateKey(value.until, timeZone)}
+              min={startDate}
+              onChange={(e) =>
+                e.target.value && onChange({ ...value, until: endOfDay(e.target.value) })
+              }
+              className="px-3 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+            />
+          )}
+          {endMode === 'count' && (
+            <>
+              <input
+                type="number"
+                min={1}
+                value={value.count}
+                onChange={(e) => onChange({ ...value, count: Math.max(1, Number(e.target.value) || 1) })}
+                className="w-16 px-2 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+              />
+              <span>occurrences</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {value && (
+        <p className="pl-7 text-xs text-gray-500">{describeRecurrence({ ...value, timezone: timeZone })}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { AlertCircle, CheckCircle2, Loader2, MessageSquare, RotateCcw, Send } from 'lucide-react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { useApprovalMutations, usePostReviews, type ReviewAction } from '../../hooks/convex/useApprovals';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+interface ReviewDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  role: 'author' | 'approver';
+  post: {
+    id: string;
+    title: string;
+    content: string;
+    platforms: string[];
+    status: string;
+    scheduledAt?: number;
+    authorName?: string;
+    approvalCount?: number;
+    requiredApprovals?: number;
+  };
+}
+
+const actionLabels: Record<ReviewAction, { label: string; variant: 'default' | 'info' | 'success' | 'warning' }> = {
+  submitted: { label: 'Submitted', variant: 'info' },
+  approved: { label: 'Approved', variant: 'success' },
+  changes_requested: { label: 'Changes requested', variant: 'warning' },
+  comment: { label: 'Comment', variant: 'default' },
+};
+
+// A post's review trail, with the actions open to its author or an approver
+export function ReviewDialog({ isOpen, onClose, role, post }: ReviewDialogProps) {
+  const reviews = usePostReviews(isOpen ? (post.id as Id<'posts'>) : null);
+  const { submitForReview, approve, requestChanges, addComment } = useApprovalMutations();
+  const [comment, setComment] = useState('');
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: string, call: () => Promise<unknown>, closeAfter: boolean) => {
+    setPending(action);
+    setError(null);
+    try {
+      await call();
+      setComment('');
+      if (closeAfter) onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const postId = post.id as Id<'posts'>;
+  const text = comment.trim() || undefined;
+  const canSubmit = role === 'author' && (post.status === 'draft' || post.status === 'failed');
+  const isAwaiting = post.status === 'pending_approval';
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Review" description={post.title || 'Untitled post'} size="lg">
+      <div className="space-y-4">
+        {/* Post */}
+        <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+          <div className="flex items-center justify-between gap-2 mb-2 text-xs text-gray-500">
+            <span>
+              {post.authorName ? `By ${post.authorName} · ` : ''}
+              {post.platforms.join(', ')}
+            </span>
+            {post.scheduledAt && (
+              <span>
+                {new Date(post.scheduledAt).toLocaleString(undefined, {
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-700 whitespace-pre-wrap max-h-48 overflow-y-auto">{post.content}</p>
+          {post.requiredApprovals !== undefined && post.requiredApprovals > 1 && (
+            <p className="mt-2 text-xs text-gray-500">
+              {post.approvalCount ?? 0}/{post.requiredApprovals} approvals
+            </p>
+          )}
+        </div>
+
+        {/* Trail */}
+        <div className="max-h-56 overflow-y-auto space-y-3">
+          {reviews === undefined ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : reviews.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">No review activity yet</p>
+          ) : (
+            reviews.map((review) => {
+              const action = actionLabels[review.action as ReviewAction] ?? actionLabels.comment;
+              return (
+                <div key={review._id} className="flex gap-3">
+                  <MessageSquare className="h-4 w-4 text-gray-300 mt-0.5 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium text-gray-900">{review.userName}</span>
+                      <Badge variant={action.variant} size="sm">
+                        {action.label}
+                      </Badge>
+                      <span className="text-xs text-gray-400">{new Date(review.createdAt).toLocaleString()}</span>
+                    </div>
+                    {review.comment && (
+                      <p className="mt-0.5 text-sm text-gray-600 whitespace-pre-wrap">{review.comment}</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {/* Comment */}
+        <textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder={role === 'approver' ? 'Feedback for the author...' : 'Add a note for reviewers...'}
+          rows={3}
+          className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:outline-none focus:ring-1 focus:border-primary-500 focus:ring-primary-500 resize-none"
+        />
+
+        {error && (
+          <p className="text-xs text-red-600 flex items-center gap-1">
+            <AlertCircle className="h-3 w-3" />
+            {error}
+          </p>
+        )}
+
+        <div className="flex items-center justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => run('comment', () => addComment({ postId, comment }), false)}
+            disabled={!text || pending !== null}
+          >
+            {pending === 'comment' && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Comment
+          </Button>
+          {canSubmit && (
+            <Button
+              size="sm"
+              onClick={() => run('submit', () => submitForReview({ postId, comment: text }), true)}
+              disabled={pending !== null}
+            >
+              {pending === 'submit' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+              Submit for review
+            </Button>
+          )}
+          {role === 'approver' && isAwaiting && (
+            <>
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => run('changes', () => requestChanges({ postId, comment }), true)}
+                disabled={!text || pending !== null}
+                title={text ? undefined : 'Say what needs to change'}
+              >
+                {pending === 'changes' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-1" />}
+                Request changes
+              </Button>
+              <Button
+                variant="success"
+                size="sm"
+                onClick={() => run('approve', () => approve({ postId, comment: text }), true)}
+                disabled={pending !== null}
+              >
+                {pending === 'approve' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-1" />}
+                Approve
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+}
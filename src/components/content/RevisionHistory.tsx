@@ -0,0 +1,188 @@
+import { useState } from 'react';
+import { AlertCircle, History, Loader2, RotateCcw } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { usePostRevisions, useRestoreRevision, type PostRevision } from '../../hooks/convex/useRevisions';
+import { diffWords, type DiffSegment } from '../../lib/diff';
+import { joinThreadParts } from '../../lib/thread';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+interface RevisionHistoryProps {
+  postId: Id<'posts'>;
+  // What the editor holds right now, saved or not
+  current: {
+    title: string;
+    content: string;
+    platforms: string[];
+    scheduledAt: number | null;
+  };
+  onRestored: (revision: PostRevision) => void;
+}
+
+function revisionText(revision: PostRevision): string {
+  return revision.postType === 'thread' && revision.threadParts?.length
+    ? joinThreadParts(revision.threadParts).content
+    : revision.content;
+}
+
+function formatWhen(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// One-line notes for everything besides the text that differs
+function describeChanges(revision: PostRevision, current: RevisionHistoryProps['current']): string[] {
+  const changes: string[] = [];
+
+  if ((revision.title ?? '') !== current.title) {
+    changes.push(`Title: "${revision.title || 'Untitled'}" → "${current.title || 'Untitled'}"`);
+  }
+
+  const added = current.platforms.filter((p) => !revision.platforms.includes(p));
+  const removed = revision.platforms.filter((p) => !current.platforms.includes(p));
+  if (added.length > 0) changes.push(`Platforms added: ${added.join(', ')}`);
+  if (removed.length > 0) changes.push(`Platforms removed: ${removed.join(', ')}`);
+
+  if ((revision.scheduledAt ?? null) !== current.scheduledAt) {
+    const from = revision.scheduledAt ? formatWhen(revision.scheduledAt) : 'unscheduled';
+    const to = current.scheduledAt ? formatWhen(current.scheduledAt) : 'unscheduled';
+    changes.push(`Schedule: ${from} → ${to}`);
+  }
+
+  return changes;
+}
+
+function DiffPane({ label, segments, side }: { label: string; segments: DiffSegment[]; side: 'removed' | 'added' }) {
+  return (
+    <div className="flex-1 min-w-0">
+      <p className="text-xs font-medium text-gray-500 mb-1">{label}</p>
+      <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 max-h-64 overflow-y-auto">
+        <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+          {segments
+            .filter((segment) => segment.type === 'equal' || segment.type === side)
+            .map((segment, index) => (
+              <span
+                key={index}
+                className={
+                  segment.type === 'removed'
+                    ? 'bg-red-100 text-red-800 line-through'
+                    : segment.type === 'added'
+                    ? 'bg-green-100 text-green-800'
+                    : undefined
+                }
+              >
+                {segment.text}
+              </span>
+            ))}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// Saved versions of a post, each diffed against the editor's current text
+export function RevisionHistory({ postId, current, onRestored }: RevisionHistoryProps) {
+  const revisions = usePostRevisions(postId);
+  const restoreRevision = useRestoreRevision();
+  const [selectedId, setSelectedId] = useState<Id<'postRevisions'> | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (revisions === undefined) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <History className="h-8 w-8 text-gray-300 mx-auto mb-2" />
+        <p className="text-sm text-gray-500">No revisions yet</p>
+        <p className="text-xs text-gray-400 mt-1">Every saved change to this post will be kept here.</p>
+      </div>
+    );
+  }
+
+  const selected = revisions.find((r) => r._id === selectedId) ?? revisions[0];
+  const segments = diffWords(revisionText(selected), current.content);
+  const changes = describeChanges(selected, current);
+  const isSame = changes.length === 0 && segments.every((segment) => segment.type === 'equal');
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await restoreRevision({ revisionId: selected._id });
+      onRestored(selected);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-gray-500" />
+        <h3 className="text-sm font-medium text-gray-700">Revision history</h3>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto divide-y divide-gray-100 rounded-lg border border-gray-200">
+        {revisions.map((revision, index) => (
+          <button
+            key={revision._id}
+            onClick={() => setSelectedId(revision._id)}
+            className={`w-full flex items-center justify-between gap-2 px-3 py-2 text-left transition-colors ${
+              revision._id === selected._id ? 'bg-primary-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            <span className="min-w-0">
+              <span className="block text-sm text-gray-900 truncate">{revision.authorName}</span>
+              <span className="block text-xs text-gray-500">{formatWhen(revision.createdAt)}</span>
+            </span>
+            <span className="flex items-center gap-1 flex-shrink-0">
+              {revision.restoredFromId && <Badge variant="info" size="sm">Restored</Badge>}
+              {index === 0 && <Badge variant="secondary" size="sm">Latest</Badge>}
+              {index === revisions.length - 1 && <Badge variant="secondary" size="sm">Original</Badge>}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <DiffPane label={`Revision · ${formatWhen(selected.createdAt)}`} segments={segments} side="removed" />
+        <DiffPane label="Current" segments={segments} side="added" />
+      </div>
+
+      {changes.length > 0 && (
+        <ul className="space-y-0.5">
+          {changes.map((change) => (
+            <li key={change} className="text-xs text-gray-600">
+              {change}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 flex items-center gap-1">
+          <AlertCircle className="h-3 w-3" />
+          {error}
+        </p>
+      )}
+
+      <Button variant="secondary" size="sm" onClick={handleRestore} disabled={isSame || isRestoring} className="w-full">
+        {isRestoring ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-1" />}
+        {isSame ? 'Matches the current version' : 'Restore this version'}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { AlertCircle, ArrowDown, ArrowUp, ImagePlus, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { THREAD_PLATFORMS, validateThreadParts, type ThreadPart } from '../../lib/thread';
+import { formatForPlatform, type Platform } from '../../lib/platformFormatter';
+
+interface ThreadEditorProps {
+  parts: ThreadPart[];
+  onChange: (parts: ThreadPart[]) => void;
+  platforms: string[];
+}
+
+// Ordered parts of a thread, each with its own character count and media
+export function ThreadEditor({ parts, onChange, platforms }: ThreadEditorProps) {
+  const [mediaInputFor, setMediaInputFor] = useState<number | null>(null);
+  const [mediaUrl, setMediaUrl] = useState('');
+
+  const issues = validateThreadParts(parts, platforms);
+  const chainedPlatforms = platforms.filter((p) => THREAD_PLATFORMS.includes(p));
+  const joinedPlatforms = platforms.filter((p) => !THREAD_PLATFORMS.includes(p));
+
+  const updatePart = (index: number, part: ThreadPart) => {
+    onChange(parts.map((p, i) => (i === index ? part : p)));
+  };
+
+  const movePart = (index: number, direction: -1 | 1) => {
+    const next = [...parts];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    onChange(next);
+  };
+
+  const addMedia = (index: number) => {
+    const url = mediaUrl.trim();
+    if (url) {
+      updatePart(index, { ...parts[index], mediaUrls: [...(parts[index].mediaUrls ?? []), url] });
+    }
+    setMediaUrl('');
+    setMediaInputFor(null);
+  };
+
+  // Tightest per-part limit among the platforms that post parts separately
+  const partLimit = (content: string) =>
+    chainedPlatforms.length > 0
+      ? Math.min(...chainedPlatforms.map((p) => formatForPlatform(content, p as Platform).maxCharacters))
+      : null;
+
+  return (
+    <div className="space-y-3">
+      {parts.map((part, index) => {
+        const limit = partLimit(part.content);
+        const partIssues = issues.filter((issue) => issue.part === index);
+
+        return (
+          <div key={index} className="rounded-lg border border-gray-300 p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-medium text-gray-500">
+                {index + 1}/{parts.length}
+              </span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => movePart(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3.5 w-3.5 text-gray-500" />
+                </button>
+                <button
+                  onClick={() => movePart(index, 1)}
+                  disabled={index === parts.length - 1}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3.5 w-3.5 text-gray-500" />
+                </button>
+                <button
+                  onClick={() => setMediaInputFor(mediaInputFor === index ? null : index)}
+                  className="p-1 rounded hover:bg-gray-100"
+                  title="Add media"
+                >
+                  <ImagePlus className="h-3.5 w-3.5 text-gray-500" />
+                </button>
+                <button
+                  onClick={() => onChange(parts.filter((_, i) => i !== index))}
+                  disabled={parts.length <= 2}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  title="Remove part"
+                >
+                  <Trash2 className="h-3.5 w-3.5 text-gray-500" />
+                </button>
+              </div>
+            </div>
+            <textarea
+              value={part.content}
+              onChange={(e) => updatePart(index, { ...part, content: e.target.value })}
+              placeholder={index === 0 ? 'Start your thread...' : 'Continue the thread...'}
+              rows={3}
+              className="w-full px-3 py-2 rounded-lg border border-gray-200 text-sm focus:outline-none focus:ring-1 focus:border-primary-500 focus:ring-primary-500 resize-none"
+            />
+            {mediaInputFor === index && (
+              <div className="mt-2 flex gap-2">
+                <input
+                  type="url"
+                  value={mediaUrl}
+                  onChange={(e) => setMediaUrl(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addMedia(index)}
+                  placeholder="https://example.com/image.jpg"
+                  className="flex-1 px-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                  autoFocus
+                />
+                <Button size="sm" onClick={() => addMedia(index)} disabled={!mediaUrl.trim()}>
+                  Add
+                </Button>
+              </div>
+            )}
+            {(part.mediaUrls?.length ?? 0) > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {part.mediaUrls!.map((url) => (
+                  <span
+                    key={url}
+                    className="flex items-center gap-1 max-w-[14rem] rounded bg-gray-100 px-2 py-1 text-xs text-gray-600"
+                  >
+                    <span className="truncate">{url.split('/').pop()}</span>
+                    <button
+                      onClick={() => updatePart(index, { ...part, mediaUrls: part.mediaUrls!.filter((u) => u !== url) })}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="mt-1 flex items-start justify-between gap-3">
+              <div className="space-y-0.5">
+                {partIssues.map((issue) => (
+                  <p key={issue.message} className="text-xs text-red-600 flex items-center gap-1">
+                    <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                    {issue.message}
+                  </p>
+                ))}
+              </div>
+              {limit !== null && (
+                <span
+                  className={`text-xs flex-shrink-0 ${
+                    part.content.length > limit ? 'text-red-600 font-medium' : 'text-gray-400'
+                  }`}
+                >
+                  {part.content.length}/{limit}
+                </span>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <Button variant="secondary" size="sm" onClick={() => onChange([...parts, { content: '' }])}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add part
+        </Button>
+        {joinedPlatforms.length > 0 && (
+          <p className="text-xs text-gray-500">
+            Posted as one post on {joinedPlatforms.join(', ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
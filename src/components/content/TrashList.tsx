@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { AlertCircle, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { useTrash, useTrashActions } from '../../hooks/convex/usePosts';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+// Deleted posts, which can be restored until they're purged 30 days on
+export function TrashList() {
+  const { posts, status, loadMore } = useTrash();
+  const { restore, deleteForever, emptyTrash } = useTrashActions();
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (key: string, action: () => Promise<unknown>) => {
+    setPending(key);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleDeleteForever = (postId: Id<'posts'>) => {
+    if (!confirm("Delete this post for good? This can't be undone.")) return;
+    run(`delete-${postId}`, () => deleteForever({ postId }));
+  };
+
+  const handleEmptyTrash = () => {
+    if (!confirm("Delete everything in the trash for good? This can't be undone.")) return;
+    run('empty', async () => {
+      // The server clears a batch per call
+      let hasMore = true;
+      while (hasMore) {
+        ({ hasMore } = await emptyTrash({}));
+      }
+    });
+  };
+
+  if (status === 'LoadingFirstPage') {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">The trash is empty</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">Posts in the trash are deleted for good 30 days after they were moved here.</p>
+        <Button variant="danger" size="sm" onClick={handleEmptyTrash} disabled={pending !== null}>
+          {pending === 'empty' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Trash2 className="h-4 w-4 mr-1" />}
+          Empty trash
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center gap-1">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200 divide-y divide-gray-100">
+        {posts.map((post) => (
+          <div key={post._id} className="flex items-center gap-4 p-4">
+            <div className="min-w-0 flex-1">
+              <p className="font-medium text-gray-900 truncate">{post.title || post.content.slice(0, 60) || 'Untitled post'}</p>
+              <p className="text-xs text-gray-500">
+                {post.platforms.join(', ')} · Deleted {formatDate(post.deletedAt!)} · Gone for good on {formatDate(post.purgeAt)}
+              </p>
+            </div>
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={pending !== null}
+              onClick={() => run(`restore-${post._id}`, () => restore({ postId: post._id }))}
+            >
+              {pending === `restore-${post._id}` ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <RotateCcw className="h-4 w-4 mr-1" />
+              )}
+              Restore
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={pending !== null}
+              onClick={() => handleDeleteForever(post._id)}
+              className="text-red-600 hover:bg-red-50"
+            >
+              {pending === `delete-${post._id}` ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4 mr-1" />
+              )}
+              Delete forever
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {status === 'CanLoadMore' && (
+        <div className="flex justify-center">
+          <Button variant="secondary" size="sm" onClick={loadMore}>
+            Load more
+          </Button>
+        </div>
+      )}
+      {status === 'LoadingMore' && (
+        <div className="flex justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,3 +1,9 @@
 export { ContentCard } from './ContentCard';
 export { ContentFilters } from './ContentFilters';
 export { ContentEditor } from './ContentEditor';
+export { ThreadEditor } from './ThreadEditor';
+export { RevisionHistory } from './RevisionHistory';
+export { ReviewDialog } from './ReviewDialog';
+export { PostImportDialog } from './PostImportDialog';
+export { BulkActionBar } from './BulkActionBar';
+export { TrashList } from './TrashList';
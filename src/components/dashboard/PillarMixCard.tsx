@@ -0,0 +1,93 @@
+import { Link } from 'react-router-dom';
+import { Layers } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent } from '../ui/Card';
+import { Tabs, TabsList, TabsTrigger } from '../ui/Tabs';
+
+interface PillarMix {
+  _id: string;
+  name: string;
+  color: string;
+  targetPercent: number;
+  count: number;
+  actualPercent: number;
+}
+
+interface PillarMixCardProps {
+  pillars: PillarMix[];
+  untagged: number; // Posts in the period without a pillar
+  total: number;
+  period: 'week' | 'month';
+  onPeriodChange: (period: 'week' | 'month') => void;
+}
+
+// Within this many points of the target counts as on track
+const TOLERANCE = 5;
+
+export function PillarMixCard({ pillars, untagged, total, period, onPeriodChange }: PillarMixCardProps) {
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Content Pillar Mix</CardTitle>
+        <Tabs defaultValue={period} onChange={(v) => onPeriodChange(v as 'week' | 'month')}>
+          <TabsList>
+            <TabsTrigger value="week">This week</TabsTrigger>
+            <TabsTrigger value="month">This month</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {pillars.length === 0 ? (
+          <div className="py-6 text-center">
+            <Layers className="mx-auto h-10 w-10 text-gray-300" />
+            <p className="mt-2 text-sm text-gray-500">
+              <Link to="/settings" className="text-primary-600 hover:text-primary-700">
+                Set up content pillars
+              </Link>{' '}
+              to track your posting mix
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {pillars.map((pillar) => {
+              const gap = pillar.actualPercent - pillar.targetPercent;
+              return (
+                <div key={pillar._id}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="flex items-center gap-2 font-medium text-gray-900">
+                      <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: pillar.color }} />
+                      {pillar.name}
+                    </span>
+                    <span className="text-gray-500">
+                      {pillar.actualPercent}% of {pillar.targetPercent}% target
+                      {total > 0 && Math.abs(gap) > TOLERANCE && (
+                        <span className={gap < 0 ? 'ml-2 text-amber-600' : 'ml-2 text-gray-400'}>
+                          {gap < 0 ? 'Under' : 'Over'}
+                        </span>
+                      )}
+                    </span>
+                  </div>
+                  <div className="relative h-2 rounded-full bg-gray-100">
+                    <div
+                      className="h-2 rounded-full"
+                      style={{ width: `${Math.min(100, pillar.actualPercent)}%`, backgroundColor: pillar.color }}
+                    />
+                    <div
+                      className="absolute -top-0.5 h-3 w-0.5 bg-gray-900"
+                      style={{ left: `${pillar.targetPercent}%` }}
+                      title={`Target ${pillar.targetPercent}%`}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+            <p className="text-xs text-gray-500">
+              {total === 0
+                ? `Nothing published or scheduled this ${period} yet`
+                : `${total} posts this ${period}${untagged > 0 ? `, ${untagged} without a pillar` : ''}`}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
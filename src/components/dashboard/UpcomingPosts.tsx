@@ -14,6 +14,7 @@ interface ScheduledPost {
 
 interface UpcomingPostsProps {
   posts: ScheduledPost[];
+  timeZone?: string; // Zone to show times in (defaults to the browser's)
 }
 
 const statusConfig = {
@@ -22,7 +23,7 @@ const statusConfig = {
   draft: { label: 'Draft', variant: 'default' as const },
 };
 
-export function UpcomingPosts({ posts }: UpcomingPostsProps) {
+export function UpcomingPosts({ posts, timeZone }: UpcomingPostsProps) {
   return (
     <Card>
       <CardHeader className="flex flex-row items-center justify-between">
@@ -55,7 +56,7 @@ export function UpcomingPosts({ posts }: UpcomingPostsProps) {
                       <span className="capitalize">{post.platform}</span>
                       <span className="flex items-center gap-1">
                         <Clock className="h-3 w-3" />
-                        {formatDateTime(post.scheduledAt)}
+                        {formatDateTime(post.scheduledAt, timeZone)}
                       </span>
                     </div>
                   </div>
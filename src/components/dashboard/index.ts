@@ -3,3 +3,4 @@ export { PlatformCard } from './PlatformCard';
 export { UpcomingPosts } from './UpcomingPosts';
 export { RecommendationsCard } from './RecommendationsCard';
 export { EngagementChart } from './EngagementChart';
+export { PillarMixCard } from './PillarMixCard';
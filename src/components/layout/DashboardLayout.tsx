@@ -1,6 +1,7 @@
 import { useState, type ReactNode } from 'react';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
+import { PublishingPauseBanner } from './PublishingPauseBanner';
 import { cn } from '../../lib/utils';
 
 interface DashboardLayoutProps {
@@ -36,6 +37,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
         )}
       >
         <Header user={mockUser} organization={mockOrganization} />
+        <PublishingPauseBanner />
         <main className="p-6">{children}</main>
       </div>
     </div>
@@ -0,0 +1,228 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FileText, Loader2, Search, Sparkles } from 'lucide-react';
+import { useSearch } from '../../hooks/convex/useSearch';
+import { cn } from '../../lib/utils';
+
+type SearchResults = NonNullable<ReturnType<typeof useSearch>>;
+type PostResult = SearchResults['posts'][number];
+type QueueResult = SearchResults['queue'][number];
+
+type ResultItem =
+  | { kind: 'post'; key: string; post: PostResult }
+  | { kind: 'queue'; key: string; item: QueueResult };
+
+const MAX_PER_GROUP = 5;
+
+const postGroups: { label: string; statuses: string[] }[] = [
+  { label: 'Drafts', statuses: ['draft', 'pending_approval', 'failed'] },
+  { label: 'Scheduled', statuses: ['scheduled', 'publishing'] },
+  { label: 'Published', statuses: ['published'] },
+];
+
+function preview(text: string): string {
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+function formatWhen(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+// Header search over posts and the AI queue, with keyboard navigation
+export function GlobalSearch() {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const results = useSearch(debouncedQuery);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), 200);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  // ⌘K / Ctrl+K jumps to the search box from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const groups: { label: string; items: ResultItem[] }[] = [];
+  if (results) {
+    for (const group of postGroups) {
+      const items = results.posts
+        .filter((post) => group.statuses.includes(post.status))
+        .slice(0, MAX_PER_GROUP)
+        .map((post): ResultItem => ({ kind: 'post', key: post._id, post }));
+      if (items.length > 0) groups.push({ label: group.label, items });
+    }
+    if (results.queue.length > 0) {
+      groups.push({
+        label: 'AI queue',
+        items: results.queue.map((item): ResultItem => ({ kind: 'queue', key: item._id, item })),
+      });
+    }
+  }
+  const flatItems = groups.flatMap((group) => group.items);
+
+  const close = () => {
+    setIsOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const openResult = (result: ResultItem) => {
+    if (result.kind === 'post') {
+      navigate(`/content?post=${result.post._id}`);
+    } else {
+      const { item } = result;
+      const hashtags = (item.suggestedHashtags ?? []).map((tag) => (tag.startsWith('#') ? tag : `#${tag}`));
+      // A suggested time that has already passed isn't worth prefilling
+      const isUpcoming = item.suggestedPostTime !== undefined && new Date(item.suggestedPostTime) > new Date();
+      navigate('/content', {
+        state: {
+          aiDraft: {
+            queueItemId: item._id,
+            content: hashtags.length > 0 ? `${item.contentText}\n\n${hashtags.join(' ')}` : item.contentText,
+            platforms: [item.platform],
+            scheduledAt: isUpcoming ? new Date(item.suggestedPostTime!).toISOString() : undefined,
+          },
+        },
+      });
+    }
+    setQuery('');
+    setDebouncedQuery('');
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      close();
+    } else if (e.key === 'ArrowDown' && flatItems.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % flatItems.length);
+    } else if (e.key === 'ArrowUp' && flatItems.length > 0) {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + flatItems.length) % flatItems.length);
+    } else if (e.key === 'Enter' && flatItems[activeIndex]) {
+      e.preventDefault();
+      openResult(flatItems[activeIndex]);
+    }
+  };
+
+  const showDropdown = isOpen && query.trim() !== '';
+  const isSearching = results === undefined || debouncedQuery !== query;
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Search posts and AI drafts..."
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls="global-search-results"
+        className="h-10 w-80 rounded-lg border border-gray-200 bg-gray-50 pl-10 pr-4 text-sm placeholder:text-gray-400 focus:border-primary-500 focus:bg-white focus:outline-none focus:ring-1 focus:ring-primary-500"
+      />
+      <kbd className="absolute right-3 top-1/2 -translate-y-1/2 rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-400">
+        ⌘K
+      </kbd>
+
+      {showDropdown && (
+        <div
+          id="global-search-results"
+          role="listbox"
+          // Keep focus in the input so clicks land before onBlur closes the list
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute left-0 top-12 w-[28rem] max-h-[28rem] overflow-y-auto rounded-xl border border-gray-200 bg-white py-2 shadow-lg"
+        >
+          {flatItems.length === 0 ? (
+            <div className="flex items-center justify-center gap-2 px-4 py-6 text-sm text-gray-500">
+              {isSearching ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Searching…
+                </>
+              ) : (
+                'No matching posts'
+              )}
+            </div>
+          ) : (
+            groups.map((group) => (
+              <div key={group.label} className="py-1">
+                <p className="px-4 py-1 text-xs font-medium uppercase tracking-wide text-gray-400">{group.label}</p>
+                {group.items.map((result) => {
+                  const index = flatItems.indexOf(result);
+                  const isActive = index === activeIndex;
+                  return (
+                    <button
+                      key={result.key}
+                      role="option"
+                      aria-selected={isActive}
+                      onMouseEnter={() => setActiveIndex(index)}
+                      onClick={() => openResult(result)}
+                      className={cn(
+                        'flex w-full items-start gap-3 px-4 py-2 text-left',
+                        isActive ? 'bg-primary-50' : 'hover:bg-gray-50'
+                      )}
+                    >
+                      {result.kind === 'post' ? (
+                        <FileText className="mt-0.5 h-4 w-4 flex-shrink-0 text-gray-400" />
+                      ) : (
+                        <Sparkles className="mt-0.5 h-4 w-4 flex-shrink-0 text-brand-500" />
+                      )}
+                      <span className="min-w-0">
+                        <span className="block truncate text-sm text-gray-900">
+                          {result.kind === 'post'
+                            ? result.post.title || preview(result.post.content)
+                            : preview(result.item.contentText)}
+                        </span>
+                        <span className="block truncate text-xs text-gray-500">
+                          {result.kind === 'post'
+                            ? [
+                                result.post.platforms.join(', '),
+                                result.post.publishedAt
+                                  ? formatWhen(result.post.publishedAt)
+                                  : result.post.scheduledAt
+                                  ? formatWhen(result.post.scheduledAt)
+                                  : null,
+                              ]
+                                .filter(Boolean)
+                                .join(' · ')
+                            : `${result.item.platform} · ${result.item.status}`}
+                        </span>
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
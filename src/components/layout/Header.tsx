@@ -2,7 +2,6 @@ import { useState } from 'react';
 import { Link } from 'react-router-dom';
 import {
   Bell,
-  Search,
   Plus,
   ChevronDown,
   LogOut,
@@ -13,6 +12,7 @@ import {
 import { Avatar } from '../ui/Avatar';
 import { Button } from '../ui/Button';
 import { useAuth } from '../../contexts/AuthContext';
+import { GlobalSearch } from './GlobalSearch';
 
 interface HeaderProps {
   user?: {
@@ -40,17 +40,7 @@ export function Header({ user, organization }: HeaderProps) {
     <header className="sticky top-0 z-30 flex h-16 items-center justify-between border-b border-gray-200 bg-white px-6">
       {/* Search */}
       <div className="flex items-center gap-4">
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
-          <input
-            type="text"
-            placeholder="Search content, analytics..."
-            className="h-10 w-80 rounded-lg border border-gray-200 bg-gray-50 pl-10 pr-4 text-sm placeholder:text-gray-400 focus:border-primary-500 focus:bg-white focus:outline-none focus:ring-1 focus:ring-primary-500"
-          />
-          <kbd className="absolute right-3 top-1/2 -translate-y-1/2 rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-400">
-            ⌘K
-          </kbd>
-        </div>
+        <GlobalSearch />
       </div>
 
       {/* Right Side */}
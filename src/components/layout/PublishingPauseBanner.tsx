@@ -0,0 +1,105 @@
+import { useState } from 'react';
+import { PauseCircle, Loader2 } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { usePublishingStatus, useResumePublishing } from '../../hooks/convex/usePublishingPause';
+import { useUserTimezone } from '../../hooks/convex/useUser';
+import { formatInTimeZone } from '../../lib/timezone';
+
+const SHIFT_UNITS = {
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+const formatMoment = (timestamp: number, timeZone: string) =>
+  formatInTimeZone(timestamp, timeZone, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export function PublishingPauseBanner() {
+  const status = usePublishingStatus();
+  const resumePublishing = useResumePublishing();
+  const timeZone = useUserTimezone();
+  const [showResume, setShowResume] = useState(false);
+  const [shiftAmount, setShiftAmount] = useState(0);
+  const [shiftUnit, setShiftUnit] = useState<keyof typeof SHIFT_UNITS>('hours');
+  const [isResuming, setIsResuming] = useState(false);
+
+  const pause = status?.pause;
+  if (!pause) {
+    return null;
+  }
+
+  const pausedCount = pause.heldCount + pause.upcomingCount;
+
+  const handleResume = async () => {
+    setIsResuming(true);
+    try {
+      await resumePublishing({
+        pauseId: pause._id,
+        shiftMs: shiftAmount > 0 ? shiftAmount * SHIFT_UNITS[shiftUnit] : undefined,
+      });
+      setShowResume(false);
+      setShiftAmount(0);
+    } catch (error) {
+      console.error('Failed to resume publishing:', error);
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
+  return (
+    <div className="border-b border-red-200 bg-red-50 px-6 py-3">
+      <div className="flex items-center gap-3">
+        <PauseCircle className="h-5 w-5 flex-shrink-0 text-red-600" />
+        <div className="flex-1 text-sm text-red-800">
+          <span className="font-semibold">
+            Publishing paused{pause.organizationName ? ` for ${pause.organizationName}` : ''}
+          </span>
+          {' — '}
+          {pause.reason}
+          <span className="text-red-600">
+            {' · '}since {formatMoment(pause.pausedAt, timeZone)}
+            {pause.resumeAt !== undefined && <> · resumes {formatMoment(pause.resumeAt, timeZone)}</>}
+            {pause.heldCount > 0 && <> · {pause.heldCount} held</>}
+          </span>
+        </div>
+        {pause.canResume && !showResume && (
+          <Button size="sm" variant="secondary" onClick={() => setShowResume(true)}>
+            Resume
+          </Button>
+        )}
+      </div>
+
+      {showResume && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 pl-8 text-sm text-red-800">
+          <span>Shift {pausedCount} paused post{pausedCount === 1 ? '' : 's'} by</span>
+          <input
+            type="number"
+            min={0}
+            value={shiftAmount}
+            onChange={(e) => setShiftAmount(Math.max(0, Number(e.target.value) || 0))}
+            className="w-20 px-2 py-1.5 rounded-lg border border-red-200 bg-white text-sm focus:border-red-400 focus:outline-none focus:ring-1 focus:ring-red-400"
+          />
+          <select
+            value={shiftUnit}
+            onChange={(e) => setShiftUnit(e.target.value as keyof typeof SHIFT_UNITS)}
+            className="px-2 py-1.5 rounded-lg border border-red-200 bg-white text-sm focus:border-red-400 focus:outline-none focus:ring-1 focus:ring-red-400"
+          >
+            <option value="hours">hours</option>
+            <option value="days">days</option>
+          </select>
+          <Button size="sm" onClick={handleResume} disabled={isResuming}>
+            {isResuming && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            {shiftAmount > 0 ? 'Shift and resume' : 'Resume now'}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setShowResume(false)}>
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
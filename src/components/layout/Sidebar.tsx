@@ -13,6 +13,9 @@ import {
   ChevronLeft,
   ChevronRight,
   Bot,
+  Recycle,
+  Flag,
+  Image,
 } from 'lucide-react';
 import { cn } from '../../lib/utils';
 
@@ -26,6 +29,9 @@ const navigationItems = [
   { name: 'AI Copilot', href: '/copilot', icon: Bot },
   { name: 'Calendar', href: '/calendar', icon: Calendar },
   { name: 'Content', href: '/content', icon: FileText },
+  { name: 'Evergreen', href: '/evergreen', icon: Recycle },
+  { name: 'Campaigns', href: '/campaigns', icon: Flag },
+  { name: 'Media', href: '/media', icon: Image },
   { name: 'Analytics', href: '/analytics', icon: BarChart3 },
   { name: 'AI Studio', href: '/ai-studio', icon: Sparkles },
   { name: 'Recommendations', href: '/recommendations', icon: Lightbulb },
@@ -1,3 +1,4 @@
 export { Sidebar } from './Sidebar';
 export { Header } from './Header';
 export { DashboardLayout } from './DashboardLayout';
+export { GlobalSearch } from './GlobalSearch';
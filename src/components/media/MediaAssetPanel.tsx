@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Loader2, Sparkles, Trash2, X } from 'lucide-react';
+import { Card, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { Input } from '../ui/Input';
+import { formatDuration, formatFileSize, isVideoMime } from '../../lib/media';
+import { useMediaMutations, useMediaUsage, type MediaAsset } from '../../hooks/convex/useMedia';
+
+interface MediaAssetPanelProps {
+  asset: MediaAsset; // Key the panel by asset id so the form resets
+  onClose: () => void;
+}
+
+// Preview, metadata, folder/tags editing and the posts using an asset
+export function MediaAssetPanel({ asset, onClose }: MediaAssetPanelProps) {
+  const usage = useMediaUsage(asset._id);
+  const { update, remove } = useMediaMutations();
+  const [name, setName] = useState(asset.name);
+  const [folder, setFolder] = useState(asset.folder ?? '');
+  const [tags, setTags] = useState((asset.tags ?? []).map((tag) => `#${tag}`).join(' '));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isVideo = isVideoMime(asset.mimeType);
+  const isDirty =
+    name !== asset.name ||
+    folder !== (asset.folder ?? '') ||
+    tags !== (asset.tags ?? []).map((tag) => `#${tag}`).join(' ');
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await update({
+        assetId: asset._id,
+        name,
+        folder: folder.trim() || null,
+        tags: tags.split(/[\s,]+/).filter(Boolean),
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete "${asset.name}"? Published posts keep their copy on each platform.`)) return;
+    setError(null);
+    try {
+      await remove({ assetId: asset._id });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete');
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-start justify-between gap-2">
+          <h3 className="font-medium text-gray-900 break-all">{asset.name}</h3>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {isVideo ? (
+          <video src={asset.url} poster={asset.thumbnailUrl} controls className="w-full rounded-lg bg-black" />
+        ) : (
+          <img src={asset.url} alt={asset.name} className="w-full rounded-lg bg-gray-100 object-contain max-h-64" />
+        )}
+
+        <dl className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs">
+          <dt className="text-gray-500">Type</dt>
+          <dd className="text-gray-900">{asset.mimeType}</dd>
+          <dt className="text-gray-500">Size</dt>
+          <dd className="text-gray-900">{formatFileSize(asset.size)}</dd>
+          {asset.width !== undefined && asset.height !== undefined && (
+            <>
+              <dt className="text-gray-500">Dimensions</dt>
+              <dd className="text-gray-900">
+                {asset.width} × {asset.height}
+              </dd>
+            </>
+          )}
+          {asset.duration !== undefined && (
+            <>
+              <dt className="text-gray-500">Duration</dt>
+              <dd className="text-gray-900">{formatDuration(asset.duration)}</dd>
+            </>
+          )}
+          <dt className="text-gray-500">Added</dt>
+          <dd className="text-gray-900">{format(asset.createdAt, 'MMM d, yyyy')}</dd>
+        </dl>
+
+        {asset.source !== 'upload' && (
+          <div className="rounded-lg bg-brand-50 p-2 text-xs text-brand-700">
+            <p className="flex items-center gap-1 font-medium">
+              <Sparkles className="h-3 w-3" />
+              Generated in AI Studio
+            </p>
+            {asset.prompt && <p className="mt-1 text-gray-600">{asset.prompt}</p>}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <Input label="Name" value={name} onChange={(e) => setName(e.target.value)} />
+          <Input label="Folder" value={folder} onChange={(e) => setFolder(e.target.value)} placeholder="None" />
+          <Input
+            label="Tags"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="#product #launch"
+          />
+          {isDirty && (
+            <Button size="sm" onClick={handleSave} isLoading={saving}>
+              Save changes
+            </Button>
+          )}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Used in</h4>
+          {usage === undefined ? (
+            <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+          ) : usage.length === 0 ? (
+            <p className="text-xs text-gray-500">Not used in any posts</p>
+          ) : (
+            <ul className="space-y-1.5">
+              {usage.map((post) => (
+                <li key={post._id} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate text-gray-700">{post.title || post.content}</span>
+                  <Badge variant={post.status === 'published' ? 'success' : 'secondary'} size="sm">
+                    {post.status.replace('_', ' ')}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </p>
+        )}
+
+        <Button variant="ghost" size="sm" onClick={handleDelete} className="text-red-600 hover:bg-red-50 hover:text-red-700">
+          <Trash2 className="h-4 w-4 mr-1" />
+          Delete
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
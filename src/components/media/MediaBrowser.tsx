@@ -0,0 +1,149 @@
+import { useRef, useState } from 'react';
+import { AlertCircle, Folder, ImageOff, Loader2, Search, Upload } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { MediaGrid } from './MediaGrid';
+import { useMediaLibrary, useUploadMedia, type MediaAsset } from '../../hooks/convex/useMedia';
+
+type SourceFilter = 'all' | 'upload' | 'ai';
+
+const sourceFilters: { value: SourceFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'upload', label: 'Uploads' },
+  { value: 'ai', label: 'AI generated' },
+];
+
+interface MediaBrowserProps {
+  accept?: 'image' | 'video'; // Only show (and upload) this kind
+  selectedUrls?: string[];
+  activeId?: string;
+  onClick: (asset: MediaAsset) => void;
+}
+
+// Searchable, filterable library grid with an upload button, for the media page and picker
+export function MediaBrowser({ accept, selectedUrls, activeId, onClick }: MediaBrowserProps) {
+  const assets = useMediaLibrary();
+  const uploadMedia = useUploadMedia();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [search, setSearch] = useState('');
+  const [source, setSource] = useState<SourceFilter>('all');
+  const [folder, setFolder] = useState('');
+  const [uploading, setUploading] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const folders = [
+    ...new Set((assets ?? []).flatMap((asset) => (asset.folder && !asset.derivedFrom ? [asset.folder] : []))),
+  ].sort();
+  const query = search.trim().toLowerCase();
+  const visible = (assets ?? []).filter(
+    (asset) =>
+      !asset.derivedFrom &&
+      (!accept || asset.mimeType.startsWith(`${accept}/`)) &&
+      (source === 'all' || (source === 'upload') === (asset.source === 'upload')) &&
+      (!folder || asset.folder === folder) &&
+      (!query ||
+        asset.name.toLowerCase().includes(query) ||
+        asset.prompt?.toLowerCase().includes(query) ||
+        asset.tags?.some((tag) => tag.includes(query.replace(/^#/, ''))))
+  );
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setError(null);
+    setUploading(files.length);
+    for (const file of Array.from(files)) {
+      try {
+        await uploadMedia(file, { folder: folder || undefined });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : `Upload of ${file.name} failed`);
+      } finally {
+        setUploading((count) => count - 1);
+      }
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[12rem]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name, tag or prompt..."
+            className="w-full pl-9 pr-4 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+        </div>
+        <div className="flex rounded-lg border border-gray-200 p-0.5">
+          {sourceFilters.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setSource(option.value)}
+              className={`px-2.5 py-1 rounded-md text-xs font-medium transition-colors ${
+                source === option.value ? 'bg-primary-50 text-primary-700' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {folders.length > 0 && (
+          <div className="relative">
+            <Folder className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <select
+              value={folder}
+              onChange={(e) => setFolder(e.target.value)}
+              className="pl-8 pr-3 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+              aria-label="Folder"
+            >
+              <option value="">All folders</option>
+              {folders.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={accept ? `${accept}/*` : 'image/*,video/*'}
+          onChange={(e) => handleFiles(e.target.files)}
+          className="hidden"
+        />
+        <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={uploading > 0}>
+          {uploading > 0 ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+          {uploading > 0 ? `Uploading ${uploading}...` : 'Upload'}
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center gap-1">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {assets === undefined ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      ) : visible.length === 0 ? (
+        <div className="py-12 text-center">
+          <ImageOff className="mx-auto h-10 w-10 text-gray-300" />
+          <p className="mt-2 text-sm text-gray-500">
+            {assets.every((asset) => asset.derivedFrom) ? 'Upload images and videos, or generate them in AI Studio' : 'No media matches'}
+          </p>
+        </div>
+      ) : (
+        <MediaGrid assets={visible} selectedUrls={selectedUrls} activeId={activeId} onClick={onClick} />
+      )}
+    </div>
+  );
+}
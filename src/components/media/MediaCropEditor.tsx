@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import { AlertCircle, Crosshair } from 'lucide-react';
+import { Modal, ModalFooter } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { useUploadMedia, type MediaAsset } from '../../hooks/convex/useMedia';
+import { renderCrop } from '../../lib/media';
+import {
+  CROP_TARGETS,
+  computeCrop,
+  parseRatio,
+  type FocalPoint,
+  type MediaDerivative,
+} from '../../lib/crop';
+import { getMediaRecommendations, type Platform } from '../../lib/platformFormatter';
+import { takesImages } from '../../lib/mediaValidation';
+
+const platformNames: Record<string, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  twitter: 'X',
+  linkedin: 'LinkedIn',
+  youtube: 'YouTube',
+  tiktok: 'TikTok',
+};
+
+interface MediaCropEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  asset: MediaAsset; // Key the editor by asset id so its state resets
+  platforms: string[];
+  derivatives: Record<string, MediaDerivative | undefined>; // This asset's current crop per platform
+  onSave: (derivatives: Record<string, MediaDerivative | null>) => void; // null drops a platform's crop
+}
+
+function ratioOptions(platform: Platform): string[] {
+  return [...new Set([CROP_TARGETS[platform].ratio, ...getMediaRecommendations(platform).imageRatios])];
+}
+
+// Where a crop sits in the source, as CSS percentages
+function cropBox(width: number, height: number, ratio: string, focalPoint: FocalPoint) {
+  const crop = computeCrop(width, height, ratio, focalPoint);
+  return {
+    left: (crop.x / width) * 100,
+    top: (crop.y / height) * 100,
+    width: (crop.width / width) * 100,
+    height: (crop.height / height) * 100,
+  };
+}
+
+/**
+ * Crop one image for each of the post's platforms from a shared focal
+ * point. Crops are uploaded to the library as derivatives of the source.
+ */
+export function MediaCropEditor({ isOpen, onClose, asset, platforms, derivatives, onSave }: MediaCropEditorProps) {
+  const uploadMedia = useUploadMedia();
+  const cropPlatforms = platforms.filter(
+    (platform): platform is Platform => platform in CROP_TARGETS && takesImages(platform as Platform)
+  );
+  const existing = cropPlatforms.flatMap((platform) => derivatives[platform] ?? []);
+
+  const [focalPoint, setFocalPoint] = useState<FocalPoint>(existing[0]?.focalPoint ?? { x: 0.5, y: 0.5 });
+  const [ratios, setRatios] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      cropPlatforms.map((platform) => [platform, derivatives[platform]?.ratio ?? CROP_TARGETS[platform].ratio])
+    )
+  );
+  // With no crops yet, start with every platform ticked
+  const [enabled, setEnabled] = useState<Record<string, boolean>>(() =>
+    Object.fromEntries(cropPlatforms.map((platform) => [platform, existing.length === 0 || !!derivatives[platform]]))
+  );
+  const [naturalSize, setNaturalSize] = useState(
+    asset.width && asset.height ? { width: asset.width, height: asset.height } : null
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handlePickFocalPoint = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setFocalPoint({
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const baseName = asset.name.replace(/\.[^.]+$/, '');
+      const rendered = new Map<string, string>(); // Platforms sharing a ratio share one crop
+      const result: Record<string, MediaDerivative | null> = {};
+
+      for (const platform of cropPlatforms) {
+        const ratio = ratios[platform];
+        const current = derivatives[platform];
+        if (!enabled[platform]) {
+          result[platform] = null;
+        } else if (
+          current &&
+          current.ratio === ratio &&
+          current.focalPoint.x === focalPoint.x &&
+          current.focalPoint.y === focalPoint.y
+        ) {
+          result[platform] = current;
+        } else {
+          let url = rendered.get(ratio);
+          if (!url) {
+            const blob = await renderCrop(asset.url, ratio, focalPoint, CROP_TARGETS[platform].width);
+            const file = new File([blob], `${baseName}-${ratio.replace(':', 'x')}.jpg`, { type: 'image/jpeg' });
+            url = (await uploadMedia(file, { derivedFrom: asset._id })).url;
+            rendered.set(ratio, url);
+          }
+          result[platform] = { sourceUrl: asset.url, url, ratio, focalPoint };
+        }
+      }
+
+      onSave(result);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the crops');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Crop for each platform" size="2xl">
+      <div className="flex flex-col gap-6 lg:flex-row">
+        {/* Source with the focal point and each crop outlined */}
+        <div className="lg:w-1/2">
+          <div className="relative cursor-crosshair select-none" onClick={handlePickFocalPoint}>
+            <img
+              src={asset.url}
+              alt={asset.name}
+              draggable={false}
+              onLoad={(e) =>
+                !naturalSize &&
+                setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })
+              }
+              className="w-full rounded-lg"
+            />
+            {naturalSize &&
+              cropPlatforms
+                .filter((platform) => enabled[platform])
+                .map((platform) => {
+                  const box = cropBox(naturalSize.width, naturalSize.height, ratios[platform], focalPoint);
+                  return (
+                    <div
+                      key={platform}
+                      className="pointer-events-none absolute border border-dashed border-white/90 shadow-[0_0_0_1px_rgba(0,0,0,0.3)]"
+                      style={{ left: `${box.left}%`, top: `${box.top}%`, width: `${box.width}%`, height: `${box.height}%` }}
+                    />
+                  );
+                })}
+            <Crosshair
+              className="pointer-events-none absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 text-white drop-shadow"
+              style={{ left: `${focalPoint.x * 100}%`, top: `${focalPoint.y * 100}%` }}
+            />
+          </div>
+          <p className="mt-2 text-xs text-gray-500">Click the part of the image every crop should keep in frame</p>
+        </div>
+
+        {/* One preview per platform */}
+        <div className="flex-1 space-y-4">
+          {cropPlatforms.length === 0 && (
+            <p className="text-sm text-gray-500">None of the selected platforms take cropped images</p>
+          )}
+          {cropPlatforms.map((platform) => {
+            const ratio = ratios[platform];
+            const crop = naturalSize && computeCrop(naturalSize.width, naturalSize.height, ratio, focalPoint);
+            return (
+              <div key={platform} className="flex items-start gap-3">
+                <div className="w-32 flex-shrink-0">
+                  <div
+                    className={`w-full rounded border border-gray-200 bg-gray-100 bg-no-repeat ${
+                      enabled[platform] ? '' : 'opacity-40'
+                    }`}
+                    style={
+                      naturalSize && crop
+                        ? {
+                            aspectRatio: parseRatio(ratio),
+                            backgroundImage: `url(${asset.thumbnailUrl ?? asset.url})`,
+                            backgroundSize: `${(naturalSize.width / crop.width) * 100}% ${
+                              (naturalSize.height / crop.height) * 100
+                            }%`,
+                            backgroundPosition: `${
+                              naturalSize.width > crop.width ? (crop.x / (naturalSize.width - crop.width)) * 100 : 0
+                            }% ${
+                              naturalSize.height > crop.height ? (crop.y / (naturalSize.height - crop.height)) * 100 : 0
+                            }%`,
+                          }
+                        : { aspectRatio: parseRatio(ratio) }
+                    }
+                  />
+                </div>
+                <div className="flex-1 space-y-2">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={enabled[platform]}
+                      onChange={(e) => setEnabled({ ...enabled, [platform]: e.target.checked })}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    {platformNames[platform]}
+                  </label>
+                  <select
+                    value={ratio}
+                    onChange={(e) => setRatios({ ...ratios, [platform]: e.target.value })}
+                    disabled={!enabled[platform]}
+                    className="rounded-lg border border-gray-300 px-2 py-1 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500 disabled:opacity-50"
+                    aria-label={`${platformNames[platform]} aspect ratio`}
+                  >
+                    {ratioOptions(platform).map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                  {crop && enabled[platform] && (
+                    <p className="text-xs text-gray-500">
+                      {Math.min(crop.width, CROP_TARGETS[platform].width)} ×{' '}
+                      {Math.round(Math.min(crop.width, CROP_TARGETS[platform].width) / parseRatio(ratio))} JPEG
+                    </p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {error && (
+        <p className="mt-4 text-sm text-red-600 flex items-center gap-1">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} isLoading={saving} disabled={cropPlatforms.length === 0}>
+          Save crops
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
@@ -0,0 +1,64 @@
+import { CheckCircle2, Play, Sparkles } from 'lucide-react';
+import { cn } from '../../lib/utils';
+import { formatDuration, isVideoMime } from '../../lib/media';
+import type { MediaAsset } from '../../hooks/convex/useMedia';
+
+interface MediaGridProps {
+  assets: MediaAsset[];
+  selectedUrls?: string[];
+  activeId?: string; // Asset open in a details panel
+  onClick: (asset: MediaAsset) => void;
+}
+
+// Thumbnail tiles; videos without a thumbnail show their first frame
+export function MediaGrid({ assets, selectedUrls = [], activeId, onClick }: MediaGridProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+      {assets.map((asset) => {
+        const isVideo = isVideoMime(asset.mimeType);
+        const isSelected = selectedUrls.includes(asset.url);
+        return (
+          <button
+            key={asset._id}
+            type="button"
+            onClick={() => onClick(asset)}
+            title={asset.name}
+            className={cn(
+              'group relative aspect-square overflow-hidden rounded-lg border bg-gray-100 text-left',
+              isSelected || activeId === asset._id
+                ? 'border-primary-500 ring-2 ring-primary-500'
+                : 'border-gray-200 hover:border-gray-300'
+            )}
+          >
+            {asset.thumbnailUrl || !isVideo ? (
+              <img
+                src={asset.thumbnailUrl ?? asset.url}
+                alt={asset.name}
+                loading="lazy"
+                className="h-full w-full object-cover"
+              />
+            ) : (
+              <video src={asset.url} muted preload="metadata" className="h-full w-full object-cover" />
+            )}
+
+            <div className="absolute inset-x-0 bottom-0 flex items-center gap-1 bg-gradient-to-t from-black/60 to-transparent px-2 pb-1.5 pt-4 text-xs text-white">
+              {isVideo && <Play className="h-3 w-3 flex-shrink-0" />}
+              {isVideo && asset.duration !== undefined && <span>{formatDuration(asset.duration)}</span>}
+              <span className="ml-auto">{asset.usageCount > 0 ? `In ${asset.usageCount} post${asset.usageCount === 1 ? '' : 's'}` : ''}</span>
+            </div>
+
+            {asset.source !== 'upload' && (
+              <span className="absolute left-1.5 top-1.5 flex items-center gap-0.5 rounded bg-white/90 px-1.5 py-0.5 text-[10px] font-medium text-brand-600">
+                <Sparkles className="h-2.5 w-2.5" />
+                AI
+              </span>
+            )}
+            {isSelected && (
+              <CheckCircle2 className="absolute right-1.5 top-1.5 h-5 w-5 rounded-full bg-white text-primary-600" />
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { Modal, ModalFooter } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { MediaBrowser } from './MediaBrowser';
+import type { MediaAsset } from '../../hooks/convex/useMedia';
+
+interface MediaPickerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  accept?: 'image' | 'video';
+  initialUrls?: string[]; // Media already on the post
+  onSelect: (assets: MediaAsset[]) => void;
+}
+
+// Pick media for a post from the library, in the order it was clicked
+export function MediaPickerModal({ isOpen, onClose, accept, initialUrls = [], onSelect }: MediaPickerModalProps) {
+  const [selected, setSelected] = useState<MediaAsset[]>([]);
+
+  const toggle = (asset: MediaAsset) => {
+    setSelected(
+      selected.some((a) => a._id === asset._id) ? selected.filter((a) => a._id !== asset._id) : [...selected, asset]
+    );
+  };
+
+  const handleClose = () => {
+    setSelected([]);
+    onClose();
+  };
+
+  const handleDone = () => {
+    onSelect(selected);
+    handleClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Media Library" size="2xl">
+      <MediaBrowser
+        accept={accept}
+        selectedUrls={[...initialUrls, ...selected.map((asset) => asset.url)]}
+        onClick={(asset) => !initialUrls.includes(asset.url) && toggle(asset)}
+      />
+      <ModalFooter>
+        <Button variant="secondary" onClick={handleClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleDone} disabled={selected.length === 0}>
+          {selected.length > 1 ? `Add ${selected.length} items` : 'Add to post'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
@@ -0,0 +1,5 @@
+export { MediaGrid } from './MediaGrid';
+export { MediaBrowser } from './MediaBrowser';
+export { MediaPickerModal } from './MediaPickerModal';
+export { MediaAssetPanel } from './MediaAssetPanel';
+export { MediaCropEditor } from './MediaCropEditor';
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { useApprovalSettings, useSaveApprovalSettings } from '../../hooks/convex/useApprovals';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+const roles = [
+  { value: 'owner', label: 'Owners' },
+  { value: 'admin', label: 'Admins' },
+  { value: 'member', label: 'Members' },
+];
+
+interface ApprovalSettingsValues {
+  organizationId: Id<'organizations'>;
+  approvalRequired: boolean;
+  approverRoles: string[];
+  requiredApprovals: number;
+}
+
+function ApprovalForm({ settings }: { settings: ApprovalSettingsValues }) {
+  const saveSettings = useSaveApprovalSettings();
+  const [values, setValues] = useState(settings);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDirty = JSON.stringify(values) !== JSON.stringify(settings);
+
+  const toggleRole = (role: string) => {
+    setValues({
+      ...values,
+      approverRoles: values.approverRoles.includes(role)
+        ? values.approverRoles.filter((r) => r !== role)
+        : [...values.approverRoles, role],
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveSettings(values);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save approval settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-sm text-gray-900">
+        <input
+          type="checkbox"
+          checked={values.approvalRequired}
+          onChange={(e) => setValues({ ...values, approvalRequired: e.target.checked })}
+          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+        />
+        Require approval before posts are scheduled
+      </label>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">Who can approve</p>
+        <div className="flex flex-wrap gap-4">
+          {roles.map((role) => (
+            <label key={role.value} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={values.approverRoles.includes(role.value)}
+                onChange={() => toggleRole(role.value)}
+                disabled={!values.approvalRequired}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              {role.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <label className="block text-xs text-gray-500">
+        Approvals needed
+        <input
+          type="number"
+          min={1}
+          max={5}
+          value={values.requiredApprovals}
+          onChange={(e) => setValues({ ...values, requiredApprovals: Number(e.target.value) })}
+          disabled={!values.approvalRequired}
+          className="mt-1 block w-28 px-3 py-1.5 rounded-lg border border-gray-300 text-sm text-gray-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        />
+      </label>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty}>
+        {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+        Save
+      </Button>
+    </div>
+  );
+}
+
+export function ApprovalSettings() {
+  const settings = useApprovalSettings();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approvals</CardTitle>
+        <CardDescription>
+          Posts by team members go to review before they can be scheduled or published. Approvers'
+          own posts skip review.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {settings === undefined ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : settings === null ? (
+          <p className="text-sm text-gray-500">Only organization owners and admins can change approval settings.</p>
+        ) : (
+          <ApprovalForm
+            key={JSON.stringify(settings)}
+            settings={{
+              organizationId: settings.organizationId,
+              approvalRequired: settings.approvalRequired,
+              approverRoles: settings.approverRoles,
+              requiredApprovals: settings.requiredApprovals,
+            }}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { useDensityRules, useSaveDensityRule } from '../../hooks/convex/useDensity';
+import type { DensityRule } from '../../lib/density';
+
+const platformNames: Record<string, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  twitter: 'X (Twitter)',
+  linkedin: 'LinkedIn',
+  youtube: 'YouTube',
+  tiktok: 'TikTok',
+};
+
+const limitFields: { key: 'maxPerHour' | 'maxPerDay' | 'minGapMinutes'; label: string; min: number }[] = [
+  { key: 'maxPerHour', label: 'Per hour', min: 1 },
+  { key: 'maxPerDay', label: 'Per day', min: 1 },
+  { key: 'minGapMinutes', label: 'Min gap (min)', min: 0 },
+];
+
+// Empty inputs mean no limit
+const toInput = (value?: number) => (value === undefined ? '' : String(value));
+const fromInput = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+function PlatformRule({ rule }: { rule: DensityRule & { isDefault: boolean } }) {
+  const saveRule = useSaveDensityRule();
+  const [values, setValues] = useState({
+    maxPerHour: toInput(rule.maxPerHour),
+    maxPerDay: toInput(rule.maxPerDay),
+    minGapMinutes: toInput(rule.minGapMinutes),
+  });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty =
+    values.maxPerHour !== toInput(rule.maxPerHour) ||
+    values.maxPerDay !== toInput(rule.maxPerDay) ||
+    values.minGapMinutes !== toInput(rule.minGapMinutes);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveRule({
+        platform: rule.platform,
+        maxPerHour: fromInput(values.maxPerHour),
+        maxPerDay: fromInput(values.maxPerDay),
+        minGapMinutes: fromInput(values.minGapMinutes),
+      });
+    } catch (error) {
+      console.error('Failed to save density rule:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-3 py-3 first:pt-0 last:pb-0">
+      <div className="w-36 pb-1.5">
+        <span className="text-sm font-medium text-gray-900">{platformNames[rule.platform] ?? rule.platform}</span>
+        {rule.isDefault && (
+          <Badge variant="secondary" className="ml-2">
+            Default
+          </Badge>
+        )}
+      </div>
+      {limitFields.map((field) => (
+        <label key={field.key} className="text-xs text-gray-500">
+          {field.label}
+          <input
+            type="number"
+            min={field.min}
+            value={values[field.key]}
+            placeholder="No limit"
+            onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+            className="mt-1 block w-28 px-3 py-1.5 rounded-lg border border-gray-300 text-sm text-gray-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+        </label>
+      ))}
+      <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty}>
+        {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+        Save
+      </Button>
+    </div>
+  );
+}
+
+export function DensitySettings() {
+  const rules = useDensityRules();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Posting Density</CardTitle>
+        <CardDescription>
+          Limits that keep posts on one platform from crowding each other. Breaking one shows a
+          warning before scheduling and a red marker on the calendar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {rules === undefined ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {rules.map((rule) => (
+              <PlatformRule key={`${rule.platform}-${JSON.stringify(rule)}`} rule={rule} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { AlertCircle, Loader2, Plus, Trash2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { usePillars, usePillarMutations } from '../../hooks/convex/usePillars';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+type PillarValues = { name: string; color: string; targetPercent: string };
+
+const inputClass =
+  'px-3 py-1.5 rounded-lg border border-gray-300 text-sm text-gray-900 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+function PillarRow({
+  pillar,
+  onSaved,
+}: {
+  pillar?: { _id: Id<'contentPillars'>; name: string; color: string; targetPercent: number };
+  onSaved?: () => void;
+}) {
+  const { save, remove } = usePillarMutations();
+  const initial: PillarValues = {
+    name: pillar?.name ?? '',
+    color: pillar?.color ?? '#6366f1',
+    targetPercent: pillar ? String(pillar.targetPercent) : '',
+  };
+  const [values, setValues] = useState(initial);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDirty = JSON.stringify(values) !== JSON.stringify(initial);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await save({
+        pillarId: pillar?._id,
+        name: values.name,
+        color: values.color,
+        targetPercent: Number(values.targetPercent) || 0,
+      });
+      onSaved?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!pillar || !confirm(`Delete the ${pillar.name} pillar? Its posts stay, just untagged.`)) return;
+    try {
+      await remove({ pillarId: pillar._id });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    }
+  };
+
+  return (
+    <div className="py-3 first:pt-0 last:pb-0">
+      <div className="flex items-center gap-3">
+        <input
+          type="color"
+          value={values.color}
+          onChange={(e) => setValues({ ...values, color: e.target.value })}
+          className="h-8 w-8 cursor-pointer rounded border border-gray-300"
+          aria-label="Color"
+        />
+        <input
+          type="text"
+          value={values.name}
+          placeholder="e.g., Education"
+          onChange={(e) => setValues({ ...values, name: e.target.value })}
+          className={`${inputClass} flex-1`}
+        />
+        <label className="flex items-center gap-1 text-sm text-gray-500">
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={values.targetPercent}
+            placeholder="0"
+            onChange={(e) => setValues({ ...values, targetPercent: e.target.value })}
+            className={`${inputClass} w-20`}
+            aria-label="Target share"
+          />
+          %
+        </label>
+        <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty || !values.name.trim()}>
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : pillar ? 'Save' : <Plus className="h-4 w-4" />}
+        </Button>
+        {pillar && (
+          <Button variant="ghost" size="sm" onClick={handleRemove} className="text-red-600 hover:bg-red-50" aria-label="Delete">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      {error && (
+        <p className="mt-1 text-xs text-red-600 flex items-center gap-1">
+          <AlertCircle className="h-3 w-3 flex-shrink-0" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function PillarSettings() {
+  const pillars = usePillars();
+  const { addStarterPillars } = usePillarMutations();
+  const [newRowKey, setNewRowKey] = useState(0);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const totalTarget = (pillars ?? []).reduce((sum, pillar) => sum + pillar.targetPercent, 0);
+
+  const handleAddStarters = async () => {
+    setIsAdding(true);
+    try {
+      await addStarterPillars({});
+    } catch (error) {
+      console.error('Failed to add starter pillars:', error);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Content Pillars</CardTitle>
+        <CardDescription>
+          The themes you post about and the share of posts each should get. The dashboard shows how
+          the actual mix compares, and the weekly plan fills the gaps.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {pillars === undefined ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <>
+            <div className="divide-y divide-gray-100">
+              {pillars.map((pillar) => (
+                <PillarRow key={`${pillar._id}-${pillar.updatedAt}`} pillar={pillar} />
+              ))}
+              <PillarRow key={`new-${newRowKey}`} onSaved={() => setNewRowKey(newRowKey + 1)} />
+            </div>
+
+            <div className="mt-4 flex items-center justify-between text-sm">
+              <span className={totalTarget === 100 ? 'text-gray-500' : 'text-amber-600'}>
+                Targets add up to {totalTarget}%{totalTarget !== 100 && pillars.length > 0 && ' (aim for 100%)'}
+              </span>
+              {pillars.length === 0 && (
+                <Button variant="secondary" size="sm" onClick={handleAddStarters} disabled={isAdding}>
+                  {isAdding && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Add Education, Product, Culture and Promo
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
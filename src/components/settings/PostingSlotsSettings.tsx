@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Plus, X, Loader2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { usePostingSlots, useSavePostingSlots, type PostingSlot } from '../../hooks/convex/useQueue';
+import { WEEKDAY_LABELS } from '../../lib/recurrence';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+const platformNames: Record<string, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  twitter: 'X (Twitter)',
+  linkedin: 'LinkedIn',
+  youtube: 'YouTube',
+  tiktok: 'TikTok',
+};
+
+const sortSlots = (slots: PostingSlot[]) =>
+  [...slots].sort((a, b) => a.weekday - b.weekday || a.time.localeCompare(b.time));
+
+function AccountSlots({
+  account,
+}: {
+  account: {
+    connectionId: Id<'platformConnections'>;
+    platform: string;
+    platformUsername: string;
+    slots: PostingSlot[];
+    seeded: boolean;
+  };
+}) {
+  const saveSlots = useSavePostingSlots();
+  const [slots, setSlots] = useState<PostingSlot[]>(account.slots);
+  const [newWeekday, setNewWeekday] = useState(1);
+  const [newTime, setNewTime] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isDirty = account.seeded || JSON.stringify(slots) !== JSON.stringify(account.slots);
+
+  const addSlot = () => {
+    if (newTime && !slots.some((s) => s.weekday === newWeekday && s.time === newTime)) {
+      setSlots(sortSlots([...slots, { weekday: newWeekday, time: newTime }]));
+    }
+    setNewTime('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveSlots({ connectionId: account.connectionId, slots });
+    } catch (error) {
+      console.error('Failed to save posting slots:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="py-4 first:pt-0 last:pb-0">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-gray-900">
+            {platformNames[account.platform] ?? account.platform}
+          </span>
+          <span className="text-sm text-gray-500">@{account.platformUsername}</span>
+          {account.seeded && <Badge variant="secondary">Suggested</Badge>}
+        </div>
+        <Button size="sm" onClick={handleSave} disabled={isSaving || !isDirty}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Save
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {slots.map((slot) => (
+          <Badge key={`${slot.weekday}-${slot.time}`} variant="secondary" className="gap-1">
+            {WEEKDAY_LABELS[slot.weekday]} {slot.time}
+            <button onClick={() => setSlots(slots.filter((s) => s !== slot))}>
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        {slots.length === 0 && <span className="text-sm text-gray-400">No slots</span>}
+        <select
+          value={newWeekday}
+          onChange={(e) => setNewWeekday(Number(e.target.value))}
+          className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        >
+          {WEEKDAY_LABELS.map((label, weekday) => (
+            <option key={label} value={weekday}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="time"
+          value={newTime}
+          onChange={(e) => setNewTime(e.target.value)}
+          className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+        />
+        <Button variant="secondary" size="sm" onClick={addSlot} disabled={!newTime}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function PostingSlotsSettings() {
+  const accounts = usePostingSlots();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Posting Slots</CardTitle>
+        <CardDescription>
+          Weekly times "Add to queue" fills for each connected account, in your timezone
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {accounts === undefined ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : accounts.length === 0 ? (
+          <p className="text-sm text-gray-500">Connect an account to set up its posting slots.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {accounts.map((account) => (
+              <AccountSlots
+                key={`${account.connectionId}-${JSON.stringify(account.slots)}`}
+                account={account}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
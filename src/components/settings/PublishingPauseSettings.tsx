@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { PauseCircle, Loader2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { usePausePublishing, usePublishingStatus } from '../../hooks/convex/usePublishingPause';
+import { useUserTimezone } from '../../hooks/convex/useUser';
+import { zonedTimeToUtc } from '../../lib/timezone';
+
+export function PublishingPauseSettings() {
+  const status = usePublishingStatus();
+  const pausePublishing = usePausePublishing();
+  const timeZone = useUserTimezone();
+  const [reason, setReason] = useState('');
+  const [scope, setScope] = useState<'user' | 'organization'>('user');
+  const [resumeDate, setResumeDate] = useState('');
+  const [resumeTime, setResumeTime] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isPausing, setIsPausing] = useState(false);
+
+  const handlePause = async () => {
+    setIsPausing(true);
+    setError(null);
+    try {
+      await pausePublishing({
+        reason,
+        scope,
+        resumeAt: resumeDate ? zonedTimeToUtc(resumeDate, resumeTime || '00:00', timeZone) : undefined,
+      });
+      setReason('');
+      setResumeDate('');
+      setResumeTime('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to pause publishing');
+    } finally {
+      setIsPausing(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pause Publishing</CardTitle>
+        <CardDescription>
+          Stop every outgoing post at once. Scheduled posts are held until you resume.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {status?.pause ? (
+          <p className="flex items-center gap-2 text-sm text-red-700">
+            <PauseCircle className="h-4 w-4" />
+            Publishing is paused. Resume it from the banner at the top of the page.
+          </p>
+        ) : (
+          <>
+            <Input
+              label="Reason"
+              placeholder="e.g. Breaking news, holding all posts"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            {status?.organization && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+                <select
+                  value={scope}
+                  onChange={(e) => setScope(e.target.value as 'user' | 'organization')}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                >
+                  <option value="user">Just my posts</option>
+                  <option value="organization">Everyone in {status.organization.name}</option>
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Auto-resume (optional, {timeZone})
+              </label>
+              <div className="flex gap-3">
+                <input
+                  type="date"
+                  value={resumeDate}
+                  onChange={(e) => setResumeDate(e.target.value)}
+                  className="flex-1 px-3 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                />
+                <input
+                  type="time"
+                  value={resumeTime}
+                  onChange={(e) => setResumeTime(e.target.value)}
+                  disabled={!resumeDate}
+                  className="flex-1 px-3 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                />
+              </div>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end">
+              <Button variant="danger" onClick={handlePause} disabled={isPausing || !reason.trim() || !status}>
+                {isPausing ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <PauseCircle className="h-4 w-4 mr-1" />
+                )}
+                Pause Publishing
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Globe, Loader2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { useCurrentUser, useUpdateTimezone } from '../../hooks/convex/useUser';
+import { COMMON_TIMEZONES, getBrowserTimeZone } from '../../lib/timezone';
+
+export function TimezoneSettings() {
+  const user = useCurrentUser();
+  const updateTimezone = useUpdateTimezone();
+  const browserTimezone = getBrowserTimeZone();
+  const [selected, setSelected] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const current = user?.timezone ?? browserTimezone;
+  const timezone = selected ?? current;
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updateTimezone({ timezone });
+      setSelected(null);
+    } catch (error) {
+      console.error('Failed to update timezone:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timezone</CardTitle>
+        <CardDescription>
+          The calendar, editor and upcoming posts show times in this zone
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Globe className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <select
+            value={timezone}
+            onChange={(e) => setSelected(e.target.value)}
+            className="w-full pl-10 pr-4 py-2.5 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          >
+            {[...new Set([current, browserTimezone, ...COMMON_TIMEZONES])].map((zone) => (
+              <option key={zone} value={zone}>
+                {zone === browserTimezone ? `${zone} (this device)` : zone}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button onClick={handleSave} disabled={isSaving || !user || (timezone === user.timezone)}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Save
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
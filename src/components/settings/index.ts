@@ -0,0 +1,6 @@
+export { TimezoneSettings } from './TimezoneSettings';
+export { PostingSlotsSettings } from './PostingSlotsSettings';
+export { PublishingPauseSettings } from './PublishingPauseSettings';
+export { DensitySettings } from './DensitySettings';
+export { ApprovalSettings } from './ApprovalSettings';
+export { PillarSettings } from './PillarSettings';
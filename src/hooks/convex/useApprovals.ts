@@ -0,0 +1,31 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+export type ReviewAction = 'submitted' | 'approved' | 'changes_requested' | 'comment';
+
+export function useApprovalSettings() {
+  return useQuery(api.approvals.getSettings, {});
+}
+
+export function useSaveApprovalSettings() {
+  return useMutation(api.approvals.saveSettings);
+}
+
+// Teammates' posts waiting on the current user's sign-off
+export function usePendingApprovals() {
+  return useQuery(api.approvals.listPendingForMe, {});
+}
+
+export function usePostReviews(postId: Id<'posts'> | null) {
+  return useQuery(api.approvals.getReviews, postId ? { postId } : 'skip');
+}
+
+export function useApprovalMutations() {
+  const submitForReview = useMutation(api.approvals.submitForReview);
+  const approve = useMutation(api.approvals.approve);
+  const requestChanges = useMutation(api.approvals.requestChanges);
+  const addComment = useMutation(api.approvals.addComment);
+
+  return { submitForReview, approve, requestChanges, addComment };
+}
@@ -0,0 +1,17 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+
+export function useCalendarFeedToken() {
+  return useQuery(api.calendarFeed.getFeedToken, {});
+}
+
+export function useRegenerateCalendarFeedToken() {
+  return useMutation(api.calendarFeed.regenerateFeedToken);
+}
+
+// HTTP actions are served from the deployment's .convex.site host
+export function getCalendarFeedUrl(token: string): string | null {
+  const convexUrl = import.meta.env.VITE_CONVEX_URL as string | undefined;
+  if (!convexUrl) return null;
+  return `${convexUrl.replace(/\.convex\.cloud\/?$/, '.convex.site')}/calendar.ics?token=${token}`;
+}
@@ -0,0 +1,39 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+export interface CampaignGoals {
+  posts?: number;
+  impressions?: number;
+  engagements?: number; // Likes, comments, shares and saves
+  clicks?: number;
+}
+
+export interface Campaign {
+  _id: Id<'campaigns'>;
+  name: string;
+  description?: string;
+  color: string; // "#rrggbb"
+  startDate?: string; // "YYYY-MM-DD"
+  endDate?: string;
+  goals?: CampaignGoals;
+  tags?: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export function useCampaigns() {
+  return useQuery(api.campaigns.list, {});
+}
+
+export function useCampaignRollup() {
+  return useQuery(api.analytics.getCampaignRollup, {});
+}
+
+export function useCampaignMutations() {
+  const create = useMutation(api.campaigns.create);
+  const update = useMutation(api.campaigns.update);
+  const remove = useMutation(api.campaigns.remove);
+
+  return { create, update, remove };
+}
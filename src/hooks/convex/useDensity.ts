@@ -0,0 +1,27 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+export function useDensityRules() {
+  return useQuery(api.density.getRules, {});
+}
+
+// Rules a post would break at this time; skipped until there's a time to check
+export function useDensityCheck(
+  args: { postId?: Id<'posts'>; platforms: string[]; scheduledAt: number } | null
+) {
+  return useQuery(api.density.check, args ?? 'skip');
+}
+
+// Warnings for each post of an import, in order; skipped while args is null
+export function useDensityCheckMany(args: { posts: { platforms: string[]; scheduledAt: number }[] } | null) {
+  return useQuery(api.density.checkMany, args ?? 'skip');
+}
+
+export function useSaveDensityRule() {
+  return useMutation(api.density.saveRule);
+}
+
+export function useSpreadDay() {
+  return useMutation(api.density.spreadDay);
+}
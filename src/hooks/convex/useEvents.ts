@@ -0,0 +1,38 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import type { Id } from '../../../convex/_generated/dataModel';
+
+export interface CalendarEvent {
+  _id: Id<'calendarEvents'>;
+  source: string;
+  uid: string;
+  title: string;
+  description?: string;
+  startAt: number;
+  endAt?: number;
+  allDay: boolean;
+}
+
+export function useCalendarEvents(range: { from: number; to: number }) {
+  return useQuery(api.events.list, range);
+}
+
+export function useUpcomingEvents(days?: number) {
+  return useQuery(api.events.getUpcoming, { days });
+}
+
+export function useEventSources() {
+  return useQuery(api.events.getSources, {});
+}
+
+export function useImportEvents() {
+  return useMutation(api.events.importEvents);
+}
+
+export function useAddObservances() {
+  return useMutation(api.events.addObservances);
+}
+
+export function useRemoveEventSource() {
+  return useMutation(api.events.removeSource);
+}
@@ -0,0 +1,38 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+
+export type EvergreenRotation = 'round_robin' | 'top_performing';
+
+export interface EvergreenSettings {
+  enabled: boolean;
+  weekdays: number[];
+  times: string[];
+  rotation: EvergreenRotation;
+  defaultMinGapDays: number;
+}
+
+export interface PerformanceSummary {
+  engagementRate: number;
+  impressions: number;
+  likes: number;
+}
+
+export function useEvergreenSettings() {
+  return useQuery(api.evergreen.getSettings, {});
+}
+
+export function useEvergreenLibrary() {
+  return useQuery(api.evergreen.getLibrary, {});
+}
+
+export function useEvergreenSuggestions(limit?: number) {
+  return useQuery(api.evergreen.getSuggestions, { limit });
+}
+
+export function useSaveEvergreenSettings() {
+  return useMutation(api.evergreen.saveSettings);
+}
+
+export function useSetEvergreen() {
+  return useMutation(api.evergreen.setEvergreen);
+}
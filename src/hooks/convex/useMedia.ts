@@ -0,0 +1,58 @@
+import { useQuery, useMutation, useAction } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import type { Id } from '../../../convex/_generated/dataModel';
+import { inspectMediaFile } from '../../lib/media';
+
+export type MediaAsset = NonNullable<ReturnType<typeof useMediaLibrary>>[number];
+
+export function useMediaLibrary() {
+  return useQuery(api.media.list, {});
+}
+
+// Posts that use an asset; skipped until one is picked
+export function useMediaUsage(assetId: Id<'mediaAssets'> | null) {
+  return useQuery(api.media.getUsage, assetId ? { assetId } : 'skip');
+}
+
+export function useMediaMutations() {
+  const update = useMutation(api.media.update);
+  const remove = useMutation(api.media.remove);
+  const saveGenerated = useAction(api.media.saveGenerated);
+
+  return { update, remove, saveGenerated };
+}
+
+// Upload a file and its thumbnail to storage, then add it to the library
+export function useUploadMedia() {
+  const generateUploadUrl = useMutation(api.media.generateUploadUrl);
+  const create = useMutation(api.media.create);
+
+  return async (file: File, options?: { folder?: string; derivedFrom?: Id<'mediaAssets'> }) => {
+    const { metadata, thumbnail } = await inspectMediaFile(file);
+
+    const put = async (body: Blob) => {
+      const response = await fetch(await generateUploadUrl({}), {
+        method: 'POST',
+        headers: { 'Content-Type': body.type },
+        body,
+      });
+      if (!response.ok) {
+        throw new Error(`Upload of ${file.name} failed`);
+      }
+      const { storageId } = await response.json();
+      return storageId as Id<'_storage'>;
+    };
+
+    const storageId = await put(file);
+    const thumbnailStorageId = thumbnail ? await put(thumbnail) : undefined;
+
+    return await create({
+      storageId,
+      thumbnailStorageId,
+      name: file.name,
+      ...metadata,
+      folder: options?.folder,
+      derivedFrom: options?.derivedFrom,
+    });
+  };
+}
@@ -0,0 +1,19 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+
+export function usePillars() {
+  return useQuery(api.pillars.list, {});
+}
+
+// Actual vs target pillar mix for posts going out in [from, to)
+export function usePillarMix(range: { from: number; to: number }) {
+  return useQuery(api.pillars.getMix, range);
+}
+
+export function usePillarMutations() {
+  const save = useMutation(api.pillars.save);
+  const remove = useMutation(api.pillars.remove);
+  const addStarterPillars = useMutation(api.pillars.addStarterPillars);
+
+  return { save, remove, addStarterPillars };
+}
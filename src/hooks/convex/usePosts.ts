@@ -1,6 +1,8 @@
-import { useQuery, useMutation } from 'convex/react';
+import { useQuery, useMutation, usePaginatedQuery } from 'convex/react';
 import { api } from '../../../convex/_generated/api';
 import type { Id } from '../../../convex/_generated/dataModel';
+import type { RecurrenceRule } from '../../lib/recurrence';
+import type { ThreadPart } from '../../lib/thread';
 
 export interface Post {
   _id: Id<'posts'>;
@@ -13,24 +15,43 @@ export interface Post {
   mediaType?: string;
   hashtags?: string[];
   mentions?: string[];
+  postType?: string;
+  threadParts?: ThreadPart[];
+  hashtagPlacement?: string;
+  firstComment?: string;
   platforms: string[];
   platformSpecificContent?: Record<string, unknown>;
   status: string;
   scheduledAt?: number;
+  timezone?: string;
+  recurrence?: RecurrenceRule;
+  seriesParentId?: Id<'posts'>;
+  queued?: boolean;
+  campaignId?: Id<'campaigns'>;
+  pillarId?: Id<'contentPillars'>;
+  approvalState?: string;
+  approvals?: Id<'users'>[];
+  approvedAt?: number;
   publishedAt?: number;
   wasAiGenerated: boolean;
   aiPromptUsed?: string;
   viralScore?: number;
   viralScoreBreakdown?: Record<string, unknown>;
   publishResults?: Record<string, unknown>;
+  deletedAt?: number; // Set while the post is in the trash
   createdAt: number;
   updatedAt: number;
 }
 
 export interface PostFilters {
   status?: string;
-  platform?: string;
-  limit?: number;
+  platforms?: string[]; // Posts on any of these
+  from?: number; // Scheduled at or after
+  to?: number; // Scheduled before
+  search?: string;
+  campaignId?: Id<'campaigns'>;
+  sortBy?: 'created' | 'scheduled';
+  order?: 'asc' | 'desc';
 }
 
 export interface CreatePostInput {
@@ -40,10 +61,19 @@ export interface CreatePostInput {
   mediaType?: string;
   hashtags?: string[];
   mentions?: string[];
+  postType?: string;
+  threadParts?: ThreadPart[];
+  hashtagPlacement?: string;
   platforms: string[];
   platformSpecificContent?: Record<string, unknown>;
   status: string;
   scheduledAt?: number;
+  timezone?: string;
+  recurrence?: RecurrenceRule;
+  campaignId?: Id<'campaigns'>;
+  pillarId?: Id<'contentPillars'>;
+  queued?: boolean;
+  ignoreDensity?: boolean;
   wasAiGenerated?: boolean;
   aiPromptUsed?: string;
   viralScore?: number;
@@ -58,23 +88,69 @@ export interface UpdatePostInput {
   mediaType?: string;
   hashtags?: string[];
   mentions?: string[];
+  postType?: string;
+  threadParts?: ThreadPart[];
+  hashtagPlacement?: string;
   platforms?: string[];
   platformSpecificContent?: Record<string, unknown>;
   status?: string;
   scheduledAt?: number;
+  timezone?: string;
+  recurrence?: RecurrenceRule | null;
+  campaignId?: Id<'campaigns'> | null;
+  pillarId?: Id<'contentPillars'> | null;
+  queued?: boolean;
+  ignoreDensity?: boolean;
   viralScore?: number;
   viralScoreBreakdown?: Record<string, unknown>;
 }
 
+export interface EditOccurrenceInput {
+  postId: Id<'posts'>;
+  occurrenceAt: number;
+  scope: 'this' | 'future';
+  title?: string;
+  content?: string;
+  mediaUrls?: string[];
+  mediaType?: string;
+  hashtags?: string[];
+  postType?: string;
+  threadParts?: ThreadPart[];
+  hashtagPlacement?: string;
+  platforms?: string[];
+  platformSpecificContent?: Record<string, unknown>;
+  scheduledAt?: number;
+  timezone?: string;
+  recurrence?: RecurrenceRule;
+  campaignId?: Id<'campaigns'> | null;
+  pillarId?: Id<'contentPillars'> | null;
+}
+
+const POSTS_PAGE_SIZE = 24;
+
+// The user's posts a page at a time; `loadMore` fetches the next page
 export function usePosts(filters?: PostFilters) {
-  return useQuery(api.posts.list, filters ?? {});
+  const { results, status, loadMore } = usePaginatedQuery(api.posts.list, filters ?? {}, {
+    initialNumItems: POSTS_PAGE_SIZE,
+  });
+  return { posts: results, status, loadMore: () => loadMore(POSTS_PAGE_SIZE) };
+}
+
+// Trashed posts a page at a time, each with the `purgeAt` time it's deleted for good
+export function useTrash() {
+  const { results, status, loadMore } = usePaginatedQuery(api.posts.listTrash, {}, {
+    initialNumItems: POSTS_PAGE_SIZE,
+  });
+  return { posts: results, status, loadMore: () => loadMore(POSTS_PAGE_SIZE) };
 }
 
 export function usePost(postId: Id<'posts'> | null) {
-  return useQuery(
-    api.posts.get,
-    postId ? { postId } : 'skip'
-  );
+  return useQuery(api.posts.get, postId ? { postId } : 'skip');
+}
+
+// A post from a `?post=` link; ids that don't point at one of the user's posts come back null
+export function useLinkedPost(postId: string | null) {
+  return useQuery(api.posts.getLinked, postId ? { postId } : 'skip');
 }
 
 export function useScheduledPosts(limit?: number) {
@@ -93,6 +169,11 @@ export function useCreatePost() {
   return useMutation(api.posts.create);
 }
 
+// Several posts in one all-or-nothing batch, for bulk import
+export function useCreatePosts() {
+  return useMutation(api.posts.createMany);
+}
+
 export function useUpdatePost() {
   return useMutation(api.posts.update);
 }
@@ -113,6 +194,32 @@ export function usePublishPost() {
   return useMutation(api.posts.publish);
 }
 
+export function useEditOccurrence() {
+  return useMutation(api.posts.editOccurrence);
+}
+
+export function useSkipOccurrence() {
+  return useMutation(api.posts.skipOccurrence);
+}
+
+// Batched actions on posts picked in the content library
+export function useBulkPostActions() {
+  const bulkReschedule = useMutation(api.posts.bulkReschedule);
+  const bulkSetStatus = useMutation(api.posts.bulkSetStatus);
+  const bulkSetPlatforms = useMutation(api.posts.bulkSetPlatforms);
+  const bulkRemove = useMutation(api.posts.bulkRemove);
+
+  return { bulkReschedule, bulkSetStatus, bulkSetPlatforms, bulkRemove };
+}
+
+export function useTrashActions() {
+  const restore = useMutation(api.posts.restore);
+  const deleteForever = useMutation(api.posts.deleteForever);
+  const emptyTrash = useMutation(api.posts.emptyTrash);
+
+  return { restore, deleteForever, emptyTrash };
+}
+
 // Convenience hook that returns all post mutations
 export function usePostMutations() {
   const createPost = useCreatePost();
@@ -121,6 +228,8 @@ export function usePostMutations() {
   const duplicatePost = useDuplicatePost();
   const schedulePost = useSchedulePost();
   const publishPost = usePublishPost();
+  const editOccurrence = useEditOccurrence();
+  const skipOccurrence = useSkipOccurrence();
 
   return {
     createPost,
@@ -129,5 +238,7 @@ export function usePostMutations() {
     duplicatePost,
     schedulePost,
     publishPost,
+    editOccurrence,
+    skipOccurrence,
   };
 }
@@ -0,0 +1,14 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+
+export function usePublishingStatus() {
+  return useQuery(api.publishing.getStatus, {});
+}
+
+export function usePausePublishing() {
+  return useMutation(api.publishing.pause);
+}
+
+export function useResumePublishing() {
+  return useMutation(api.publishing.resume);
+}
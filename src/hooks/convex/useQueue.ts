@@ -0,0 +1,20 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+
+export interface PostingSlot {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  time: string; // "HH:mm" in the user's timezone
+}
+
+export function usePostingSlots() {
+  return useQuery(api.queue.getSlots, {});
+}
+
+// Time "Add to queue" would pick for these platforms
+export function useNextQueueSlot(platforms: string[]) {
+  return useQuery(api.queue.getNextSlot, { platforms });
+}
+
+export function useSavePostingSlots() {
+  return useMutation(api.queue.saveSlots);
+}
@@ -0,0 +1,29 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import type { Id } from '../../../convex/_generated/dataModel';
+import type { ThreadPart } from '../../lib/thread';
+
+export interface PostRevision {
+  _id: Id<'postRevisions'>;
+  postId: Id<'posts'>;
+  authorId: Id<'users'>;
+  authorName: string;
+  title?: string;
+  content: string;
+  hashtags?: string[];
+  platforms: string[];
+  scheduledAt?: number;
+  timezone?: string;
+  postType?: string;
+  threadParts?: ThreadPart[];
+  restoredFromId?: Id<'postRevisions'>;
+  createdAt: number;
+}
+
+export function usePostRevisions(postId: Id<'posts'> | null) {
+  return useQuery(api.revisions.list, postId ? { postId } : 'skip');
+}
+
+export function useRestoreRevision() {
+  return useMutation(api.posts.restoreRevision);
+}
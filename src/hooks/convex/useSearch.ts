@@ -0,0 +1,8 @@
+import { useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+
+// Posts and AI queue items matching `query`; skipped while it's blank
+export function useSearch(query: string) {
+  const text = query.trim();
+  return useQuery(api.search.search, text ? { query: text } : 'skip');
+}
@@ -0,0 +1,17 @@
+import { useQuery, useMutation } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { getBrowserTimeZone } from '../../lib/timezone';
+
+export function useCurrentUser() {
+  return useQuery(api.users.getCurrent, {});
+}
+
+// The zone scheduling surfaces display and read times in
+export function useUserTimezone(): string {
+  const user = useCurrentUser();
+  return user?.timezone ?? getBrowserTimeZone();
+}
+
+export function useUpdateTimezone() {
+  return useMutation(api.users.updateTimezone);
+}
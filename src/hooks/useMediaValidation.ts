@@ -0,0 +1,62 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMediaLibrary } from './convex/useMedia';
+import { inspectMediaUrl } from '../lib/media';
+import { resolveMediaUrls, type MediaDerivative } from '../lib/crop';
+import {
+  assetMediaInfo,
+  checkMediaForPlatform,
+  type MediaInfo,
+  type PlatformMediaCheck,
+} from '../lib/mediaValidation';
+import type { Platform } from '../lib/platformFormatter';
+
+/**
+ * Per-platform checks for a post's media, with each platform's crops in
+ * place of the source. Library assets use their stored metadata; anything
+ * else attached by URL is inspected in the browser once. Null until the
+ * library has loaded and every URL is inspected.
+ */
+export function useMediaValidation(
+  mediaUrls: string[],
+  platforms: string[],
+  mediaType?: string,
+  derivatives?: Record<string, MediaDerivative[]>
+): PlatformMediaCheck[] | null {
+  const library = useMediaLibrary();
+  const [inspected, setInspected] = useState<Record<string, MediaInfo>>({});
+
+  const libraryInfo = useMemo(
+    () => new Map((library ?? []).map((asset) => [asset.url, assetMediaInfo(asset)])),
+    [library]
+  );
+
+  const mediaByPlatform = useMemo(
+    () => platforms.map((platform) => resolveMediaUrls(mediaUrls, derivatives?.[platform] ?? [])),
+    [mediaUrls, platforms, derivatives]
+  );
+
+  useEffect(() => {
+    if (library === undefined) return;
+    const pending = [...new Set(mediaByPlatform.flat())].filter((url) => !libraryInfo.has(url) && !(url in inspected));
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(pending.map((url) => inspectMediaUrl(url, mediaType))).then((results) => {
+      if (cancelled) return;
+      setInspected((current) => ({
+        ...current,
+        ...Object.fromEntries(results.map((info) => [info.url, info])),
+      }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [library, libraryInfo, mediaByPlatform, mediaType, inspected]);
+
+  return useMemo(() => {
+    if (library === undefined) return null;
+    const media = mediaByPlatform.map((urls) => urls.map((url) => libraryInfo.get(url) ?? inspected[url]));
+    if (media.flat().some((info) => info === undefined)) return null;
+    return platforms.map((platform, index) => checkMediaForPlatform(platform as Platform, media[index] as MediaInfo[]));
+  }, [library, libraryInfo, inspected, mediaByPlatform, platforms]);
+}
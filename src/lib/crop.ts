@@ -0,0 +1,97 @@
+/**
+ * Per-platform crops of a post's images. Each crop is a derivative asset
+ * cut from the source around a focal point, recorded against the platform
+ * in `platformSpecificContent[platform].mediaDerivatives` so the publisher
+ * sends it in place of the source.
+ */
+
+import type { Platform } from './platformFormatter';
+
+// Where the crop centres, as fractions across and down the source
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface MediaDerivative {
+  sourceUrl: string; // The post's own media URL this replaces
+  url: string;
+  ratio: string; // e.g. '4:5'
+  focalPoint: FocalPoint;
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Aspect ratio and output width each platform's crop defaults to
+export const CROP_TARGETS: Record<Platform, { ratio: string; width: number }> = {
+  instagram: { ratio: '4:5', width: 1080 },
+  facebook: { ratio: '1:1', width: 1200 },
+  twitter: { ratio: '16:9', width: 1600 },
+  linkedin: { ratio: '1.91:1', width: 1200 },
+  youtube: { ratio: '16:9', width: 1280 },
+  tiktok: { ratio: '9:16', width: 1080 },
+};
+
+// '1.91:1' -> 1.91, '9:16' -> 0.5625
+export function parseRatio(ratio: string): number {
+  const [width, height] = ratio.split(':').map(Number);
+  return width / height;
+}
+
+/**
+ * The largest rectangle of `ratio` that fits the source, centred on the
+ * focal point as far as the edges allow.
+ */
+export function computeCrop(width: number, height: number, ratio: string, focalPoint: FocalPoint): CropRect {
+  const target = parseRatio(ratio);
+  const cropWidth = Math.min(width, height * target);
+  const cropHeight = cropWidth / target;
+  const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+  return {
+    x: Math.round(clamp(focalPoint.x * width - cropWidth / 2, width - cropWidth)),
+    y: Math.round(clamp(focalPoint.y * height - cropHeight / 2, height - cropHeight)),
+    width: Math.round(cropWidth),
+    height: Math.round(cropHeight),
+  };
+}
+
+// The crops stored for one platform; `platformSpecificContent` is untyped, so read it defensively
+export function getMediaDerivatives(platformSpecificContent: unknown, platform: string): MediaDerivative[] {
+  const entry = (platformSpecificContent as Record<string, { mediaDerivatives?: unknown }> | undefined)?.[platform];
+  return Array.isArray(entry?.mediaDerivatives) ? (entry.mediaDerivatives as MediaDerivative[]) : [];
+}
+
+// A post's media as one platform receives it, crops swapped in
+export function resolveMediaUrls(mediaUrls: string[], derivatives: MediaDerivative[]): string[] {
+  return mediaUrls.map((url) => derivatives.find((derivative) => derivative.sourceUrl === url)?.url ?? url);
+}
+
+/**
+ * Write each platform's crops into `platformSpecificContent`, keeping any
+ * other overrides stored there.
+ */
+export function withMediaDerivatives(
+  platformSpecificContent: Record<string, unknown> | undefined,
+  derivatives: Record<string, MediaDerivative[]>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...platformSpecificContent };
+  for (const platform of new Set([...Object.keys(result), ...Object.keys(derivatives)])) {
+    const entry = { ...(result[platform] as Record<string, unknown> | undefined) };
+    delete entry.mediaDerivatives;
+    if (derivatives[platform]?.length) {
+      entry.mediaDerivatives = derivatives[platform];
+    }
+    if (Object.keys(entry).length > 0) {
+      result[platform] = entry;
+    } else {
+      delete result[platform];
+    }
+  }
+  return result;
+}
@@ -0,0 +1,189 @@
+/**
+ * Posting-density rules: how many posts a platform should get per hour and
+ * per day, and how far apart they should be. Shared by the Convex checks in
+ * posts.create/schedule and the editor and calendar warnings.
+ */
+
+import { getZonedParts, toZonedDateKey } from './timezone';
+
+export interface DensityRule {
+  platform: string;
+  maxPerHour?: number;
+  maxPerDay?: number;
+  minGapMinutes?: number;
+}
+
+// One post going out on one platform at one time
+export interface DensityEntry {
+  postId: string;
+  platform: string;
+  at: number;
+}
+
+export interface DensityConflict {
+  platform: string;
+  rule: 'maxPerHour' | 'maxPerDay' | 'minGapMinutes';
+  message: string;
+}
+
+// A post the auto-fix may move, or must leave where it is
+export interface SpreadCandidate {
+  postId: string;
+  platforms: string[];
+  at: number;
+  movable: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+const SPREAD_STEP_MINUTES = 15;
+const SPREAD_HORIZON_DAYS = 14; // How far the auto-fix pushes a post before giving up
+
+// Conservative defaults for accounts without their own rules
+export const DEFAULT_DENSITY_RULES: DensityRule[] = [
+  { platform: 'instagram', maxPerHour: 1, maxPerDay: 3, minGapMinutes: 120 },
+  { platform: 'facebook', maxPerHour: 1, maxPerDay: 3, minGapMinutes: 120 },
+  { platform: 'twitter', maxPerHour: 3, maxPerDay: 15, minGapMinutes: 15 },
+  { platform: 'linkedin', maxPerHour: 1, maxPerDay: 2, minGapMinutes: 240 },
+  { platform: 'youtube', maxPerHour: 1, maxPerDay: 1 },
+  { platform: 'tiktok', maxPerHour: 1, maxPerDay: 4, minGapMinutes: 60 },
+];
+
+const platformNames: Record<string, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  twitter: 'X',
+  linkedin: 'LinkedIn',
+  youtube: 'YouTube',
+  tiktok: 'TikTok',
+};
+
+/**
+ * The user's rule for a platform, else the default. A rule with no limits
+ * set turns density checks off for that platform.
+ */
+export function getDensityRule(rules: DensityRule[], platform: string): DensityRule {
+  return (
+    rules.find((rule) => rule.platform === platform) ??
+    DEFAULT_DENSITY_RULES.find((rule) => rule.platform === platform) ?? { platform }
+  );
+}
+
+function hourKey(at: number, timeZone: string): string {
+  return `${toZonedDateKey(at, timeZone)}-${getZonedParts(at, timeZone).hour}`;
+}
+
+/**
+ * Rules a post at `at` would break on each of its platforms, given the
+ * other posts already going out. Hours and days are the user's local ones.
+ */
+export function findDensityConflicts(
+  candidate: { platforms: string[]; at: number },
+  others: DensityEntry[],
+  rules: DensityRule[],
+  timeZone: string
+): DensityConflict[] {
+  const conflicts: DensityConflict[] = [];
+  const day = toZonedDateKey(candidate.at, timeZone);
+  const hour = hourKey(candidate.at, timeZone);
+
+  for (const platform of candidate.platforms) {
+    const rule = getDensityRule(rules, platform);
+    const name = platformNames[platform] ?? platform;
+    const samePlatform = others.filter((entry) => entry.platform === platform);
+
+    if (rule.maxPerHour !== undefined) {
+      const count = samePlatform.filter((entry) => hourKey(entry.at, timeZone) === hour).length;
+      if (count >= rule.maxPerHour) {
+        conflicts.push({
+          platform,
+          rule: 'maxPerHour',
+          message: `${name} already has ${count} post${count === 1 ? '' : 's'} in this hour (limit ${rule.maxPerHour})`,
+        });
+      }
+    }
+
+    if (rule.maxPerDay !== undefined) {
+      const count = samePlatform.filter((entry) => toZonedDateKey(entry.at, timeZone) === day).length;
+      if (count >= rule.maxPerDay) {
+        conflicts.push({
+          platform,
+          rule: 'maxPerDay',
+          message: `${name} already has ${count} post${count === 1 ? '' : 's'} on this day (limit ${rule.maxPerDay})`,
+        });
+      }
+    }
+
+    if (rule.minGapMinutes !== undefined) {
+      const nearest = Math.min(...samePlatform.map((entry) => Math.abs(entry.at - candidate.at)));
+      if (nearest < rule.minGapMinutes * MINUTE_MS) {
+        conflicts.push({
+          platform,
+          rule: 'minGapMinutes',
+          message: `${name} has another post ${Math.round(nearest / MINUTE_MS)} min away (keep ${rule.minGapMinutes} min apart)`,
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Days whose posts break a rule, keyed by YYYY-MM-DD in `timeZone`, with
+ * one message per broken rule and platform
+ */
+export function findOverloadedDays(
+  entries: DensityEntry[],
+  rules: DensityRule[],
+  timeZone: string
+): Map<string, DensityConflict[]> {
+  const overloaded = new Map<string, DensityConflict[]>();
+  const sorted = [...entries].sort((a, b) => a.at - b.at);
+
+  sorted.forEach((entry, index) => {
+    const earlier = sorted.slice(0, index);
+    for (const conflict of findDensityConflicts({ platforms: [entry.platform], at: entry.at }, earlier, rules, timeZone)) {
+      const day = toZonedDateKey(entry.at, timeZone);
+      const dayConflicts = overloaded.get(day) ?? [];
+      if (!dayConflicts.some((c) => c.platform === conflict.platform && c.rule === conflict.rule)) {
+        overloaded.set(day, [...dayConflicts, conflict]);
+      }
+    }
+  });
+
+  return overloaded;
+}
+
+/**
+ * New times for movable posts so nothing breaks a rule. Fixed posts stay
+ * put; each movable post keeps its time if it fits, else moves to the
+ * first later 15-minute step that does. Posts that can't be placed within
+ * two weeks are left out of the result.
+ */
+export function spreadOut(
+  candidates: SpreadCandidate[],
+  rules: DensityRule[],
+  timeZone: string
+): Map<string, number> {
+  const placed: DensityEntry[] = candidates
+    .filter((candidate) => !candidate.movable)
+    .flatMap((candidate) => candidate.platforms.map((platform) => ({ postId: candidate.postId, platform, at: candidate.at })));
+  const moves = new Map<string, number>();
+
+  const movable = candidates.filter((candidate) => candidate.movable).sort((a, b) => a.at - b.at);
+  for (const candidate of movable) {
+    const limit = candidate.at + SPREAD_HORIZON_DAYS * 24 * 60 * MINUTE_MS;
+    let at = candidate.at;
+    while (at <= limit && findDensityConflicts({ platforms: candidate.platforms, at }, placed, rules, timeZone).length > 0) {
+      at += SPREAD_STEP_MINUTES * MINUTE_MS;
+    }
+    if (at > limit) continue;
+
+    if (at !== candidate.at) {
+      moves.set(candidate.postId, at);
+    }
+    placed.push(...candidate.platforms.map((platform) => ({ postId: candidate.postId, platform, at })));
+  }
+
+  return moves;
+}
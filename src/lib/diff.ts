@@ -0,0 +1,71 @@
+/**
+ * Word-level text diff, for comparing post revisions side by side
+ */
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Past this many token pairs, show the texts as wholly replaced instead
+const MAX_TABLE_SIZE = 1_000_000;
+
+// Words and the whitespace between them, so segments join back into the text
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+/g) ?? [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Diff `before` against `after`: equal runs appear in both, removed runs
+ * only in `before` and added runs only in `after`.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  if ((a.length + 1) * (b.length + 1) > MAX_TABLE_SIZE) {
+    if (before) pushSegment(segments, 'removed', before);
+    if (after) pushSegment(segments, 'added', after);
+    return segments;
+  }
+
+  // lcs[i * width + j] = longest common run of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      pushSegment(segments, 'removed', a[i++]);
+    } else {
+      pushSegment(segments, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, 'removed', a[i++]);
+  while (j < b.length) pushSegment(segments, 'added', b[j++]);
+
+  return segments;
+}
@@ -0,0 +1,274 @@
+/**
+ * iCalendar (RFC 5545) support for the content calendar: output shared by
+ * the Convex feed endpoint and the Calendar download, and parsing of
+ * imported holiday and event calendars
+ */
+
+import { getOccurrences, type RecurrenceRule } from './recurrence';
+import { isValidTimeZone, zonedDateTimeToUtc } from './timezone';
+
+// Minimal post shape both Convex documents and the client Post satisfy
+export interface IcsPost {
+  _id: string;
+  title?: string;
+  content: string;
+  platforms: string[];
+  scheduledAt?: number;
+  recurrence?: RecurrenceRule;
+}
+
+const EVENT_DURATION_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAST_DAYS = 30; // Recurring occurrences kept in the feed after they go out
+const FUTURE_DAYS = 180; // How far ahead recurring series are expanded
+const PREVIEW_LENGTH = 280;
+
+const platformNames: Record<string, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  twitter: 'X (Twitter)',
+  linkedin: 'LinkedIn',
+  youtube: 'YouTube',
+  tiktok: 'TikTok',
+};
+
+// 20261019T140000Z
+function formatIcsDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * Link that opens a post in the Calendar editor
+ */
+export function getPostEditorUrl(appUrl: string, postId: string): string {
+  return `${appUrl.replace(/\/$/, '')}/calendar?post=${postId}`;
+}
+
+/**
+ * VCALENDAR with one VEVENT per post per platform. Recurring posts get one
+ * event per occurrence in a window around `now`, so every calendar app
+ * shows them the same way without having to understand the series rule.
+ */
+export function buildPostsCalendar(
+  posts: IcsPost[],
+  options: { appUrl: string; calendarName: string; now?: number }
+): string {
+  const now = options.now ?? Date.now();
+  const stamp = formatIcsDate(now);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SocialSync//Content Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+  ];
+
+  for (const post of posts) {
+    if (!post.scheduledAt) continue;
+
+    const occurrences = post.recurrence
+      ? getOccurrences(post.scheduledAt, post.recurrence, now - PAST_DAYS * DAY_MS, now + FUTURE_DAYS * DAY_MS)
+      : [post.scheduledAt];
+
+    const url = getPostEditorUrl(options.appUrl, post._id);
+    const title = post.title || post.content.slice(0, 40);
+    const preview =
+      post.content.length > PREVIEW_LENGTH ? `${post.content.slice(0, PREVIEW_LENGTH)}…` : post.content;
+
+    for (const occurrenceAt of occurrences) {
+      for (const platform of post.platforms) {
+        lines.push(
+          'BEGIN:VEVENT',
+          `UID:${post._id}-${platform}-${occurrenceAt}@socialsync`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART:${formatIcsDate(occurrenceAt)}`,
+          `DTEND:${formatIcsDate(occurrenceAt + EVENT_DURATION_MS)}`,
+          `SUMMARY:${escapeText(`[${platformNames[platform] ?? platform}] ${title}`)}`,
+          `DESCRIPTION:${escapeText(`${preview}\n\nEdit: ${url}`)}`,
+          `URL:${url}`,
+          `CATEGORIES:${escapeText(platformNames[platform] ?? platform)}`,
+          'END:VEVENT'
+        );
+      }
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// An event read from an imported .ics file
+export interface ParsedIcsEvent {
+  uid: string;
+  title: string;
+  description?: string;
+  startAt: number;
+  endAt?: number; // Exclusive; all-day events end at midnight UTC after their last day
+  allDay: boolean; // All-day dates are stored at midnight UTC
+}
+
+type IcsProperty = { params: Record<string, string>; value: string };
+
+const IMPORT_PAST_DAYS = 30;
+const IMPORT_FUTURE_DAYS = 2 * 365;
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+// "NAME;PARAM=a;PARAM2="b:c":value" -> name, params, value
+function parseContentLine(line: string): { name: string; property: IcsProperty } | null {
+  const match = /^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^:;"]*))*):(.*)$/.exec(line);
+  if (!match) return null;
+
+  const params: Record<string, string> = {};
+  for (const param of match[2].matchAll(/;([A-Za-z0-9-]+)=("[^"]*"|[^:;"]*)/g)) {
+    params[param[1].toUpperCase()] = param[2].replace(/^"|"$/g, '');
+  }
+
+  return { name: match[1].toUpperCase(), property: { params, value: match[3] } };
+}
+
+// DATE or DATE-TIME value as an instant; floating times are read in `defaultTimeZone`
+function parseIcsDate(property: IcsProperty, defaultTimeZone: string): { at: number; allDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, , utc] = match;
+  if (hour === undefined || property.params.VALUE === 'DATE') {
+    return { at: Date.UTC(Number(year), Number(month) - 1, Number(day)), allDay: true };
+  }
+  if (utc) {
+    return { at: Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute)), allDay: false };
+  }
+
+  const tzid = property.params.TZID;
+  const timeZone = tzid && isValidTimeZone(tzid) ? tzid : defaultTimeZone;
+  return {
+    at: zonedDateTimeToUtc(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), timeZone),
+    allDay: false,
+  };
+}
+
+/**
+ * Start times of a yearly-repeating event (birthdays, most holiday feeds)
+ * between `from` and `to`. Other repeat rules aren't expanded; those
+ * events come in at their first date only.
+ */
+function expandYearly(startAt: number, rrule: string, from: number, to: number): number[] {
+  const parts = Object.fromEntries(rrule.split(';').map((part) => part.split('=') as [string, string]));
+  if (parts.FREQ !== 'YEARLY') {
+    return [startAt];
+  }
+
+  const interval = Math.max(1, Number(parts.INTERVAL) || 1);
+  const count = parts.COUNT ? Number(parts.COUNT) : Infinity;
+  const until = parts.UNTIL ? parseIcsDate({ params: {}, value: parts.UNTIL }, 'UTC')?.at ?? Infinity : Infinity;
+  const start = new Date(startAt);
+  const occurrences: number[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const at = Date.UTC(
+      start.getUTCFullYear() + i * interval,
+      start.getUTCMonth(),
+      start.getUTCDate(),
+      start.getUTCHours(),
+      start.getUTCMinutes()
+    );
+    if (at > to || at > until) break;
+    if (at >= from) occurrences.push(at);
+  }
+
+  return occurrences;
+}
+
+/**
+ * Events in an .ics file that fall between 30 days ago and two years out.
+ * Cancelled events are dropped; yearly events get one entry per year.
+ */
+export function parseIcsEvents(text: string, options: { defaultTimeZone: string; now?: number }): ParsedIcsEvent[] {
+  const now = options.now ?? Date.now();
+  const from = now - IMPORT_PAST_DAYS * DAY_MS;
+  const to = now + IMPORT_FUTURE_DAYS * DAY_MS;
+
+  // Unfold continuation lines first
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+  let current: Record<string, IcsProperty> | null = null;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd();
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+    if (line === 'END:VEVENT' && current) {
+      const event = current;
+      current = null;
+
+      const start = event.DTSTART ? parseIcsDate(event.DTSTART, options.defaultTimeZone) : null;
+      if (!start || event.STATUS?.value === 'CANCELLED') continue;
+
+      const end = event.DTEND ? parseIcsDate(event.DTEND, options.defaultTimeZone) : null;
+      const duration = end ? end.at - start.at : start.allDay ? DAY_MS : undefined;
+      const uid = event.UID?.value || `${event.SUMMARY?.value ?? 'event'}-${start.at}`;
+      const starts = event.RRULE ? expandYearly(start.at, event.RRULE.value, from, to) : [start.at];
+
+      for (const startAt of starts) {
+        const endAt = duration !== undefined ? startAt + duration : undefined;
+        if ((endAt ?? startAt) < from || startAt > to) continue;
+
+        events.push({
+          uid: event.RRULE ? `${uid}-${new Date(startAt).getUTCFullYear()}` : uid,
+          title: unescapeText(event.SUMMARY?.value ?? 'Untitled event'),
+          description: event.DESCRIPTION ? unescapeText(event.DESCRIPTION.value) : undefined,
+          startAt,
+          endAt,
+          allDay: start.allDay,
+        });
+      }
+      continue;
+    }
+    if (current) {
+      const parsed = parseContentLine(line);
+      if (parsed && !(parsed.name in current)) {
+        current[parsed.name] = parsed.property;
+      }
+    }
+  }
+
+  return events;
+}
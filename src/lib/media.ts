@@ -0,0 +1,168 @@
+/**
+ * Browser-side helpers for the media library: reading an image or video's
+ * dimensions and duration before upload, and drawing a small thumbnail.
+ */
+
+import type { MediaInfo } from './mediaValidation';
+import { computeCrop, type FocalPoint } from './crop';
+
+export interface MediaMetadata {
+  width?: number;
+  height?: number;
+  duration?: number; // Seconds
+}
+
+const THUMBNAIL_SIZE = 320; // Longest side, in pixels
+
+export function isVideoMime(mimeType: string): boolean {
+  return mimeType.startsWith('video/');
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read the image'));
+    image.src = src;
+  });
+}
+
+// Resolves once the first frame can be drawn
+function loadVideo(src: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('Could not read the video'));
+    video.src = src;
+  });
+}
+
+function drawThumbnail(source: CanvasImageSource, width: number, height: number): Promise<Blob | null> {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+}
+
+/**
+ * Dimensions, duration and a JPEG thumbnail for an image or video file.
+ * Files the browser can't decode still upload, just without them.
+ */
+export async function inspectMediaFile(file: File): Promise<{ metadata: MediaMetadata; thumbnail: Blob | null }> {
+  const src = URL.createObjectURL(file);
+  try {
+    if (isVideoMime(file.type)) {
+      const video = await loadVideo(src);
+      return {
+        metadata: {
+          width: video.videoWidth,
+          height: video.videoHeight,
+          duration: Number.isFinite(video.duration) ? video.duration : undefined,
+        },
+        thumbnail: await drawThumbnail(video, video.videoWidth, video.videoHeight),
+      };
+    }
+    const image = await loadImage(src);
+    return {
+      metadata: { width: image.naturalWidth, height: image.naturalHeight },
+      thumbnail: await drawThumbnail(image, image.naturalWidth, image.naturalHeight),
+    };
+  } catch {
+    return { metadata: {}, thumbnail: null };
+  } finally {
+    URL.revokeObjectURL(src);
+  }
+}
+
+const VIDEO_EXTENSION = /\.(mp4|mov|m4v|webm)(\?|$)/i;
+
+/**
+ * What the browser can learn about media attached by URL: type and size
+ * from a HEAD request where the host allows it, then dimensions and
+ * duration by loading it. `mediaType` is the post's own hint for URLs
+ * that don't say what they are.
+ */
+export async function inspectMediaUrl(url: string, mediaType?: string): Promise<MediaInfo> {
+  const info: MediaInfo = { url };
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    if (response.ok) {
+      info.mimeType = response.headers.get('Content-Type')?.split(';')[0].trim() || undefined;
+      const length = Number(response.headers.get('Content-Length'));
+      info.size = length > 0 ? length : undefined;
+    }
+  } catch {
+    // Cross-origin hosts often refuse HEAD; dimensions are still worth having
+  }
+
+  const isVideo = info.mimeType
+    ? isVideoMime(info.mimeType)
+    : VIDEO_EXTENSION.test(url) || mediaType === 'video';
+  try {
+    if (isVideo) {
+      const video = await loadVideo(url);
+      return {
+        ...info,
+        kind: 'video',
+        width: video.videoWidth,
+        height: video.videoHeight,
+        duration: Number.isFinite(video.duration) ? video.duration : undefined,
+      };
+    }
+    const image = await loadImage(url);
+    return { ...info, kind: 'image', width: image.naturalWidth, height: image.naturalHeight };
+  } catch {
+    return info;
+  }
+}
+
+/**
+ * Cut a `ratio` crop around the focal point out of an image and scale it
+ * down to `width`, as a JPEG. The image is fetched first so a cross-origin
+ * source doesn't taint the canvas.
+ */
+export async function renderCrop(src: string, ratio: string, focalPoint: FocalPoint, width: number): Promise<Blob> {
+  const response = await fetch(src);
+  if (!response.ok) {
+    throw new Error('Could not load the image');
+  }
+  const objectUrl = URL.createObjectURL(await response.blob());
+  try {
+    const image = await loadImage(objectUrl);
+    const crop = computeCrop(image.naturalWidth, image.naturalHeight, ratio, focalPoint);
+    const scale = Math.min(1, width / crop.width); // Never upscale
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(crop.width * scale));
+    canvas.height = Math.max(1, Math.round(crop.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Could not draw the crop');
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+    if (!blob) {
+      throw new Error('Could not draw the crop');
+    }
+    return blob;
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Per-platform checks for attached media. Hard limits are what each
+ * platform's API rejects outright; the softer recommendations come from
+ * `getMediaRecommendations`. Shared by the editor's checklist and the
+ * Convex checks when a post is scheduled and published.
+ */
+
+import { getMediaRecommendations, type Platform } from './platformFormatter';
+import { formatDuration, formatFileSize } from './media';
+import { parseRatio } from './crop';
+
+export type MediaKind = 'image' | 'video';
+
+// What is known about one attached file; anything missing is skipped
+export interface MediaInfo {
+  url: string;
+  kind?: MediaKind;
+  mimeType?: string;
+  size?: number; // Bytes
+  width?: number;
+  height?: number;
+  duration?: number; // Seconds
+}
+
+export type MediaCheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface MediaIssue {
+  severity: 'warn' | 'fail';
+  message: string;
+}
+
+export interface PlatformMediaCheck {
+  platform: Platform;
+  status: MediaCheckStatus;
+  issues: MediaIssue[];
+}
+
+interface KindLimits {
+  formats: string[]; // Accepted MIME types
+  maxSize: number; // Bytes
+  minRatio?: number; // Width / height
+  maxRatio?: number;
+  minDuration?: number; // Seconds, videos only
+  maxDuration?: number;
+}
+
+interface PlatformMediaLimits {
+  maxItems: number;
+  videoAlone: boolean; // A video can't share a post with other media
+  requiresVideo: boolean;
+  image?: KindLimits; // Missing when the platform takes no images
+  video: KindLimits;
+}
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+const RATIO_TOLERANCE = 0.03; // How far off a recommended ratio still counts as on it
+
+const MEDIA_LIMITS: Record<Platform, PlatformMediaLimits> = {
+  instagram: {
+    maxItems: 10,
+    videoAlone: false,
+    requiresVideo: false,
+    image: { formats: ['image/jpeg'], maxSize: 8 * MB, minRatio: 4 / 5, maxRatio: 1.91 },
+    video: { formats: ['video/mp4', 'video/quicktime'], maxSize: GB, minDuration: 3, maxDuration: 15 * 60 },
+  },
+  facebook: {
+    maxItems: 10,
+    videoAlone: true,
+    requiresVideo: false,
+    image: {
+      formats: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/bmp', 'image/tiff'],
+      maxSize: 10 * MB,
+    },
+    video: { formats: ['video/mp4', 'video/quicktime'], maxSize: 10 * GB, minDuration: 1, maxDuration: 240 * 60 },
+  },
+  twitter: {
+    maxItems: 4,
+    videoAlone: true,
+    requiresVideo: false,
+    image: { formats: ['image/jpeg', 'image/png', 'image/webp', 'image/gif'], maxSize: 5 * MB },
+    video: {
+      formats: ['video/mp4', 'video/quicktime'],
+      maxSize: 512 * MB,
+      minRatio: 1 / 3,
+      maxRatio: 3,
+      minDuration: 0.5,
+      maxDuration: 140,
+    },
+  },
+  linkedin: {
+    maxItems: 20,
+    videoAlone: true,
+    requiresVideo: false,
+    image: { formats: ['image/jpeg', 'image/png', 'image/gif'], maxSize: 8 * MB, minRatio: 1 / 3, maxRatio: 3 },
+    video: { formats: ['video/mp4'], maxSize: 5 * GB, minDuration: 3, maxDuration: 30 * 60 },
+  },
+  youtube: {
+    maxItems: 1,
+    videoAlone: true,
+    requiresVideo: true,
+    video: {
+      formats: ['video/mp4', 'video/quicktime', 'video/webm', 'video/x-msvideo', 'video/mpeg'],
+      maxSize: 256 * GB,
+      maxDuration: 12 * 60 * 60,
+    },
+  },
+  tiktok: {
+    maxItems: 1,
+    videoAlone: true,
+    requiresVideo: true,
+    video: { formats: ['video/mp4', 'video/webm', 'video/quicktime'], maxSize: 4 * GB, minDuration: 3, maxDuration: 10 * 60 },
+  },
+};
+
+const platformNames: Record<Platform, string> = {
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+  twitter: 'X',
+  linkedin: 'LinkedIn',
+  youtube: 'YouTube',
+  tiktok: 'TikTok',
+};
+
+// Whether the platform takes images at all; YouTube and TikTok only take a video
+export function takesImages(platform: Platform): boolean {
+  return !!MEDIA_LIMITS[platform]?.image;
+}
+
+// A media library asset already carries everything the checks need
+export function assetMediaInfo(asset: {
+  url: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  duration?: number;
+}): MediaInfo {
+  return {
+    url: asset.url,
+    kind: asset.mimeType.startsWith('video/') ? 'video' : 'image',
+    mimeType: asset.mimeType,
+    size: asset.size,
+    width: asset.width,
+    height: asset.height,
+    duration: asset.duration,
+  };
+}
+
+function formatRatio(ratio: number): string {
+  return `${Number(ratio.toFixed(2))}:1`;
+}
+
+function formatList(items: string[]): string {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} or ${items[items.length - 1]}` : items[0] ?? '';
+}
+
+function formatName(mimeType: string): string {
+  return (mimeType.split('/')[1] ?? mimeType).replace('quicktime', 'mov').replace('x-msvideo', 'avi').toUpperCase();
+}
+
+function checkItem(platform: Platform, item: MediaInfo, label: string): MediaIssue[] {
+  const issues: MediaIssue[] = [];
+  const name = platformNames[platform];
+  const limits = MEDIA_LIMITS[platform];
+  if (!item.kind) {
+    return [{ severity: 'warn', message: `${label} couldn't be checked` }];
+  }
+
+  const kindLimits = item.kind === 'image' ? limits.image : limits.video;
+  if (!kindLimits) {
+    return [{ severity: 'fail', message: `${name} doesn't accept images` }];
+  }
+
+  if (item.mimeType && !kindLimits.formats.includes(item.mimeType)) {
+    issues.push({
+      severity: 'fail',
+      message: `${label} is ${formatName(item.mimeType)}; ${name} takes ${formatList(kindLimits.formats.map(formatName))}`,
+    });
+  }
+  if (item.size !== undefined && item.size > kindLimits.maxSize) {
+    issues.push({
+      severity: 'fail',
+      message: `${label} is ${formatFileSize(item.size)}; ${name} allows up to ${formatFileSize(kindLimits.maxSize)}`,
+    });
+  }
+
+  if (item.width && item.height) {
+    const ratio = item.width / item.height;
+    const recommended = getMediaRecommendations(platform)[item.kind === 'image' ? 'imageRatios' : 'videoRatios'];
+    if (
+      (kindLimits.minRatio !== undefined && ratio < kindLimits.minRatio - 0.005) ||
+      (kindLimits.maxRatio !== undefined && ratio > kindLimits.maxRatio + 0.005)
+    ) {
+      issues.push({
+        severity: 'fail',
+        message: `${label} is ${formatRatio(ratio)}; ${name} needs between ${formatRatio(
+          kindLimits.minRatio ?? 0
+        )} and ${formatRatio(kindLimits.maxRatio ?? Infinity)}`,
+      });
+    } else if (!recommended.some((target) => Math.abs(ratio / parseRatio(target) - 1) <= RATIO_TOLERANCE)) {
+      issues.push({
+        severity: 'warn',
+        message: `${label} is ${formatRatio(ratio)}; ${name} works best at ${formatList(recommended)}`,
+      });
+    }
+  }
+
+  if (item.kind === 'video' && item.duration !== undefined) {
+    const { maxVideoLength } = getMediaRecommendations(platform);
+    if (kindLimits.minDuration !== undefined && item.duration < kindLimits.minDuration) {
+      issues.push({
+        severity: 'fail',
+        message: `${label} is ${formatDuration(item.duration)} long; ${name} needs at least ${kindLimits.minDuration}s`,
+      });
+    } else if (kindLimits.maxDuration !== undefined && item.duration > kindLimits.maxDuration) {
+      issues.push({
+        severity: 'fail',
+        message: `${label} is ${formatDuration(item.duration)} long; ${name} allows up to ${formatDuration(kindLimits.maxDuration)}`,
+      });
+    } else if (item.duration > maxVideoLength) {
+      issues.push({
+        severity: 'warn',
+        message: `${label} is ${formatDuration(item.duration)} long; ${name} videos do best under ${formatDuration(maxVideoLength)}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Check a post's media against one platform. Files with unknown metadata
+ * get a warning rather than blocking, since they may well be fine.
+ */
+export function checkMediaForPlatform(platform: Platform, media: MediaInfo[]): PlatformMediaCheck {
+  const limits = MEDIA_LIMITS[platform];
+  if (!limits) {
+    return { platform, status: 'pass', issues: [] };
+  }
+  const name = platformNames[platform];
+  const issues: MediaIssue[] = [];
+  const videos = media.filter((item) => item.kind === 'video').length;
+
+  if (limits.requiresVideo && (media.length !== 1 || media[0].kind === 'image')) {
+    issues.push({ severity: 'fail', message: `${name} posts need exactly one video` });
+  } else if (media.length > limits.maxItems) {
+    issues.push({ severity: 'fail', message: `${name} allows at most ${limits.maxItems} media items per post` });
+  } else if (limits.videoAlone && videos > 0 && media.length > 1) {
+    issues.push({ severity: 'fail', message: `${name} can't combine a video with other media` });
+  }
+
+  media.forEach((item, index) => {
+    const label = media.length > 1 ? `Item ${index + 1}` : item.kind === 'video' ? 'Video' : 'Image';
+    issues.push(...checkItem(platform, item, label));
+  });
+
+  const status = issues.some((issue) => issue.severity === 'fail')
+    ? 'fail'
+    : issues.length > 0
+    ? 'warn'
+    : 'pass';
+  return { platform, status, issues };
+}
+
+// Problems that would get the post rejected, one line each
+export function mediaFailures(checks: PlatformMediaCheck[]): string[] {
+  return checks.flatMap((check) =>
+    check.issues.filter((issue) => issue.severity === 'fail').map((issue) => issue.message)
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Bundled holidays and observances that marketing calendars commonly plan
+ * around, so the calendar has useful annotations without importing a file
+ */
+
+type ObservanceRule =
+  | { month: number; day: number } // Fixed date; month is 1-based
+  | { month: number; weekday: number; nth: number } // nth weekday of the month, -1 = last
+  | { after: string; days: number }; // Offset from another observance
+
+interface ObservanceDefinition {
+  key: string;
+  title: string;
+  rule: ObservanceRule;
+}
+
+export interface Observance {
+  key: string;
+  title: string;
+  date: string; // YYYY-MM-DD
+}
+
+export const OBSERVANCES_SOURCE = 'Holidays & observances';
+
+const OBSERVANCES: ObservanceDefinition[] = [
+  { key: 'new-years-day', title: "New Year's Day", rule: { month: 1, day: 1 } },
+  { key: 'valentines-day', title: "Valentine's Day", rule: { month: 2, day: 14 } },
+  { key: 'womens-day', title: "International Women's Day", rule: { month: 3, day: 8 } },
+  { key: 'st-patricks-day', title: "St. Patrick's Day", rule: { month: 3, day: 17 } },
+  { key: 'happiness-day', title: 'International Day of Happiness', rule: { month: 3, day: 20 } },
+  { key: 'april-fools', title: "April Fools' Day", rule: { month: 4, day: 1 } },
+  { key: 'earth-day', title: 'Earth Day', rule: { month: 4, day: 22 } },
+  { key: 'star-wars-day', title: 'Star Wars Day', rule: { month: 5, day: 4 } },
+  { key: 'mothers-day', title: "Mother's Day (US)", rule: { month: 5, weekday: 0, nth: 2 } },
+  { key: 'pride-month', title: 'Pride Month begins', rule: { month: 6, day: 1 } },
+  { key: 'environment-day', title: 'World Environment Day', rule: { month: 6, day: 5 } },
+  { key: 'fathers-day', title: "Father's Day (US)", rule: { month: 6, weekday: 0, nth: 3 } },
+  { key: 'social-media-day', title: 'Social Media Day', rule: { month: 6, day: 30 } },
+  { key: 'independence-day', title: 'Independence Day (US)', rule: { month: 7, day: 4 } },
+  { key: 'friendship-day', title: 'International Friendship Day', rule: { month: 7, day: 30 } },
+  { key: 'labor-day', title: 'Labor Day (US)', rule: { month: 9, weekday: 1, nth: 1 } },
+  { key: 'mental-health-day', title: 'World Mental Health Day', rule: { month: 10, day: 10 } },
+  { key: 'halloween', title: 'Halloween', rule: { month: 10, day: 31 } },
+  { key: 'thanksgiving', title: 'Thanksgiving (US)', rule: { month: 11, weekday: 4, nth: 4 } },
+  { key: 'black-friday', title: 'Black Friday', rule: { after: 'thanksgiving', days: 1 } },
+  { key: 'small-business-saturday', title: 'Small Business Saturday', rule: { after: 'thanksgiving', days: 2 } },
+  { key: 'cyber-monday', title: 'Cyber Monday', rule: { after: 'thanksgiving', days: 4 } },
+  { key: 'giving-tuesday', title: 'Giving Tuesday', rule: { after: 'thanksgiving', days: 5 } },
+  { key: 'christmas-eve', title: 'Christmas Eve', rule: { month: 12, day: 24 } },
+  { key: 'christmas', title: 'Christmas Day', rule: { month: 12, day: 25 } },
+  { key: 'new-years-eve', title: "New Year's Eve", rule: { month: 12, day: 31 } },
+];
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function resolveDate(rule: ObservanceRule, year: number, resolved: Map<string, Date>): Date | null {
+  if ('after' in rule) {
+    const base = resolved.get(rule.after);
+    return base ? new Date(base.getTime() + rule.days * 24 * 60 * 60 * 1000) : null;
+  }
+
+  if ('day' in rule) {
+    return new Date(Date.UTC(year, rule.month - 1, rule.day));
+  }
+
+  if (rule.nth === -1) {
+    const last = new Date(Date.UTC(year, rule.month, 0));
+    return new Date(Date.UTC(year, rule.month - 1, last.getUTCDate() - ((last.getUTCDay() - rule.weekday + 7) % 7)));
+  }
+
+  const first = new Date(Date.UTC(year, rule.month - 1, 1));
+  const offset = (rule.weekday - first.getUTCDay() + 7) % 7;
+  return new Date(Date.UTC(year, rule.month - 1, 1 + offset + (rule.nth - 1) * 7));
+}
+
+/**
+ * Every bundled observance in a year, in calendar order
+ */
+export function getObservances(year: number): Observance[] {
+  const resolved = new Map<string, Date>();
+  const observances: Observance[] = [];
+
+  for (const definition of OBSERVANCES) {
+    const date = resolveDate(definition.rule, year, resolved);
+    if (!date) continue;
+    resolved.set(definition.key, date);
+    observances.push({ key: definition.key, title: definition.title, date: toDateKey(date) });
+  }
+
+  return observances.sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -15,12 +15,18 @@ export interface FormattedPost {
   maxCharacters: number;
   warnings: string[];
   suggestions: string[];
+  firstComment?: string; // Hashtags held back from the caption for the first comment
 }
 
+export type HashtagPosition = 'inline' | 'end' | 'first-comment';
+
+// Platforms whose publishers can post the hashtags as a first comment
+export const FIRST_COMMENT_PLATFORMS: readonly Platform[] = ['instagram'];
+
 interface PlatformConfig {
   maxLength: number;
   maxHashtags: number;
-  hashtagPosition: 'inline' | 'end' | 'first-comment';
+  hashtagPosition: HashtagPosition;
   supportsEmoji: boolean;
   supportsLinks: boolean;
   linkShortening: boolean;
@@ -99,17 +105,21 @@ const PLATFORM_CONFIGS: Record<Platform, PlatformConfig> = {
 };
 
 /**
- * Format content for a specific platform
+ * Format content for a specific platform. `hashtagPosition` overrides the
+ * platform's default placement, e.g. for posts that keep hashtags out of
+ * the caption.
  */
 export function formatForPlatform(
   content: string,
   platform: Platform,
   hashtags: string[] = [],
-  mentions: string[] = []
+  mentions: string[] = [],
+  hashtagPosition: HashtagPosition = PLATFORM_CONFIGS[platform].hashtagPosition
 ): FormattedPost {
   const config = PLATFORM_CONFIGS[platform];
   const warnings: string[] = [];
   const suggestions: string[] = [];
+  let firstComment: string | undefined;
 
   // Clean and normalize content
   let formattedContent = normalizeContent(content, config);
@@ -127,13 +137,15 @@ export function formatForPlatform(
   }
 
   // Handle hashtag positioning
-  if (config.hashtagPosition === 'end' && formattedHashtags.length > 0) {
+  if (hashtagPosition === 'end' && formattedHashtags.length > 0) {
     const hashtagString = formattedHashtags.join(' ');
     const separator = config.lineBreakStyle === 'double' ? '\n\n' : '\n';
     formattedContent = `${formattedContent}${separator}${hashtagString}`;
-  } else if (config.hashtagPosition === 'first-comment') {
+  } else if (hashtagPosition === 'first-comment') {
     // Hashtags go in first comment, return them separately
-    suggestions.push('Add hashtags as the first comment for better reach');
+    const split = splitFirstCommentHashtags(formattedContent, formattedHashtags);
+    formattedContent = split.caption;
+    firstComment = split.comment || undefined;
   }
 
   // Handle links
@@ -166,11 +178,62 @@ export function formatForPlatform(
     content: formattedContent,
     hashtags: formattedHashtags,
     mentions: formattedMentions,
-    characterCount: formattedContent.length,
+    characterCount, // Before truncation, so over-limit counts show how far over
     isWithinLimit,
     maxCharacters: config.maxLength,
     warnings,
     suggestions,
+    firstComment,
+  };
+}
+
+const HASHTAG = /#[\p{L}\p{N}_]+/gu;
+const HASHTAG_ONLY_LINE = /^\s*(?:#[\p{L}\p{N}_]+\s*)+$/u;
+const TRAILING_HASHTAGS = /(?:\s+#[\p{L}\p{N}_]+)+\s*$/u;
+
+/**
+ * Pull the hashtags out of a caption for posting as its first comment.
+ * Hashtag-only lines and the run of tags the caption ends on move to the
+ * comment along with `hashtags`; tags used mid-sentence stay in the caption.
+ */
+export function splitFirstCommentHashtags(
+  content: string,
+  hashtags: string[] = []
+): { caption: string; comment: string } {
+  const lines = content.split('\n');
+  const moved: string[] = [];
+
+  let lastTextLine = -1;
+  lines.forEach((line, index) => {
+    if (line.trim() && !HASHTAG_ONLY_LINE.test(line)) lastTextLine = index;
+  });
+
+  const kept: string[] = [];
+  lines.forEach((line, index) => {
+    if (HASHTAG_ONLY_LINE.test(line)) {
+      moved.push(...(line.match(HASHTAG) ?? []));
+      return;
+    }
+    const trailing = index === lastTextLine ? TRAILING_HASHTAGS.exec(line) : null;
+    if (trailing) {
+      moved.push(...(trailing[0].match(HASHTAG) ?? []));
+      kept.push(line.slice(0, trailing.index));
+    } else {
+      kept.push(line);
+    }
+  });
+
+  const seen = new Set<string>();
+  const tags = [...moved, ...hashtags.map((h) => (h.startsWith('#') ? h : `#${h}`))].filter((tag) => {
+    const key = tag.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    caption: kept.join('\n').replace(/\n{3,}/g, '\n\n').trim(),
+    comment: tags.join(' '),
   };
 }
 
@@ -0,0 +1,330 @@
+/**
+ * Bulk post import and export: reads posts planned in a spreadsheet (CSV)
+ * or exported as JSON, and checks each row against the platforms it targets
+ * before anything is created. Exports use the same columns, so they can be
+ * edited and imported again.
+ */
+
+import { formatForPlatform, type Platform } from './platformFormatter';
+import { toZonedDateKey, toZonedTimeValue, zonedDateTimeToUtc } from './timezone';
+
+export const IMPORT_PLATFORMS: readonly Platform[] = ['instagram', 'facebook', 'twitter', 'linkedin', 'youtube', 'tiktok'];
+
+// A post read from an import file, with what stops it from being created
+export interface ImportedPost {
+  row: number; // Spreadsheet row (the header is row 1), or 1-based position in a JSON list
+  title?: string;
+  content: string;
+  platforms: string[];
+  hashtags: string[];
+  mediaUrls: string[];
+  mediaType?: 'image' | 'video';
+  scheduledAt?: number;
+  errors: string[];
+  warnings: string[];
+}
+
+// Column names people use for each field, compared lowercased without punctuation
+const COLUMNS = {
+  title: ['title', 'name'],
+  content: ['content', 'text', 'caption', 'body', 'post', 'message'],
+  platforms: ['platforms', 'platform', 'networks', 'channels'],
+  hashtags: ['hashtags', 'hashtag', 'tags'],
+  mediaUrls: ['mediaurls', 'mediaurl', 'media', 'imageurl', 'image', 'videourl', 'video'],
+  scheduledAt: ['scheduledat', 'scheduledtime', 'schedule', 'publishat', 'datetime', 'when'],
+  date: ['date', 'scheduleddate', 'day'],
+  time: ['time', 'hour'],
+} as const;
+
+const PLATFORM_ALIASES: Record<string, Platform> = {
+  ig: 'instagram',
+  fb: 'facebook',
+  x: 'twitter',
+  li: 'linkedin',
+  yt: 'youtube',
+};
+
+const VIDEO_EXTENSION = /\.(mp4|mov|m4v|webm|avi)(?:[?#]|$)/i;
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Split CSV text into records. Quoted fields may hold commas, doubled
+ * quotes and line breaks; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some((value) => value.trim() !== '')) {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
+
+// Lists arrive as JSON arrays or as one cell separated by commas, semicolons, pipes or spaces
+function toList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(/[\s,;|]+/) : [];
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+// URLs may hold commas themselves, so a comma only separates when the next URL starts right after it
+function toUrlList(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === 'string'
+    ? value.split(/[\s;|]+|,(?=\s*https?:\/\/)/i)
+    : [];
+  return items.map((item) => item.trim()).filter(Boolean);
+}
+
+function toText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+function pick(record: Record<string, unknown>, names: readonly string[]): unknown {
+  for (const name of names) {
+    if (record[name] !== undefined && record[name] !== '') return record[name];
+  }
+  return undefined;
+}
+
+/**
+ * Read a schedule time. Times with a zone or offset ("2026-03-01T09:00Z")
+ * and Unix timestamps (seconds or milliseconds) are taken as written; plain
+ * "YYYY-MM-DD HH:mm" is read in `timeZone`.
+ */
+function parseScheduledAt(dateTime: string, timeZone: string): number | null {
+  if (/^\d{10}$/.test(dateTime)) return Number(dateTime) * 1000;
+  if (/^\d{13}$/.test(dateTime)) return Number(dateTime);
+
+  const local = /^(\d{4})-(\d{1,2})-(\d{1,2})[T ](\d{1,2}):(\d{2})(?::\d{2})?$/.exec(dateTime);
+  if (local) {
+    const [, year, month, day, hour, minute] = local.map(Number);
+    if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) return null;
+    return zonedDateTimeToUtc(year, month - 1, day, hour, minute, timeZone);
+  }
+
+  if (/^\d{4}-\d{1,2}-\d{1,2}T.*(?:Z|[+-]\d{2}:?\d{2})$/i.test(dateTime)) {
+    const timestamp = Date.parse(dateTime);
+    return Number.isNaN(timestamp) ? null : timestamp;
+  }
+
+  return null;
+}
+
+function readPost(
+  record: Record<string, unknown>,
+  row: number,
+  options: { timeZone: string; now: number }
+): ImportedPost {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const title = toText(pick(record, COLUMNS.title)) || undefined;
+  const content = toText(pick(record, COLUMNS.content));
+  if (!content) {
+    errors.push('Content is empty');
+  }
+
+  const platforms: string[] = [];
+  for (const name of toList(pick(record, COLUMNS.platforms))) {
+    const key = name.toLowerCase();
+    const platform = PLATFORM_ALIASES[key] ?? (IMPORT_PLATFORMS.includes(key as Platform) ? (key as Platform) : null);
+    if (!platform) {
+      errors.push(`Unknown platform "${name}"`);
+    } else if (!platforms.includes(platform)) {
+      platforms.push(platform);
+    }
+  }
+  if (platforms.length === 0 && !errors.some((error) => error.startsWith('Unknown platform'))) {
+    errors.push('No platforms');
+  }
+
+  const hashtags = toList(pick(record, COLUMNS.hashtags)).map((tag) => tag.replace(/^#+/, '')).filter(Boolean);
+
+  const mediaUrls = toUrlList(pick(record, COLUMNS.mediaUrls));
+  for (const url of mediaUrls) {
+    if (!/^https?:\/\/\S+$/i.test(url)) {
+      errors.push(`Media "${url}" is not an http(s) URL`);
+    }
+  }
+  const mediaType = mediaUrls.length === 0 ? undefined : mediaUrls.some((url) => VIDEO_EXTENSION.test(url)) ? 'video' : 'image';
+
+  let scheduledAt: number | undefined;
+  const dateTime = toText(pick(record, COLUMNS.scheduledAt));
+  const date = toText(pick(record, COLUMNS.date));
+  const time = toText(pick(record, COLUMNS.time));
+  const when = dateTime || (date && time ? `${date} ${time}` : '');
+  if (when) {
+    const parsed = parseScheduledAt(when, options.timeZone);
+    if (parsed === null) {
+      errors.push(`Can't read the time "${when}"; use YYYY-MM-DD HH:mm`);
+    } else if (parsed <= options.now) {
+      errors.push('Scheduled time is in the past');
+    } else {
+      scheduledAt = parsed;
+    }
+  } else if (date) {
+    errors.push(`"${date}" needs a time of day`);
+  }
+
+  // Length and hashtag limits as each platform would publish the post
+  if (content) {
+    for (const platform of platforms as Platform[]) {
+      const formatted = formatForPlatform(content, platform, hashtags);
+      if (!formatted.isWithinLimit) {
+        errors.push(`Too long for ${platform} (${formatted.characterCount}/${formatted.maxCharacters})`);
+      }
+      for (const warning of formatted.warnings) {
+        if (!warning.startsWith('Content exceeds')) {
+          warnings.push(`${platform}: ${warning}`);
+        }
+      }
+    }
+  }
+
+  return { row, title, content, platforms, hashtags, mediaUrls, mediaType, scheduledAt, errors, warnings };
+}
+
+/**
+ * Read the posts in an import file. JSON files hold an array of objects
+ * (or `{ "posts": [...] }`); anything else is read as CSV with a header row.
+ * Throws when the file itself can't be read; problems with single posts
+ * are reported on their rows instead.
+ */
+export function parsePostImport(
+  text: string,
+  options: { timeZone: string; now?: number }
+): ImportedPost[] {
+  const readOptions = { timeZone: options.timeZone, now: options.now ?? Date.now() };
+  const trimmed = text.trim();
+
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    const items = Array.isArray(data) ? data : (data as { posts?: unknown }).posts;
+    if (!Array.isArray(items)) {
+      throw new Error('Expected a JSON array of posts');
+    }
+
+    return items.map((item, index) => {
+      const record: Record<string, unknown> = {};
+      if (item && typeof item === 'object') {
+        for (const [key, value] of Object.entries(item)) {
+          record[normalizeKey(key)] = value;
+        }
+      }
+      return readPost(record, index + 1, readOptions);
+    });
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  const keys = header.map(normalizeKey);
+  if (!keys.some((key) => (COLUMNS.content as readonly string[]).includes(key))) {
+    throw new Error('The header row needs a content column');
+  }
+
+  return rows.map((values, index) => {
+    const record: Record<string, unknown> = {};
+    keys.forEach((key, column) => {
+      if (key && record[key] === undefined) record[key] = unescapeFormula(values[column] ?? '');
+    });
+    return readPost(record, index + 2, readOptions);
+  });
+}
+
+// Minimal post shape both Convex documents and the client Post satisfy
+export interface ExportablePost {
+  title?: string;
+  content: string;
+  platforms: string[];
+  hashtags?: string[];
+  mediaUrls?: string[];
+  scheduledAt?: number;
+  status: string;
+}
+
+// Spreadsheets run cells starting with these as formulas, so exported cells get a leading quote
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(value: string): string {
+  // Cells already starting with a quote get another, so importing gives them back unchanged
+  const safe = FORMULA_START.test(value.replace(/^'+/, '')) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// Drop the quote `csvField` puts in front of formula-like cells
+function unescapeFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_START.test(value.replace(/^'+/, '')) ? value.slice(1) : value;
+}
+
+/**
+ * CSV of posts in the import format, with times written as wall-clock
+ * "YYYY-MM-DD HH:mm" in `timeZone`
+ */
+export function buildPostExport(posts: ExportablePost[], timeZone: string): string {
+  const header = ['title', 'content', 'platforms', 'hashtags', 'media_urls', 'scheduled_at', 'status'];
+  const lines = posts.map((post) =>
+    [
+      post.title ?? '',
+      post.content,
+      post.platforms.join(' '),
+      (post.hashtags ?? []).map((tag) => `#${tag}`).join(' '),
+      (post.mediaUrls ?? []).join(' '),
+      post.scheduledAt
+        ? `${toZonedDateKey(post.scheduledAt, timeZone)} ${toZonedTimeValue(post.scheduledAt, timeZone)}`
+        : '',
+      post.status,
+    ]
+      .map(csvField)
+      .join(',')
+  );
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,239 @@
+/**
+ * RRULE-style recurrence utilities
+ * Shared by the Convex scheduler and the calendar so both expand a series
+ * the same way
+ */
+
+import { getZonedParts, zonedDateTimeToUtc } from './timezone';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months
+  byWeekday?: number[]; // 0 = Sunday ... 6 = Saturday (weekly only)
+  until?: number; // Last allowed occurrence (inclusive, ms timestamp)
+  count?: number; // Total occurrences in the series, exceptions included
+  exceptions?: number[]; // Occurrence timestamps that are skipped
+  timezone?: string; // IANA zone whose wall-clock time the series keeps
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A walk through a series gives up after this many periods without a new, later occurrence
+const MAX_ITERATIONS = 5000;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface Candidate {
+  at: number;
+  index: number; // Position in the series, counting the candidates of skipped periods
+}
+
+/**
+ * Generate the candidate occurrences of a series in order, before
+ * until/count/exceptions are applied. Whole periods before `from` are
+ * skipped arithmetically (stopping one short, so a DST shift can't jump
+ * past an occurrence). Times keep the wall-clock time of day of the series
+ * start in the rule's timezone (UTC when unset), so a 9:00 series stays at
+ * 9:00 across DST changes.
+ */
+function* candidates(startAt: number, rule: RecurrenceRule, from = startAt): Generator<Candidate> {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const timeZone = rule.timezone ?? 'UTC';
+  const start = getZonedParts(startAt, timeZone);
+  const subMinute = startAt % 60000;
+
+  // Calendar days and months from the start's date to the date of `from`
+  const target = getZonedParts(Math.max(from, startAt), timeZone);
+  const daysAhead = Math.round(
+    (Date.UTC(target.year, target.month, target.day) - Date.UTC(start.year, start.month, start.day)) / DAY_MS
+  );
+  const monthsAhead = (target.year - start.year) * 12 + target.month - start.month;
+
+  // Calendar day `offset` days after the start's date, at the start's time
+  const onDay = (year: number, month: number, day: number) => {
+    const date = new Date(Date.UTC(year, month, day));
+    return (
+      zonedDateTimeToUtc(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate(),
+        start.hour,
+        start.minute,
+        timeZone
+      ) + subMinute
+    );
+  };
+
+  let index = 0;
+  let last = -Infinity;
+  let stalled = 0;
+
+  switch (rule.frequency) {
+    case 'daily': {
+      const skip = Math.max(0, Math.floor(daysAhead / interval) - 1);
+      index = skip;
+      for (let i = skip; stalled++ < MAX_ITERATIONS; i++) {
+        const at = onDay(start.year, start.month, start.day + i * interval);
+        if (at > last) {
+          last = at;
+          stalled = 0;
+          yield { at, index: index++ };
+        }
+      }
+      return;
+    }
+
+    case 'weekly': {
+      const weekdays = rule.byWeekday?.length
+        ? [...new Set(rule.byWeekday)].sort((a, b) => a - b)
+        : [start.weekday];
+      const weekStartDay = start.day - start.weekday;
+
+      const skip = Math.max(0, Math.floor(Math.floor((daysAhead + start.weekday) / 7) / interval) - 1);
+      // The first week only holds the weekdays from the start's on
+      index =
+        skip > 0
+          ? weekdays.filter((weekday) => weekday >= start.weekday).length + (skip - 1) * weekdays.length
+          : 0;
+      for (let week = skip * interval; stalled++ < MAX_ITERATIONS; week += interval) {
+        for (const weekday of weekdays) {
+          const at = onDay(start.year, start.month, weekStartDay + week * 7 + weekday);
+          if (at >= startAt && at > last) {
+            last = at;
+            stalled = 0;
+            yield { at, index: index++ };
+          }
+        }
+      }
+      return;
+    }
+
+    case 'monthly': {
+      // Months without this day (e.g. the 31st) are skipped, like RRULE
+      const hasDay = (month: number) =>
+        new Date(Date.UTC(start.year, start.month + month, start.day)).getUTCDate() === start.day;
+
+      const skip = Math.max(0, Math.floor(monthsAhead / interval) - 1);
+      for (let period = 0; period < skip; period++) {
+        if (hasDay(period * interval)) index++;
+      }
+      for (let month = skip * interval; stalled++ < MAX_ITERATIONS; month += interval) {
+        if (!hasDay(month)) continue;
+        const at = onDay(start.year, start.month + month, start.day);
+        if (at > last) {
+          last = at;
+          stalled = 0;
+          yield { at, index: index++ };
+        }
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Expand a series into the occurrences that fall within [rangeStart, rangeEnd]
+ */
+export function getOccurrences(
+  startAt: number,
+  rule: RecurrenceRule,
+  rangeStart: number,
+  rangeEnd: number,
+  limit = 500
+): number[] {
+  const exceptions = new Set(rule.exceptions ?? []);
+  const occurrences: number[] = [];
+
+  for (const { at, index } of candidates(startAt, rule, rangeStart)) {
+    if (rule.until !== undefined && at > rule.until) break;
+    if (rule.count !== undefined && index >= rule.count) break;
+    if (at > rangeEnd) break;
+
+    if (at >= rangeStart && !exceptions.has(at)) {
+      occurrences.push(at);
+      if (occurrences.length >= limit) break;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Next occurrence at or after a point in time, or null once the series ends
+ */
+export function getNextOccurrence(startAt: number, rule: RecurrenceRule, from: number): number | null {
+  const exceptions = new Set(rule.exceptions ?? []);
+
+  for (const { at, index } of candidates(startAt, rule, from)) {
+    if (rule.until !== undefined && at > rule.until) return null;
+    if (rule.count !== undefined && index >= rule.count) return null;
+
+    if (at >= from && !exceptions.has(at)) {
+      return at;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split a series at an occurrence for "this and all future occurrences"
+ * edits. `head` ends just before the occurrence; `tail` starts at it and
+ * carries over whatever is left of the count and exceptions.
+ */
+export function splitRecurrence(
+  startAt: number,
+  rule: RecurrenceRule,
+  at: number
+): { head: RecurrenceRule; tail: RecurrenceRule } {
+  let before = 0;
+  for (const candidate of candidates(startAt, rule, at)) {
+    if (candidate.at >= at) {
+      before = candidate.index;
+      break;
+    }
+    before = candidate.index + 1;
+  }
+
+  const exceptions = rule.exceptions ?? [];
+
+  return {
+    head: {
+      ...rule,
+      until: at - 1,
+      count: rule.count !== undefined ? before : undefined,
+      exceptions: exceptions.filter((e) => e < at),
+    },
+    tail: {
+      ...rule,
+      count: rule.count !== undefined ? Math.max(0, rule.count - before) : undefined,
+      exceptions: exceptions.filter((e) => e >= at),
+    },
+  };
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Tue, Thu, 10 times"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+
+  let text = interval === 1
+    ? { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly' }[rule.frequency]
+    : `Every ${interval} ${unit}s`;
+
+  if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+    const days = [...rule.byWeekday].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]);
+    text += ` on ${days.join(', ')}`;
+  }
+
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} times`;
+  } else if (rule.until !== undefined) {
+    text += ` until ${new Date(rule.until).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: rule.timezone })}`;
+  }
+
+  return text;
+}
@@ -0,0 +1,108 @@
+/**
+ * Thread (multi-part) posts: ordered parts that publish as a chain of
+ * replies on platforms that support it, and as one post everywhere else
+ */
+
+import { formatForPlatform, type Platform } from './platformFormatter';
+
+export interface ThreadPart {
+  content: string;
+  mediaUrls?: string[];
+}
+
+export interface ThreadPartIssue {
+  part: number; // 0-based
+  platform: string;
+  message: string;
+}
+
+// Platforms whose publishers chain the parts as replies
+export const THREAD_PLATFORMS: readonly string[] = ['twitter'];
+
+// Leading "1/", "1.", "1)" or "(1/5)" numbering
+const NUMBERING = /^\s*(?:\(\d+\/\d+\)|\d+\s*(?:\/\d*|[.)]))\s+/;
+
+/**
+ * Split generated or pasted thread text into parts. Numbered lines start a
+ * new part (the numbers are dropped); without numbering, blank lines do.
+ */
+export function splitThreadText(text: string): ThreadPart[] {
+  const lines = text.trim().split(/\r?\n/);
+  const isNumbered = lines.filter((line) => NUMBERING.test(line)).length >= 2;
+
+  const parts: string[] = [];
+  if (isNumbered) {
+    for (const line of lines) {
+      if (NUMBERING.test(line)) {
+        parts.push(line.replace(NUMBERING, ''));
+      } else if (parts.length > 0) {
+        parts[parts.length - 1] += `\n${line}`;
+      } else if (line.trim()) {
+        parts.push(line); // Intro before the first numbered line
+      }
+    }
+  } else {
+    parts.push(...text.trim().split(/\n\s*\n/));
+  }
+
+  return parts.map((content) => ({ content: content.trim() })).filter((part) => part.content);
+}
+
+// Everything in one body, for platforms without reply chains
+export function joinThreadParts(parts: ThreadPart[]): { content: string; mediaUrls: string[] } {
+  return {
+    content: parts.map((part) => part.content.trim()).join('\n\n'),
+    mediaUrls: parts.flatMap((part) => part.mediaUrls ?? []),
+  };
+}
+
+/**
+ * Length problems per part and platform. On reply-chain platforms each
+ * part is checked on its own (hashtags and mentions go on the first);
+ * elsewhere the joined text is checked as a single post.
+ */
+export function validateThreadParts(
+  parts: ThreadPart[],
+  platforms: string[],
+  hashtags: string[] = [],
+  mentions: string[] = []
+): ThreadPartIssue[] {
+  const issues: ThreadPartIssue[] = [];
+
+  parts.forEach((part, index) => {
+    if (!part.content.trim()) {
+      issues.push({ part: index, platform: '', message: `Part ${index + 1} is empty` });
+    }
+  });
+
+  for (const platform of platforms) {
+    if (THREAD_PLATFORMS.includes(platform)) {
+      parts.forEach((part, index) => {
+        const formatted = formatForPlatform(
+          part.content,
+          platform as Platform,
+          index === 0 ? hashtags : [],
+          index === 0 ? mentions : []
+        );
+        if (!formatted.isWithinLimit) {
+          issues.push({
+            part: index,
+            platform,
+            message: `Part ${index + 1} is too long for ${platform} (${formatted.characterCount}/${formatted.maxCharacters})`,
+          });
+        }
+      });
+    } else {
+      const formatted = formatForPlatform(joinThreadParts(parts).content, platform as Platform, hashtags, mentions);
+      if (!formatted.isWithinLimit) {
+        issues.push({
+          part: parts.length - 1,
+          platform,
+          message: `The joined thread is too long for ${platform} (${formatted.characterCount}/${formatted.maxCharacters})`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
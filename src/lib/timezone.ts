@@ -0,0 +1,192 @@
+/**
+ * Time zone helpers built on Intl, shared by the UI and the Convex scheduler
+ * Wall-clock values are always read and written in an explicit IANA zone so
+ * scheduling never depends on the browser's or the server's local time
+ */
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 0-based, like Date
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+}
+
+export const COMMON_TIMEZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Berlin',
+  'Africa/Lagos',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+];
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Intl formatters are expensive to build, so keep one per zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Wall-clock date and time of an instant in a zone
+ */
+export function getZonedParts(timestamp: number, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(timestamp))) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month) - 1,
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Offset of a zone from UTC at an instant, in ms (positive east of UTC)
+ */
+export function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const p = getZonedParts(timestamp, timeZone);
+  const asUtc = Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * Instant at which a wall-clock time occurs in a zone. Times skipped by a
+ * DST jump move forward by the size of the jump; times repeated when the
+ * clocks go back resolve to the first of the two.
+ */
+export function zonedDateTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): number {
+  const wallClock = Date.UTC(year, month, day, hour, minute);
+  if (timeZone === 'UTC') {
+    return wallClock;
+  }
+
+  // Offsets on either side of a possible transition
+  const before = getTimeZoneOffset(wallClock - 24 * 60 * 60 * 1000, timeZone);
+  const after = getTimeZoneOffset(wallClock + 24 * 60 * 60 * 1000, timeZone);
+
+  const earlier = wallClock - before;
+  if (getTimeZoneOffset(earlier, timeZone) === before) {
+    return earlier;
+  }
+
+  const later = wallClock - after;
+  if (getTimeZoneOffset(later, timeZone) === after) {
+    return later;
+  }
+
+  // Inside a spring-forward gap: read with the old offset, which lands past the jump
+  return earlier;
+}
+
+/**
+ * Instant for "YYYY-MM-DD" + "HH:mm" read in a zone
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return zonedDateTimeToUtc(year, month - 1, day, hour, minute, timeZone);
+}
+
+/**
+ * "YYYY-MM-DD" of an instant in a zone
+ */
+export function toZonedDateKey(timestamp: number, timeZone: string): string {
+  const p = getZonedParts(timestamp, timeZone);
+  return `${p.year}-${String(p.month + 1).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/**
+ * "HH:mm" of an instant in a zone
+ */
+export function toZonedTimeValue(timestamp: number, timeZone: string): string {
+  const p = getZonedParts(timestamp, timeZone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+export function formatInTimeZone(
+  timestamp: number,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions
+): string {
+  return new Date(timestamp).toLocaleString('en-US', { ...options, timeZone });
+}
+
+/**
+ * Short zone label at an instant, e.g. "EST" or "GMT+5:30"
+ */
+export function getTimeZoneAbbreviation(timestamp: number, timeZone: string): string {
+  return (
+    new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+      .formatToParts(new Date(timestamp))
+      .find((part) => part.type === 'timeZoneName')?.value ?? timeZone
+  );
+}
+
+/**
+ * Calendar arithmetic on "YYYY-MM-DD" keys, independent of any zone
+ */
+export function shiftDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+export function getDateKeyWeekday(dateKey: string): number {
+  return new Date(`${dateKey}T00:00Z`).getUTCDay();
+}
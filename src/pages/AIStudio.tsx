@@ -16,6 +16,7 @@ import {
   CheckCircle2,
 } from 'lucide-react';
 import { Button } from '../components/ui/Button';
+import { useMediaMutations } from '../hooks/convex/useMedia';
 
 type GeneratorTab = 'text' | 'image' | 'video' | 'hashtags';
 type Platform = 'instagram' | 'facebook' | 'twitter' | 'linkedin' | 'youtube';
@@ -23,6 +24,19 @@ type Tone = 'professional' | 'casual' | 'humorous' | 'inspiring';
 type ImageStyle = 'realistic' | 'artistic' | 'minimalist' | 'vibrant' | 'professional';
 type AspectRatio = '1:1' | '16:9' | '9:16' | '4:5';
 
+function LibraryStatusLine({ status }: { status?: 'saving' | 'saved' | 'failed' }) {
+  if (!status) return null;
+  return (
+    <p className={`text-center text-xs ${status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+      {status === 'saving'
+        ? 'Saving to your media library...'
+        : status === 'saved'
+        ? 'Saved to your media library'
+        : "Couldn't save this to your media library"}
+    </p>
+  );
+}
+
 export function AIStudio() {
   const [activeTab, setActiveTab] = useState<GeneratorTab>('text');
 
@@ -66,6 +80,29 @@ export function AIStudio() {
   const [isGeneratingHashtags, setIsGeneratingHashtags] = useState(false);
   const [hashtagError, setHashtagError] = useState<string | null>(null);
 
+  // Generated images and videos are copied into the media library as they arrive
+  const { saveGenerated } = useMediaMutations();
+  const [libraryStatus, setLibraryStatus] = useState<Record<string, 'saving' | 'saved' | 'failed'>>({});
+  const savedUrlsRef = useRef(new Set<string>());
+
+  const saveToLibrary = useCallback(
+    async (url: string, kind: 'image' | 'video', prompt: string) => {
+      // A late poll can report the same video twice
+      if (savedUrlsRef.current.has(url)) return;
+      savedUrlsRef.current.add(url);
+
+      setLibraryStatus((prev) => ({ ...prev, [url]: 'saving' }));
+      try {
+        await saveGenerated({ url, kind, prompt });
+        setLibraryStatus((prev) => ({ ...prev, [url]: 'saved' }));
+      } catch (error) {
+        console.error('Failed to save to media library:', error);
+        setLibraryStatus((prev) => ({ ...prev, [url]: 'failed' }));
+      }
+    },
+    [saveGenerated]
+  );
+
   // Cleanup intervals on unmount
   useEffect(() => {
     return () => {
@@ -103,6 +140,7 @@ export function AIStudio() {
         setVideoProgress(100);
         setIsGeneratingVideo(false);
         stopVideoTimers();
+        saveToLibrary(data.videoUrl, 'video', videoPrompt);
       } else if (data.status === 'failed') {
         setVideoError(data.error || 'Video generation failed');
         setVideoStatus('');
@@ -125,7 +163,7 @@ export function AIStudio() {
       console.error('Error polling video status:', error);
       // Don't stop on network errors, just log and continue polling
     }
-  }, [stopVideoTimers]);
+  }, [stopVideoTimers, saveToLibrary, videoPrompt]);
 
   const handleGenerateText = async () => {
     if (!textPrompt.trim()) return;
@@ -222,6 +260,7 @@ export function AIStudio() {
 
       const data = await response.json();
       setGeneratedImageUrl(data.imageUrl);
+      saveToLibrary(data.imageUrl, 'image', imagePrompt);
     } catch (error) {
       setImageError(error instanceof Error ? error.message : 'Failed to generate image');
     } finally {
@@ -596,6 +635,7 @@ export function AIStudio() {
                     <span className="font-medium">Image Ready!</span>
                     <span className="text-green-500 text-sm">({imageElapsedTime}s)</span>
                   </div>
+                  <LibraryStatusLine status={libraryStatus[generatedImageUrl]} />
 
                   {/* Primary Action Buttons */}
                   <div className="grid grid-cols-2 gap-3">
@@ -784,6 +824,7 @@ export function AIStudio() {
                     <span className="font-medium">Video Ready!</span>
                     <span className="text-green-500 text-sm">({videoElapsedTime}s)</span>
                   </div>
+                  <LibraryStatusLine status={libraryStatus[generatedVideoUrl]} />
 
                   {/* Primary Action Buttons */}
                   <div className="grid grid-cols-2 gap-3">
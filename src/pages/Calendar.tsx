@@ -1,124 +1,293 @@
 import { useState, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   ChevronLeft,
   ChevronRight,
   Plus,
-  Instagram,
-  Facebook,
-  Twitter,
-  Linkedin,
-  Youtube,
   Loader2,
+  Repeat,
+  Undo2,
+  X,
+  AlertCircle,
+  Shuffle,
 } from 'lucide-react';
 import { DashboardLayout } from '../components/layout';
 import { Button } from '../components/ui/Button';
 import { Badge } from '../components/ui/Badge';
 import { ContentEditor } from '../components/content';
-import { useScheduledPosts, useCreatePost } from '../hooks/convex/usePosts';
-
-const platformIcons: Record<string, React.ComponentType<{ className?: string }>> = {
-  instagram: Instagram,
-  facebook: Facebook,
-  twitter: Twitter,
-  linkedin: Linkedin,
-  youtube: Youtube,
+import type { OccurrenceEditScope } from '../components/content/ContentEditor';
+import {
+  AgendaView,
+  CalendarFeedMenu,
+  EventChip,
+  EventsManager,
+  MonthView,
+  TimeGridView,
+  groupEventsByDate,
+  platformColors,
+  platformIcons,
+  toCalendarPost,
+  type ScheduledPost,
+} from '../components/calendar';
+import { useCalendarEvents } from '../hooks/convex/useEvents';
+import { useDensityRules, useSpreadDay } from '../hooks/convex/useDensity';
+import { usePostMutations, useScheduledPosts, type Post } from '../hooks/convex/usePosts';
+import { useUserTimezone } from '../hooks/convex/useUser';
+import { useCampaigns } from '../hooks/convex/useCampaigns';
+import { getNextOccurrence, getOccurrences, type RecurrenceRule } from '../lib/recurrence';
+import type { ThreadPart } from '../lib/thread';
+import type { Id } from '../../convex/_generated/dataModel';
+import { findDensityConflicts, findOverloadedDays, type DensityEntry } from '../lib/density';
+import {
+  formatInTimeZone,
+  getDateKeyWeekday,
+  getZonedParts,
+  shiftDateKey,
+  toZonedDateKey,
+  zonedTimeToUtc,
+} from '../lib/timezone';
+
+type CalendarView = 'month' | 'week' | 'day' | 'agenda';
+
+const AGENDA_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const viewOptions: { value: CalendarView; label: string }[] = [
+  { value: 'month', label: 'Month' },
+  { value: 'week', label: 'Week' },
+  { value: 'day', label: 'Day' },
+  { value: 'agenda', label: 'Agenda' },
+];
+
+// A drag-and-drop reschedule that can still be undone
+type LastMove = {
+  postId: Post['_id'];
+  title: string;
+  from: number;
+  to: number;
+};
+
+// First and last day key shown by a view around the anchor date
+const getVisibleRange = (view: CalendarView, anchor: string): { start: string; end: string } => {
+  switch (view) {
+    case 'month': {
+      const start = `${anchor.slice(0, 7)}-01`;
+      const [year, month] = start.split('-').map(Number);
+      const end = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+      return { start, end };
+    }
+    case 'week': {
+      const start = shiftDateKey(anchor, -getDateKeyWeekday(anchor));
+      return { start, end: shiftDateKey(start, 6) };
+    }
+    case 'day':
+      return { start: anchor, end: anchor };
+    case 'agenda':
+      return { start: anchor, end: shiftDateKey(anchor, AGENDA_DAYS - 1) };
+  }
+};
+
+// Anchor date one step backwards or forwards in a view
+const stepAnchor = (view: CalendarView, anchor: string, direction: 1 | -1): string => {
+  switch (view) {
+    case 'month': {
+      const [year, month] = anchor.split('-').map(Number);
+      return new Date(Date.UTC(year, month - 1 + direction, 1)).toISOString().slice(0, 10);
+    }
+    case 'week':
+      return shiftDateKey(anchor, 7 * direction);
+    case 'day':
+      return shiftDateKey(anchor, direction);
+    case 'agenda':
+      return shiftDateKey(anchor, AGENDA_DAYS * direction);
+  }
 };
 
-const platformColors: Record<string, string> = {
-  instagram: 'bg-gradient-to-r from-purple-500 to-pink-500',
-  facebook: 'bg-blue-600',
-  twitter: 'bg-black',
-  linkedin: 'bg-blue-700',
-  youtube: 'bg-red-600',
+const formatDateKey = (dateKey: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(`${dateKey}T00:00:00`).toLocaleDateString('en-US', options);
+
+const getViewTitle = (view: CalendarView, start: string, end: string): string => {
+  switch (view) {
+    case 'month':
+      return formatDateKey(start, { month: 'long', year: 'numeric' });
+    case 'day':
+      return formatDateKey(start, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+    default:
+      return `${formatDateKey(start, { month: 'short', day: 'numeric' })} – ${formatDateKey(end, {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+      })}`;
+  }
 };
 
 export function Calendar() {
-  const [currentDate, setCurrentDate] = useState(new Date()); // Start with current month
+  const [now] = useState(() => Date.now());
+  const timezone = useUserTimezone();
+  const todayKey = toZonedDateKey(now, timezone);
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchorDate, setAnchorDate] = useState<string | null>(null); // null follows today
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
   const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [openedPost, setOpenedPost] = useState<ScheduledPost | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [lastMove, setLastMove] = useState<LastMove | null>(null);
 
   // Convex data
   const rawScheduledPosts = useScheduledPosts();
-  const createPost = useCreatePost();
-
-  // Transform posts to calendar format
-  type RawPost = { _id: string; title?: string; content: string; platforms: string[]; scheduledAt?: number };
+  const { createPost, updatePost, editOccurrence, skipOccurrence, schedulePost } = usePostMutations();
+  const densityRules = useDensityRules();
+  const spreadDay = useSpreadDay();
+  const campaigns = useCampaigns();
+  const [isSpreading, setIsSpreading] = useState(false);
+
+  const anchor = anchorDate ?? todayKey;
+  const visibleRange = getVisibleRange(view, anchor);
+  const rangeStart = zonedTimeToUtc(visibleRange.start, '00:00', timezone);
+  const rangeEnd = zonedTimeToUtc(shiftDateKey(visibleRange.end, 1), '00:00', timezone) - 1;
+
+  // All-day events are stored at midnight UTC, so pad the range by a day either side
+  const rawEvents = useCalendarEvents({ from: rangeStart - DAY_MS, to: rangeEnd + DAY_MS });
+
+  // Campaign colors by id, for color-coding posts
+  const colorOf = useMemo(() => {
+    const colors = new Map<string, string>((campaigns ?? []).map((campaign) => [campaign._id, campaign.color]));
+    return (post: Post) => (post.campaignId ? colors.get(post.campaignId) : undefined);
+  }, [campaigns]);
+
+  // Posts expanded into their occurrences for the visible range
   const scheduledPosts = useMemo(() => {
     if (!rawScheduledPosts) return [];
-    return rawScheduledPosts.map((post: RawPost) => {
-      const scheduledDate = post.scheduledAt ? new Date(post.scheduledAt) : new Date();
-      return {
-        id: post._id,
-        title: post.title || post.content.slice(0, 30) + '...',
-        time: scheduledDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true }),
-        platforms: post.platforms,
-        date: scheduledDate.toISOString().split('T')[0],
-        scheduledAt: post.scheduledAt,
-      };
-    });
-  }, [rawScheduledPosts]);
+
+    return rawScheduledPosts
+      .flatMap((post) => {
+        if (!post.scheduledAt) return [];
+        if (!post.recurrence) {
+          return post.scheduledAt >= rangeStart && post.scheduledAt <= rangeEnd
+            ? [toCalendarPost(post, post.scheduledAt, timezone, colorOf(post))]
+            : [];
+        }
+        return getOccurrences(post.scheduledAt, post.recurrence, rangeStart, rangeEnd).map((occurrenceAt) =>
+          toCalendarPost(post, occurrenceAt, timezone, colorOf(post))
+        );
+      })
+      .sort((a, b) => a.scheduledAt - b.scheduledAt);
+  }, [rawScheduledPosts, rangeStart, rangeEnd, timezone, colorOf]);
+
+  // Every platform send in view, for the density checks
+  const densityEntries: DensityEntry[] = useMemo(
+    () =>
+      scheduledPosts.flatMap((post) =>
+        post.platforms.map((platform) => ({ postId: post.id, platform, at: post.scheduledAt }))
+      ),
+    [scheduledPosts]
+  );
+
+  const overloadedDays = useMemo(
+    () => findOverloadedDays(densityEntries, densityRules ?? [], timezone),
+    [densityEntries, densityRules, timezone]
+  );
+
+  // Events by day, limited to the visible days
+  const eventsByDate = useMemo(() => {
+    const byDate = groupEventsByDate(rawEvents ?? [], timezone);
+    for (const dateKey of byDate.keys()) {
+      if (dateKey < visibleRange.start || dateKey > visibleRange.end) {
+        byDate.delete(dateKey);
+      }
+    }
+    return byDate;
+  }, [rawEvents, timezone, visibleRange.start, visibleRange.end]);
+
+  // Next occurrence of every post, for the sidebar
+  const upcomingPosts = useMemo(() => {
+    if (!rawScheduledPosts) return [];
+    return rawScheduledPosts
+      .flatMap((post) => {
+        if (!post.scheduledAt) return [];
+        const next = post.recurrence ? getNextOccurrence(post.scheduledAt, post.recurrence, now) : post.scheduledAt;
+        return next === null ? [] : [toCalendarPost(post, next, timezone, colorOf(post))];
+      })
+      .sort((a, b) => a.scheduledAt - b.scheduledAt);
+  }, [rawScheduledPosts, now, timezone, colorOf]);
+
+  // ?post=<id> (links from the calendar feed) opens that post's next occurrence
+  const linkedPostId = searchParams.get('post');
+  const linkedPost = useMemo(() => {
+    const post = linkedPostId ? rawScheduledPosts?.find((p) => p._id === linkedPostId) : undefined;
+    if (!post?.scheduledAt) return null;
+    const next = post.recurrence ? getNextOccurrence(post.scheduledAt, post.recurrence, now) : null;
+    return toCalendarPost(post, next ?? post.scheduledAt, timezone, colorOf(post));
+  }, [linkedPostId, rawScheduledPosts, now, timezone, colorOf]);
+
+  const editingPost = openedPost ?? linkedPost;
 
   const isLoading = rawScheduledPosts === undefined;
 
-  const daysInMonth = new Date(
-    currentDate.getFullYear(),
-    currentDate.getMonth() + 1,
-    0
-  ).getDate();
-
-  const firstDayOfMonth = new Date(
-    currentDate.getFullYear(),
-    currentDate.getMonth(),
-    1
-  ).getDay();
-
-  const monthNames = [
-    'January',
-    'February',
-    'March',
-    'April',
-    'May',
-    'June',
-    'July',
-    'August',
-    'September',
-    'October',
-    'November',
-    'December',
-  ];
-
-  const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-
-  const goToPreviousMonth = () => {
-    setCurrentDate(
-      new Date(currentDate.getFullYear(), currentDate.getMonth() - 1, 1)
-    );
+  const changeView = (next: CalendarView) => {
+    setView(next);
+    // Day view opens on the day being looked at
+    if (next === 'day' && selectedDate) {
+      setAnchorDate(selectedDate);
+    }
   };
 
-  const goToNextMonth = () => {
-    setCurrentDate(
-      new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1)
-    );
+  const openEditor = (post: ScheduledPost | null) => {
+    setOpenedPost(post);
+    setIsEditorOpen(true);
   };
 
-  const goToToday = () => {
-    setCurrentDate(new Date());
+  const closeEditor = () => {
+    setIsEditorOpen(false);
+    setOpenedPost(null);
+    if (linkedPostId) {
+      setSearchParams({}, { replace: true });
+    }
   };
 
-  const formatDateKey = (day: number) => {
-    const month = String(currentDate.getMonth() + 1).padStart(2, '0');
-    const dayStr = String(day).padStart(2, '0');
-    return `${currentDate.getFullYear()}-${month}-${dayStr}`;
-  };
+  // Drop a post on another day (keeping its time) or another hourly lane (keeping its minutes)
+  const handleMovePost = async (postKey: string, dateKey: string, hour?: number) => {
+    const post = scheduledPosts.find((p) => p.key === postKey);
+    if (!post || post.post.recurrence) return;
+
+    const wallClock = getZonedParts(post.scheduledAt, timezone);
+    const time = `${String(hour ?? wallClock.hour).padStart(2, '0')}:${String(wallClock.minute).padStart(2, '0')}`;
+    const scheduledAt = zonedTimeToUtc(dateKey, time, timezone);
+    if (scheduledAt === post.scheduledAt) return;
+
+    if (
+      scheduledAt < Date.now() &&
+      !confirm('That time is in the past, so the post will be published right away. Move it anyway?')
+    ) {
+      return;
+    }
 
-  type ScheduledPost = { id: string; title: string; time: string; platforms: string[]; date: string; scheduledAt?: number };
-  const getPostsForDay = (day: number): ScheduledPost[] => {
-    const dateKey = formatDateKey(day);
-    return scheduledPosts.filter((post: ScheduledPost) => post.date === dateKey);
+    const conflicts = findDensityConflicts(
+      { platforms: post.platforms, at: scheduledAt },
+      densityEntries.filter((entry) => entry.postId !== post.id),
+      densityRules ?? [],
+      timezone
+    );
+    if (conflicts.length > 0 && !confirm(`${conflicts.map((c) => c.message).join('\n')}\n\nMove it anyway?`)) {
+      return;
+    }
+
+    try {
+      await schedulePost({ postId: post.id, scheduledAt, ignoreDensity: conflicts.length > 0 });
+      setLastMove({ postId: post.id, title: post.title, from: post.scheduledAt, to: scheduledAt });
+    } catch (error) {
+      console.error('Failed to reschedule post:', error);
+    }
   };
 
-  const handleDateClick = (day: number) => {
-    setSelectedDate(formatDateKey(day));
+  const handleUndoMove = async () => {
+    if (!lastMove) return;
+    try {
+      await schedulePost({ postId: lastMove.postId, scheduledAt: lastMove.from, ignoreDensity: true });
+      setLastMove(null);
+    } catch (error) {
+      console.error('Failed to undo reschedule:', error);
+    }
   };
 
   const handleSave = async (data: {
@@ -127,50 +296,122 @@ export function Calendar() {
     platforms: string[];
     status: string;
     scheduledAt?: string;
+    timezone: string;
+    recurrence: RecurrenceRule | null;
+    postType: 'single' | 'thread';
+    threadParts?: ThreadPart[];
+    hashtagPlacement: 'caption' | 'first-comment';
     mediaUrls?: string[];
     mediaType?: string;
-    hashtags?: string[];
+    platformSpecificContent?: Record<string, unknown>;
+    campaignId: string | null;
+    pillarId: string | null;
+    editScope?: OccurrenceEditScope;
+    addToQueue?: boolean;
+    ignoreDensity?: boolean;
   }) => {
+    const scheduledAt = data.scheduledAt ? new Date(data.scheduledAt).getTime() : undefined;
+
     try {
-      await createPost({
-        title: data.title,
-        content: data.content,
-        platforms: data.platforms,
-        status: data.scheduledAt ? 'scheduled' : 'draft',
-        scheduledAt: data.scheduledAt ? new Date(data.scheduledAt).getTime() : undefined,
-        mediaUrls: data.mediaUrls,
-        mediaType: data.mediaType,
-        hashtags: data.hashtags,
-        wasAiGenerated: false,
-      });
-      setIsEditorOpen(false);
+      if (editingPost?.post.recurrence && data.editScope) {
+        // Turning repetition off from an occurrence on leaves just that one post
+        const recurrence = data.recurrence ?? { ...editingPost.post.recurrence, until: undefined, count: 1 };
+        await editOccurrence({
+          postId: editingPost.id,
+          occurrenceAt: editingPost.scheduledAt,
+          scope: data.editScope,
+          title: data.title,
+          content: data.content,
+          postType: data.postType,
+          threadParts: data.threadParts,
+          hashtagPlacement: data.hashtagPlacement,
+          mediaUrls: data.mediaUrls,
+          mediaType: data.mediaType,
+          platformSpecificContent: data.platformSpecificContent,
+          platforms: data.platforms,
+          scheduledAt,
+          timezone: data.timezone,
+          recurrence: data.editScope === 'future' ? recurrence : undefined,
+          campaignId: data.campaignId as Id<'campaigns'> | null,
+          pillarId: data.pillarId as Id<'contentPillars'> | null,
+        });
+      } else if (editingPost) {
+        await updatePost({
+          postId: editingPost.id,
+          title: data.title,
+          content: data.content,
+          postType: data.postType,
+          threadParts: data.threadParts,
+          hashtagPlacement: data.hashtagPlacement,
+          mediaUrls: data.mediaUrls,
+          mediaType: data.mediaType,
+          platformSpecificContent: data.platformSpecificContent,
+          platforms: data.platforms,
+          status: scheduledAt ? 'scheduled' : 'draft',
+          scheduledAt,
+          timezone: data.timezone,
+          recurrence: data.recurrence,
+          campaignId: data.campaignId as Id<'campaigns'> | null,
+          pillarId: data.pillarId as Id<'contentPillars'> | null,
+          queued: data.addToQueue,
+          ignoreDensity: data.ignoreDensity,
+        });
+      } else {
+        await createPost({
+          title: data.title,
+          content: data.content,
+          postType: data.postType,
+          threadParts: data.threadParts,
+          hashtagPlacement: data.hashtagPlacement,
+          mediaUrls: data.mediaUrls,
+          mediaType: data.mediaType,
+          platformSpecificContent: data.platformSpecificContent,
+          platforms: data.platforms,
+          status: scheduledAt ? 'scheduled' : 'draft',
+          scheduledAt,
+          timezone: data.timezone,
+          recurrence: data.recurrence ?? undefined,
+          campaignId: (data.campaignId as Id<'campaigns'> | null) ?? undefined,
+          pillarId: (data.pillarId as Id<'contentPillars'> | null) ?? undefined,
+          queued: data.addToQueue,
+          ignoreDensity: data.ignoreDensity,
+          wasAiGenerated: false,
+        });
+      }
+      closeEditor();
     } catch (error) {
       console.error('Failed to save post:', error);
     }
   };
 
-  // Generate calendar grid
-  const calendarDays = [];
-  for (let i = 0; i < firstDayOfMonth; i++) {
-    calendarDays.push(null);
-  }
-  for (let day = 1; day <= daysInMonth; day++) {
-    calendarDays.push(day);
-  }
+  const handleSpreadDay = async (dateKey: string) => {
+    setIsSpreading(true);
+    try {
+      await spreadDay({ date: dateKey });
+    } catch (error) {
+      console.error('Failed to spread out posts:', error);
+    } finally {
+      setIsSpreading(false);
+    }
+  };
 
-  const today = new Date();
-  const isToday = (day: number) => {
-    return (
-      day === today.getDate() &&
-      currentDate.getMonth() === today.getMonth() &&
-      currentDate.getFullYear() === today.getFullYear()
-    );
+  const handleSkip = async (post: ScheduledPost) => {
+    try {
+      await skipOccurrence({ postId: post.id, occurrenceAt: post.scheduledAt });
+    } catch (error) {
+      console.error('Failed to skip occurrence:', error);
+    }
   };
 
   const selectedDatePosts: ScheduledPost[] = selectedDate
     ? scheduledPosts.filter((post: ScheduledPost) => post.date === selectedDate)
     : [];
 
+  const visibleDays: string[] = [];
+  for (let day = visibleRange.start; day <= visibleRange.end; day = shiftDateKey(day, 1)) {
+    visibleDays.push(day);
+  }
+
   if (isLoading) {
     return (
       <DashboardLayout>
@@ -189,13 +430,17 @@ export function Calendar() {
           <div>
             <h1 className="text-2xl font-bold text-gray-900">Content Calendar</h1>
             <p className="text-gray-500 mt-1">
-              Plan and schedule your social media content
+              Plan and schedule your social media content · Times in {timezone}
             </p>
           </div>
-          <Button onClick={() => setIsEditorOpen(true)}>
-            <Plus className="h-4 w-4 mr-1" />
-            Schedule Post
-          </Button>
+          <div className="flex items-center gap-3">
+            <EventsManager timezone={timezone} />
+            <CalendarFeedMenu posts={rawScheduledPosts} />
+            <Button onClick={() => openEditor(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Schedule Post
+            </Button>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
@@ -205,21 +450,36 @@ export function Calendar() {
             <div className="flex items-center justify-between p-4 border-b border-gray-200">
               <div className="flex items-center gap-4">
                 <h2 className="text-lg font-semibold text-gray-900">
-                  {monthNames[currentDate.getMonth()]} {currentDate.getFullYear()}
+                  {getViewTitle(view, visibleRange.start, visibleRange.end)}
                 </h2>
-                <Button variant="secondary" size="sm" onClick={goToToday}>
+                <Button variant="secondary" size="sm" onClick={() => setAnchorDate(null)}>
                   Today
                 </Button>
               </div>
               <div className="flex items-center gap-2">
+                <div className="flex rounded-lg border border-gray-200 p-0.5">
+                  {viewOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => changeView(option.value)}
+                      className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                        view === option.value
+                          ? 'bg-primary-50 text-primary-700'
+                          : 'text-gray-600 hover:text-gray-900'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
                 <button
-                  onClick={goToPreviousMonth}
+                  onClick={() => setAnchorDate(stepAnchor(view, anchor, -1))}
                   className="p-2 rounded-lg hover:bg-gray-100"
                 >
                   <ChevronLeft className="h-5 w-5 text-gray-600" />
                 </button>
                 <button
-                  onClick={goToNextMonth}
+                  onClick={() => setAnchorDate(stepAnchor(view, anchor, 1))}
                   className="p-2 rounded-lg hover:bg-gray-100"
                 >
                   <ChevronRight className="h-5 w-5 text-gray-600" />
@@ -227,87 +487,39 @@ export function Calendar() {
               </div>
             </div>
 
-            {/* Calendar Grid */}
-            <div className="p-4">
-              {/* Day Headers */}
-              <div className="grid grid-cols-7 gap-1 mb-2">
-                {dayNames.map((day) => (
-                  <div
-                    key={day}
-                    className="text-center text-xs font-medium text-gray-500 py-2"
-                  >
-                    {day}
-                  </div>
-                ))}
-              </div>
-
-              {/* Calendar Days */}
-              <div className="grid grid-cols-7 gap-1">
-                {calendarDays.map((day, index) => {
-                  if (day === null) {
-                    return <div key={index} className="min-h-[100px]" />;
-                  }
-
-                  const posts = getPostsForDay(day);
-                  const dateKey = formatDateKey(day);
-                  const isSelected = selectedDate === dateKey;
-
-                  return (
-                    <div
-                      key={index}
-                      onClick={() => handleDateClick(day)}
-                      className={`min-h-[100px] p-2 rounded-lg border cursor-pointer transition-colors ${
-                        isToday(day)
-                          ? 'bg-primary-50 border-primary-200'
-                          : isSelected
-                          ? 'bg-gray-100 border-gray-300'
-                          : 'border-gray-100 hover:bg-gray-50'
-                      }`}
-                    >
-                      <span
-                        className={`text-sm font-medium ${
-                          isToday(day) ? 'text-primary-600' : 'text-gray-900'
-                        }`}
-                      >
-                        {day}
-                      </span>
-
-                      {/* Posts Preview */}
-                      <div className="mt-1 space-y-1">
-                        {posts.slice(0, 2).map((post: ScheduledPost) => (
-                          <div
-                            key={post.id}
-                            className="flex items-center gap-1 p-1 bg-white rounded text-xs shadow-sm"
-                          >
-                            <div className="flex -space-x-1">
-                              {post.platforms.slice(0, 2).map((platform: string) => {
-                                const Icon = platformIcons[platform];
-                                return Icon ? (
-                                  <div
-                                    key={platform}
-                                    className={`w-4 h-4 rounded-full flex items-center justify-center ${platformColors[platform]}`}
-                                  >
-                                    <Icon className="h-2.5 w-2.5 text-white" />
-                                  </div>
-                                ) : null;
-                              })}
-                            </div>
-                            <span className="truncate text-gray-600">
-                              {post.time}
-                            </span>
-                          </div>
-                        ))}
-                        {posts.length > 2 && (
-                          <span className="text-xs text-gray-400">
-                            +{posts.length - 2} more
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            </div>
+            {view === 'month' && (
+              <MonthView
+                monthStart={visibleRange.start}
+                posts={scheduledPosts}
+                eventsByDate={eventsByDate}
+                overloadedDays={overloadedDays}
+                todayKey={todayKey}
+                selectedDate={selectedDate}
+                onSelectDate={setSelectedDate}
+                onOpenPost={openEditor}
+                onMovePost={handleMovePost}
+              />
+            )}
+            {(view === 'week' || view === 'day') && (
+              <TimeGridView
+                days={visibleDays}
+                posts={scheduledPosts}
+                eventsByDate={eventsByDate}
+                overloadedDays={overloadedDays}
+                todayKey={todayKey}
+                onSelectDate={setSelectedDate}
+                onOpenPost={openEditor}
+                onMovePost={handleMovePost}
+              />
+            )}
+            {view === 'agenda' && (
+              <AgendaView
+                posts={scheduledPosts}
+                eventsByDate={eventsByDate}
+                todayKey={todayKey}
+                onOpenPost={openEditor}
+              />
+            )}
           </div>
 
           {/* Sidebar - Selected Day Details */}
@@ -322,15 +534,53 @@ export function Calendar() {
                 : 'Select a date'}
             </h3>
 
+            {selectedDate && overloadedDays.has(selectedDate) && (
+              <div className="mb-3 rounded-lg bg-red-50 p-3 text-xs text-red-700 space-y-1">
+                {overloadedDays.get(selectedDate)!.map((conflict) => (
+                  <p key={`${conflict.platform}-${conflict.rule}`} className="flex items-start gap-1.5">
+                    <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 mt-px" />
+                    {conflict.message}
+                  </p>
+                ))}
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="mt-2"
+                  onClick={() => handleSpreadDay(selectedDate)}
+                  disabled={isSpreading}
+                >
+                  {isSpreading ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Shuffle className="h-4 w-4 mr-1" />
+                  )}
+                  Spread these out
+                </Button>
+              </div>
+            )}
+
+            {selectedDate && eventsByDate.has(selectedDate) && (
+              <div className="mb-3 space-y-1">
+                {eventsByDate.get(selectedDate)!.map((event) => (
+                  <EventChip key={event._id} event={event} />
+                ))}
+              </div>
+            )}
+
             {selectedDatePosts.length > 0 ? (
               <div className="space-y-3">
                 {selectedDatePosts.map((post: ScheduledPost) => (
                   <div
-                    key={post.id}
-                    className="p-3 bg-gray-50 rounded-lg hover:bg-gray-100 cursor-pointer transition-colors"
+                    key={post.key}
+                    onClick={() => openEditor(post)}
+                    className={`p-3 bg-gray-50 rounded-lg hover:bg-gray-100 cursor-pointer transition-colors ${
+                      post.campaignColor ? 'border-l-4' : ''
+                    }`}
+                    style={post.campaignColor ? { borderLeftColor: post.campaignColor } : undefined}
                   >
                     <div className="flex items-center justify-between mb-2">
-                      <span className="text-sm font-medium text-gray-900">
+                      <span className="flex items-center gap-1.5 text-sm font-medium text-gray-900">
+                        {post.post.recurrence && <Repeat className="h-3.5 w-3.5 text-gray-400" />}
                         {post.title}
                       </span>
                       <Badge variant="secondary" size="sm">
@@ -349,6 +599,17 @@ export function Calendar() {
                           </div>
                         ) : null;
                       })}
+                      {post.post.recurrence && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleSkip(post);
+                          }}
+                          className="ml-auto text-xs text-gray-500 hover:text-gray-700"
+                        >
+                          Skip this one
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -361,7 +622,7 @@ export function Calendar() {
                 <Button
                   variant="secondary"
                   size="sm"
-                  onClick={() => setIsEditorOpen(true)}
+                  onClick={() => openEditor(null)}
                 >
                   <Plus className="h-4 w-4 mr-1" />
                   Schedule Post
@@ -379,12 +640,17 @@ export function Calendar() {
                 Upcoming Posts
               </h4>
               <div className="space-y-2">
-                {scheduledPosts.slice(0, 4).map((post: ScheduledPost) => (
+                {upcomingPosts.slice(0, 4).map((post: ScheduledPost) => (
                   <div
-                    key={post.id}
+                    key={post.key}
                     className="flex items-center justify-between text-sm"
                   >
-                    <span className="text-gray-600 truncate">{post.title}</span>
+                    <span className="flex items-center gap-1.5 text-gray-600 truncate">
+                      {post.campaignColor && (
+                        <span className="h-2 w-2 flex-shrink-0 rounded-full" style={{ backgroundColor: post.campaignColor }} />
+                      )}
+                      {post.title}
+                    </span>
                     <span className="text-xs text-gray-400">
                       {new Date(post.date + 'T00:00:00').toLocaleDateString(
                         'en-US',
@@ -399,11 +665,60 @@ export function Calendar() {
         </div>
       </div>
 
+      {/* Undo last reschedule */}
+      {lastMove && (
+        <div className="fixed bottom-6 left-1/2 z-40 flex -translate-x-1/2 items-center gap-3 rounded-lg bg-gray-900 px-4 py-3 text-sm text-white shadow-lg">
+          <span>
+            Moved "{lastMove.title}" to{' '}
+            {formatInTimeZone(lastMove.to, timezone, {
+              weekday: 'short',
+              month: 'short',
+              day: 'numeric',
+              hour: 'numeric',
+              minute: '2-digit',
+            })}
+          </span>
+          <button
+            onClick={handleUndoMove}
+            className="flex items-center gap-1 font-medium text-primary-300 hover:text-primary-200"
+          >
+            <Undo2 className="h-4 w-4" />
+            Undo
+          </button>
+          <button onClick={() => setLastMove(null)} className="text-gray-400 hover:text-white">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
       {/* Content Editor Modal */}
       <ContentEditor
-        isOpen={isEditorOpen}
-        onClose={() => setIsEditorOpen(false)}
+        key={editingPost?.key ?? 'new'}
+        isOpen={isEditorOpen || linkedPost !== null}
+        onClose={closeEditor}
         onSave={handleSave}
+        initialData={
+          editingPost
+            ? {
+                id: editingPost.id,
+                title: editingPost.post.title ?? '',
+                content: editingPost.post.content,
+                platforms: editingPost.post.platforms,
+                scheduledAt: new Date(editingPost.scheduledAt).toISOString(),
+                timezone: editingPost.post.timezone,
+                recurrence: editingPost.post.recurrence,
+                isSeriesOccurrence: !!editingPost.post.recurrence,
+                postType: editingPost.post.postType,
+                threadParts: editingPost.post.threadParts,
+                hashtagPlacement: editingPost.post.hashtagPlacement,
+                mediaUrls: editingPost.post.mediaUrls,
+                mediaType: editingPost.post.mediaType,
+                platformSpecificContent: editingPost.post.platformSpecificContent,
+                campaignId: editingPost.post.campaignId,
+                pillarId: editingPost.post.pillarId,
+              }
+            : undefined
+        }
       />
     </DashboardLayout>
   );
@@ -0,0 +1,338 @@
+import { useState } from 'react';
+import { Flag, Plus, Loader2, Pencil, Trash2, AlertCircle } from 'lucide-react';
+import { DashboardLayout } from '../components/layout';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { Input } from '../components/ui/Input';
+import { Modal, ModalFooter } from '../components/ui/Modal';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import {
+  useCampaigns,
+  useCampaignRollup,
+  useCampaignMutations,
+  type Campaign,
+  type CampaignGoals,
+} from '../hooks/convex/useCampaigns';
+
+const CAMPAIGN_COLORS = ['#6366f1', '#ec4899', '#f59e0b', '#10b981', '#0ea5e9', '#ef4444', '#8b5cf6', '#64748b'];
+
+const goalLabels: Record<keyof CampaignGoals, string> = {
+  posts: 'Posts',
+  impressions: 'Impressions',
+  engagements: 'Engagements',
+  clicks: 'Clicks',
+};
+
+const formatDateKey = (dateKey: string) =>
+  new Date(dateKey + 'T00:00:00').toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+function CampaignForm({ campaign, onClose }: { campaign: Campaign | null; onClose: () => void }) {
+  const { create, update } = useCampaignMutations();
+  const [name, setName] = useState(campaign?.name ?? '');
+  const [description, setDescription] = useState(campaign?.description ?? '');
+  const [color, setColor] = useState(campaign?.color ?? CAMPAIGN_COLORS[0]);
+  const [startDate, setStartDate] = useState(campaign?.startDate ?? '');
+  const [endDate, setEndDate] = useState(campaign?.endDate ?? '');
+  const [tags, setTags] = useState((campaign?.tags ?? []).join(', '));
+  const [goals, setGoals] = useState<Record<keyof CampaignGoals, string>>({
+    posts: campaign?.goals?.posts?.toString() ?? '',
+    impressions: campaign?.goals?.impressions?.toString() ?? '',
+    engagements: campaign?.goals?.engagements?.toString() ?? '',
+    clicks: campaign?.goals?.clicks?.toString() ?? '',
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const fields = {
+      name,
+      description: description || undefined,
+      color,
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      tags: tags.split(',').filter((tag) => tag.trim()),
+      goals: Object.fromEntries(
+        Object.entries(goals)
+          .filter(([, value]) => value !== '')
+          .map(([key, value]) => [key, Number(value)])
+      ) as CampaignGoals,
+    };
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (campaign) {
+        await update({ campaignId: campaign._id, ...fields });
+      } else {
+        await create(fields);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={campaign ? 'Edit Campaign' : 'New Campaign'} size="lg">
+      <div className="space-y-5">
+        <Input label="Name" placeholder="e.g., Spring Launch" value={name} onChange={(e) => setName(e.target.value)} />
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Color</label>
+          <div className="flex gap-2">
+            {CAMPAIGN_COLORS.map((option) => (
+              <button
+                key={option}
+                onClick={() => setColor(option)}
+                aria-label={option}
+                className={`h-7 w-7 rounded-full ring-offset-2 transition-shadow ${
+                  color === option ? 'ring-2 ring-gray-900' : ''
+                }`}
+                style={{ backgroundColor: option }}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input label="Starts" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          <Input label="Ends" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Goals</label>
+          <div className="grid grid-cols-2 gap-3">
+            {(Object.keys(goalLabels) as (keyof CampaignGoals)[]).map((key) => (
+              <label key={key} className="flex items-center gap-2 text-sm text-gray-600">
+                <span className="w-24">{goalLabels[key]}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={goals[key]}
+                  onChange={(e) => setGoals({ ...goals, [key]: e.target.value })}
+                  className="w-full px-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <Input
+          label="Tags"
+          placeholder="launch, spring, product"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          helperText="Separate tags with commas"
+        />
+
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-1">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {error}
+          </p>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          {campaign ? 'Save Campaign' : 'Create Campaign'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
+
+function GoalBar({ label, actual, target, progress, color }: {
+  label: string;
+  actual: number;
+  target: number;
+  progress: number;
+  color: string;
+}) {
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-500 mb-1">
+        <span>{label}</span>
+        <span>
+          {actual.toLocaleString()} / {target.toLocaleString()}
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-gray-100">
+        <div className="h-1.5 rounded-full" style={{ width: `${progress}%`, backgroundColor: color }} />
+      </div>
+    </div>
+  );
+}
+
+export function Campaigns() {
+  const campaigns = useCampaigns();
+  const rollup = useCampaignRollup();
+  const { remove } = useCampaignMutations();
+  const [editing, setEditing] = useState<Campaign | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const openForm = (campaign: Campaign | null) => {
+    setEditing(campaign);
+    setIsFormOpen(true);
+  };
+
+  const handleRemove = async (campaign: Campaign) => {
+    if (!confirm(`Delete "${campaign.name}"? Its posts stay, just without a campaign.`)) return;
+    try {
+      await remove({ campaignId: campaign._id });
+    } catch (error) {
+      console.error('Failed to delete campaign:', error);
+    }
+  };
+
+  if (campaigns === undefined) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Campaigns</h1>
+            <p className="text-gray-500 mt-1">Group posts into campaigns and track them against their goals</p>
+          </div>
+          <Button onClick={() => openForm(null)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Campaign
+          </Button>
+        </div>
+
+        {campaigns.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <Flag className="h-8 w-8 text-gray-300 mx-auto mb-3" />
+              <p className="text-sm text-gray-500">Create a campaign, then pick it when you write a post</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {campaigns.map((campaign) => {
+              const stats = rollup?.find((r) => r.campaignId === campaign._id);
+              const actuals: Record<keyof CampaignGoals, number> = {
+                posts: stats?.postCount ?? 0,
+                impressions: stats?.impressions ?? 0,
+                engagements: stats?.engagements ?? 0,
+                clicks: stats?.clicks ?? 0,
+              };
+              const goalKeys = (Object.keys(goalLabels) as (keyof CampaignGoals)[]).filter(
+                (key) => campaign.goals?.[key]
+              );
+
+              return (
+                <Card key={campaign._id} className="border-t-4" style={{ borderTopColor: campaign.color }}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <CardTitle>{campaign.name}</CardTitle>
+                        <CardDescription>
+                          {campaign.startDate || campaign.endDate
+                            ? [campaign.startDate, campaign.endDate]
+                                .map((date) => (date ? formatDateKey(date) : '…'))
+                                .join(' – ')
+                            : 'No dates set'}
+                        </CardDescription>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openForm(campaign)} aria-label="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemove(campaign)}
+                          className="text-red-600 hover:bg-red-50"
+                          aria-label="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {campaign.description && <p className="text-sm text-gray-600">{campaign.description}</p>}
+
+                    <div className="grid grid-cols-4 gap-2 text-center">
+                      {[
+                        { label: 'Posts', value: stats?.postCount ?? 0 },
+                        { label: 'Published', value: stats?.publishedCount ?? 0 },
+                        { label: 'Impressions', value: stats?.impressions ?? 0 },
+                        { label: 'Engagement', value: `${(stats?.engagementRate ?? 0).toFixed(1)}%` },
+                      ].map((stat) => (
+                        <div key={stat.label} className="rounded-lg bg-gray-50 p-2">
+                          <p className="text-sm font-semibold text-gray-900">{stat.value.toLocaleString()}</p>
+                          <p className="text-xs text-gray-500">{stat.label}</p>
+                        </div>
+                      ))}
+                    </div>
+
+                    {goalKeys.length > 0 && (
+                      <div className="space-y-2">
+                        {goalKeys.map((key) => (
+                          <GoalBar
+                            key={key}
+                            label={goalLabels[key]}
+                            actual={actuals[key]}
+                            target={campaign.goals![key]!}
+                            progress={stats?.progress[key] ?? 0}
+                            color={campaign.color}
+                          />
+                        ))}
+                      </div>
+                    )}
+
+                    {campaign.tags && campaign.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {campaign.tags.map((tag) => (
+                          <Badge key={tag} variant="secondary" size="sm">
+                            #{tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {isFormOpen && (
+        <CampaignForm
+          key={editing?._id ?? 'new'}
+          campaign={editing}
+          onClose={() => setIsFormOpen(false)}
+        />
+      )}
+    </DashboardLayout>
+  );
+}
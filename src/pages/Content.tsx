@@ -1,24 +1,39 @@
-import { useState, useMemo } from 'react';
-import { Plus, List, LayoutGrid, Loader2 } from 'lucide-react';
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { Plus, List, LayoutGrid, Loader2, Upload } from 'lucide-react';
 import { DashboardLayout } from '../components/layout';
 import { Button } from '../components/ui/Button';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '../components/ui/Tabs';
-import { ContentCard, ContentFilters, ContentEditor } from '../components/content';
-import { usePosts, usePostStats, usePostMutations } from '../hooks/convex/usePosts';
+import { ContentCard, ContentFilters, ContentEditor, ReviewDialog, PostImportDialog, BulkActionBar, TrashList } from '../components/content';
+import { useLinkedPost, usePosts, usePostStats, usePostMutations, type PostFilters } from '../hooks/convex/usePosts';
+import { useUserTimezone } from '../hooks/convex/useUser';
+import { shiftDateKey, zonedTimeToUtc } from '../lib/timezone';
+import { usePendingApprovals } from '../hooks/convex/useApprovals';
+import { useCampaigns } from '../hooks/convex/useCampaigns';
 import type { Id } from '../../convex/_generated/dataModel';
+import type { ThreadPart } from '../lib/thread';
 
-type ContentStatus = 'draft' | 'scheduled' | 'published' | 'failed';
+type ContentStatus = 'draft' | 'scheduled' | 'pending_approval' | 'published' | 'failed';
 
 type ContentItem = {
   id: string;
   title: string;
   content: string;
   mediaUrl?: string;
+  mediaUrls?: string[];
   mediaType?: 'image' | 'video';
+  platformSpecificContent?: Record<string, unknown>;
   platforms: string[];
   status: ContentStatus;
   scheduledAt?: string;
   publishedAt?: string;
+  timezone?: string;
+  postType?: string;
+  threadParts?: ThreadPart[];
+  hashtagPlacement?: string;
+  approvalState?: string;
+  campaignId?: string;
+  pillarId?: string;
   metrics?: {
     views: number;
     likes: number;
@@ -29,70 +44,147 @@ type ContentItem = {
 
 type ViewMode = 'grid' | 'list';
 
+// Transform Convex posts to ContentItem format
+type RawPost = { _id: string; title?: string; content: string; mediaUrls?: string[]; mediaType?: string; platformSpecificContent?: Record<string, unknown>; platforms: string[]; status: string; scheduledAt?: number; publishedAt?: number; timezone?: string; postType?: string; threadParts?: ThreadPart[]; hashtagPlacement?: string; approvalState?: string; campaignId?: string; pillarId?: string };
+
+function toContentItem(post: RawPost): ContentItem {
+  return {
+    id: post._id,
+    title: post.title || '',
+    content: post.content,
+    mediaUrl: post.mediaUrls?.[0],
+    mediaUrls: post.mediaUrls,
+    platformSpecificContent: post.platformSpecificContent,
+    mediaType: post.mediaType as 'image' | 'video' | undefined,
+    platforms: post.platforms,
+    status: post.status as ContentStatus,
+    scheduledAt: post.scheduledAt ? new Date(post.scheduledAt).toISOString() : undefined,
+    publishedAt: post.publishedAt ? new Date(post.publishedAt).toISOString() : undefined,
+    timezone: post.timezone,
+    postType: post.postType,
+    threadParts: post.threadParts,
+    hashtagPlacement: post.hashtagPlacement,
+    approvalState: post.approvalState,
+    campaignId: post.campaignId,
+    pillarId: post.pillarId,
+  };
+}
+
+// AI queue content opened from search, to become a new post
+type AIDraft = {
+  queueItemId: string;
+  content: string;
+  platforms: string[];
+  scheduledAt?: string; // ISO timestamp
+};
+
+type SortOption = 'newest' | 'oldest' | 'scheduled_soonest' | 'scheduled_latest';
+
+const sortOptions: Record<SortOption, { label: string; filters: Pick<PostFilters, 'sortBy' | 'order'> }> = {
+  newest: { label: 'Newest first', filters: { sortBy: 'created', order: 'desc' } },
+  oldest: { label: 'Oldest first', filters: { sortBy: 'created', order: 'asc' } },
+  scheduled_soonest: { label: 'Scheduled, soonest first', filters: { sortBy: 'scheduled', order: 'asc' } },
+  scheduled_latest: { label: 'Scheduled, latest first', filters: { sortBy: 'scheduled', order: 'desc' } },
+};
+
+// Tabs that narrow the list to one status
+const tabStatuses: Record<string, string> = {
+  drafts: 'draft',
+  scheduled: 'scheduled',
+  published: 'published',
+};
+
+type ReviewTarget = {
+  role: 'author' | 'approver';
+  post: {
+    id: string;
+    title: string;
+    content: string;
+    platforms: string[];
+    status: string;
+    scheduledAt?: number;
+    authorName?: string;
+    approvalCount?: number;
+    requiredApprovals?: number;
+  };
+};
+
 export function Content() {
   const [viewMode, setViewMode] = useState<ViewMode>('grid');
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [editingContent, setEditingContent] = useState<ContentItem | null>(null);
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   // Filter states
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedStatus, setSelectedStatus] = useState<string | null>(null);
   const [selectedPlatforms, setSelectedPlatforms] = useState<string[]>([]);
+  const [selectedCampaign, setSelectedCampaign] = useState<string | null>(null);
   const [dateRange, setDateRange] = useState<{
     start: string | null;
     end: string | null;
   }>({ start: null, end: null });
 
+  const [activeTab, setActiveTab] = useState('all');
+  const [sort, setSort] = useState<SortOption>('newest');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const userTimezone = useUserTimezone();
+
+  // Search once typing pauses rather than on every keystroke
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Status, platforms, campaign, dates, search and sort are all applied by posts.list
+  const filters: PostFilters = {
+    status: tabStatuses[activeTab] ?? selectedStatus ?? undefined,
+    platforms: selectedPlatforms.length > 0 ? selectedPlatforms : undefined,
+    from: dateRange.start ? zonedTimeToUtc(dateRange.start, '00:00', userTimezone) : undefined,
+    to: dateRange.end ? zonedTimeToUtc(shiftDateKey(dateRange.end, 1), '00:00', userTimezone) : undefined,
+    search: debouncedSearch || undefined,
+    campaignId: (selectedCampaign as Id<'campaigns'> | null) ?? undefined,
+    ...sortOptions[sort].filters,
+  };
+
   // Convex data
-  const posts = usePosts();
+  const { posts, status: pageStatus, loadMore } = usePosts(filters);
   const postStats = usePostStats();
+  const campaigns = useCampaigns();
   const { createPost, updatePost, deletePost, duplicatePost } = usePostMutations();
+  const pendingApprovals = usePendingApprovals();
 
-  // Transform Convex posts to ContentItem format
-  type RawPost = { _id: string; title?: string; content: string; mediaUrls?: string[]; mediaType?: string; platforms: string[]; status: string; scheduledAt?: number; publishedAt?: number };
-  const contentItems: ContentItem[] = useMemo(() => {
-    if (!posts) return [];
-    return posts.map((post: RawPost) => ({
-      id: post._id,
-      title: post.title || '',
-      content: post.content,
-      mediaUrl: post.mediaUrls?.[0],
-      mediaType: post.mediaType as 'image' | 'video' | undefined,
-      platforms: post.platforms,
-      status: post.status as ContentStatus,
-      scheduledAt: post.scheduledAt ? new Date(post.scheduledAt).toISOString() : undefined,
-      publishedAt: post.publishedAt ? new Date(post.publishedAt).toISOString() : undefined,
-    }));
-  }, [posts]);
-
-  // Filter content based on active filters
-  const filteredContent: ContentItem[] = useMemo(() => {
-    return contentItems.filter((item: ContentItem) => {
-      // Search filter
-      if (
-        searchQuery &&
-        !item.title.toLowerCase().includes(searchQuery.toLowerCase()) &&
-        !item.content.toLowerCase().includes(searchQuery.toLowerCase())
-      ) {
-        return false;
-      }
+  const contentItems: ContentItem[] = useMemo(() => posts.map(toContentItem), [posts]);
 
-      // Status filter
-      if (selectedStatus && item.status !== selectedStatus) {
-        return false;
-      }
+  // ?post=<id> (from the header search) opens that post in the editor;
+  // an AI queue item picked there arrives as a draft in the location state
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const linkedPost = useLinkedPost(searchParams.get('post'));
+  const linkedContent = useMemo(() => (linkedPost ? toContentItem(linkedPost) : null), [linkedPost]);
+  const aiDraft = (location.state as { aiDraft?: AIDraft } | null)?.aiDraft ?? null;
+  const editorContent = editingContent ?? linkedContent;
 
-      // Platform filter
-      if (
-        selectedPlatforms.length > 0 &&
-        !item.platforms.some((p: string) => selectedPlatforms.includes(p))
-      ) {
-        return false;
-      }
+  // Posts still around that are picked for bulk actions
+  const selectedPosts = useMemo(
+    () => posts.filter((post) => selectedIds.has(post._id)),
+    [posts, selectedIds]
+  );
 
-      return true;
+  // Fetch the next page as the end of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || pageStatus !== 'CanLoadMore') return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMore();
     });
-  }, [contentItems, searchQuery, selectedStatus, selectedPlatforms]);
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [pageStatus, loadMore]);
 
   const handleEdit = (id: string) => {
     const content = contentItems.find((c: ContentItem) => c.id === id);
@@ -102,6 +194,51 @@ export function Content() {
     }
   };
 
+  const handleSelectChange = (id: string, selected: boolean) => {
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (selected) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const handleReview = (id: string) => {
+    const item = contentItems.find((c: ContentItem) => c.id === id);
+    if (item) {
+      setReviewTarget({
+        role: 'author',
+        post: {
+          ...item,
+          scheduledAt: item.scheduledAt ? new Date(item.scheduledAt).getTime() : undefined,
+        },
+      });
+    }
+  };
+
+  const handleApproverReview = (id: string) => {
+    const post = pendingApprovals?.find((p) => p._id === id);
+    if (post) {
+      setReviewTarget({
+        role: 'approver',
+        post: {
+          id: post._id,
+          title: post.title || '',
+          content: post.content,
+          platforms: post.platforms,
+          status: post.status,
+          scheduledAt: post.scheduledAt,
+          authorName: post.authorName,
+          approvalCount: post.approvals?.length,
+          requiredApprovals: post.requiredApprovals,
+        },
+      });
+    }
+  };
+
   const handleDuplicate = async (id: string) => {
     try {
       await duplicatePost({ postId: id as Id<'posts'> });
@@ -111,7 +248,7 @@ export function Content() {
   };
 
   const handleDelete = async (id: string) => {
-    if (confirm('Are you sure you want to delete this post?')) {
+    if (confirm('Move this post to the trash? You can restore it for 30 days.')) {
       try {
         await deletePost({ postId: id as Id<'posts'> });
       } catch (error) {
@@ -126,23 +263,41 @@ export function Content() {
     platforms: string[];
     status: string;
     scheduledAt?: string;
+    timezone?: string;
     mediaUrls?: string[];
     mediaType?: string;
+    platformSpecificContent?: Record<string, unknown>;
     hashtags?: string[];
+    postType: 'single' | 'thread';
+    threadParts?: ThreadPart[];
+    hashtagPlacement: 'caption' | 'first-comment';
+    campaignId: string | null;
+    pillarId: string | null;
+    addToQueue?: boolean;
+    ignoreDensity?: boolean;
   }) => {
     try {
-      if (editingContent) {
+      if (editorContent) {
         // Update existing post
         await updatePost({
-          postId: editingContent.id as Id<'posts'>,
+          postId: editorContent.id as Id<'posts'>,
           title: data.title,
           content: data.content,
           platforms: data.platforms,
           status: data.status,
           scheduledAt: data.scheduledAt ? new Date(data.scheduledAt).getTime() : undefined,
+          timezone: data.timezone,
           mediaUrls: data.mediaUrls,
           mediaType: data.mediaType,
+          platformSpecificContent: data.platformSpecificContent,
           hashtags: data.hashtags,
+          postType: data.postType,
+          threadParts: data.threadParts,
+          hashtagPlacement: data.hashtagPlacement,
+          campaignId: data.campaignId as Id<'campaigns'> | null,
+          pillarId: data.pillarId as Id<'contentPillars'> | null,
+          queued: data.addToQueue,
+          ignoreDensity: data.ignoreDensity,
         });
       } else {
         // Create new post
@@ -152,19 +307,35 @@ export function Content() {
           platforms: data.platforms,
           status: data.status,
           scheduledAt: data.scheduledAt ? new Date(data.scheduledAt).getTime() : undefined,
+          timezone: data.timezone,
           mediaUrls: data.mediaUrls,
           mediaType: data.mediaType,
+          platformSpecificContent: data.platformSpecificContent,
           hashtags: data.hashtags,
-          wasAiGenerated: false,
+          postType: data.postType,
+          threadParts: data.threadParts,
+          hashtagPlacement: data.hashtagPlacement,
+          campaignId: (data.campaignId as Id<'campaigns'> | null) ?? undefined,
+          pillarId: (data.pillarId as Id<'contentPillars'> | null) ?? undefined,
+          queued: data.addToQueue,
+          ignoreDensity: data.ignoreDensity,
+          wasAiGenerated: aiDraft !== null,
         });
       }
-      setIsEditorOpen(false);
-      setEditingContent(null);
+      closeEditor();
     } catch (error) {
       console.error('Failed to save post:', error);
     }
   };
 
+  const closeEditor = () => {
+    setIsEditorOpen(false);
+    setEditingContent(null);
+    if (linkedContent || aiDraft) {
+      navigate('/content', { replace: true });
+    }
+  };
+
   const handleNewContent = () => {
     setEditingContent(null);
     setIsEditorOpen(true);
@@ -178,18 +349,50 @@ export function Content() {
     published: postStats?.published ?? 0,
   };
 
-  // Loading state
-  const isLoading = posts === undefined;
-
-  if (isLoading) {
-    return (
-      <DashboardLayout>
-        <div className="flex items-center justify-center h-64">
-          <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+  const contentGrid =
+    pageStatus === 'LoadingFirstPage' ? (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+      </div>
+    ) : contentItems.length > 0 || pageStatus !== 'Exhausted' ? (
+      <>
+        <div
+          className={
+            viewMode === 'grid'
+              ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4'
+              : 'space-y-4'
+          }
+        >
+          {contentItems.map((item: ContentItem) => (
+            <ContentCard
+              key={item.id}
+              {...item}
+              onEdit={handleEdit}
+              onDuplicate={handleDuplicate}
+              onDelete={handleDelete}
+              onReview={handleReview}
+              isSelected={selectedIds.has(item.id)}
+              onSelectChange={handleSelectChange}
+            />
+          ))}
+        </div>
+        <div ref={loadMoreRef} className="flex justify-center py-6">
+          {pageStatus === 'LoadingMore' && <Loader2 className="h-6 w-6 animate-spin text-gray-400" />}
         </div>
-      </DashboardLayout>
+      </>
+    ) : (
+      <div className="text-center py-12">
+        <p className="text-gray-500">No content found matching your filters</p>
+        <Button
+          variant="secondary"
+          className="mt-4"
+          onClick={handleNewContent}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Create your first post
+        </Button>
+      </div>
     );
-  }
 
   return (
     <DashboardLayout>
@@ -202,10 +405,16 @@ export function Content() {
               Manage and organize all your social media content
             </p>
           </div>
-          <Button onClick={handleNewContent}>
-            <Plus className="h-4 w-4 mr-1" />
-            Create Post
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" onClick={() => setIsImportOpen(true)}>
+              <Upload className="h-4 w-4 mr-1" />
+              Import
+            </Button>
+            <Button onClick={handleNewContent}>
+              <Plus className="h-4 w-4 mr-1" />
+              Create Post
+            </Button>
+          </div>
         </div>
 
         {/* Stats Summary */}
@@ -229,37 +438,57 @@ export function Content() {
         </div>
 
         {/* Tabs */}
-        <Tabs defaultValue="all">
+        <Tabs defaultValue="all" onChange={setActiveTab}>
           <div className="flex items-center justify-between">
             <TabsList>
               <TabsTrigger value="all">All Content</TabsTrigger>
               <TabsTrigger value="drafts">Drafts</TabsTrigger>
               <TabsTrigger value="scheduled">Scheduled</TabsTrigger>
               <TabsTrigger value="published">Published</TabsTrigger>
+              <TabsTrigger value="approvals">
+                Needs my approval
+                {pendingApprovals && pendingApprovals.length > 0 && ` (${pendingApprovals.length})`}
+              </TabsTrigger>
+              <TabsTrigger value="trash">Trash</TabsTrigger>
             </TabsList>
 
-            {/* View Mode Toggle */}
-            <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
-              <button
-                onClick={() => setViewMode('grid')}
-                className={`p-2 rounded ${
-                  viewMode === 'grid'
-                    ? 'bg-white shadow-sm text-gray-900'
-                    : 'text-gray-500 hover:text-gray-700'
-                }`}
+            <div className="flex items-center gap-3">
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as SortOption)}
+                className="px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                aria-label="Sort by"
               >
-                <LayoutGrid className="h-4 w-4" />
-              </button>
-              <button
-                onClick={() => setViewMode('list')}
-                className={`p-2 rounded ${
-                  viewMode === 'list'
-                    ? 'bg-white shadow-sm text-gray-900'
-                    : 'text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                <List className="h-4 w-4" />
-              </button>
+                {(Object.keys(sortOptions) as SortOption[]).map((option) => (
+                  <option key={option} value={option}>
+                    {sortOptions[option].label}
+                  </option>
+                ))}
+              </select>
+
+              {/* View Mode Toggle */}
+              <div className="flex items-center gap-1 bg-gray-100 rounded-lg p-1">
+                <button
+                  onClick={() => setViewMode('grid')}
+                  className={`p-2 rounded ${
+                    viewMode === 'grid'
+                      ? 'bg-white shadow-sm text-gray-900'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  <LayoutGrid className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setViewMode('list')}
+                  className={`p-2 rounded ${
+                    viewMode === 'list'
+                      ? 'bg-white shadow-sm text-gray-900'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  <List className="h-4 w-4" />
+                </button>
+              </div>
             </div>
           </div>
 
@@ -272,14 +501,48 @@ export function Content() {
               onStatusChange={setSelectedStatus}
               selectedPlatforms={selectedPlatforms}
               onPlatformsChange={setSelectedPlatforms}
+              campaigns={campaigns ?? []}
+              selectedCampaign={selectedCampaign}
+              onCampaignChange={setSelectedCampaign}
               dateRange={dateRange}
               onDateRangeChange={setDateRange}
             />
           </div>
 
+          {selectedPosts.length > 0 && (
+            <div className="mt-4">
+              <BulkActionBar
+                selected={selectedPosts}
+                totalCount={contentItems.length}
+                onSelectAll={() => setSelectedIds(new Set(contentItems.map((item: ContentItem) => item.id)))}
+                onClear={() => setSelectedIds(new Set())}
+              />
+            </div>
+          )}
+
           {/* Content Grid */}
           <TabsContent value="all" className="mt-6">
-            {filteredContent.length > 0 ? (
+            {contentGrid}
+          </TabsContent>
+
+          <TabsContent value="drafts" className="mt-6">
+            {contentGrid}
+          </TabsContent>
+
+          <TabsContent value="scheduled" className="mt-6">
+            {contentGrid}
+          </TabsContent>
+
+          <TabsContent value="published" className="mt-6">
+            {contentGrid}
+          </TabsContent>
+
+          <TabsContent value="approvals" className="mt-6">
+            {pendingApprovals === undefined ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+              </div>
+            ) : pendingApprovals.length > 0 ? (
               <div
                 className={
                   viewMode === 'grid'
@@ -287,109 +550,54 @@ export function Content() {
                     : 'space-y-4'
                 }
               >
-                {filteredContent.map((item: ContentItem) => (
+                {pendingApprovals.map((post) => (
                   <ContentCard
-                    key={item.id}
-                    {...item}
-                    onEdit={handleEdit}
-                    onDuplicate={handleDuplicate}
-                    onDelete={handleDelete}
+                    key={post._id}
+                    id={post._id}
+                    title={post.title || ''}
+                    content={post.content}
+                    mediaUrl={post.mediaUrls?.[0]}
+                    mediaType={post.mediaType as 'image' | 'video' | undefined}
+                    platforms={post.platforms}
+                    status="pending_approval"
+                    scheduledAt={post.scheduledAt ? new Date(post.scheduledAt).toISOString() : undefined}
+                    authorName={post.authorName}
+                    onReview={handleApproverReview}
                   />
                 ))}
               </div>
             ) : (
               <div className="text-center py-12">
-                <p className="text-gray-500">No content found matching your filters</p>
-                <Button
-                  variant="secondary"
-                  className="mt-4"
-                  onClick={handleNewContent}
-                >
-                  <Plus className="h-4 w-4 mr-1" />
-                  Create your first post
-                </Button>
+                <p className="text-gray-500">Nothing is waiting on your approval</p>
               </div>
             )}
           </TabsContent>
 
-          <TabsContent value="drafts" className="mt-6">
-            <div
-              className={
-                viewMode === 'grid'
-                  ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4'
-                  : 'space-y-4'
-              }
-            >
-              {filteredContent
-                .filter((item: ContentItem) => item.status === 'draft')
-                .map((item: ContentItem) => (
-                  <ContentCard
-                    key={item.id}
-                    {...item}
-                    onEdit={handleEdit}
-                    onDuplicate={handleDuplicate}
-                    onDelete={handleDelete}
-                  />
-                ))}
-            </div>
-          </TabsContent>
-
-          <TabsContent value="scheduled" className="mt-6">
-            <div
-              className={
-                viewMode === 'grid'
-                  ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4'
-                  : 'space-y-4'
-              }
-            >
-              {filteredContent
-                .filter((item: ContentItem) => item.status === 'scheduled')
-                .map((item: ContentItem) => (
-                  <ContentCard
-                    key={item.id}
-                    {...item}
-                    onEdit={handleEdit}
-                    onDuplicate={handleDuplicate}
-                    onDelete={handleDelete}
-                  />
-                ))}
-            </div>
-          </TabsContent>
-
-          <TabsContent value="published" className="mt-6">
-            <div
-              className={
-                viewMode === 'grid'
-                  ? 'grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4'
-                  : 'space-y-4'
-              }
-            >
-              {filteredContent
-                .filter((item: ContentItem) => item.status === 'published')
-                .map((item: ContentItem) => (
-                  <ContentCard
-                    key={item.id}
-                    {...item}
-                    onEdit={handleEdit}
-                    onDuplicate={handleDuplicate}
-                    onDelete={handleDelete}
-                  />
-                ))}
-            </div>
+          <TabsContent value="trash" className="mt-6">
+            <TrashList />
           </TabsContent>
         </Tabs>
       </div>
 
       {/* Content Editor Modal */}
       <ContentEditor
-        isOpen={isEditorOpen}
-        onClose={() => {
-          setIsEditorOpen(false);
-          setEditingContent(null);
-        }}
-        initialData={editingContent || undefined}
+        key={editorContent?.id ?? (aiDraft ? `ai-${aiDraft.queueItemId}` : 'new')}
+        isOpen={isEditorOpen || editorContent !== null || aiDraft !== null}
+        onClose={closeEditor}
+        initialData={editorContent ?? (aiDraft ? { title: '', ...aiDraft } : undefined)}
         onSave={handleSave}
       />
+
+      <PostImportDialog isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} />
+
+      {reviewTarget && (
+        <ReviewDialog
+          isOpen
+          onClose={() => setReviewTarget(null)}
+          role={reviewTarget.role}
+          post={reviewTarget.post}
+        />
+      )}
     </DashboardLayout>
   );
 }
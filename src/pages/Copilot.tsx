@@ -17,8 +17,13 @@ import {
   BarChart3,
   Zap,
   Target,
+  Layers,
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useUserTimezone } from '../hooks/convex/useUser';
+import { useUpcomingEvents } from '../hooks/convex/useEvents';
+import { usePillarMix } from '../hooks/convex/usePillars';
+import { getDateKeyWeekday, shiftDateKey, toZonedDateKey, zonedTimeToUtc } from '../lib/timezone';
 
 type Platform = 'instagram' | 'facebook' | 'twitter' | 'linkedin' | 'youtube' | 'tiktok';
 
@@ -32,12 +37,22 @@ interface SuggestedPost {
     label: string;
     confidence: number;
   };
-  bestPostTime: { day: string; time: string } | null;
+  bestPostTime: { day: string; time: string; timezone?: string; nextAt?: number | null } | null;
   contentType: 'text' | 'image' | 'video';
   mediaPrompt?: string;
   status: 'pending' | 'approved' | 'rejected' | 'edited';
 }
 
+// One slot of the recommender's weekly plan, tagged with the pillar it should cover
+interface WeeklyPlanSlot {
+  day: string;
+  platform: string;
+  contentType: string;
+  suggestedTime: string;
+  topic?: string;
+  pillar?: string;
+}
+
 interface Recommendation {
   type: 'insight' | 'action' | 'tip';
   title: string;
@@ -65,6 +80,7 @@ const PLATFORM_NAMES: Record<Platform, string> = {
 
 export function Copilot() {
   const { user } = useAuth();
+  const timezone = useUserTimezone();
   const [suggestedPosts, setSuggestedPosts] = useState<SuggestedPost[]>([]);
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
@@ -72,6 +88,41 @@ export function Copilot() {
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editContent, setEditContent] = useState('');
+  const upcomingEvents = useUpcomingEvents();
+  const [topic, setTopic] = useState(''); // Upcoming event to write about; empty lets the AI choose
+
+  // This week's pillar mix (from Monday), so the weekly plan fills the gaps
+  const [now] = useState(() => Date.now());
+  const todayKey = toZonedDateKey(now, timezone);
+  const weekStart = shiftDateKey(todayKey, -((getDateKeyWeekday(todayKey) + 6) % 7));
+  const pillarMix = usePillarMix({
+    from: zonedTimeToUtc(weekStart, '00:00', timezone),
+    to: zonedTimeToUtc(shiftDateKey(weekStart, 7), '00:00', timezone),
+  });
+  const [weeklyPlan, setWeeklyPlan] = useState<WeeklyPlanSlot[]>([]);
+
+  useEffect(() => {
+    if (!user || !pillarMix) return;
+    let cancelled = false;
+
+    fetch('/api/ml/recommend', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        userId: user.id,
+        pillars: pillarMix.pillars.map(({ name, targetPercent, count }) => ({ name, targetPercent, count })),
+      }),
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled && data) setWeeklyPlan(data.weeklyPlan ?? []);
+      })
+      .catch((error) => console.error('Error loading weekly plan:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, pillarMix]);
 
   const generateSuggestions = useCallback(async () => {
     if (!user) return;
@@ -91,6 +142,8 @@ export function Copilot() {
             contentType: 'text',
             includeHashtags: true,
             includeCTA: true,
+            timezone,
+            topic: topic || undefined,
           }),
         });
 
@@ -138,7 +191,7 @@ export function Copilot() {
     } finally {
       setIsGenerating(false);
     }
-  }, [user, selectedPlatforms]);
+  }, [user, selectedPlatforms, timezone, topic]);
 
   useEffect(() => {
     if (user && suggestedPosts.length === 0) {
@@ -244,6 +297,33 @@ export function Copilot() {
               </button>
             ))}
           </div>
+          {upcomingEvents && upcomingEvents.length > 0 && (
+            <div className="mt-4 flex items-center gap-3">
+              <label htmlFor="copilot-topic" className="text-sm font-medium text-gray-700">
+                Write about:
+              </label>
+              <select
+                id="copilot-topic"
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                className="px-3 py-2 rounded-lg border border-gray-300 bg-white text-sm text-gray-900 focus:border-primary-500 focus:ring-1 focus:ring-primary-500"
+              >
+                <option value="">Anything (AI picks)</option>
+                {upcomingEvents.map((event) => {
+                  const date = new Date(event.startAt).toLocaleDateString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    timeZone: event.allDay ? 'UTC' : timezone,
+                  });
+                  return (
+                    <option key={event._id} value={`${event.title} on ${date}`}>
+                      {event.title} · {date}
+                    </option>
+                  );
+                })}
+              </select>
+            </div>
+          )}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -344,7 +424,10 @@ export function Copilot() {
                             {post.bestPostTime && (
                               <div className="flex items-center gap-1">
                                 <Clock className="h-4 w-4" />
-                                <span>Best time: {post.bestPostTime.day} {post.bestPostTime.time}</span>
+                                <span>
+                                  Best time: {post.bestPostTime.day} {post.bestPostTime.time}
+                                  {post.bestPostTime.timezone && ` (${post.bestPostTime.timezone})`}
+                                </span>
                               </div>
                             )}
                             {post.mediaPrompt && (
@@ -462,6 +545,35 @@ export function Copilot() {
               </div>
             </div>
 
+            {/* Weekly Plan */}
+            {weeklyPlan.length > 0 && (
+              <div className="bg-white rounded-xl p-4 border border-gray-200">
+                <h3 className="text-sm font-medium text-gray-700 mb-3 flex items-center gap-2">
+                  <Layers className="h-4 w-4 text-primary-500" />
+                  This Week's Plan
+                </h3>
+                <ul className="space-y-2">
+                  {weeklyPlan.map((slot, i) => {
+                    const color = pillarMix?.pillars.find((pillar) => pillar.name === slot.pillar)?.color;
+                    return (
+                      <li key={i} className="flex items-center justify-between gap-2 text-xs">
+                        <span className="text-gray-900">
+                          <span className="font-medium">{slot.day.slice(0, 3)}</span>{' '}
+                          {PLATFORM_NAMES[slot.platform as Platform] ?? slot.platform} · {slot.suggestedTime}
+                        </span>
+                        {(slot.pillar || slot.topic) && (
+                          <span className="flex items-center gap-1 text-gray-600 truncate">
+                            {color && <span className="h-2 w-2 flex-shrink-0 rounded-full" style={{ backgroundColor: color }} />}
+                            {slot.pillar ?? slot.topic}
+                          </span>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
             {/* Scheduling CTA */}
             <div className="bg-gradient-to-br from-primary-500 to-primary-700 rounded-xl p-4 text-white">
               <div className="flex items-center gap-2 mb-2">
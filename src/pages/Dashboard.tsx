@@ -12,6 +12,7 @@ import {
   UpcomingPosts,
   RecommendationsCard,
   EngagementChart,
+  PillarMixCard,
 } from '../components/dashboard';
 import {
   useDashboardStats,
@@ -20,6 +21,9 @@ import {
   useUpcomingPosts,
   useRecommendations,
 } from '../hooks/convex/useAnalytics';
+import { useUserTimezone } from '../hooks/convex/useUser';
+import { usePillarMix } from '../hooks/convex/usePillars';
+import { getDateKeyWeekday, shiftDateKey, toZonedDateKey, zonedTimeToUtc } from '../lib/timezone';
 
 // Fallback mock data for when Convex is not connected yet
 const fallbackStats = {
@@ -96,6 +100,22 @@ export function Dashboard() {
   const platformStats = usePlatformStats();
   const upcomingPosts = useUpcomingPosts(4);
   const recommendations = useRecommendations();
+  const timezone = useUserTimezone();
+
+  // This week (from Monday) or this month, in the user's timezone
+  const [now] = useState(() => Date.now());
+  const [mixPeriod, setMixPeriod] = useState<'week' | 'month'>('week');
+  const todayKey = toZonedDateKey(now, timezone);
+  const periodStart =
+    mixPeriod === 'week' ? shiftDateKey(todayKey, -((getDateKeyWeekday(todayKey) + 6) % 7)) : `${todayKey.slice(0, 8)}01`;
+  const periodEnd =
+    mixPeriod === 'week'
+      ? shiftDateKey(periodStart, 7)
+      : new Date(Date.UTC(Number(todayKey.slice(0, 4)), Number(todayKey.slice(5, 7)), 1)).toISOString().slice(0, 10);
+  const pillarMix = usePillarMix({
+    from: zonedTimeToUtc(periodStart, '00:00', timezone),
+    to: zonedTimeToUtc(periodEnd, '00:00', timezone),
+  });
 
   // Use real data if available, otherwise fall back to defaults
   const stats = dashboardStats ?? fallbackStats;
@@ -243,9 +263,18 @@ export function Dashboard() {
         </div>
       </div>
 
+      {/* Content Pillars */}
+      <PillarMixCard
+        pillars={pillarMix?.pillars ?? []}
+        untagged={pillarMix?.untagged ?? 0}
+        total={pillarMix?.total ?? 0}
+        period={mixPeriod}
+        onPeriodChange={setMixPeriod}
+      />
+
       {/* Two Column Layout */}
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
-        <UpcomingPosts posts={upcomingPostsList} />
+        <UpcomingPosts posts={upcomingPostsList} timeZone={timezone} />
         <RecommendationsCard
           recommendations={recommendationsList}
           onDismiss={(id) => console.log('Dismissed:', id)}
@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { Recycle, Plus, X, Loader2, TrendingUp, Clock } from 'lucide-react';
+import { DashboardLayout } from '../components/layout';
+import { Button } from '../components/ui/Button';
+import { Badge } from '../components/ui/Badge';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '../components/ui/Card';
+import {
+  useEvergreenSettings,
+  useEvergreenLibrary,
+  useEvergreenSuggestions,
+  useSaveEvergreenSettings,
+  useSetEvergreen,
+  type EvergreenRotation,
+  type EvergreenSettings,
+  type PerformanceSummary,
+} from '../hooks/convex/useEvergreen';
+import { WEEKDAY_LABELS } from '../lib/recurrence';
+import type { Id } from '../../convex/_generated/dataModel';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+function RotationPolicyCard({ settings }: { settings: EvergreenSettings }) {
+  const saveSettings = useSaveEvergreenSettings();
+  const [enabled, setEnabled] = useState(settings.enabled);
+  const [weekdays, setWeekdays] = useState<number[]>(settings.weekdays);
+  const [times, setTimes] = useState<string[]>(settings.times);
+  const [rotation, setRotation] = useState<EvergreenRotation>(settings.rotation);
+  const [minGapDays, setMinGapDays] = useState(settings.defaultMinGapDays);
+  const [newTime, setNewTime] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const toggleWeekday = (weekday: number) => {
+    setWeekdays(
+      weekdays.includes(weekday) ? weekdays.filter((d) => d !== weekday) : [...weekdays, weekday].sort((a, b) => a - b)
+    );
+  };
+
+  const addTime = () => {
+    if (newTime && !times.includes(newTime)) {
+      setTimes([...times, newTime].sort());
+    }
+    setNewTime('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveSettings({ enabled, weekdays, times, rotation, defaultMinGapDays: minGapDays });
+    } catch (error) {
+      console.error('Failed to save rotation policy:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Rotation Policy</CardTitle>
+            <CardDescription>Empty slots in the next 7 days are filled from the library</CardDescription>
+          </div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Auto-fill
+          </label>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Slot days</label>
+          <div className="flex gap-1">
+            {WEEKDAY_LABELS.map((label, weekday) => (
+              <button
+                key={label}
+                onClick={() => toggleWeekday(weekday)}
+                className={`w-10 py-1.5 rounded-lg border text-xs font-medium transition-colors ${
+                  weekdays.includes(weekday)
+                    ? 'border-primary-500 bg-primary-50 text-primary-700'
+                    : 'border-gray-300 text-gray-600 hover:border-gray-400'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Slot times</label>
+          <div className="flex flex-wrap items-center gap-2">
+            {times.map((time) => (
+              <Badge key={time} variant="secondary" className="gap-1">
+                {time}
+                <button onClick={() => setTimes(times.filter((t) => t !== time))}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            <input
+              type="time"
+              value={newTime}
+              onChange={(e) => setNewTime(e.target.value)}
+              className="px-3 py-1.5 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+            />
+            <Button variant="secondary" size="sm" onClick={addTime} disabled={!newTime}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Rotation</label>
+            <select
+              value={rotation}
+              onChange={(e) => setRotation(e.target.value as EvergreenRotation)}
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+            >
+              <option value="round_robin">Least recently posted first</option>
+              <option value="top_performing">Best performing first</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Minimum gap (days)</label>
+            <input
+              type="number"
+              min={1}
+              value={minGapDays}
+              onChange={(e) => setMinGapDays(Math.max(1, Number(e.target.value) || 1))}
+              className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={isSaving || (enabled && (weekdays.length === 0 || times.length === 0))}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save Policy
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PerformanceLine({ performance }: { performance: PerformanceSummary }) {
+  return (
+    <span className="flex items-center gap-1 text-xs text-gray-500">
+      <TrendingUp className="h-3 w-3" />
+      {performance.engagementRate}% engagement · {performance.impressions.toLocaleString()} impressions
+    </span>
+  );
+}
+
+export function Evergreen() {
+  const settings = useEvergreenSettings();
+  const library = useEvergreenLibrary();
+  const suggestions = useEvergreenSuggestions();
+  const setEvergreen = useSetEvergreen();
+  const [now] = useState(() => Date.now());
+
+  const handleToggle = async (postId: Id<'posts'>, evergreen: boolean, minGapDays?: number) => {
+    try {
+      await setEvergreen({ postId, evergreen, minGapDays });
+    } catch (error) {
+      console.error('Failed to update evergreen library:', error);
+    }
+  };
+
+  if (settings === undefined || library === undefined) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center h-64">
+          <Loader2 className="h-8 w-8 animate-spin text-primary-600" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Evergreen Library</h1>
+          <p className="text-gray-500 mt-1">
+            Recycle your best posts with fresh AI variations
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Library */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Library</CardTitle>
+                <CardDescription>{library.length} recyclable posts</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {library.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-8">
+                    Add high-performing posts from the suggestions to start recycling
+                  </p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {library.map((post) => (
+                      <li key={post._id} className="flex items-start gap-4 px-6 py-4">
+                        <Recycle className="h-5 w-5 text-green-500 mt-0.5 flex-shrink-0" />
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {post.title || post.content.slice(0, 60)}
+                          </p>
+                          <PerformanceLine performance={post.performance} />
+                          <span className="flex items-center gap-1 text-xs text-gray-500">
+                            <Clock className="h-3 w-3" />
+                            Reposted {post.recycleCount ?? 0}×
+                            {post.nextEligibleAt > now
+                              ? ` · next eligible ${formatDate(post.nextEligibleAt)}`
+                              : ' · eligible now'}
+                          </span>
+                        </div>
+                        <label className="flex items-center gap-1 text-xs text-gray-500">
+                          Gap
+                          <input
+                            type="number"
+                            min={1}
+                            defaultValue={post.evergreenMinGapDays ?? settings.defaultMinGapDays}
+                            onBlur={(e) =>
+                              handleToggle(post._id, true, Math.max(1, Number(e.target.value) || 1))
+                            }
+                            className="w-14 px-2 py-1 rounded border border-gray-300 text-xs"
+                          />
+                          d
+                        </label>
+                        <Button variant="ghost" size="sm" onClick={() => handleToggle(post._id, false)}>
+                          Remove
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Suggestions */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Top Performers</CardTitle>
+                <CardDescription>Published posts worth adding to the library</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                {!suggestions || suggestions.length === 0 ? (
+                  <p className="text-sm text-gray-500 text-center py-8">No suggestions right now</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {suggestions.map((post) => (
+                      <li key={post._id} className="flex items-center gap-4 px-6 py-4">
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <p className="text-sm font-medium text-gray-900 truncate">
+                            {post.title || post.content.slice(0, 60)}
+                          </p>
+                          <PerformanceLine performance={post.performance} />
+                        </div>
+                        <Button variant="secondary" size="sm" onClick={() => handleToggle(post._id, true)}>
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <RotationPolicyCard
+            key={settings.updatedAt}
+            settings={settings}
+          />
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
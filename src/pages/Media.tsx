@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { DashboardLayout } from '../components/layout';
+import { Card, CardContent } from '../components/ui/Card';
+import { MediaBrowser, MediaAssetPanel } from '../components/media';
+import { useMediaLibrary } from '../hooks/convex/useMedia';
+import type { Id } from '../../convex/_generated/dataModel';
+
+export function Media() {
+  const assets = useMediaLibrary();
+  const [activeId, setActiveId] = useState<Id<'mediaAssets'> | null>(null);
+
+  // Looked up live so edits and deletes elsewhere show straight away
+  const active = assets?.find((asset) => asset._id === activeId);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Media Library</h1>
+          <p className="text-gray-500 mt-1">Images and videos for your posts, including everything made in AI Studio</p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <Card className={active ? 'lg:col-span-2' : 'lg:col-span-3'}>
+            <CardContent className="p-4">
+              <MediaBrowser
+                activeId={active?._id}
+                onClick={(asset) => setActiveId(asset._id === activeId ? null : asset._id)}
+              />
+            </CardContent>
+          </Card>
+          {active && (
+            <div>
+              <MediaAssetPanel key={active._id} asset={active} onClose={() => setActiveId(null)} />
+            </div>
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -5,3 +5,6 @@ export { Content } from './Content';
 export { Calendar } from './Calendar';
 export { Analytics } from './Analytics';
 export { AIStudio } from './AIStudio';
+export { Evergreen } from './Evergreen';
+export { Campaigns } from './Campaigns';
+export { Media } from './Media';